@@ -0,0 +1,284 @@
+import React, { useMemo, useState } from 'react';
+import { Candle } from '../types/trading';
+import { LearningMineDefinition, PlotterModuleDefinition, ProductDefinition } from '../types/learning';
+import {
+  ChartPoint,
+  PlotterPolygon,
+  PlotterRecord,
+  PlotterRenderer,
+  PlotterShapes,
+  PlotterShapeStyle
+} from '../services/plotterRenderer';
+import { Layers, LineChart, AlertTriangle } from 'lucide-react';
+
+interface LearningPlotterProps {
+  candles: Candle[];
+  mine: LearningMineDefinition;
+  datasets: Record<string, unknown[][]>; // dataset rows by product code name, e.g. LearningDatasetWriter.getRecords
+  height?: number;
+}
+
+interface ModuleView {
+  module: PlotterModuleDefinition;
+  product?: ProductDefinition;
+  records: PlotterRecord[];
+  shapes: PlotterShapes;
+  oscillator: boolean; // drawn in the lower pane on its own scale
+}
+
+interface Scale {
+  x: (time: number) => number;
+  y: (value: number) => number;
+}
+
+const WIDTH = 960;
+const PADDING = 8;
+const OFFSET_SCALE = 0.1; // text and image offsets are sized for the full-screen Superalgos canvas
+
+export const LearningPlotter: React.FC<LearningPlotterProps> = ({ candles, mine, datasets, height = 420 }) => {
+  const renderer = PlotterRenderer.getInstance();
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+
+  const views = useMemo<ModuleView[]>(() => {
+    const products = mine.bots.flatMap(bot => bot.products);
+    const countersProduct = renderer.findCountersProduct(products);
+    const counters = countersProduct ? renderer.toRecords(countersProduct, datasets[countersProduct.codeName] || []) : [];
+    return mine.plotters.flatMap(plotter => plotter.modules).map(module => {
+      const product = renderer.findProduct(module, products);
+      const records = product ? renderer.toRecords(product, datasets[product.codeName] || [], counters) : [];
+      return {
+        module,
+        product,
+        records,
+        shapes: renderer.renderShapes(module, records),
+        oscillator: module.node.config.icon === 'oscillator'
+      };
+    });
+  }, [mine, datasets]);
+
+  const visible = views.filter(view => view.records.length > 0 && !hidden.has(view.module.id));
+  const hasOscillators = visible.some(view => view.oscillator && view.shapes.polygons.length > 0);
+  const priceHeight = hasOscillators ? Math.round(height * 0.65) : height;
+
+  const times = candles.map(candle => candle.timestamp.getTime());
+  const interval = times.length > 1 ? times[1] - times[0] : 60 * 60 * 1000;
+  const start = times.length ? times[0] : Math.min(...visible.map(view => Number(view.records[0].begin)));
+  const end = times.length ? times[times.length - 1] + interval : Math.max(...visible.map(view => Number(view.records[view.records.length - 1].end)));
+
+  const overlayPoints = visible.filter(view => !view.oscillator).flatMap(view => shapePoints(view.shapes));
+  const oscillatorPoints = visible.filter(view => view.oscillator).flatMap(view => shapePoints(view.shapes));
+  const priceScale = createScale(
+    start, end,
+    [...candles.flatMap(candle => [candle.low, candle.high]), ...overlayPoints.map(point => point.y)],
+    PADDING, priceHeight - PADDING
+  );
+  const oscillatorScale = createScale(start, end, oscillatorPoints.map(point => point.y), priceHeight + PADDING, height - PADDING);
+
+  const toggleModule = (id: string) => {
+    const next = new Set(hidden);
+    next.has(id) ? next.delete(id) : next.add(id);
+    setHidden(next);
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const ratio = (event.clientX - bounds.left) / bounds.width;
+    setHoverTime(start + ratio * (end - start));
+  };
+
+  const isHovered = (polygon: PlotterPolygon) =>
+    hoverTime !== null && polygon.begin <= hoverTime && hoverTime <= polygon.end;
+
+  const errors = visible.flatMap(view => view.shapes.errors.map(error => ({ ...error, module: view.module.name })));
+
+  if (visible.length === 0 && candles.length === 0) {
+    return (
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <div className="text-center py-8 text-gray-500">
+          <LineChart className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p>No learning data to plot</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-gray-900 flex items-center">
+          <LineChart className="w-6 h-6 mr-2 text-blue-600" />
+          {mine.name} Learning Mine
+        </h3>
+        {hoverTime !== null && (
+          <span className="text-xs text-gray-500">{new Date(hoverTime).toISOString().slice(0, 16).replace('T', ' ')}</span>
+        )}
+      </div>
+
+      {/* Module Toggles */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        <Layers className="w-4 h-4 text-gray-500 mt-1" />
+        {views.filter(view => view.records.length > 0).map(view => (
+          <button
+            key={view.module.id}
+            onClick={() => toggleModule(view.module.id)}
+            className={`px-2 py-1 text-xs rounded-full transition-colors ${
+              hidden.has(view.module.id) ? 'bg-gray-100 text-gray-400' : 'bg-blue-100 text-blue-800'
+            }`}
+          >
+            {view.module.name}
+          </button>
+        ))}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full bg-gray-50 rounded-lg"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverTime(null)}
+      >
+        {candles.map(candle => {
+          const time = candle.timestamp.getTime();
+          const x0 = priceScale.x(time);
+          const x1 = priceScale.x(time + interval);
+          const color = candle.close >= candle.open ? '#16a34a' : '#dc2626';
+          return (
+            <g key={time}>
+              <line x1={(x0 + x1) / 2} x2={(x0 + x1) / 2} y1={priceScale.y(candle.high)} y2={priceScale.y(candle.low)} stroke={color} />
+              <rect
+                x={x0 + 1}
+                width={Math.max(1, x1 - x0 - 2)}
+                y={priceScale.y(Math.max(candle.open, candle.close))}
+                height={Math.max(1, Math.abs(priceScale.y(candle.open) - priceScale.y(candle.close)))}
+                fill={color}
+              />
+            </g>
+          );
+        })}
+
+        {hasOscillators && (
+          <line x1={0} x2={WIDTH} y1={priceHeight} y2={priceHeight} stroke="#e5e7eb" />
+        )}
+
+        {visible.map(view => {
+          const scale = view.oscillator ? oscillatorScale : priceScale;
+          return (
+            <g key={view.module.id}>
+              {view.shapes.polygons.map((polygon, index) => {
+                const hovered = isHovered(polygon);
+                const fill = hovered ? polygon.hoverFill : polygon.fill;
+                const border = hovered ? polygon.hoverBorder : polygon.border;
+                return (
+                  <polygon
+                    key={`${polygon.nodeId}-${index}`}
+                    points={polygon.points.map(point => `${scale.x(point.x)},${scale.y(point.y)}`).join(' ')}
+                    {...shapeStyle(fill, border)}
+                  />
+                );
+              })}
+              {view.shapes.images.map((image, index) => (
+                <circle
+                  key={`${image.nodeId}-${index}`}
+                  cx={scale.x(image.at.x) + image.offsetX * OFFSET_SCALE}
+                  cy={scale.y(image.at.y) + image.offsetY * OFFSET_SCALE}
+                  r={image.size / 6}
+                  fill={image.codeName.includes('error') ? '#dc2626' : image.codeName.includes('warning') ? '#f59e0b' : '#2563eb'}
+                >
+                  <title>{image.codeName}</title>
+                </circle>
+              ))}
+              {view.shapes.texts.map((text, index) => (
+                <text
+                  key={`${text.nodeId}-${index}`}
+                  x={scale.x(text.at.x) + text.offsetX * OFFSET_SCALE}
+                  y={scale.y(text.at.y) + text.offsetY * OFFSET_SCALE}
+                  fill={text.color}
+                  opacity={text.opacity}
+                  fontSize={text.fontSize}
+                  textAnchor="middle"
+                >
+                  {text.text}
+                </text>
+              ))}
+            </g>
+          );
+        })}
+
+        {hoverTime !== null && (
+          <line x1={priceScale.x(hoverTime)} x2={priceScale.x(hoverTime)} y1={0} y2={height} stroke="#9ca3af" strokeDasharray="4 4" />
+        )}
+      </svg>
+
+      {/* Panel Data */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+        {visible.flatMap(view => renderer.renderPanels(view.module, view.records, hoverTime ?? undefined)).map(panel => (
+          <div key={panel.nodeId} className="bg-gray-50 rounded-lg p-3">
+            <h4 className="text-sm font-medium text-gray-700 mb-2">{panel.name}</h4>
+            <dl className="space-y-1">
+              {panel.values.map(value => (
+                <div key={value.nodeId} className="flex justify-between text-xs">
+                  <dt className="text-gray-600">{value.name}</dt>
+                  <dd className={value.error ? 'text-red-600' : 'font-medium text-gray-900'} title={value.error}>
+                    {value.error ? 'error' : value.value}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-3">
+          <div className="flex items-center space-x-2 mb-2">
+            <AlertTriangle className="w-4 h-4 text-red-500" />
+            <span className="text-sm font-medium text-red-800">Formula errors</span>
+          </div>
+          <ul className="text-xs text-red-700 space-y-1">
+            {errors.slice(0, 10).map(error => (
+              <li key={`${error.module}-${error.nodeId}`}>
+                {error.module} · {error.nodeId}: {error.message} ({error.count}x)
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+function shapePoints(shapes: PlotterShapes): ChartPoint[] {
+  return [
+    ...shapes.polygons.flatMap(polygon => polygon.points),
+    ...shapes.texts.map(text => text.at),
+    ...shapes.images.map(image => image.at)
+  ];
+}
+
+function createScale(start: number, end: number, values: number[], top: number, bottom: number): Scale {
+  const finite = values.filter(value => isFinite(value));
+  let min = finite.length ? Math.min(...finite) : 0;
+  let max = finite.length ? Math.max(...finite) : 1;
+  if (max === min) {
+    max += 1;
+    min -= 1;
+  }
+  const margin = (max - min) * 0.05;
+  const span = end - start || 1;
+
+  return {
+    x: time => ((time - start) / span) * WIDTH,
+    y: value => bottom - ((value - min + margin) / (max - min + 2 * margin)) * (bottom - top)
+  };
+}
+
+function shapeStyle(fill?: PlotterShapeStyle, border?: PlotterShapeStyle): React.SVGProps<SVGPolygonElement> {
+  return {
+    fill: fill ? fill.color : 'none',
+    fillOpacity: fill?.opacity,
+    stroke: border ? border.color : 'none',
+    strokeOpacity: border?.opacity,
+    strokeWidth: border?.lineWidth,
+    strokeDasharray: border && border.lineDash.some(dash => dash > 0) ? border.lineDash.join(' ') : undefined
+  };
+}
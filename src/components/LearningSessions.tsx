@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import {
+  LearningSessionState,
+  LearningSessionStatus,
+  LearningSystemOrchestrator
+} from '../services/learningSystemOrchestrator';
+import { Cpu, Play, Square, RotateCw, AlertCircle, CheckCircle } from 'lucide-react';
+
+export const LearningSessions: React.FC = () => {
+  const orchestrator = LearningSystemOrchestrator.getInstance();
+  const [sessions, setSessions] = useState<LearningSessionStatus[]>(orchestrator.getSessions());
+
+  useEffect(() => {
+    setSessions(orchestrator.getSessions());
+    return orchestrator.onStatusChange(status => {
+      setSessions(current => {
+        const known = current.some(session => session.id === status.id);
+        return known
+          ? current.map(session => (session.id === status.id ? status : session))
+          : [...current, status];
+      });
+    });
+  }, []);
+
+  const startSession = (id: string) => {
+    orchestrator.start(id).catch(error => {
+      console.error('Error starting learning session:', error);
+    });
+  };
+
+  const isActive = (state: LearningSessionState) =>
+    state === 'Running' || state === 'Waiting' || state === 'Retrying';
+
+  const getStateColor = (state: LearningSessionState) => {
+    switch (state) {
+      case 'Running': return 'bg-blue-100 text-blue-800';
+      case 'Waiting': return 'bg-gray-100 text-gray-800';
+      case 'Retrying': return 'bg-yellow-100 text-yellow-800';
+      case 'Finished': return 'bg-green-100 text-green-800';
+      case 'Failed': return 'bg-red-100 text-red-800';
+      default: return 'bg-gray-100 text-gray-600';
+    }
+  };
+
+  const getStateIcon = (state: LearningSessionState) => {
+    switch (state) {
+      case 'Running': return <RotateCw className="w-4 h-4 animate-spin" />;
+      case 'Finished': return <CheckCircle className="w-4 h-4" />;
+      case 'Failed': return <AlertCircle className="w-4 h-4" />;
+      default: return null;
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-gray-900 flex items-center">
+          <Cpu className="w-6 h-6 mr-2 text-indigo-600" />
+          Learning Sessions
+        </h3>
+      </div>
+
+      {sessions.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <Cpu className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p>No learning sessions configured</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {sessions.map(session => (
+            <div key={session.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <h4 className="text-lg font-semibold text-gray-900">{session.name}</h4>
+                  <p className="text-xs text-gray-500">
+                    {session.system} · {session.engine} · {session.bot}/{session.process} · {session.market.exchange}{' '}
+                    {session.market.baseAsset}/{session.market.quotedAsset} · {session.type}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className={`px-3 py-1 rounded-full text-sm font-medium flex items-center space-x-1 ${getStateColor(session.state)}`}>
+                    {getStateIcon(session.state)}
+                    <span>{session.state}</span>
+                  </span>
+                  {isActive(session.state) ? (
+                    <button
+                      onClick={() => orchestrator.stop(session.id)}
+                      className="p-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                      title="Stop"
+                    >
+                      <Square className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => startSession(session.id)}
+                      className="p-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                      title="Start"
+                    >
+                      <Play className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="w-full bg-gray-200 rounded-full h-2 mb-3">
+                <div
+                  className="h-2 rounded-full bg-indigo-500 transition-all duration-300"
+                  style={{ width: `${Math.round(session.progress * 100)}%` }}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-3">
+                <div>
+                  <span className="text-gray-500">Runs</span>
+                  <div className="font-medium text-gray-900">{session.runs}</div>
+                </div>
+                <div>
+                  <span className="text-gray-500">Retries</span>
+                  <div className="font-medium text-gray-900">{session.retries}</div>
+                </div>
+                <div>
+                  <span className="text-gray-500">Hit Ratio</span>
+                  <div className="font-medium text-gray-900">
+                    {session.result ? `${(session.result.hitRatio * 100).toFixed(1)}%` : '-'}
+                  </div>
+                </div>
+                <div>
+                  <span className="text-gray-500">Next Run</span>
+                  <div className="font-medium text-gray-900">
+                    {session.nextRunAt ? session.nextRunAt.toLocaleTimeString() : '-'}
+                  </div>
+                </div>
+              </div>
+
+              {session.lastError && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-2 text-xs text-red-700 mb-2">
+                  {session.lastError}
+                </div>
+              )}
+
+              {session.errors.length > 0 && (
+                <ul className="text-xs text-gray-600 space-y-1">
+                  {session.errors.slice(-3).map(([nodeId, message], index) => (
+                    <li key={`${nodeId}-${index}`} className="flex items-start">
+                      <AlertCircle className="w-3 h-3 mr-1 mt-0.5 text-red-500 flex-shrink-0" />
+                      {message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { TradingBot } from '../services/tradingBot';
 import { TradingSignal } from '../types/trading';
-import { TrendingUp, TrendingDown, Minus, Activity, Brain, Target } from 'lucide-react';
+import { TrendingUp, TrendingDown, Minus, Activity, Brain, Target, AlertCircle } from 'lucide-react';
 
 export const TradingSignals: React.FC = () => {
   const [signals, setSignals] = useState<TradingSignal[]>([]);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [autoTrading, setAutoTrading] = useState(false);
   const tradingBot = TradingBot.getInstance();
 
@@ -21,8 +22,10 @@ export const TradingSignals: React.FC = () => {
       const symbols = ['BTC', 'ETH', 'ADA', 'DOT', 'LINK', 'MATIC', 'AVAX', 'SOL'];
       const newSignals = await tradingBot.generateTradingSignals(symbols);
       setSignals(newSignals);
+      setError(tradingBot.getStorageError());
     } catch (error) {
       console.error('Error generating signals:', error);
+      setError(error instanceof Error ? error.message : String(error));
     } finally {
       setLoading(false);
     }
@@ -30,8 +33,13 @@ export const TradingSignals: React.FC = () => {
 
   const toggleAutoTrading = () => {
     const config = tradingBot.getConfig();
-    tradingBot.updateConfig({ enabled: !config.enabled });
-    setAutoTrading(!config.enabled);
+    try {
+      tradingBot.updateConfig({ enabled: !config.enabled });
+      setAutoTrading(!config.enabled);
+    } catch (error) {
+      console.error('Error toggling auto trading:', error);
+      setError(error instanceof Error ? error.message : String(error));
+    }
   };
 
   const getActionIcon = (action: string) => {
@@ -96,6 +104,13 @@ export const TradingSignals: React.FC = () => {
         </div>
       </div>
 
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
       {loading && signals.length === 0 ? (
         <div className="space-y-4">
           {[...Array(5)].map((_, i) => (
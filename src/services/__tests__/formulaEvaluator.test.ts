@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkFormula, compileFormula, expressionEvaluator } from '../formulaEvaluator';
+
+const evaluate = (code: string, scope: Record<string, unknown> = {}) => expressionEvaluator(code, scope, 'node-1');
+
+test('prototype and constructor escapes are refused', () => {
+  const scope = { record: { begin: 1 } };
+
+  assert.throws(() => evaluate('record.constructor', scope), /Access to 'constructor' is not allowed/);
+  assert.throws(() => evaluate('record.__proto__', scope), /Access to '__proto__' is not allowed/);
+  assert.throws(() => evaluate("record['const' + 'ructor']", scope), /Access to 'constructor' is not allowed/);
+  assert.throws(() => evaluate("'text'.constructor"), /Access to 'constructor' is not allowed/);
+  assert.throws(() => evaluate('Math.constructor'), /Access to 'constructor' is not allowed/);
+});
+
+test('only own properties are readable, so inherited methods cannot be called', () => {
+  // The Learning Mine formulas call recordSet.get; a Map only has it on its prototype
+  assert.throws(() => evaluate('recordSet.get(0)', { recordSet: new Map([[0, { featureValue: 1 }]]) }), /recordSet\.get is not a function/);
+  assert.throws(() => evaluate('record.toString()', { record: {} }), /record\.toString is not a function/);
+  assert.throws(() => evaluate('record.hasOwnProperty("begin")', { record: { begin: 1 } }), /is not a function/);
+  assert.equal(evaluate('Math.max.call'), undefined);
+});
+
+test('globals outside the whitelisted Math are not defined', () => {
+  assert.throws(() => evaluate('globalThis'), /globalThis is not defined/);
+  assert.throws(() => evaluate('process.exit(1)'), /process is not defined/);
+  assert.throws(() => evaluate('Function("return this")()'), /Function is not defined/);
+  assert.throws(() => evaluate('Math.random()'), /Math\.random is not a function/);
+  assert.equal(evaluate('Math.max(1, Math.abs(-3))'), 3);
+});
+
+test('parse errors name the node, line and column', () => {
+  assert.deepEqual(checkFormula('x = record.begin\ny = record.featureValue +', 'node-1'), {
+    nodeId: 'node-1',
+    line: 2,
+    column: 26,
+    message: 'Unexpected end of formula'
+  });
+  assert.deepEqual(checkFormula('let index = 0\nif (recordSet.get(index) !== undefined {\n0\n}', 'node-2'), {
+    nodeId: 'node-2',
+    line: 2,
+    column: 40,
+    message: "Expected ')' but found '{'"
+  });
+  assert.throws(() => compileFormula('x = 1\ny = (2', 'node-3'), {
+    message: "Formula node-3: Expected ')' but found end of formula (line 2, column 7)"
+  });
+  assert.equal(checkFormula('record.hitRatio', 'node-4'), null);
+});
+
+test('runtime errors carry the position of the failing expression', () => {
+  assert.throws(() => evaluate('record.begin\n  + missing', { record: { begin: 1 } }), {
+    message: 'Formula node-1: missing is not defined (line 2, column 5)'
+  });
+});
+
+test('Point Formulas assign x and y on separate lines', () => {
+  const record = { begin: 1000, end: 2000, featureValue: 0.4, errors: [[0, 0, 0, 7]] };
+
+  assert.equal(evaluate('x = record.begin\ny = record.featureValue', { record }), 0.4);
+  assert.equal(evaluate('x = record.begin + (record.end - record.begin)\ny = record.errors[0][3]', { record }), 7);
+});
+
+test('Data Formulas declare an index and pick a record with if/else', () => {
+  const code = 'let index = 1\nif (recordSet.get(index) !== undefined) {\nrecordSet.get(index).labelValue\n} else { 0 }';
+  const records = [{ labelValue: 3 }, { labelValue: 5 }];
+  const recordSet = (items: typeof records) => ({ length: items.length, get: (i: number) => items[i] });
+
+  assert.equal(evaluate(code, { recordSet: recordSet(records) }), 5);
+  assert.equal(evaluate(code, { recordSet: recordSet(records.slice(0, 1)) }), 0);
+});
@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  macdSeries,
+  MACDIndicator,
+  rsiSeries,
+  RSIIndicator,
+  stochasticSeries,
+  StochasticIndicator
+} from '../indicators';
+
+type Recorded = (number | null)[];
+
+interface StochasticFixture {
+  kPeriod: number;
+  dPeriod: number;
+  smoothK: number;
+  k: Recorded;
+  d: Recorded;
+}
+
+interface IndicatorFixture {
+  candles: { open: number[]; high: number[]; low: number[]; close: number[] };
+  rsi: { period: number; values: Recorded };
+  macd: { fastPeriod: number; slowPeriod: number; signalPeriod: number; macd: Recorded; signal: Recorded; histogram: Recorded };
+  stochastic: StochasticFixture;
+  fastStochastic: StochasticFixture;
+}
+
+const TOLERANCE = 1e-9;
+
+const fixture: IndicatorFixture = JSON.parse(
+  readFileSync(path.join(__dirname, 'fixtures', 'talib-indicators.json'), 'utf8')
+);
+const { high, low, close } = fixture.candles;
+
+/**
+ * Series values match the recording bar for bar, with NaN exactly where
+ * TA-Lib has no value yet.
+ */
+function assertSeries(actual: number[], expected: Recorded, label: string): void {
+  assert.equal(actual.length, expected.length, `${label} length`);
+  expected.forEach((value, i) => {
+    if (value === null) {
+      assert.ok(Number.isNaN(actual[i]), `${label}[${i}] should still be warming up, got ${actual[i]}`);
+    } else {
+      assert.ok(Math.abs(actual[i] - value) <= TOLERANCE, `${label}[${i}]: expected ${value}, got ${actual[i]}`);
+    }
+  });
+}
+
+/**
+ * Streaming values, fed one bar at a time, match the recording, with null
+ * where TA-Lib has no value yet.
+ */
+function assertStream(actual: (number | null)[], expected: Recorded, label: string): void {
+  assert.equal(actual.length, expected.length, `${label} length`);
+  expected.forEach((value, i) => {
+    if (value === null) {
+      assert.equal(actual[i], null, `${label}[${i}] should still be warming up`);
+    } else {
+      assert.ok(actual[i] !== null && Math.abs(actual[i]! - value) <= TOLERANCE, `${label}[${i}]: expected ${value}, got ${actual[i]}`);
+    }
+  });
+}
+
+test('rsiSeries matches TA-Lib RSI', () => {
+  assertSeries(rsiSeries(close, fixture.rsi.period), fixture.rsi.values, 'rsi');
+});
+
+test('RSIIndicator matches TA-Lib RSI bar by bar', () => {
+  const indicator = new RSIIndicator(fixture.rsi.period);
+  assertStream(close.map(price => indicator.update(price)), fixture.rsi.values, 'rsi');
+});
+
+test('macdSeries matches TA-Lib MACD', () => {
+  const { fastPeriod, slowPeriod, signalPeriod } = fixture.macd;
+  const series = macdSeries(close, fastPeriod, slowPeriod, signalPeriod);
+
+  // TA-Lib only reports the MACD line once the signal is defined too
+  const start = fixture.macd.macd.findIndex(value => value !== null);
+  assertSeries(series.macd.slice(start), fixture.macd.macd.slice(start), 'macd');
+  assertSeries(series.signal, fixture.macd.signal, 'signal');
+  assertSeries(series.histogram, fixture.macd.histogram, 'histogram');
+});
+
+test('MACDIndicator matches TA-Lib MACD bar by bar', () => {
+  const { fastPeriod, slowPeriod, signalPeriod } = fixture.macd;
+  const indicator = new MACDIndicator(fastPeriod, slowPeriod, signalPeriod);
+  const values = close.map(price => indicator.update(price));
+
+  assertStream(values.map(value => value && value.macd), fixture.macd.macd, 'macd');
+  assertStream(values.map(value => value && value.signal), fixture.macd.signal, 'signal');
+  assertStream(values.map(value => value && value.histogram), fixture.macd.histogram, 'histogram');
+});
+
+for (const [name, recorded] of [['STOCH', fixture.stochastic], ['STOCHF', fixture.fastStochastic]] as const) {
+  test(`stochasticSeries matches TA-Lib ${name}`, () => {
+    const series = stochasticSeries(high, low, close, recorded.kPeriod, recorded.dPeriod, recorded.smoothK);
+
+    // TA-Lib only reports %K once %D is defined too
+    const start = recorded.k.findIndex(value => value !== null);
+    assertSeries(series.k.slice(start), recorded.k.slice(start), '%K');
+    assertSeries(series.d, recorded.d, '%D');
+  });
+
+  test(`StochasticIndicator matches TA-Lib ${name} bar by bar`, () => {
+    const indicator = new StochasticIndicator(recorded.kPeriod, recorded.dPeriod, recorded.smoothK);
+    const values = close.map((price, i) => indicator.update(high[i], low[i], price));
+
+    assertStream(values.map(value => value && value.k), recorded.k, '%K');
+    assertStream(values.map(value => value && value.d), recorded.d, '%D');
+  });
+}
+
+test('reset restarts the streaming indicators from scratch', () => {
+  const rsi = new RSIIndicator(fixture.rsi.period);
+  const macd = new MACDIndicator();
+  close.forEach(price => { rsi.update(price); macd.update(price); });
+  rsi.reset();
+  macd.reset();
+
+  assertStream(close.map(price => rsi.update(price)), fixture.rsi.values, 'rsi after reset');
+  assertStream(close.map(price => macd.update(price)?.macd ?? null), fixture.macd.macd, 'macd after reset');
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle } from '../../types/trading';
+import { FeaturePipeline, SENTIMENT_FEATURES } from '../featurePipeline';
+import { ModelRegistry } from '../modelRegistry';
+import { SentimentAnalyzer, SentimentData } from '../sentimentAnalyzer';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+function candles(count: number): Candle[] {
+  return Array.from({ length: count }, (_, i) => {
+    const close = 100 + 10 * Math.sin(i / 7) + i * 0.05;
+    return { timestamp: new Date(START + i * HOUR), open: close - 0.5, high: close + 1, low: close - 1, close, volume: 1000 + (i % 5) * 100 };
+  });
+}
+
+// One score every 10 hours, alternating sign, starting at hour 40
+function sentimentHistory(symbol: string): SentimentData[] {
+  return Array.from({ length: 20 }, (_, i) => ({
+    ...SentimentAnalyzer.getInstance().getDefaultSentiment(symbol),
+    overall: i % 2 === 0 ? 0.6 : -0.4,
+    timestamp: new Date(START + (40 + i * 10) * HOUR)
+  }));
+}
+
+const options = { horizon: 1, threshold: 0, lookback: 60, warmup: 30, validationSplit: 0.2 };
+
+test('without sentiment history the sentiment features are left out', () => {
+  const dataset = FeaturePipeline.getInstance().buildDataset('BTC', candles(120), options);
+
+  assert.equal(dataset.usesSentiment, false);
+  SENTIMENT_FEATURES.forEach(name => assert.ok(!dataset.featureNames.includes(name)));
+  assert.equal(dataset.features[0].length, dataset.featureNames.length);
+
+  const model = new ModelRegistry().train('plain', { BTC: candles(120) }, options);
+  assert.equal(model.info.usesSentiment, false);
+  assert.deepEqual(model.info.featureNames, dataset.featureNames);
+});
+
+test('each sample takes the latest sentiment at or before its candle', () => {
+  const dataset = FeaturePipeline.getInstance().buildDataset('BTC', candles(120), { ...options, sentimentHistory: sentimentHistory('BTC') });
+  const column = dataset.featureNames.indexOf('sentimentOverall');
+  const at = (hour: number) => dataset.features[dataset.timestamps.findIndex(time => time.getTime() === START + hour * HOUR)][column];
+
+  assert.equal(dataset.usesSentiment, true);
+  assert.equal(at(39), 0); // before the history starts
+  assert.equal(at(40), 0.6);
+  assert.equal(at(49), 0.6);
+  assert.equal(at(50), -0.4);
+
+  const model = new ModelRegistry().train('sentiment', { BTC: candles(120) }, { ...options, sentimentHistory: { BTC: sentimentHistory('BTC') } });
+  assert.equal(model.info.usesSentiment, true);
+  assert.ok(model.info.featureNames.includes('sentimentOverall'));
+});
+
+test('training refuses a sentiment history that covers only some symbols', () => {
+  assert.throws(
+    () => new ModelRegistry().train('mixed', { BTC: candles(120), ETH: candles(120) }, { ...options, sentimentHistory: { BTC: sentimentHistory('BTC') } }),
+    /Sentiment history is missing for ETH/
+  );
+});
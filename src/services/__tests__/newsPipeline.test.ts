@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FetchedNewsArticle, NewsSource } from '../../types/news';
+import { NewsPipeline } from '../newsPipeline';
+
+const SECOND = 1000;
+const rateLimit = { minInterval: 0, maxWait: 5 * SECOND, baseBackoff: 30 * SECOND, maxBackoff: 30 * 60 * SECOND };
+
+function article(publisher: string, title: string, minute: number): FetchedNewsArticle {
+  const url = `https://${publisherSlug(publisher)}.example/${minute}`;
+  return { id: url, title, description: '', url, publishedAt: new Date(Date.UTC(2024, 0, 1, 0, minute)), publisher, provider: 'stub' };
+}
+
+function publisherSlug(publisher: string): string {
+  return publisher.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/** A source that answers from `respond` and counts how often it was asked. */
+function stubSource(name: string, respond: () => FetchedNewsArticle[]): NewsSource & { calls: number } {
+  return {
+    name,
+    calls: 0,
+    async fetchArticles() {
+      this.calls++;
+      return respond();
+    }
+  };
+}
+
+/** A pipeline over `sources` on a manual clock. */
+function setup(sources: NewsSource[]) {
+  let time = Date.UTC(2024, 0, 1, 12);
+  const pipeline = new NewsPipeline(sources, { rateLimit }, () => time);
+  return { pipeline, now: () => time, advance: (ms: number) => { time += ms; } };
+}
+
+test('the same headline from two publishers becomes one article with coverage', async () => {
+  const { pipeline } = setup([
+    stubSource('wire', () => [article('Reuters', 'Bitcoin hits record high as ETF inflows surge', 5)]),
+    stubSource('crypto', () => [
+      article('CoinDesk', 'Bitcoin Hits Record High as ETF Inflows Surge - CoinDesk', 3),
+      article('CoinDesk', 'Ethereum upgrade date set', 4)
+    ])
+  ]);
+
+  const feed = await pipeline.fetch('BTC');
+
+  assert.equal(feed.articles.length, 2);
+  const story = feed.articles.find(a => a.title.startsWith('Bitcoin'))!;
+  assert.equal(story.publisher, 'Reuters');
+  assert.deepEqual(story.coverage, ['CoinDesk']);
+  assert.deepEqual(feed.results.map(r => r.status), ['ok', 'ok']);
+});
+
+test('consecutive failures push retryAt back exponentially', async () => {
+  const source = stubSource('flaky', () => {
+    throw new Error('socket hang up');
+  });
+  const { pipeline, now, advance } = setup([source]);
+  const retryAt = async () => {
+    const [result] = (await pipeline.fetch('BTC')).results;
+    assert.equal(result.status, 'error');
+    return result.status === 'error' ? result.retryAt.getTime() - now() : NaN;
+  };
+
+  assert.equal(await retryAt(), rateLimit.baseBackoff);
+  advance(rateLimit.baseBackoff);
+  assert.equal(await retryAt(), rateLimit.baseBackoff * 2);
+  advance(rateLimit.baseBackoff * 2);
+  assert.equal(await retryAt(), rateLimit.baseBackoff * 4);
+  assert.equal(source.calls, 3);
+});
+
+test('an HTTP 429 waits for its retry-after instead of the backoff', async () => {
+  const { pipeline, now } = setup([
+    stubSource('limited', () => {
+      throw Object.assign(new Error('Too Many Requests'), { response: { status: 429, headers: { 'retry-after': '120' } } });
+    })
+  ]);
+
+  const [result] = (await pipeline.fetch('BTC')).results;
+
+  assert.equal(result.status, 'error');
+  assert.equal(result.status === 'error' && result.retryAt.getTime(), now() + 120 * SECOND);
+  assert.match(result.status === 'error' ? result.error : '', /^HTTP 429/);
+});
+
+test('a source whose next slot is past maxWait is reported rate-limited and not fetched', async () => {
+  let failing = true;
+  const source = stubSource('backing-off', () => {
+    if (failing) throw new Error('unavailable');
+    return [article('Decrypt', 'Solana fees fall', 1)];
+  });
+  const { pipeline, now, advance } = setup([source]);
+  await pipeline.fetch('BTC');
+  failing = false;
+
+  advance(rateLimit.baseBackoff - rateLimit.maxWait - SECOND);
+  const [result] = (await pipeline.fetch('BTC')).results;
+  assert.equal(result.status, 'rate-limited');
+  assert.equal(result.status === 'rate-limited' && result.retryAt.getTime(), now() + rateLimit.maxWait + SECOND);
+  assert.equal(source.calls, 1);
+
+  advance(rateLimit.maxWait + SECOND);
+  assert.deepEqual((await pipeline.fetch('BTC')).results, [{ source: 'backing-off', status: 'ok', articles: 1 }]);
+  assert.equal(source.calls, 2);
+});
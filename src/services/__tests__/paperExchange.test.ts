@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PaperExchange } from '../paperExchange';
+
+function exchangeWith(balances: Record<string, number>): PaperExchange {
+  const exchange = new PaperExchange();
+  exchange.resetBalances(balances);
+  return exchange;
+}
+
+test('resting limit orders fill when the last price reaches them on an empty book', () => {
+  const exchange = exchangeWith({ USD: 100000, BTC: 1 });
+  exchange.updateLastPrice('BTC', 50000);
+
+  const buy = exchange.placeOrder({ symbol: 'BTC', side: 'BUY', type: 'LIMIT', amount: 0.5, price: 48000 });
+  const sell = exchange.placeOrder({ symbol: 'BTC', side: 'SELL', type: 'LIMIT', amount: 1, price: 53000 });
+  assert.equal(buy.status, 'PENDING');
+  assert.equal(sell.status, 'PENDING');
+
+  exchange.updateLastPrice('BTC', 49000);
+  assert.equal(exchange.getOrder(buy.id)!.status, 'PENDING');
+
+  exchange.updateLastPrice('BTC', 47500);
+  const filled = exchange.getOrder(buy.id)!;
+  assert.equal(filled.status, 'FILLED');
+  assert.equal(filled.averagePrice, 48000);
+  assert.equal(filled.fills[0].liquidity, 'MAKER');
+
+  exchange.updateLastPrice('BTC', 54000);
+  assert.equal(exchange.getOrder(sell.id)!.averagePrice, 53000);
+
+  const balances = exchange.getBalances();
+  assert.ok(Math.abs(balances.BTC.free - 0.5) < 1e-9);
+  assert.equal(balances.USD.locked, 0);
+});
+
+test('a new limit order the last price has already crossed fills at the last price', () => {
+  const exchange = exchangeWith({ USD: 100000 });
+  exchange.updateLastPrice('ETH', 3000);
+
+  const order = exchange.placeOrder({ symbol: 'ETH', side: 'BUY', type: 'LIMIT', amount: 2, price: 3100 });
+
+  assert.equal(order.status, 'FILLED');
+  assert.equal(order.averagePrice, 3000);
+  assert.equal(order.fills[0].liquidity, 'TAKER');
+});
+
+test('resting orders on each side match in price then time priority', () => {
+  const exchange = exchangeWith({ USD: 100000, BTC: 2 });
+
+  // No book and no last price yet, so everything rests
+  const low = exchange.placeOrder({ symbol: 'BTC', side: 'BUY', type: 'LIMIT', amount: 1, price: 100 });
+  const ask = exchange.placeOrder({ symbol: 'BTC', side: 'SELL', type: 'LIMIT', amount: 1, price: 120 });
+  const high = exchange.placeOrder({ symbol: 'BTC', side: 'BUY', type: 'LIMIT', amount: 1, price: 101 });
+  const later = exchange.placeOrder({ symbol: 'BTC', side: 'BUY', type: 'LIMIT', amount: 1, price: 101 });
+
+  exchange.updateOrderBook('BTC', { bids: [[121, 1]], asks: [[99, 1]] });
+
+  assert.equal(exchange.getOrder(high.id)!.status, 'FILLED');
+  assert.equal(exchange.getOrder(later.id)!.status, 'PENDING');
+  assert.equal(exchange.getOrder(low.id)!.status, 'PENDING');
+  assert.equal(exchange.getOrder(ask.id)!.status, 'FILLED');
+});
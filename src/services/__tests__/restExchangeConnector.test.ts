@@ -0,0 +1,131 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PublicTrade, WebSocketLike } from '../exchangeConnector';
+import { MockExchangeServer } from '../mockExchangeServer';
+import { OrderEvent, OrderEventType } from '../paperExchange';
+import { createWebSocket, RestExchangeConnector } from '../restExchangeConnector';
+
+const credentials = { apiKey: 'test-key', apiSecret: 'test-secret' };
+
+/** A connector against a fresh mock venue, keeping every socket it opens. */
+async function connectToMock() {
+  const server = new MockExchangeServer({ credentials });
+  const { restUrl, wsUrl } = await server.start();
+  const sockets: WebSocketLike[] = [];
+  const connector = new RestExchangeConnector(
+    { mode: 'live', restUrl, wsUrl, credentials, reconnectDelay: 10 },
+    url => {
+      const socket = createWebSocket(url);
+      sockets.push(socket);
+      return socket;
+    }
+  );
+  await connector.connect();
+
+  const close = async () => {
+    await connector.disconnect();
+    await server.stop();
+  };
+  return { server, connector, sockets, close };
+}
+
+function nextOrderEvent(connector: RestExchangeConnector, type: OrderEventType): Promise<OrderEvent> {
+  return new Promise(resolve => {
+    const unsubscribe = connector.onOrderUpdate(event => {
+      if (event.type !== type) return;
+      unsubscribe();
+      resolve(event);
+    });
+  });
+}
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+test('orders are placed, listed and cancelled over signed REST', async () => {
+  const { server, connector, close } = await connectToMock();
+
+  try {
+    server.setOrderBook('BTC', { bids: [[49000, 1]], asks: [[51000, 1]] });
+
+    const order = await connector.placeOrder({ symbol: 'BTC', side: 'BUY', type: 'LIMIT', amount: 0.5, price: 48000 });
+    assert.equal(order.status, 'PENDING');
+    assert.ok(order.timestamp instanceof Date);
+
+    const open = await connector.getOpenOrders('BTC');
+    assert.deepEqual(open.map(o => o.id), [order.id]);
+    assert.ok((await connector.getBalances()).USD.locked > 0);
+
+    assert.equal(await connector.cancelOrder(order.id), true);
+    assert.equal(await connector.cancelOrder(order.id), false);
+    assert.deepEqual(await connector.getOpenOrders(), []);
+    assert.equal((await connector.getBalances()).USD.locked, 0);
+  } finally {
+    await close();
+  }
+});
+
+test('fills arrive as order events and public trades over the WebSocket', async () => {
+  const { server, connector, close } = await connectToMock();
+
+  try {
+    server.setOrderBook('BTC', { bids: [[49000, 1]], asks: [[50000, 2]] });
+    const trades: PublicTrade[] = [];
+    connector.subscribeTrades('BTC', trade => trades.push(trade));
+    await new Promise(resolve => setTimeout(resolve, 20)); // let the subscription reach the server
+
+    const filled = nextOrderEvent(connector, 'FILLED');
+    const order = await connector.placeOrder({ symbol: 'BTC', side: 'BUY', type: 'MARKET', amount: 1 });
+    const event = await filled;
+
+    assert.equal(event.order.id, order.id);
+    assert.equal(event.order.filledAmount, 1);
+    assert.ok(event.timestamp instanceof Date);
+    assert.equal(event.fill!.price, 50000);
+    assert.equal(event.fill!.liquidity, 'TAKER');
+    assert.ok(event.fill!.timestamp instanceof Date);
+
+    await waitFor(() => trades.length === 1);
+    assert.equal(trades[0].price, 50000);
+    assert.ok(trades[0].timestamp instanceof Date);
+  } finally {
+    await close();
+  }
+});
+
+test('a dropped socket reconnects, re-authenticates and resubscribes', async () => {
+  const { server, connector, sockets, close } = await connectToMock();
+
+  try {
+    server.setOrderBook('ETH', { bids: [[2900, 5]], asks: [[3000, 5]] });
+    const trades: PublicTrade[] = [];
+    connector.subscribeTrades('ETH', trade => trades.push(trade));
+
+    sockets[0].close();
+    await waitFor(() => sockets.length === 2 && sockets[1].readyState === 1);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const filled = nextOrderEvent(connector, 'FILLED');
+    await connector.placeOrder({ symbol: 'ETH', side: 'BUY', type: 'MARKET', amount: 1 });
+    assert.equal((await filled).fill!.price, 3000);
+
+    await waitFor(() => trades.length === 1);
+    assert.equal(trades[0].symbol, 'ETH');
+  } finally {
+    await close();
+  }
+});
+
+test('disconnecting does not reconnect', async () => {
+  const { sockets, close } = await connectToMock();
+
+  await close();
+  await new Promise(resolve => setTimeout(resolve, 50));
+
+  assert.equal(sockets.length, 1);
+});
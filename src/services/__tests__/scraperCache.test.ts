@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ScraperCache } from '../scraperCache';
+
+const MINUTE = 60 * 1000;
+
+/** A cache on a manual clock with no disk tier, and a fetch that counts its calls. */
+function setup(policy = { ttl: MINUTE, staleTtl: 10 * MINUTE, maxEntries: 10, persist: false }) {
+  let time = 0;
+  const cache = new ScraperCache({ news: policy }, null, () => time);
+  const counter = {
+    calls: 0,
+    fetch: (value: string) => async () => {
+      counter.calls++;
+      return value;
+    }
+  };
+  return { cache, counter, advance: (ms: number) => { time += ms; } };
+}
+
+test('a stale entry is returned at once and refreshed exactly once', async () => {
+  const { cache, counter, advance } = setup();
+  await cache.get('news_BTC', counter.fetch('first'));
+  advance(2 * MINUTE);
+
+  const stale = await Promise.all([cache.get('news_BTC', counter.fetch('second')), cache.get('news_BTC', counter.fetch('second'))]);
+  assert.deepEqual(stale, ['first', 'first']);
+  assert.equal(counter.calls, 2); // the first load and one refresh
+
+  await new Promise(resolve => setImmediate(resolve));
+  assert.equal(await cache.get('news_BTC', counter.fetch('third')), 'second');
+  assert.equal(counter.calls, 2);
+  assert.equal(cache.getMetrics().news.staleHits, 2);
+  assert.equal(cache.getMetrics().news.refreshes, 1);
+});
+
+test('concurrent misses for one key share a single fetch', async () => {
+  const { cache, counter } = setup();
+  const requests = 5;
+
+  const values = await Promise.all(Array.from({ length: requests }, () => cache.get('news_ETH', counter.fetch('eth'))));
+
+  assert.deepEqual(values, Array(requests).fill('eth'));
+  assert.equal(counter.calls, 1);
+  assert.equal(cache.getMetrics().news.misses, 1);
+  assert.equal(cache.getMetrics().news.coalesced, requests - 1);
+});
+
+test('past maxEntries the least recently used key is evicted', async () => {
+  const { cache, counter } = setup({ ttl: MINUTE, staleTtl: 0, maxEntries: 2, persist: false });
+  await cache.get('news_A', counter.fetch('a'));
+  await cache.get('news_B', counter.fetch('b'));
+  await cache.get('news_A', counter.fetch('a')); // A is now more recent than B
+  await cache.get('news_C', counter.fetch('c'));
+  assert.equal(counter.calls, 3);
+
+  await cache.get('news_A', counter.fetch('a'));
+  assert.equal(counter.calls, 3);
+  await cache.get('news_B', counter.fetch('b'));
+  assert.equal(counter.calls, 4);
+  assert.equal(cache.getMetrics().news.evictions, 2);
+});
+
+test('results rejected by shouldCache are not stored', async () => {
+  const { cache, counter } = setup();
+  const options = { shouldCache: (value: string) => value !== 'empty' };
+
+  await cache.get('news_SOL', counter.fetch('empty'), options);
+  await cache.get('news_SOL', counter.fetch('empty'), options);
+  assert.equal(counter.calls, 2);
+  assert.equal(cache.getMetrics().news.size, 0);
+
+  await cache.get('news_SOL', counter.fetch('full'), options);
+  assert.equal(await cache.get('news_SOL', counter.fetch('other'), options), 'full');
+  assert.equal(counter.calls, 3);
+});
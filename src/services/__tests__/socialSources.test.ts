@@ -0,0 +1,168 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  FeedSource,
+  parseFeed,
+  parseRedditListing,
+  parseTelegramExport,
+  RedditListingSource,
+  SocialHttpClient,
+  TelegramExportSource
+} from '../socialSources';
+
+const fixturePath = (name: string) => path.join(__dirname, 'fixtures', name);
+const readFixture = (name: string) => readFileSync(fixturePath(name), 'utf8');
+
+/** Http client that records each request and answers with a fixture. */
+function recordingClient(body: unknown): SocialHttpClient & { requests: { url: string; params?: Record<string, string | number> }[] } {
+  const requests: { url: string; params?: Record<string, string | number> }[] = [];
+  const client = async (url: string, params?: Record<string, string | number>) => {
+    requests.push({ url, params });
+    return body;
+  };
+  return Object.assign(client, { requests });
+}
+
+test('parseRedditListing reads posts and comments and skips removed entries', () => {
+  const posts = parseRedditListing(JSON.parse(readFixture('reddit-search.json')), 'reddit:r/CryptoCurrency');
+
+  assert.deepEqual(posts.map(post => post.id), ['t3_1c9xp7a', 't3_1c9xq2d', 't1_l0f3k9z']);
+
+  const [selfPost, linkPost, comment] = posts;
+  assert.equal(
+    selfPost.text,
+    'Bitcoin ETF inflows at record high\n\nSpot ETF inflows hit a record again & exchange reserves keep falling. Feels like BTC is setting up for a breakout.'
+  );
+  assert.equal(selfPost.author, 'satoshis_cat');
+  assert.equal(selfPost.score, 1532);
+  assert.equal(selfPost.timestamp.toISOString(), '2024-04-21T18:40:00.000Z');
+  assert.equal(selfPost.url, 'https://www.reddit.com/r/CryptoCurrency/comments/1c9xp7a/bitcoin_etf_inflows_at_record_high/');
+  assert.equal(selfPost.platform, 'reddit');
+  assert.equal(selfPost.source, 'reddit:r/CryptoCurrency');
+
+  assert.equal(linkPost.text, 'Miners are dumping after the halving');
+  assert.equal(linkPost.author, '[deleted]');
+
+  assert.equal(comment.text, 'Not convinced, btc dominance is rolling over.');
+  assert.equal(comment.timestamp.toISOString(), '2024-04-21T21:30:00.000Z');
+});
+
+test('parseRedditListing tolerates empty and malformed listings', () => {
+  assert.deepEqual(parseRedditListing(undefined, 'reddit'), []);
+  assert.deepEqual(parseRedditListing({ kind: 'Listing', data: {} }, 'reddit'), []);
+
+  const listing = { data: { children: [{ kind: 't3', data: { name: 't3_bad', title: 'BTC &#99999999; up', created_utc: 1713724800 } }] } };
+  assert.equal(parseRedditListing(listing, 'reddit')[0].text, 'BTC &#99999999; up');
+});
+
+test('parseFeed reads RSS 2.0 items', () => {
+  const posts = parseFeed(readFixture('rss-feed.xml'), 'twitter', 'rss:news.example.com');
+
+  // The last item has no usable date
+  assert.equal(posts.length, 3);
+
+  const [ether, miners, dogecoin] = posts;
+  assert.equal(ether.id, 'cmd-20240422-0001');
+  assert.equal(ether.author, 'Jane Doe');
+  assert.equal(ether.text, 'Ether slides 4% as ETF hopes fade\n\nEthereum’s price fell below $3,100 & traders cut exposure.');
+  assert.equal(ether.timestamp.toISOString(), '2024-04-22T08:30:00.000Z');
+  assert.equal(ether.url, 'https://news.example.com/markets/2024/04/22/ether-slides');
+
+  // A description that repeats the title is not doubled up
+  assert.equal(miners.text, 'Bitcoin miners face squeezed margins after halving — hashprice hits a record low.');
+  assert.equal(miners.author, 'rss:news.example.com');
+  assert.equal(miners.timestamp.toISOString(), '2024-04-21T17:05:00.000Z');
+
+  // Numeric entities outside Unicode are kept as written instead of failing the feed
+  assert.equal(dogecoin.text, 'Dogecoin &#99999999; rallies &#xD800; 🚀\n\nNot a valid entity: &#x110000;');
+});
+
+test('parseFeed reads Atom entries', () => {
+  const posts = parseFeed(readFixture('atom-feed.xml'), 'twitter', 'x:cryptoanalyst');
+
+  assert.equal(posts.length, 2);
+  assert.equal(posts[0].id, 'https://x.com/cryptoanalyst/status/1782400000000000001');
+  assert.equal(posts[0].text, '$BTC reclaiming 66k, bulls in control');
+  assert.equal(posts[0].author, 'Crypto Analyst');
+  assert.equal(posts[0].url, 'https://x.com/cryptoanalyst/status/1782400000000000001');
+  assert.equal(posts[0].timestamp.toISOString(), '2024-04-22T09:45:00.000Z');
+  assert.equal(posts[0].platform, 'twitter');
+
+  // No <published>, so the entry is dated by <updated>
+  assert.equal(posts[1].text, 'Watching BTCUSDT funding and ETH gas\n\nFunding is flat, ETH fees at a 3 year low.');
+  assert.equal(posts[1].timestamp.toISOString(), '2024-04-22T03:10:00.000Z');
+});
+
+test('parseTelegramExport reads every chat of a full export and skips service and media-only messages', () => {
+  const posts = parseTelegramExport(JSON.parse(readFixture('telegram-export.json')), 'telegram');
+
+  assert.deepEqual(posts.map(post => post.id), ['1001234567-102', '1007654321-5001', '1007654321-5002']);
+
+  const [signal, , gas] = posts;
+  assert.equal(signal.text, 'Long $BTC above 64k, target 70k. Details: https://t.me/cryptosignals/102');
+  assert.equal(signal.source, 'telegram:Crypto Signals');
+  assert.equal(signal.author, 'Crypto Signals');
+  assert.equal(signal.score, 48);
+  assert.equal(signal.timestamp.toISOString(), '2024-04-20T12:00:00.000Z');
+
+  assert.equal(gas.source, 'telegram:Altcoin Chat');
+  assert.equal(gas.author, 'bob');
+  assert.equal(gas.timestamp.toISOString(), '2024-04-21T19:45:10.000Z');
+});
+
+test('parseTelegramExport reads a single chat export', () => {
+  const chat = JSON.parse(readFixture('telegram-export.json')).chats.list[1];
+  const posts = parseTelegramExport(chat, 'telegram');
+
+  assert.deepEqual(posts.map(post => post.id), ['1007654321-5001', '1007654321-5002']);
+  assert.ok(posts.every(post => post.source === 'telegram:Altcoin Chat'));
+});
+
+test('RedditListingSource searches the subreddit for the symbol and its names', async () => {
+  const http = recordingClient(JSON.parse(readFixture('reddit-search.json')));
+  const source = new RedditListingSource({ subreddit: 'CryptoCurrency', limit: 25 }, http);
+
+  const posts = await source.fetchPosts('BTC');
+
+  assert.deepEqual(http.requests, [{
+    url: 'https://www.reddit.com/r/CryptoCurrency/search.json',
+    params: { q: 'BTC OR bitcoin', restrict_sr: 1, sort: 'new', limit: 25 }
+  }]);
+  assert.equal(source.name, 'reddit:r/CryptoCurrency');
+  assert.equal(posts.length, 3);
+  assert.ok(posts.every(post => post.source === 'reddit:r/CryptoCurrency'));
+});
+
+test('FeedSource keeps only entries that mention the symbol', async () => {
+  const http = recordingClient(readFixture('atom-feed.xml'));
+  const source = new FeedSource({ url: 'https://bridge.example.org/x/cryptoanalyst', platform: 'twitter', name: 'x:cryptoanalyst' }, http);
+
+  assert.deepEqual((await source.fetchPosts('BTC')).map(post => post.text), ['$BTC reclaiming 66k, bulls in control']);
+  assert.deepEqual(
+    (await source.fetchPosts('ETH')).map(post => post.id),
+    ['https://x.com/cryptoanalyst/status/1782300000000000002']
+  );
+  assert.deepEqual(http.requests.map(request => request.url), [
+    'https://bridge.example.org/x/cryptoanalyst',
+    'https://bridge.example.org/x/cryptoanalyst'
+  ]);
+});
+
+test('TelegramExportSource filters by symbol and age from the newest matching message', async () => {
+  const reads: string[] = [];
+  const readFile = async (filePath: string) => {
+    reads.push(filePath);
+    return readFixture('telegram-export.json');
+  };
+
+  const all = new TelegramExportSource({ filePath: 'exports/result.json' }, readFile);
+  assert.deepEqual((await all.fetchPosts('BTC')).map(post => post.id), ['1001234567-102', '1007654321-5001']);
+
+  const recent = new TelegramExportSource({ filePath: 'exports/result.json', maxAgeDays: 30 }, readFile);
+  assert.deepEqual((await recent.fetchPosts('BTC')).map(post => post.id), ['1001234567-102']);
+
+  assert.deepEqual(reads, ['exports/result.json', 'exports/result.json']);
+  assert.equal(all.name, 'telegram:exports/result.json');
+});
@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PerformanceSnapshot, PortfolioAccountingState } from '../portfolioAccounting';
+import type { TrackedPrediction } from '../predictionTracker';
+import { COLLECTIONS, InMemoryStorageBackend, serialize, StateStore } from '../stateStore';
+
+/** Memory backend that fails like localStorage once the document outgrows `quota` characters. */
+class QuotaBackend extends InMemoryStorageBackend {
+  constructor(private quota: number, readonly retention: Record<string, number>) {
+    super();
+  }
+
+  protected async persist(): Promise<void> {
+    if (serialize(this.document).length > this.quota) {
+      throw Object.assign(new Error('The quota has been exceeded.'), { name: 'QuotaExceededError' });
+    }
+  }
+}
+
+function prediction(id: number, status: TrackedPrediction['status']): TrackedPrediction {
+  const createdAt = new Date(Date.UTC(2024, 0, 1, 0, id));
+  return {
+    id: `prediction_${id}`,
+    symbol: 'BTC',
+    strategy: 'test',
+    horizon: '1h',
+    prediction: 'BUY',
+    confidence: 0.6,
+    price: 100,
+    targetPrice: 105,
+    createdAt,
+    dueAt: new Date(createdAt.getTime() + 60 * 60 * 1000),
+    status
+  };
+}
+
+test('trimming predictions evicts scored entries before pending ones', async () => {
+  const store = new StateStore(new InMemoryStorageBackend(), undefined, { [COLLECTIONS.predictions]: 10 });
+
+  for (let i = 0; i < 5; i++) await store.savePrediction(prediction(i, 'PENDING'));
+  for (let i = 5; i < 11; i++) await store.savePrediction(prediction(i, 'HIT'));
+
+  const kept = await store.getPredictions();
+  assert.equal(kept.length, 9);
+  assert.equal(kept.filter(p => p.status === 'PENDING').length, 5);
+});
+
+test('a batch of predictions is saved, trimmed and deleted with one write each', async () => {
+  let writes = 0;
+  const backend = new (class extends InMemoryStorageBackend {
+    protected async persist(): Promise<void> {
+      writes++;
+    }
+  })();
+  const store = new StateStore(backend, undefined, { [COLLECTIONS.predictions]: 10 });
+  await store.getPredictions(); // let the migrations write first
+  writes = 0;
+
+  await store.savePredictions(Array.from({ length: 12 }, (_, i) => prediction(i, i < 4 ? 'PENDING' : 'FAIL')));
+  assert.equal(writes, 1);
+  const kept = await store.getPredictions();
+  assert.equal(kept.length, 9);
+  assert.equal(kept.filter(p => p.status === 'PENDING').length, 4);
+
+  await store.deletePredictions(kept.map(p => p.id));
+  assert.equal(writes, 2);
+  assert.deepEqual(await store.getPredictions(), []);
+});
+
+test('the scraper cache drops the least recently used entries', async () => {
+  const store = new StateStore(new InMemoryStorageBackend(), undefined, { [COLLECTIONS.scraperCache]: 3 });
+
+  await store.setCacheEntry('a', { data: 1, timestamp: 1 });
+  await store.setCacheEntry('b', { data: 2, timestamp: 2 });
+  await store.setCacheEntry('c', { data: 3, timestamp: 3 });
+  await store.getCacheEntry('a');
+  await store.setCacheEntry('d', { data: 4, timestamp: 4 });
+
+  assert.ok(await store.getCacheEntry('a'));
+  assert.equal(await store.getCacheEntry('b'), undefined);
+});
+
+test('portfolio snapshots are stored once each, outside the current state', async () => {
+  const backend = new InMemoryStorageBackend();
+  const store = new StateStore(backend);
+  const snapshot = (hour: number, minute: number): PerformanceSnapshot => ({
+    timestamp: new Date(Date.UTC(2024, 0, 1, hour, minute)),
+    totalValue: 100000 + hour,
+    cash: 100000,
+    realizedPnl: 0,
+    unrealizedPnl: hour
+  });
+  const state = (snapshots: PerformanceSnapshot[]): PortfolioAccountingState =>
+    ({ initialCash: 100000, cash: 100000, ledgers: [], realizedPnl: 0, totalFees: 0, snapshots });
+
+  // Within an hour the accounting replaces its latest snapshot
+  await store.savePortfolioState(state([snapshot(0, 10)]));
+  await store.savePortfolioState(state([snapshot(0, 40)]));
+  await store.savePortfolioState(state([snapshot(0, 40), snapshot(1, 5)]));
+
+  const current = await backend.get<PortfolioAccountingState>(COLLECTIONS.portfolio, 'current');
+  assert.deepEqual(current!.snapshots, []);
+
+  const restored = await new StateStore(backend).getPortfolioState();
+  assert.deepEqual(restored!.snapshots.map(s => s.timestamp.toISOString()), ['2024-01-01T00:40:00.000Z', '2024-01-01T01:05:00.000Z']);
+});
+
+test('a full backend sheds capped collections and keeps saving trades', async () => {
+  const store = new StateStore(new QuotaBackend(4000, { [COLLECTIONS.signals]: 1000 }));
+
+  for (let i = 0; i < 40; i++) {
+    await store.put(COLLECTIONS.signals, `signal_${i}`, { id: `signal_${i}`, reasoning: ['x'.repeat(100)] });
+  }
+  assert.equal(store.getWriteError(), null);
+  assert.ok(store.getRetention()[COLLECTIONS.signals] < 40);
+
+  await store.put(COLLECTIONS.trades, 'trade_1', { id: 'trade_1' });
+  assert.deepEqual(await store.get(COLLECTIONS.trades, 'trade_1'), { id: 'trade_1' });
+});
+
+test('a write that cannot fit after shedding is reported', async () => {
+  const store = new StateStore(new QuotaBackend(200, {}));
+
+  await assert.rejects(store.put(COLLECTIONS.trades, 'trade_1', { id: 'trade_1', notes: 'x'.repeat(500) }), /storage is full/);
+  assert.match(store.getWriteError()!.message, /memory storage is full/);
+});
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { setFileAccess } from '../fileAccess';
+import { nodeFileAccess } from '../nodeServices';
+import { LabeledText, TextClassifierRegistry, TextModelType } from '../textClassifier';
+
+const TEMPLATES: Record<LabeledText['label'], string[]> = {
+  bullish: ['{coin} rally continues as buyers pile in', '{coin} breakout to new highs, bulls in control', 'huge rally for {coin} after strong inflows'],
+  bearish: ['{coin} crash deepens as sellers dump', '{coin} plunge wipes out longs, bears in control', 'brutal dump for {coin} after heavy outflows'],
+  neutral: ['{coin} trades sideways ahead of the meeting', '{coin} volume flat, market waits for data', 'quiet session for {coin} with little change']
+};
+
+// Every template once per coin, so each term clears the document frequency floor
+const corpus: LabeledText[] = ['BTC', 'ETH', 'SOL', 'ADA', 'XRP', 'DOT', 'AVAX', 'LINK'].flatMap(coin =>
+  (Object.keys(TEMPLATES) as LabeledText['label'][]).flatMap(label =>
+    TEMPLATES[label].map(template => ({ text: template.replace('{coin}', coin), label }))
+  )
+);
+
+for (const modelType of ['NAIVE_BAYES', 'LOGISTIC_REGRESSION'] as TextModelType[]) {
+  test(`${modelType} separates the classes and reports held-out metrics`, () => {
+    const registry = new TextClassifierRegistry();
+    const model = registry.train('headlines', corpus, { modelType });
+    const { validation } = model.info;
+
+    assert.equal(model.info.trainSamples + validation.samples, corpus.length);
+    assert.ok(validation.accuracy >= 0.9, `accuracy ${validation.accuracy}`);
+    assert.equal(model.predict('DOGE rally to new highs').label, 'bullish');
+    assert.equal(model.predict('DOGE crash as sellers dump').label, 'bearish');
+    assert.ok(model.predict('DOGE rally to new highs').score > 0);
+    assert.equal(model.predict('unrelated words only').confidence, 0);
+  });
+}
+
+test('metrics count precision, recall and the confusion matrix per class', () => {
+  const registry = new TextClassifierRegistry();
+  const examples: LabeledText[] = [
+    { text: 'a', label: 'bullish' },
+    { text: 'b', label: 'bullish' },
+    { text: 'c', label: 'bearish' },
+    { text: 'd', label: 'neutral' }
+  ];
+  const guesses: Record<string, LabeledText['label']> = { a: 'bullish', b: 'neutral', c: 'bearish', d: 'bullish' };
+  const metrics = registry.evaluate(examples, text => guesses[text]);
+
+  assert.equal(metrics.accuracy, 0.5);
+  assert.deepEqual(metrics.confusion.bullish, { bearish: 0, neutral: 1, bullish: 1 });
+  assert.deepEqual(metrics.classes.bullish, { precision: 0.5, recall: 0.5, f1: 0.5, support: 2 });
+  assert.deepEqual(metrics.classes.bearish, { precision: 1, recall: 1, f1: 1, support: 1 });
+  assert.deepEqual(metrics.classes.neutral, { precision: 0, recall: 0, f1: 0, support: 1 });
+  assert.equal(metrics.macroF1, 0.5);
+});
+
+test('a saved model loads back with the same predictions', async () => {
+  const directory = mkdtempSync(path.join(tmpdir(), 'text-classifier-'));
+  setFileAccess(nodeFileAccess);
+
+  try {
+    const registry = new TextClassifierRegistry(directory);
+    const trained = registry.train('headlines', corpus, { modelType: 'LOGISTIC_REGRESSION' });
+    await registry.save('headlines');
+
+    const loaded = await new TextClassifierRegistry(directory).load('headlines');
+    assert.deepEqual(loaded.info, trained.info);
+    ['SOL rally continues', 'ETH plunge deepens', 'BTC trades sideways'].forEach(text => {
+      assert.deepEqual(loaded.predict(text), trained.predict(text));
+    });
+    await assert.rejects(new TextClassifierRegistry(directory).load('../escape'), /Invalid text classifier name/);
+  } finally {
+    setFileAccess(null);
+    rmSync(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PaperExchangeConnector } from '../exchangeConnector';
+import { PaperExchange } from '../paperExchange';
+import { PortfolioAccounting } from '../portfolioAccounting';
+import { PositionManager } from '../positionManager';
+import { InMemoryStorageBackend, StateStore } from '../stateStore';
+import { TradingBot } from '../tradingBot';
+
+/** A bot over its own venue, accounting and positions, as a fresh process would build them. */
+function startBot(backend: InMemoryStorageBackend) {
+  const exchange = new PaperExchange();
+  const bot = new TradingBot(
+    new StateStore(backend),
+    new PortfolioAccounting(),
+    new PositionManager(),
+    () => new PaperExchangeConnector(exchange)
+  );
+  return { exchange, bot };
+}
+
+// Order events persist in the background; in-memory writes settle within a tick
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+test('a restarted bot can close positions opened before the restart', async () => {
+  const backend = new InMemoryStorageBackend();
+
+  const before = startBot(backend);
+  await before.bot.closePosition('BTC'); // waits for the (empty) state to load
+  before.exchange.updateLastPrice('BTC', 50000);
+  before.exchange.placeOrder({ symbol: 'BTC', side: 'BUY', type: 'MARKET', amount: 1 });
+  before.exchange.placeOrder({ symbol: 'BTC', side: 'BUY', type: 'LIMIT', amount: 0.5, price: 40000 });
+  await settle();
+
+  assert.equal(before.bot.getManagedPositions().length, 1);
+  const cashBefore = before.bot.getPortfolio().cash;
+
+  const after = startBot(backend);
+  after.exchange.updateLastPrice('BTC', 52000);
+  await after.bot.closePosition('BTC');
+  await settle();
+
+  assert.deepEqual(after.bot.getManagedPositions(), []);
+  assert.equal(after.bot.getClosedPositions().length, 1);
+  assert.equal(after.bot.getClosedPositions()[0].exitReason, 'MANUAL');
+
+  const balances = after.exchange.getBalances();
+  assert.ok(Math.abs(balances.BTC.free) < 1e-9);
+  assert.ok(balances.USD.free > cashBefore);
+
+  // The resting limit order survives the restart with its funds still locked
+  const [limit] = after.exchange.getOpenOrders('BTC');
+  assert.equal(limit.price, 40000);
+  assert.ok(Math.abs(balances.USD.locked - 0.5 * 40000 * 1.002) < 1e-6);
+  assert.ok(Math.abs(balances.USD.free + balances.USD.locked - after.bot.getPortfolio().cash) < 1e-6);
+});
+
+test('a bot built before the store switches backend reloads from the new one', async () => {
+  const backend = new InMemoryStorageBackend();
+  const previous = startBot(backend);
+  previous.exchange.updateLastPrice('ETH', 3000);
+  previous.exchange.placeOrder({ symbol: 'ETH', side: 'BUY', type: 'MARKET', amount: 2 });
+  await settle();
+
+  const store = new StateStore(new InMemoryStorageBackend());
+  const exchange = new PaperExchange();
+  const bot = new TradingBot(store, new PortfolioAccounting(), new PositionManager(), () => new PaperExchangeConnector(exchange));
+  await bot.closePosition('ETH');
+  assert.deepEqual(bot.getManagedPositions(), []);
+
+  await store.useBackend(backend);
+  await bot.closePosition('BTC'); // no BTC position; waits for the reload
+
+  assert.deepEqual(bot.getManagedPositions().map(position => position.symbol), ['ETH']);
+  assert.equal(bot.getTradeHistory().length, 1);
+  assert.ok(Math.abs(exchange.getBalances().ETH.free - 2) < 1e-9);
+});
+
+test('selling held coins never opens a short that a later exit would buy back', async () => {
+  const { exchange, bot } = startBot(new InMemoryStorageBackend());
+  await bot.closePosition('BTC'); // waits for the (empty) state to load
+  exchange.resetBalances({ USD: 100000, BTC: 2 }); // coins held before the bot traded
+  exchange.updateLastPrice('BTC', 50000);
+
+  exchange.placeOrder({ symbol: 'BTC', side: 'SELL', type: 'MARKET', amount: 1 });
+  await settle();
+  assert.deepEqual(bot.getManagedPositions(), []);
+
+  exchange.placeOrder({ symbol: 'BTC', side: 'BUY', type: 'MARKET', amount: 1 });
+  exchange.placeOrder({ symbol: 'BTC', side: 'SELL', type: 'MARKET', amount: 0.4 });
+  await settle();
+
+  const [position] = bot.getManagedPositions();
+  assert.equal(position.side, 'LONG');
+  assert.ok(Math.abs(position.amount - 0.6) < 1e-9);
+  assert.equal(bot.getClosedPositions()[0].exitReason, 'MANUAL');
+
+  exchange.placeOrder({ symbol: 'BTC', side: 'SELL', type: 'MARKET', amount: 0.6 });
+  await settle();
+
+  assert.deepEqual(bot.getManagedPositions(), []);
+  assert.equal(bot.getTradeHistory().filter(trade => trade.side === 'BUY').length, 1);
+});
@@ -0,0 +1,499 @@
+import { PredictionEngine, PredictionResult } from './predictionEngine';
+import { MarketDataService } from './marketData';
+import { SentimentAnalyzer, SentimentData } from './sentimentAnalyzer';
+import { calculatePortfolioRisk, calculatePositionSize, shouldExecuteTrade } from './tradingRules';
+import type { TradingStrategy } from './tradingBot';
+import { Candle, TradeExecution } from '../types/trading';
+
+export interface BacktestConfig {
+  strategy: TradingStrategy;
+  initialCapital: number;
+  feeRate: number; // fraction of notional charged per fill
+  slippage: number; // fraction of price moved against every market fill
+  maxDailyTrades: number;
+  maxPortfolioRisk: number;
+  warmupPeriod: number; // candles skipped before the first prediction
+  lookback: number; // candles handed to the prediction engine per bar
+  allowShort: boolean;
+  closeOpenPositions: boolean;
+  sentiment?: SentimentData;
+  sentimentHistory?: SentimentData[]; // each bar uses the latest entry at or before it, falling back to `sentiment`
+}
+
+export interface EquityPoint {
+  timestamp: Date;
+  equity: number;
+  cash: number;
+  positionValue: number;
+  drawdown: number;
+}
+
+export type ExitReason = 'STOP_LOSS' | 'TAKE_PROFIT' | 'END_OF_TEST';
+
+export interface BacktestTrade {
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  entry: TradeExecution;
+  exit: TradeExecution;
+  pnl: number;
+  returnPercentage: number;
+  exitReason: ExitReason;
+}
+
+/**
+ * Ratios are fractions (0.12 = 12%), not percentages.
+ */
+export interface BacktestStats {
+  totalReturn: number;
+  cagr: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  maxDrawdown: number;
+  winRate: number;
+  profitFactor: number;
+  totalTrades: number;
+  totalFees: number;
+}
+
+export interface BacktestResult {
+  symbol: string;
+  startDate: Date;
+  endDate: Date;
+  equityCurve: EquityPoint[];
+  executions: TradeExecution[];
+  trades: BacktestTrade[];
+  stats: BacktestStats;
+}
+
+interface OpenPosition {
+  direction: 'LONG' | 'SHORT';
+  amount: number;
+  entry: TradeExecution;
+  stopLoss: number;
+  takeProfit: number;
+}
+
+interface PendingOrder {
+  direction: 'LONG' | 'SHORT';
+  amount: number;
+}
+
+type BacktestEvent =
+  | { type: 'MARKET'; index: number }
+  | { type: 'SIGNAL'; index: number; prediction: PredictionResult }
+  | { type: 'ORDER'; index: number; order: PendingOrder }
+  | { type: 'FILL'; index: number; execution: TradeExecution; exitReason?: ExitReason };
+
+interface BacktestState {
+  symbol: string;
+  candles: Candle[];
+  config: BacktestConfig;
+  cash: number;
+  position: OpenPosition | null;
+  pendingOrders: PendingOrder[];
+  executions: TradeExecution[];
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  peakEquity: number;
+  entriesByDay: Map<string, number>;
+  sequence: number;
+}
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Event-driven backtester: every candle emits a MARKET event, predictions on
+ * the closed bar emit SIGNAL events, accepted signals queue ORDERs that fill at
+ * the next bar's open, and stop-loss/take-profit exits are checked intra-bar
+ * against each candle's high and low.
+ */
+export class Backtester {
+  private static instance: Backtester;
+  private predictionEngine: PredictionEngine;
+  private marketData: MarketDataService;
+  private sentimentAnalyzer: SentimentAnalyzer;
+
+  constructor(predictionEngine: PredictionEngine = PredictionEngine.getInstance()) {
+    this.predictionEngine = predictionEngine;
+    this.marketData = MarketDataService.getInstance();
+    this.sentimentAnalyzer = SentimentAnalyzer.getInstance();
+  }
+
+  static getInstance(): Backtester {
+    if (!Backtester.instance) {
+      Backtester.instance = new Backtester();
+    }
+    return Backtester.instance;
+  }
+
+  getDefaultConfig(strategy: TradingStrategy): BacktestConfig {
+    return {
+      strategy,
+      initialCapital: 100000,
+      feeRate: 0.001, // 0.1% taker fee
+      slippage: 0.0005, // 5 bps
+      maxDailyTrades: 5,
+      maxPortfolioRisk: 0.3,
+      warmupPeriod: 50,
+      lookback: 200,
+      allowShort: false,
+      closeOpenPositions: true
+    };
+  }
+
+  async run(symbol: string, candles: Candle[], config: BacktestConfig): Promise<BacktestResult> {
+    if (candles.length <= config.warmupPeriod) {
+      throw new Error(`Backtest for ${symbol} needs more than ${config.warmupPeriod} candles`);
+    }
+
+    const state: BacktestState = {
+      symbol,
+      candles: [...candles].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+      config,
+      cash: config.initialCapital,
+      position: null,
+      pendingOrders: [],
+      executions: [],
+      trades: [],
+      equityCurve: [],
+      peakEquity: config.initialCapital,
+      entriesByDay: new Map(),
+      sequence: 0
+    };
+
+    const sentiment = config.sentiment || this.sentimentAnalyzer.getDefaultSentiment(symbol);
+    const sentimentHistory = [...(config.sentimentHistory || [])]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    let sentimentIndex = -1;
+
+    for (let index = 0; index < state.candles.length; index++) {
+      const queue: BacktestEvent[] = [{ type: 'MARKET', index }];
+
+      while (queue.length > 0) {
+        const event = queue.shift()!;
+
+        switch (event.type) {
+          case 'MARKET':
+            queue.push(...this.onMarket(state, event.index));
+            if (event.index >= config.warmupPeriod && event.index < state.candles.length - 1) {
+              const time = state.candles[event.index].timestamp.getTime();
+              while (
+                sentimentIndex + 1 < sentimentHistory.length &&
+                sentimentHistory[sentimentIndex + 1].timestamp.getTime() <= time
+              ) {
+                sentimentIndex++;
+              }
+              const barSentiment = sentimentIndex >= 0 ? sentimentHistory[sentimentIndex] : sentiment;
+              const prediction = await this.predict(state, event.index, barSentiment);
+              queue.push({ type: 'SIGNAL', index: event.index, prediction });
+            }
+            break;
+          case 'SIGNAL':
+            queue.push(...this.onSignal(state, event.index, event.prediction));
+            break;
+          case 'ORDER':
+            state.pendingOrders.push(event.order);
+            break;
+          case 'FILL':
+            this.onFill(state, event.execution, event.exitReason);
+            break;
+        }
+      }
+
+      this.recordEquity(state, index);
+    }
+
+    if (config.closeOpenPositions && state.position) {
+      const lastIndex = state.candles.length - 1;
+      const closingSide = state.position.direction === 'LONG' ? 'SELL' : 'BUY';
+      const price = this.applySlippage(state, state.candles[lastIndex].close, closingSide);
+      const execution = this.createExit(state, lastIndex, 'MARKET', price);
+      this.onFill(state, execution, 'END_OF_TEST');
+      state.equityCurve[state.equityCurve.length - 1] = this.createEquityPoint(state, lastIndex);
+    }
+
+    return {
+      symbol,
+      startDate: state.candles[0].timestamp,
+      endDate: state.candles[state.candles.length - 1].timestamp,
+      equityCurve: state.equityCurve,
+      executions: state.executions,
+      trades: state.trades,
+      stats: this.calculateStats(state)
+    };
+  }
+
+  private onMarket(state: BacktestState, index: number): BacktestEvent[] {
+    const candle = state.candles[index];
+
+    // Orders queued on the previous bar fill at this bar's open, before the
+    // exit check, so a position opened at the open can still stop out intra-bar
+    state.pendingOrders.splice(0).forEach(order => {
+      const side = order.direction === 'LONG' ? 'BUY' : 'SELL';
+      const price = this.applySlippage(state, candle.open, side);
+      this.onFill(state, this.createExecution(state, index, 'MARKET', side, order.amount, price));
+    });
+
+    const exit = this.checkExit(state, index);
+    return exit ? [exit] : [];
+  }
+
+  /**
+   * Conservative intra-bar ordering: when a candle spans both levels the
+   * stop-loss is assumed to have been hit first. Gaps through a level fill at
+   * the open.
+   */
+  private checkExit(state: BacktestState, index: number): BacktestEvent | null {
+    const position = state.position;
+    if (!position) return null;
+
+    const candle = state.candles[index];
+
+    if (position.direction === 'LONG') {
+      if (candle.low <= position.stopLoss) {
+        const price = this.applySlippage(state, Math.min(candle.open, position.stopLoss), 'SELL');
+        return { type: 'FILL', index, execution: this.createExit(state, index, 'STOP_LOSS', price), exitReason: 'STOP_LOSS' };
+      }
+      if (candle.high >= position.takeProfit) {
+        const price = Math.max(candle.open, position.takeProfit);
+        return { type: 'FILL', index, execution: this.createExit(state, index, 'LIMIT', price), exitReason: 'TAKE_PROFIT' };
+      }
+    } else {
+      if (candle.high >= position.stopLoss) {
+        const price = this.applySlippage(state, Math.max(candle.open, position.stopLoss), 'BUY');
+        return { type: 'FILL', index, execution: this.createExit(state, index, 'STOP_LOSS', price), exitReason: 'STOP_LOSS' };
+      }
+      if (candle.low <= position.takeProfit) {
+        const price = Math.min(candle.open, position.takeProfit);
+        return { type: 'FILL', index, execution: this.createExit(state, index, 'LIMIT', price), exitReason: 'TAKE_PROFIT' };
+      }
+    }
+
+    return null;
+  }
+
+  private async predict(state: BacktestState, index: number, sentiment: SentimentData): Promise<PredictionResult> {
+    const window = state.candles.slice(Math.max(0, index - state.config.lookback + 1), index + 1);
+    const marketData = this.marketData.buildMarketData(state.symbol, window, { bids: [], asks: [] });
+    const marketConditions = this.marketData.deriveMarketConditions(marketData);
+
+    return this.predictionEngine.generatePrediction(
+      state.symbol,
+      marketData.price,
+      window,
+      marketConditions,
+      sentiment
+    );
+  }
+
+  private onSignal(state: BacktestState, index: number, prediction: PredictionResult): BacktestEvent[] {
+    if (prediction.prediction === 'HOLD') return [];
+    if (prediction.prediction === 'SELL' && !state.config.allowShort) return [];
+    if (state.pendingOrders.length > 0) return [];
+
+    const candle = state.candles[index];
+    const equity = this.calculateEquity(state, candle.close);
+    const signal = { symbol: state.symbol, confidence: prediction.confidence, price: candle.close };
+    const positionValue = state.position ? state.position.amount * candle.close : 0;
+
+    const accepted = shouldExecuteTrade(signal, {
+      config: state.config,
+      tradesToday: state.entriesByDay.get(this.dayKey(candle.timestamp)) || 0,
+      openSymbols: new Set(state.position ? [state.symbol] : []),
+      portfolioRisk: calculatePortfolioRisk(positionValue ? [positionValue] : [], equity)
+    });
+
+    if (!accepted) return [];
+
+    let amount = calculatePositionSize(signal, state.config.strategy, equity);
+
+    // Never spend more cash than is available, fees included
+    const maxAffordable = state.cash / (candle.close * (1 + state.config.slippage) * (1 + state.config.feeRate));
+    amount = Math.min(amount, maxAffordable);
+
+    if (amount <= 0) return [];
+
+    return [{
+      type: 'ORDER',
+      index,
+      order: { direction: prediction.prediction === 'BUY' ? 'LONG' : 'SHORT', amount }
+    }];
+  }
+
+  private onFill(state: BacktestState, execution: TradeExecution, exitReason?: ExitReason): void {
+    const notional = execution.amount * execution.price!;
+    state.executions.push(execution);
+
+    if (execution.side === 'BUY') {
+      state.cash -= notional + execution.fees;
+    } else {
+      state.cash += notional - execution.fees;
+    }
+
+    if (!state.position) {
+      const { stopLossPercentage, takeProfitPercentage } = state.config.strategy;
+      const direction = execution.side === 'BUY' ? 'LONG' : 'SHORT';
+      const sign = direction === 'LONG' ? 1 : -1;
+      const day = this.dayKey(execution.timestamp);
+
+      state.position = {
+        direction,
+        amount: execution.amount,
+        entry: execution,
+        stopLoss: execution.price! * (1 - sign * stopLossPercentage / 100),
+        takeProfit: execution.price! * (1 + sign * takeProfitPercentage / 100)
+      };
+      state.entriesByDay.set(day, (state.entriesByDay.get(day) || 0) + 1);
+      return;
+    }
+
+    const position = state.position;
+    const sign = position.direction === 'LONG' ? 1 : -1;
+    const grossPnl = (execution.price! - position.entry.price!) * position.amount * sign;
+    const pnl = grossPnl - position.entry.fees - execution.fees;
+    const costBasis = position.entry.price! * position.amount;
+
+    state.trades.push({
+      symbol: state.symbol,
+      direction: position.direction,
+      entry: position.entry,
+      exit: execution,
+      pnl,
+      returnPercentage: costBasis ? (pnl / costBasis) * 100 : 0,
+      exitReason: exitReason || 'END_OF_TEST'
+    });
+    state.position = null;
+  }
+
+  private createExit(
+    state: BacktestState,
+    index: number,
+    type: TradeExecution['type'],
+    price: number
+  ): TradeExecution {
+    const position = state.position!;
+    const side = position.direction === 'LONG' ? 'SELL' : 'BUY';
+    return this.createExecution(state, index, type, side, position.amount, price);
+  }
+
+  private createExecution(
+    state: BacktestState,
+    index: number,
+    type: TradeExecution['type'],
+    side: 'BUY' | 'SELL',
+    amount: number,
+    price: number
+  ): TradeExecution {
+    return {
+      id: `backtest_${state.symbol}_${index}_${state.sequence++}`,
+      type,
+      symbol: state.symbol,
+      side,
+      amount,
+      price,
+      status: 'FILLED',
+      timestamp: state.candles[index].timestamp,
+      fees: amount * price * state.config.feeRate
+    };
+  }
+
+  private applySlippage(state: BacktestState, price: number, side: 'BUY' | 'SELL'): number {
+    return side === 'BUY' ? price * (1 + state.config.slippage) : price * (1 - state.config.slippage);
+  }
+
+  private calculateEquity(state: BacktestState, price: number): number {
+    if (!state.position) return state.cash;
+
+    const value = state.position.amount * price;
+    return state.position.direction === 'LONG' ? state.cash + value : state.cash - value;
+  }
+
+  private recordEquity(state: BacktestState, index: number): void {
+    state.equityCurve.push(this.createEquityPoint(state, index));
+  }
+
+  private createEquityPoint(state: BacktestState, index: number): EquityPoint {
+    const candle = state.candles[index];
+    const equity = this.calculateEquity(state, candle.close);
+    state.peakEquity = Math.max(state.peakEquity, equity);
+
+    return {
+      timestamp: candle.timestamp,
+      equity,
+      cash: state.cash,
+      positionValue: state.position ? state.position.amount * candle.close : 0,
+      drawdown: state.peakEquity > 0 ? (state.peakEquity - equity) / state.peakEquity : 0
+    };
+  }
+
+  private calculateStats(state: BacktestState): BacktestStats {
+    // Measure from the first bar that can trade; flat warm-up bars would
+    // otherwise dilute the return distribution
+    const curve = state.equityCurve.slice(state.config.warmupPeriod);
+    const initial = state.config.initialCapital;
+    const final = curve.length ? curve[curve.length - 1].equity : initial;
+
+    const returns: number[] = [];
+    for (let i = 1; i < curve.length; i++) {
+      returns.push(curve[i - 1].equity ? curve[i].equity / curve[i - 1].equity - 1 : 0);
+    }
+
+    const periodsPerYear = this.estimatePeriodsPerYear(state.candles);
+    const elapsedYears = curve.length > 1
+      ? (curve[curve.length - 1].timestamp.getTime() - curve[0].timestamp.getTime()) / YEAR_MS
+      : 0;
+
+    const wins = state.trades.filter(trade => trade.pnl > 0);
+    const grossProfit = wins.reduce((sum, trade) => sum + trade.pnl, 0);
+    const grossLoss = Math.abs(state.trades.filter(trade => trade.pnl < 0).reduce((sum, trade) => sum + trade.pnl, 0));
+
+    return {
+      totalReturn: initial ? final / initial - 1 : 0,
+      cagr: elapsedYears > 0 && final > 0 ? Math.pow(final / initial, 1 / elapsedYears) - 1 : 0,
+      sharpeRatio: this.calculateSharpe(returns, periodsPerYear),
+      sortinoRatio: this.calculateSortino(returns, periodsPerYear),
+      maxDrawdown: curve.reduce((max, point) => Math.max(max, point.drawdown), 0),
+      winRate: state.trades.length ? wins.length / state.trades.length : 0,
+      profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+      totalTrades: state.trades.length,
+      totalFees: state.executions.reduce((sum, execution) => sum + execution.fees, 0)
+    };
+  }
+
+  private calculateSharpe(returns: number[], periodsPerYear: number): number {
+    if (returns.length < 2) return 0;
+
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+    const stdDev = Math.sqrt(variance);
+
+    return stdDev > 0 ? (mean / stdDev) * Math.sqrt(periodsPerYear) : 0;
+  }
+
+  private calculateSortino(returns: number[], periodsPerYear: number): number {
+    if (returns.length < 2) return 0;
+
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const downsideVariance = returns.reduce((sum, r) => sum + Math.pow(Math.min(r, 0), 2), 0) / returns.length;
+    const downsideDeviation = Math.sqrt(downsideVariance);
+
+    return downsideDeviation > 0 ? (mean / downsideDeviation) * Math.sqrt(periodsPerYear) : 0;
+  }
+
+  private estimatePeriodsPerYear(candles: Candle[]): number {
+    if (candles.length < 2) return 365;
+
+    const intervals: number[] = [];
+    for (let i = 1; i < candles.length; i++) {
+      intervals.push(candles[i].timestamp.getTime() - candles[i - 1].timestamp.getTime());
+    }
+    intervals.sort((a, b) => a - b);
+
+    const median = intervals[Math.floor(intervals.length / 2)];
+    return median > 0 ? YEAR_MS / median : 365;
+  }
+
+  private dayKey(timestamp: Date): string {
+    return timestamp.toISOString().slice(0, 10);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,182 @@
+import { OrderBook } from '../types/trading';
+import { Balance, OrderEventListener, OrderFill, OrderRequest, PaperExchange, PaperExchangeState, PaperOrder } from './paperExchange';
+
+export type ExchangeOrder = PaperOrder;
+
+export interface PublicTrade {
+  id: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  price: number;
+  amount: number;
+  timestamp: Date;
+}
+
+export type TradeListener = (trade: PublicTrade) => void;
+
+export interface ExchangeCredentials {
+  apiKey: string;
+  apiSecret: string;
+}
+
+export interface ExchangeConnectorConfig {
+  mode: 'paper' | 'live';
+  restUrl?: string;
+  wsUrl?: string;
+  credentials?: ExchangeCredentials;
+  reconnectDelay?: number;
+}
+
+export interface WebSocketLike {
+  readyState: number;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export type WebSocketFactory = (url: string) => WebSocketLike;
+
+export interface ExchangeConnector {
+  readonly name: string;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  placeOrder(request: OrderRequest): Promise<ExchangeOrder>;
+  cancelOrder(orderId: string): Promise<boolean>;
+  getBalances(): Promise<Record<string, Balance>>;
+  getOpenOrders(symbol?: string): Promise<ExchangeOrder[]>;
+  subscribeTrades(symbol: string, listener: TradeListener): () => void;
+  onOrderUpdate(listener: OrderEventListener): () => void;
+  /**
+   * Simulated venues match against the bot's market data, falling back to the
+   * last price when the book is empty; live venues ignore it.
+   */
+  syncOrderBook?(symbol: string, orderBook: OrderBook, lastPrice?: number): void;
+  /**
+   * Simulated venues hold balances and resting orders locally, so the bot
+   * saves and restores them with its own state; live venues keep their own.
+   */
+  exportState?(): PaperExchangeState;
+  importState?(state: PaperExchangeState): void;
+}
+
+// Wire forms of the exchange types: JSON carries Dates as ISO strings
+export type OrderFillPayload = Omit<OrderFill, 'timestamp'> & { timestamp: string };
+export type PublicTradePayload = Omit<PublicTrade, 'timestamp'> & { timestamp: string };
+export type ExchangeOrderPayload = Omit<ExchangeOrder, 'timestamp' | 'fills'> & {
+  timestamp: string;
+  fills?: OrderFillPayload[];
+};
+
+export function parseFill(raw: OrderFillPayload): OrderFill {
+  return { ...raw, timestamp: new Date(raw.timestamp) };
+}
+
+/**
+ * Converts an order received as JSON back into an ExchangeOrder with Date fields.
+ */
+export function parseOrder(raw: ExchangeOrderPayload): ExchangeOrder {
+  return {
+    ...raw,
+    timestamp: new Date(raw.timestamp),
+    fills: (raw.fills || []).map(parseFill)
+  };
+}
+
+export class PaperExchangeConnector implements ExchangeConnector {
+  readonly name = 'paper';
+  private tradeListeners = new Map<string, Set<TradeListener>>();
+  private unsubscribeFills: (() => void) | null = null;
+
+  constructor(private exchange: PaperExchange = PaperExchange.getInstance()) {}
+
+  async connect(): Promise<void> {
+    if (this.unsubscribeFills) return;
+
+    // The simulator has no public tape, so our own fills stand in for it
+    this.unsubscribeFills = this.exchange.onOrderUpdate(event => {
+      if (!event.fill) return;
+
+      const listeners = this.tradeListeners.get(event.order.symbol);
+      listeners?.forEach(listener => listener({
+        id: `${event.fill!.orderId}_${event.order.fills.length}`,
+        symbol: event.order.symbol,
+        side: event.order.side,
+        price: event.fill!.price,
+        amount: event.fill!.amount,
+        timestamp: event.fill!.timestamp
+      }));
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    this.unsubscribeFills?.();
+    this.unsubscribeFills = null;
+  }
+
+  async placeOrder(request: OrderRequest): Promise<ExchangeOrder> {
+    return this.exchange.placeOrder(request);
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    return this.exchange.cancelOrder(orderId);
+  }
+
+  async getBalances(): Promise<Record<string, Balance>> {
+    return this.exchange.getBalances();
+  }
+
+  async getOpenOrders(symbol?: string): Promise<ExchangeOrder[]> {
+    return this.exchange.getOpenOrders(symbol);
+  }
+
+  subscribeTrades(symbol: string, listener: TradeListener): () => void {
+    if (!this.tradeListeners.has(symbol)) {
+      this.tradeListeners.set(symbol, new Set());
+    }
+    this.tradeListeners.get(symbol)!.add(listener);
+    return () => this.tradeListeners.get(symbol)?.delete(listener);
+  }
+
+  onOrderUpdate(listener: OrderEventListener): () => void {
+    return this.exchange.onOrderUpdate(listener);
+  }
+
+  syncOrderBook(symbol: string, orderBook: OrderBook, lastPrice?: number): void {
+    if (lastPrice !== undefined) this.exchange.updateLastPrice(symbol, lastPrice);
+    this.exchange.updateOrderBook(symbol, orderBook);
+  }
+
+  exportState(): PaperExchangeState {
+    return this.exchange.exportState();
+  }
+
+  importState(state: PaperExchangeState): void {
+    this.exchange.importState(state);
+  }
+}
+
+export type ExchangeConnectorFactory = (config: ExchangeConnectorConfig) => ExchangeConnector;
+
+let liveConnectorFactory: ExchangeConnectorFactory | null = null;
+
+/**
+ * Installs the adapter used for live mode. The REST adapter signs requests
+ * with Node's crypto, so configureNodeServices installs it; browsers stay on
+ * paper trading unless they provide their own.
+ */
+export function setLiveConnectorFactory(factory: ExchangeConnectorFactory | null): void {
+  liveConnectorFactory = factory;
+}
+
+export function createExchangeConnector(config: ExchangeConnectorConfig): ExchangeConnector {
+  if (config.mode === 'live') {
+    if (!liveConnectorFactory) {
+      throw new Error('No live exchange connector installed; call configureNodeServices() or setLiveConnectorFactory()');
+    }
+    return liveConnectorFactory(config);
+  }
+  return new PaperExchangeConnector();
+}
\ No newline at end of file
@@ -0,0 +1,206 @@
+import { Candle } from '../types/trading';
+import { MarketDataService } from './marketData';
+import type { MarketConditions } from './predictionEngine';
+import { SentimentAnalyzer, SentimentData } from './sentimentAnalyzer';
+import { TechnicalAnalysisService, TechnicalIndicators } from './technicalAnalysis';
+
+export const FEATURE_NAMES = [
+  'rsi',
+  'macdHistogram',
+  'bollingerPosition',
+  'sma20To50',
+  'priceToSma200',
+  'ema12To26',
+  'stochasticK',
+  'stochasticKMinusD',
+  'volumeRatio',
+  'atrPercent',
+  'adx',
+  'directionalSpread',
+  'cci',
+  'priceToVwap',
+  'keltnerPosition',
+  'tenkanToKijun',
+  'return1',
+  'return5',
+  'return20',
+  'sentimentOverall',
+  'sentimentNews',
+  'sentimentSocial',
+  'volatility',
+  'trend'
+] as const;
+
+export type FeatureName = typeof FEATURE_NAMES[number];
+
+export const SENTIMENT_FEATURES: FeatureName[] = ['sentimentOverall', 'sentimentNews', 'sentimentSocial'];
+
+export interface LabelingOptions {
+  horizon: number; // bars ahead the forward return is measured over
+  threshold: number; // minimum forward return counted as an up move
+}
+
+export interface DatasetOptions extends LabelingOptions {
+  lookback: number; // candles handed to the indicators per sample, as in the backtester
+  warmup: number; // samples start once this many candles are available
+  // Timestamped scores, e.g. a backtest's sentiment history; each sample takes
+  // the latest at or before its candle. Without one the sentiment features are left out
+  sentimentHistory?: SentimentData[];
+}
+
+export interface Dataset {
+  featureNames: string[];
+  features: number[][];
+  usesSentiment: boolean;
+  labels: number[]; // 1 when the forward return beats the threshold, else 0
+  forwardReturns: number[];
+  timestamps: Date[];
+}
+
+export interface Standardization {
+  mean: number[];
+  std: number[];
+}
+
+/**
+ * Turns indicators, sentiment and market conditions into a fixed-length
+ * numeric vector. Every feature is scale-free (ratios, oscillators rescaled
+ * around zero) so models trained on one symbol transfer to another.
+ */
+export class FeaturePipeline {
+  private static instance: FeaturePipeline;
+  private technicalAnalysis: TechnicalAnalysisService;
+  private marketData: MarketDataService;
+
+  constructor() {
+    this.technicalAnalysis = TechnicalAnalysisService.getInstance();
+    this.marketData = MarketDataService.getInstance();
+  }
+
+  static getInstance(): FeaturePipeline {
+    if (!FeaturePipeline.instance) {
+      FeaturePipeline.instance = new FeaturePipeline();
+    }
+    return FeaturePipeline.instance;
+  }
+
+  getFeatureNames(includeSentiment = true): FeatureName[] {
+    return FEATURE_NAMES.filter(name => includeSentiment || !SENTIMENT_FEATURES.includes(name));
+  }
+
+  /**
+   * Feature vector in getFeatureNames() order. A null sentiment leaves the
+   * sentiment features out, for models trained without sentiment history.
+   */
+  extractFeatures(
+    candles: Candle[],
+    sentiment: SentimentData | null,
+    marketConditions: MarketConditions,
+    indicators: TechnicalIndicators = this.technicalAnalysis.calculateIndicators(candles)
+  ): number[] {
+    const closes = candles.map(candle => candle.close);
+    const price = closes[closes.length - 1] || 0;
+    const ratio = (a: number, b: number) => (b ? a / b - 1 : 0);
+    const position = (value: number, lower: number, upper: number) =>
+      (upper > lower ? (value - lower) / (upper - lower) : 0.5) - 0.5;
+    const pastReturn = (bars: number) =>
+      closes.length > bars ? ratio(price, closes[closes.length - 1 - bars]) : 0;
+
+    const features: Record<FeatureName, number> = {
+      rsi: indicators.rsi / 100 - 0.5,
+      macdHistogram: price ? (indicators.macd.histogram / price) * 100 : 0,
+      bollingerPosition: position(price, indicators.bollingerBands.lower, indicators.bollingerBands.upper),
+      sma20To50: ratio(indicators.movingAverages.sma20, indicators.movingAverages.sma50),
+      priceToSma200: ratio(price, indicators.movingAverages.sma200),
+      ema12To26: ratio(indicators.movingAverages.ema12, indicators.movingAverages.ema26),
+      stochasticK: indicators.stochastic.k / 100 - 0.5,
+      stochasticKMinusD: (indicators.stochastic.k - indicators.stochastic.d) / 100,
+      volumeRatio: Math.log(Math.max(indicators.volume.ratio, 1e-6)),
+      atrPercent: price ? indicators.atr / price : 0,
+      adx: indicators.adx.adx / 100,
+      directionalSpread: (indicators.adx.plusDI - indicators.adx.minusDI) / 100,
+      cci: Math.max(-3, Math.min(3, indicators.cci / 100)),
+      priceToVwap: ratio(price, indicators.vwap),
+      keltnerPosition: position(price, indicators.keltnerChannels.lower, indicators.keltnerChannels.upper),
+      tenkanToKijun: ratio(indicators.ichimoku.tenkan, indicators.ichimoku.kijun),
+      return1: pastReturn(1),
+      return5: pastReturn(5),
+      return20: pastReturn(20),
+      sentimentOverall: sentiment ? sentiment.overall : 0,
+      sentimentNews: sentiment ? sentiment.sources.news : 0,
+      sentimentSocial: sentiment ? (sentiment.sources.twitter + sentiment.sources.reddit + sentiment.sources.telegram) / 3 : 0,
+      volatility: marketConditions.volatility,
+      trend: marketConditions.trend === 'BULLISH' ? 1 : marketConditions.trend === 'BEARISH' ? -1 : 0
+    };
+
+    return this.getFeatureNames(sentiment !== null).map(name => (Number.isFinite(features[name]) ? features[name] : 0));
+  }
+
+  /**
+   * Labels bar i by the return from its close to the close `horizon` bars
+   * later. The last `horizon` bars have no label and are left out.
+   */
+  labelForwardReturns(candles: Candle[], options: LabelingOptions): { labels: number[]; forwardReturns: number[] } {
+    const labels: number[] = [];
+    const forwardReturns: number[] = [];
+
+    for (let i = 0; i + options.horizon < candles.length; i++) {
+      const forwardReturn = candles[i + options.horizon].close / candles[i].close - 1;
+      forwardReturns.push(forwardReturn);
+      labels.push(forwardReturn > options.threshold ? 1 : 0);
+    }
+
+    return { labels, forwardReturns };
+  }
+
+  buildDataset(symbol: string, candles: Candle[], options: DatasetOptions): Dataset {
+    const history = [...(options.sentimentHistory || [])].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const usesSentiment = history.length > 0;
+    const neutral = SentimentAnalyzer.getInstance().getDefaultSentiment(symbol);
+    let sentimentIndex = -1;
+
+    const { labels, forwardReturns } = this.labelForwardReturns(candles, options);
+    const dataset: Dataset = {
+      featureNames: this.getFeatureNames(usesSentiment),
+      usesSentiment,
+      features: [],
+      labels: [],
+      forwardReturns: [],
+      timestamps: []
+    };
+
+    for (let i = Math.max(options.warmup - 1, 0); i < labels.length; i++) {
+      const window = candles.slice(Math.max(0, i - options.lookback + 1), i + 1);
+      const marketConditions = this.marketData.deriveMarketConditions(
+        this.marketData.buildMarketData(symbol, window, { bids: [], asks: [] })
+      );
+
+      while (sentimentIndex + 1 < history.length && history[sentimentIndex + 1].timestamp.getTime() <= candles[i].timestamp.getTime()) {
+        sentimentIndex++;
+      }
+      const sentiment = usesSentiment ? (sentimentIndex >= 0 ? history[sentimentIndex] : neutral) : null;
+
+      dataset.features.push(this.extractFeatures(window, sentiment, marketConditions));
+      dataset.labels.push(labels[i]);
+      dataset.forwardReturns.push(forwardReturns[i]);
+      dataset.timestamps.push(candles[i].timestamp);
+    }
+
+    return dataset;
+  }
+
+  fitStandardization(features: number[][]): Standardization {
+    const width = features[0]?.length || 0;
+    const mean = new Array<number>(width).fill(0);
+    const std = new Array<number>(width).fill(0);
+
+    features.forEach(row => row.forEach((value, j) => { mean[j] += value / features.length; }));
+    features.forEach(row => row.forEach((value, j) => { std[j] += Math.pow(value - mean[j], 2) / features.length; }));
+
+    return { mean, std: std.map(variance => Math.sqrt(variance) || 1) };
+  }
+
+  standardize(row: number[], standardization: Standardization): number[] {
+    return row.map((value, j) => (value - standardization.mean[j]) / standardization.std[j]);
+  }
+}
\ No newline at end of file
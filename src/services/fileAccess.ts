@@ -0,0 +1,34 @@
+/**
+ * File system access for services that read or write local files (state,
+ * models, datasets, market data dumps). Browser bundles have none; Node
+ * entry points install one with configureNodeServices (see nodeServices).
+ * Relative paths resolve against the process working directory.
+ */
+export interface FileAccess {
+  readText(filePath: string): Promise<string>; // rejects with code ENOENT when missing
+  writeText(filePath: string, content: string): Promise<void>; // atomic, creates parent directories
+  listFiles(directory: string): Promise<string[]>; // file names; empty when the directory is missing
+}
+
+let fileAccess: FileAccess | null = null;
+
+export function setFileAccess(access: FileAccess | null): void {
+  fileAccess = access;
+}
+
+export function hasFileAccess(): boolean {
+  return fileAccess !== null;
+}
+
+export function getFileAccess(): FileAccess {
+  if (!fileAccess) {
+    throw new Error('No file access configured; call configureNodeServices() when running under Node');
+  }
+  return fileAccess;
+}
+
+/** Joins path segments with `/`, which Node accepts on every platform. */
+export function joinPath(...parts: string[]): string {
+  const joined = parts.filter(Boolean).join('/').replace(/\/{2,}/g, '/');
+  return joined.length > 1 ? joined.replace(/\/$/, '') : joined;
+}
@@ -0,0 +1,603 @@
+export interface FormulaIssue {
+  nodeId: string;
+  line: number;
+  column: number;
+  message: string;
+}
+
+export type CompiledFormula = (scope: Record<string, unknown>) => unknown;
+
+type TokenType = 'number' | 'string' | 'name' | 'punctuator' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  pos: number;
+}
+
+type Expression =
+  | { kind: 'literal'; pos: number; value: unknown }
+  | { kind: 'identifier'; pos: number; name: string }
+  | { kind: 'array'; pos: number; elements: Expression[] }
+  | { kind: 'member'; pos: number; object: Expression; property: Expression; optional: boolean }
+  | { kind: 'call'; pos: number; callee: Expression; args: Expression[]; optional: boolean }
+  | { kind: 'unary'; pos: number; operator: string; argument: Expression }
+  | { kind: 'binary'; pos: number; operator: string; left: Expression; right: Expression }
+  | { kind: 'conditional'; pos: number; test: Expression; consequent: Expression; alternate: Expression };
+
+type Statement =
+  | { kind: 'declaration'; pos: number; name: string; init?: Expression }
+  | { kind: 'assignment'; pos: number; name: string; value: Expression }
+  | { kind: 'if'; pos: number; test: Expression; consequent: Statement[]; alternate?: Statement[] }
+  | { kind: 'expression'; pos: number; expression: Expression };
+
+interface ParsedFormula {
+  statements?: Statement[];
+  issue?: { pos: number; message: string };
+}
+
+// Longest first so `===` is not read as `==` followed by `=`
+const PUNCTUATORS = [
+  '===', '!==', '**', '<=', '>=', '==', '!=', '&&', '||', '??', '?.',
+  '(', ')', '[', ']', '{', '}', '.', ',', ';', '?', ':', '+', '-', '*', '/', '%', '<', '>', '!', '='
+];
+
+// Binary operators by precedence, loosest first
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '<=': 5, '>': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7,
+  '**': 8
+};
+
+const KEYWORD_VALUES: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined
+};
+
+// Reaching any of these is the first step of every escape from a sandbox
+const BLOCKED_PROPERTIES = new Set(['constructor', '__proto__', 'prototype', '__defineGetter__', '__defineSetter__', '__lookupGetter__', '__lookupSetter__']);
+
+export const FORMULA_MATH = Object.freeze({
+  abs: Math.abs,
+  min: Math.min,
+  max: Math.max,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  trunc: Math.trunc,
+  sign: Math.sign,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  pow: Math.pow,
+  exp: Math.exp,
+  log: Math.log,
+  log10: Math.log10,
+  log2: Math.log2,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  atan: Math.atan,
+  atan2: Math.atan2,
+  hypot: Math.hypot,
+  PI: Math.PI,
+  E: Math.E
+});
+
+const FORMULA_GLOBALS: Record<string, unknown> = {
+  Math: FORMULA_MATH,
+  isFinite: (value: unknown) => Number.isFinite(value),
+  isNaN: (value: unknown) => Number.isNaN(value),
+  Infinity,
+  NaN
+};
+
+const parsedFormulas = new Map<string, ParsedFormula>();
+
+/**
+ * Parses formula code into a function of its scope. The language is the
+ * JavaScript subset Superalgos definitions use: literals, property and index
+ * access, calls to functions handed in through the scope, arithmetic,
+ * comparisons, logical operators and ternaries, plus `let`/`const`
+ * declarations, bare assignments and `if`/`else` blocks. The value is that of
+ * the last statement evaluated, as with `eval`.
+ *
+ * Only own properties are readable, so prototypes, constructors and globals
+ * other than the whitelisted `Math` functions stay out of reach. Throws an
+ * Error naming the node, line and column when the code does not parse.
+ */
+export function compileFormula(code: string, nodeId = ''): CompiledFormula {
+  const parsed = parseFormula(code);
+  if (parsed.issue) {
+    throw new Error(formatMessage(code, nodeId, parsed.issue.pos, parsed.issue.message));
+  }
+
+  const statements = parsed.statements!;
+  return scope => new FormulaInterpreter(code, nodeId, scope).run(statements);
+}
+
+/**
+ * Syntax check for definition loading: the first parse error, or null.
+ */
+export function checkFormula(code: string, nodeId = ''): FormulaIssue | null {
+  const { issue } = parseFormula(code);
+  if (!issue) return null;
+
+  const { line, column } = locate(code, issue.pos);
+  return { nodeId, line, column, message: issue.message };
+}
+
+/**
+ * Default evaluator for Learning Engine and plotter formulas.
+ */
+export const expressionEvaluator = (code: string, scope: Record<string, unknown>, nodeId = ''): unknown =>
+  compileFormula(code, nodeId)(scope);
+
+function parseFormula(code: string): ParsedFormula {
+  let parsed = parsedFormulas.get(code);
+  if (!parsed) {
+    try {
+      parsed = { statements: new FormulaParser(tokenize(code)).parseProgram() };
+    } catch (error) {
+      if (!(error instanceof FormulaSyntaxIssue)) throw error;
+      parsed = { issue: { pos: error.pos, message: error.message } };
+    }
+    parsedFormulas.set(code, parsed);
+  }
+  return parsed;
+}
+
+// Carries a source position from the tokenizer and parser to parseFormula
+class FormulaSyntaxIssue {
+  constructor(public message: string, public pos: number) {}
+}
+
+function tokenize(code: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < code.length) {
+    const char = code[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+    } else if (code.startsWith('//', pos)) {
+      const end = code.indexOf('\n', pos);
+      pos = end < 0 ? code.length : end;
+    } else if (code.startsWith('/*', pos)) {
+      const end = code.indexOf('*/', pos + 2);
+      if (end < 0) throw new FormulaSyntaxIssue('Unterminated comment', pos);
+      pos = end + 2;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(code[pos + 1] || ''))) {
+      const match = code.slice(pos).match(/^(\d*\.?\d+|\d+\.)([eE][+-]?\d+)?/)!;
+      tokens.push({ type: 'number', value: match[0], pos });
+      pos += match[0].length;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      let end = pos + 1;
+      while (end < code.length && code[end] !== char) {
+        if (code[end] === '\n') break;
+        if (code[end] === '\\' && end + 1 < code.length) {
+          const escaped = code[end + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          end += 2;
+        } else {
+          value += code[end++];
+        }
+      }
+      if (code[end] !== char) throw new FormulaSyntaxIssue('Unterminated string', pos);
+      tokens.push({ type: 'string', value, pos });
+      pos = end + 1;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const name = code.slice(pos).match(/^[A-Za-z_$][\w$]*/)![0];
+      tokens.push({ type: 'name', value: name, pos });
+      pos += name.length;
+    } else {
+      let punctuator = PUNCTUATORS.find(candidate => code.startsWith(candidate, pos));
+      // `a?.5:1` is a ternary, not optional chaining
+      if (punctuator === '?.' && /[0-9]/.test(code[pos + 2] || '')) punctuator = '?';
+      if (!punctuator) throw new FormulaSyntaxIssue(`Unexpected character '${char}'`, pos);
+      tokens.push({ type: 'punctuator', value: punctuator, pos });
+      pos += punctuator.length;
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', pos: code.length });
+  return tokens;
+}
+
+class FormulaParser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseProgram(): Statement[] {
+    return this.parseStatements(true);
+  }
+
+  private parseStatements(topLevel: boolean): Statement[] {
+    const statements: Statement[] = [];
+
+    while (!this.at('end') && !(this.is('}') && !topLevel)) {
+      if (this.eat(';')) continue;
+      statements.push(this.parseStatement());
+    }
+
+    if (topLevel && !this.at('end')) this.unexpected();
+    return statements;
+  }
+
+  private parseStatement(): Statement {
+    const token = this.peek();
+
+    if (token.type === 'name' && (token.value === 'let' || token.value === 'const' || token.value === 'var')) {
+      this.index++;
+      const name = this.expectName();
+      const init = this.eat('=') ? this.parseExpression() : undefined;
+      return { kind: 'declaration', pos: token.pos, name, init };
+    }
+
+    if (token.type === 'name' && token.value === 'if') {
+      this.index++;
+      this.expect('(');
+      const test = this.parseExpression();
+      this.expect(')');
+      const consequent = this.parseBlock();
+      let alternate: Statement[] | undefined;
+      if (this.isName('else')) {
+        this.index++;
+        alternate = this.isName('if') ? [this.parseStatement()] : this.parseBlock();
+      }
+      return { kind: 'if', pos: token.pos, test, consequent, alternate };
+    }
+
+    const expression = this.parseExpression();
+    if (this.is('=')) {
+      if (expression.kind !== 'identifier') {
+        throw new FormulaSyntaxIssue('Only local variables can be assigned', this.peek().pos);
+      }
+      this.index++;
+      return { kind: 'assignment', pos: token.pos, name: expression.name, value: this.parseExpression() };
+    }
+    return { kind: 'expression', pos: token.pos, expression };
+  }
+
+  private parseBlock(): Statement[] {
+    if (!this.is('{')) return [this.parseStatement()];
+
+    this.index++;
+    const statements = this.parseStatements(false);
+    this.expect('}');
+    return statements;
+  }
+
+  private parseExpression(): Expression {
+    const test = this.parseBinary(1);
+    if (!this.is('?')) return test;
+
+    this.index++;
+    const consequent = this.parseExpression();
+    this.expect(':');
+    const alternate = this.parseExpression();
+    return { kind: 'conditional', pos: test.pos, test, consequent, alternate };
+  }
+
+  private parseBinary(minPrecedence: number): Expression {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.type === 'punctuator' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+
+      this.index++;
+      // `**` is right associative
+      const right = this.parseBinary(token.value === '**' ? precedence : precedence + 1);
+      left = { kind: 'binary', pos: token.pos, operator: token.value, left, right };
+    }
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (token.type === 'punctuator' && (token.value === '!' || token.value === '-' || token.value === '+')) {
+      this.index++;
+      return { kind: 'unary', pos: token.pos, operator: token.value, argument: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(expression: Expression): Expression {
+    for (;;) {
+      const token = this.peek();
+      const optional = token.value === '?.' && token.type === 'punctuator';
+
+      if (this.is('.') || optional) {
+        this.index++;
+        if (optional && this.is('(')) {
+          expression = { kind: 'call', pos: token.pos, callee: expression, args: this.parseArguments(), optional };
+        } else if (optional && this.is('[')) {
+          expression = { kind: 'member', pos: token.pos, object: expression, property: this.parseIndex(), optional };
+        } else {
+          const name = this.expectName();
+          expression = { kind: 'member', pos: token.pos, object: expression, property: { kind: 'literal', pos: token.pos, value: name }, optional };
+        }
+      } else if (this.is('[')) {
+        expression = { kind: 'member', pos: token.pos, object: expression, property: this.parseIndex(), optional: false };
+      } else if (this.is('(')) {
+        expression = { kind: 'call', pos: token.pos, callee: expression, args: this.parseArguments(), optional: false };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseIndex(): Expression {
+    this.expect('[');
+    const property = this.parseExpression();
+    this.expect(']');
+    return property;
+  }
+
+  private parseArguments(): Expression[] {
+    this.expect('(');
+    const args: Expression[] = [];
+    while (!this.is(')')) {
+      args.push(this.parseExpression());
+      if (!this.eat(',')) break;
+    }
+    this.expect(')');
+    return args;
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.index++;
+      return { kind: 'literal', pos: token.pos, value: Number(token.value) };
+    }
+    if (token.type === 'string') {
+      this.index++;
+      return { kind: 'literal', pos: token.pos, value: token.value };
+    }
+    if (token.type === 'name') {
+      if (['let', 'const', 'var', 'if', 'else'].includes(token.value)) this.unexpected();
+      this.index++;
+      return token.value in KEYWORD_VALUES
+        ? { kind: 'literal', pos: token.pos, value: KEYWORD_VALUES[token.value] }
+        : { kind: 'identifier', pos: token.pos, name: token.value };
+    }
+    if (this.eat('(')) {
+      const expression = this.parseExpression();
+      this.expect(')');
+      return expression;
+    }
+    if (this.eat('[')) {
+      const elements: Expression[] = [];
+      while (!this.is(']')) {
+        elements.push(this.parseExpression());
+        if (!this.eat(',')) break;
+      }
+      this.expect(']');
+      return { kind: 'array', pos: token.pos, elements };
+    }
+
+    return this.unexpected();
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private at(type: TokenType): boolean {
+    return this.peek().type === type;
+  }
+
+  private is(punctuator: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuator' && token.value === punctuator;
+  }
+
+  private isName(name: string): boolean {
+    const token = this.peek();
+    return token.type === 'name' && token.value === name;
+  }
+
+  private eat(punctuator: string): boolean {
+    if (!this.is(punctuator)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expect(punctuator: string): void {
+    if (!this.eat(punctuator)) {
+      const token = this.peek();
+      throw new FormulaSyntaxIssue(
+        `Expected '${punctuator}' but found ${token.type === 'end' ? 'end of formula' : `'${token.value}'`}`,
+        token.pos
+      );
+    }
+  }
+
+  private expectName(): string {
+    const token = this.peek();
+    if (token.type !== 'name') this.unexpected();
+    this.index++;
+    return token.value;
+  }
+
+  private unexpected(): never {
+    const token = this.peek();
+    throw new FormulaSyntaxIssue(
+      token.type === 'end' ? 'Unexpected end of formula' : `Unexpected '${token.value}'`,
+      token.pos
+    );
+  }
+}
+
+class FormulaInterpreter {
+  private locals = new Map<string, unknown>();
+
+  constructor(private code: string, private nodeId: string, private scope: Record<string, unknown>) {}
+
+  run(statements: Statement[]): unknown {
+    return this.execute(statements, undefined);
+  }
+
+  private execute(statements: Statement[], completion: unknown): unknown {
+    let value = completion;
+
+    statements.forEach(statement => {
+      switch (statement.kind) {
+        case 'declaration':
+          this.locals.set(statement.name, statement.init ? this.evaluate(statement.init) : undefined);
+          break;
+        case 'assignment':
+          value = this.evaluate(statement.value);
+          this.locals.set(statement.name, value);
+          break;
+        case 'if':
+          if (this.evaluate(statement.test)) {
+            value = this.execute(statement.consequent, value);
+          } else if (statement.alternate) {
+            value = this.execute(statement.alternate, value);
+          }
+          break;
+        case 'expression':
+          value = this.evaluate(statement.expression);
+          break;
+      }
+    });
+
+    return value;
+  }
+
+  private evaluate(expression: Expression): unknown {
+    switch (expression.kind) {
+      case 'literal':
+        return expression.value;
+      case 'identifier':
+        return this.lookup(expression.name, expression.pos);
+      case 'array':
+        return expression.elements.map(element => this.evaluate(element));
+      case 'member': {
+        const object = this.evaluate(expression.object);
+        if (expression.optional && (object === undefined || object === null)) return undefined;
+        return this.readProperty(object, this.evaluate(expression.property), expression.pos);
+      }
+      case 'call':
+        return this.call(expression);
+      case 'unary': {
+        const argument = this.evaluate(expression.argument) as any;
+        return expression.operator === '!' ? !argument : expression.operator === '-' ? -argument : +argument;
+      }
+      case 'binary':
+        return this.binary(expression.operator, expression.left, expression.right);
+      case 'conditional':
+        return this.evaluate(expression.test) ? this.evaluate(expression.consequent) : this.evaluate(expression.alternate);
+    }
+  }
+
+  private lookup(name: string, pos: number): unknown {
+    if (this.locals.has(name)) return this.locals.get(name);
+    if (Object.prototype.hasOwnProperty.call(this.scope, name)) return this.scope[name];
+    if (Object.prototype.hasOwnProperty.call(FORMULA_GLOBALS, name)) return FORMULA_GLOBALS[name];
+    throw this.error(`${name} is not defined`, pos);
+  }
+
+  private readProperty(object: unknown, key: unknown, pos: number): unknown {
+    const name = String(key);
+    if (object === undefined || object === null) {
+      throw this.error(`Cannot read '${name}' of ${object}`, pos);
+    }
+    if (BLOCKED_PROPERTIES.has(name)) {
+      throw this.error(`Access to '${name}' is not allowed`, pos);
+    }
+    if (name === 'length' && (typeof object === 'string' || Array.isArray(object))) {
+      return object.length;
+    }
+    if (typeof object !== 'object' && typeof object !== 'string') return undefined;
+
+    return Object.prototype.hasOwnProperty.call(object, name) ? (object as any)[name] : undefined;
+  }
+
+  private call(expression: Extract<Expression, { kind: 'call' }>): unknown {
+    let receiver: unknown;
+    let callee: unknown;
+
+    if (expression.callee.kind === 'member') {
+      receiver = this.evaluate(expression.callee.object);
+      callee = expression.callee.optional && (receiver === undefined || receiver === null)
+        ? undefined
+        : this.readProperty(receiver, this.evaluate(expression.callee.property), expression.callee.pos);
+    } else {
+      callee = this.evaluate(expression.callee);
+    }
+
+    if (expression.optional && (callee === undefined || callee === null)) return undefined;
+    if (typeof callee !== 'function') {
+      throw this.error(`${describe(expression.callee)} is not a function`, expression.pos);
+    }
+
+    return callee.apply(receiver, expression.args.map(arg => this.evaluate(arg)));
+  }
+
+  private binary(operator: string, leftExpression: Expression, rightExpression: Expression): unknown {
+    const left = this.evaluate(leftExpression) as any;
+
+    // Short-circuit before evaluating the right side
+    if (operator === '&&') return left ? this.evaluate(rightExpression) : left;
+    if (operator === '||') return left ? left : this.evaluate(rightExpression);
+    if (operator === '??') return left !== undefined && left !== null ? left : this.evaluate(rightExpression);
+
+    const right = this.evaluate(rightExpression) as any;
+    switch (operator) {
+      case '+': return left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      case '/': return left / right;
+      case '%': return left % right;
+      case '**': return left ** right;
+      case '<': return left < right;
+      case '<=': return left <= right;
+      case '>': return left > right;
+      case '>=': return left >= right;
+      case '==': return left == right;
+      case '!=': return left != right;
+      case '===': return left === right;
+      case '!==': return left !== right;
+      default: throw new Error(`Unknown operator ${operator}`);
+    }
+  }
+
+  private error(message: string, pos: number): Error {
+    return new Error(formatMessage(this.code, this.nodeId, pos, message));
+  }
+}
+
+function describe(expression: Expression): string {
+  if (expression.kind === 'identifier') return expression.name;
+  if (expression.kind === 'literal') {
+    return typeof expression.value === 'string' ? `'${expression.value}'` : String(expression.value);
+  }
+  if (expression.kind === 'member' && expression.property.kind === 'literal') {
+    return `${describe(expression.object)}.${String(expression.property.value)}`;
+  }
+  return 'Expression';
+}
+
+function locate(code: string, pos: number): { line: number; column: number } {
+  const before = code.slice(0, pos).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+function formatMessage(code: string, nodeId: string, pos: number, message: string): string {
+  const { line, column } = locate(code, pos);
+  return `${nodeId ? `Formula ${nodeId}: ` : ''}${message} (line ${line}, column ${column})`;
+}
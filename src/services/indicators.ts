@@ -0,0 +1,652 @@
+import { Candle } from '../types/trading';
+
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface MACDSeries {
+  macd: number[];
+  signal: number[];
+  histogram: number[];
+}
+
+export interface StochasticValue {
+  k: number;
+  d: number;
+}
+
+export interface StochasticSeries {
+  k: number[];
+  d: number[];
+}
+
+export interface ADXSeries {
+  adx: number[];
+  plusDI: number[];
+  minusDI: number[];
+}
+
+export interface IchimokuSeries {
+  tenkan: number[];
+  kijun: number[];
+  senkouA: number[];
+  senkouB: number[];
+  chikou: number[];
+}
+
+export interface BandSeries {
+  upper: number[];
+  middle: number[];
+  lower: number[];
+}
+
+/*
+ * Series functions return one value per input element, aligned by index, with
+ * NaN for the warm-up bars where the indicator is not defined yet. Streaming
+ * classes produce the same values one bar at a time and return null while
+ * warming up.
+ */
+
+export function lastValue(series: number[], fallback: number): number {
+  const value = series[series.length - 1];
+  return value === undefined || Number.isNaN(value) ? fallback : value;
+}
+
+/**
+ * Applies a series function to the defined (non-NaN) tail of `values` and pads
+ * the result back to the input length, so indicators can be chained.
+ */
+function onDefinedTail(values: number[], fn: (tail: number[]) => number[]): number[] {
+  const start = values.findIndex(value => !Number.isNaN(value));
+  if (start < 0) return values.map(() => NaN);
+
+  return new Array<number>(start).fill(NaN).concat(fn(values.slice(start)));
+}
+
+export function smaSeries(values: number[], period: number): number[] {
+  const result: number[] = [];
+  let sum = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    result.push(i >= period - 1 ? sum / period : NaN);
+  }
+
+  return result;
+}
+
+/**
+ * Exponential moving average seeded with the SMA of the first `period` values.
+ */
+export function emaSeries(values: number[], period: number): number[] {
+  const multiplier = 2 / (period + 1);
+  const result: number[] = [];
+  let ema = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    if (i < period - 1) {
+      ema += values[i];
+      result.push(NaN);
+    } else if (i === period - 1) {
+      ema = (ema + values[i]) / period;
+      result.push(ema);
+    } else {
+      ema = (values[i] - ema) * multiplier + ema;
+      result.push(ema);
+    }
+  }
+
+  return result;
+}
+
+function rsiFromAverages(avgGain: number, avgLoss: number): number {
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+/**
+ * Wilder's RSI: the first average gain/loss is a simple mean over `period`
+ * changes, later ones are smoothed with alpha = 1 / period.
+ */
+export function rsiSeries(prices: number[], period: number = 14): number[] {
+  const result: number[] = prices.length ? [NaN] : [];
+  let avgGain = 0;
+  let avgLoss = 0;
+
+  for (let i = 1; i < prices.length; i++) {
+    const change = prices[i] - prices[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+
+    if (i < period) {
+      avgGain += gain;
+      avgLoss += loss;
+      result.push(NaN);
+      continue;
+    }
+
+    if (i === period) {
+      avgGain = (avgGain + gain) / period;
+      avgLoss = (avgLoss + loss) / period;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+
+    result.push(rsiFromAverages(avgGain, avgLoss));
+  }
+
+  return result;
+}
+
+/**
+ * MACD as TA-Lib computes it: the fast EMA is seeded over the `fastPeriod`
+ * bars ending where the slow EMA's first value is, so both lines start on the
+ * same bar.
+ */
+export function macdSeries(
+  prices: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): MACDSeries {
+  const offset = Math.max(0, slowPeriod - fastPeriod);
+  const fast = new Array<number>(Math.min(offset, prices.length)).fill(NaN)
+    .concat(emaSeries(prices.slice(offset), fastPeriod));
+  const slow = emaSeries(prices, slowPeriod);
+  const macd = prices.map((_, i) => fast[i] - slow[i]);
+  const signal = onDefinedTail(macd, tail => emaSeries(tail, signalPeriod));
+  const histogram = macd.map((value, i) => value - signal[i]);
+
+  return { macd, signal, histogram };
+}
+
+/**
+ * Stochastic oscillator. %K compares the close with the `kPeriod` high/low
+ * range (optionally smoothed over `smoothK` bars for the slow variant) and %D
+ * is the `dPeriod` SMA of %K.
+ */
+export function stochasticSeries(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  kPeriod: number = 14,
+  dPeriod: number = 3,
+  smoothK: number = 1
+): StochasticSeries {
+  const rawK = closes.map((close, i) => {
+    if (i < kPeriod - 1) return NaN;
+
+    let highest = -Infinity;
+    let lowest = Infinity;
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      highest = Math.max(highest, highs[j]);
+      lowest = Math.min(lowest, lows[j]);
+    }
+
+    return highest === lowest ? 50 : ((close - lowest) / (highest - lowest)) * 100;
+  });
+
+  const k = smoothK > 1 ? onDefinedTail(rawK, tail => smaSeries(tail, smoothK)) : rawK;
+  const d = onDefinedTail(k, tail => smaSeries(tail, dPeriod));
+
+  return { k, d };
+}
+
+/**
+ * Wilder's smoothing (RMA): seeded with the SMA of the first `period` values,
+ * then alpha = 1 / period. Used by ATR and ADX.
+ */
+export function wilderSeries(values: number[], period: number): number[] {
+  const result: number[] = [];
+  let average = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    if (i < period - 1) {
+      average += values[i];
+      result.push(NaN);
+    } else if (i === period - 1) {
+      average = (average + values[i]) / period;
+      result.push(average);
+    } else {
+      average = (average * (period - 1) + values[i]) / period;
+      result.push(average);
+    }
+  }
+
+  return result;
+}
+
+function highestSeries(values: number[], period: number): number[] {
+  return values.map((_, i) => (i < period - 1 ? NaN : Math.max(...values.slice(i - period + 1, i + 1))));
+}
+
+function lowestSeries(values: number[], period: number): number[] {
+  return values.map((_, i) => (i < period - 1 ? NaN : Math.min(...values.slice(i - period + 1, i + 1))));
+}
+
+export function trueRangeSeries(candles: Candle[]): number[] {
+  return candles.map((candle, i) => {
+    if (i === 0) return candle.high - candle.low;
+
+    const previousClose = candles[i - 1].close;
+    return Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - previousClose),
+      Math.abs(candle.low - previousClose)
+    );
+  });
+}
+
+export function atrSeries(candles: Candle[], period: number = 14): number[] {
+  // The first bar has no previous close, so smoothing starts on the second
+  const ranges = trueRangeSeries(candles).map((range, i) => (i === 0 ? NaN : range));
+  return onDefinedTail(ranges, tail => wilderSeries(tail, period));
+}
+
+/**
+ * Wilder's directional movement system. +DI/-DI are the smoothed directional
+ * moves as a percentage of ATR; ADX is the Wilder average of DX.
+ */
+export function adxSeries(candles: Candle[], period: number = 14): ADXSeries {
+  if (candles.length === 0) return { adx: [], plusDI: [], minusDI: [] };
+
+  const plusDM: number[] = [NaN];
+  const minusDM: number[] = [NaN];
+
+  for (let i = 1; i < candles.length; i++) {
+    const up = candles[i].high - candles[i - 1].high;
+    const down = candles[i - 1].low - candles[i].low;
+    plusDM.push(up > down && up > 0 ? up : 0);
+    minusDM.push(down > up && down > 0 ? down : 0);
+  }
+
+  const atr = atrSeries(candles, period);
+  const smoothedPlus = onDefinedTail(plusDM, tail => wilderSeries(tail, period));
+  const smoothedMinus = onDefinedTail(minusDM, tail => wilderSeries(tail, period));
+
+  const plusDI = atr.map((range, i) => (range ? (smoothedPlus[i] / range) * 100 : range === 0 ? 0 : NaN));
+  const minusDI = atr.map((range, i) => (range ? (smoothedMinus[i] / range) * 100 : range === 0 ? 0 : NaN));
+  const dx = plusDI.map((plus, i) => {
+    const sum = plus + minusDI[i];
+    return sum ? (Math.abs(plus - minusDI[i]) / sum) * 100 : sum === 0 ? 0 : NaN;
+  });
+
+  return { adx: onDefinedTail(dx, tail => wilderSeries(tail, period)), plusDI, minusDI };
+}
+
+export function obvSeries(candles: Candle[]): number[] {
+  let obv = 0;
+
+  return candles.map((candle, i) => {
+    if (i > 0) {
+      const previousClose = candles[i - 1].close;
+      if (candle.close > previousClose) obv += candle.volume;
+      else if (candle.close < previousClose) obv -= candle.volume;
+    }
+    return obv;
+  });
+}
+
+/**
+ * Volume-weighted average of the typical price. Cumulative from the first
+ * candle by default; pass `period` for a rolling VWAP over that many bars.
+ */
+export function vwapSeries(candles: Candle[], period?: number): number[] {
+  let priceVolume = 0;
+  let volume = 0;
+
+  return candles.map((candle, i) => {
+    priceVolume += typicalPrice(candle) * candle.volume;
+    volume += candle.volume;
+
+    if (period && i >= period) {
+      const expired = candles[i - period];
+      priceVolume -= typicalPrice(expired) * expired.volume;
+      volume -= expired.volume;
+    }
+
+    if (period && i < period - 1) return NaN;
+    return volume > 0 ? priceVolume / volume : candle.close;
+  });
+}
+
+/**
+ * Ichimoku lines as computed on each bar. Charting conventions shift Senkou A/B
+ * forward and Chikou backward by `displacement`; here senkouA/senkouB hold the
+ * cloud that is in effect on the bar (computed `displacement` bars earlier) and
+ * chikou is the close `displacement` bars ahead, so it is NaN for the latest bars.
+ */
+export function ichimokuSeries(
+  candles: Candle[],
+  conversionPeriod: number = 9,
+  basePeriod: number = 26,
+  spanPeriod: number = 52,
+  displacement: number = 26
+): IchimokuSeries {
+  const highs = candles.map(candle => candle.high);
+  const lows = candles.map(candle => candle.low);
+  const midpoint = (period: number) => {
+    const highest = highestSeries(highs, period);
+    const lowest = lowestSeries(lows, period);
+    return highest.map((high, i) => (high + lowest[i]) / 2);
+  };
+
+  const tenkan = midpoint(conversionPeriod);
+  const kijun = midpoint(basePeriod);
+  const spanB = midpoint(spanPeriod);
+  const shift = (values: number[], offset: number) =>
+    values.map((_, i) => (i - offset >= 0 && i - offset < values.length ? values[i - offset] : NaN));
+
+  return {
+    tenkan,
+    kijun,
+    senkouA: shift(tenkan.map((value, i) => (value + kijun[i]) / 2), displacement),
+    senkouB: shift(spanB, displacement),
+    chikou: shift(candles.map(candle => candle.close), -displacement)
+  };
+}
+
+/**
+ * Keltner channels: EMA of the typical price, offset by a multiple of ATR.
+ */
+export function keltnerSeries(
+  candles: Candle[],
+  emaPeriod: number = 20,
+  atrPeriod: number = 10,
+  multiplier: number = 2
+): BandSeries {
+  const middle = emaSeries(candles.map(typicalPrice), emaPeriod);
+  const atr = atrSeries(candles, atrPeriod);
+
+  return {
+    upper: middle.map((value, i) => value + multiplier * atr[i]),
+    middle,
+    lower: middle.map((value, i) => value - multiplier * atr[i])
+  };
+}
+
+/**
+ * Commodity Channel Index: distance of the typical price from its SMA in units
+ * of mean absolute deviation, scaled by Lambert's 0.015 constant.
+ */
+export function cciSeries(candles: Candle[], period: number = 20): number[] {
+  const typical = candles.map(typicalPrice);
+  const average = smaSeries(typical, period);
+
+  return typical.map((price, i) => {
+    if (Number.isNaN(average[i])) return NaN;
+
+    let deviation = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      deviation += Math.abs(typical[j] - average[i]);
+    }
+    deviation /= period;
+
+    return deviation ? (price - average[i]) / (0.015 * deviation) : 0;
+  });
+}
+
+export function typicalPrice(candle: Candle): number {
+  return (candle.high + candle.low + candle.close) / 3;
+}
+
+export class SMAIndicator {
+  private window: number[] = [];
+  private cursor = 0;
+  private sum = 0;
+  private current: number | null = null;
+
+  constructor(readonly period: number) {}
+
+  update(value: number): number | null {
+    if (this.window.length < this.period) {
+      this.window.push(value);
+    } else {
+      this.sum -= this.window[this.cursor];
+      this.window[this.cursor] = value;
+      this.cursor = (this.cursor + 1) % this.period;
+    }
+
+    this.sum += value;
+    this.current = this.window.length === this.period ? this.sum / this.period : null;
+    return this.current;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  reset(): void {
+    this.window = [];
+    this.cursor = 0;
+    this.sum = 0;
+    this.current = null;
+  }
+}
+
+export class EMAIndicator {
+  private readonly multiplier: number;
+  private count = 0;
+  private seedSum = 0;
+  private current: number | null = null;
+
+  constructor(readonly period: number) {
+    this.multiplier = 2 / (period + 1);
+  }
+
+  update(value: number): number | null {
+    this.count++;
+
+    if (this.count < this.period) {
+      this.seedSum += value;
+    } else if (this.count === this.period) {
+      this.current = (this.seedSum + value) / this.period;
+    } else {
+      this.current = (value - this.current!) * this.multiplier + this.current!;
+    }
+
+    return this.current;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  reset(): void {
+    this.count = 0;
+    this.seedSum = 0;
+    this.current = null;
+  }
+}
+
+export class RSIIndicator {
+  private previous: number | null = null;
+  private changes = 0;
+  private avgGain = 0;
+  private avgLoss = 0;
+  private current: number | null = null;
+
+  constructor(readonly period: number = 14) {}
+
+  update(price: number): number | null {
+    if (this.previous === null) {
+      this.previous = price;
+      return null;
+    }
+
+    const change = price - this.previous;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    this.previous = price;
+    this.changes++;
+
+    if (this.changes < this.period) {
+      this.avgGain += gain;
+      this.avgLoss += loss;
+      return null;
+    }
+
+    if (this.changes === this.period) {
+      this.avgGain = (this.avgGain + gain) / this.period;
+      this.avgLoss = (this.avgLoss + loss) / this.period;
+    } else {
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    }
+
+    this.current = rsiFromAverages(this.avgGain, this.avgLoss);
+    return this.current;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  reset(): void {
+    this.previous = null;
+    this.changes = 0;
+    this.avgGain = 0;
+    this.avgLoss = 0;
+    this.current = null;
+  }
+}
+
+export class MACDIndicator {
+  private fast: EMAIndicator;
+  private slow: EMAIndicator;
+  private signal: EMAIndicator;
+  private fastDelay: number;
+  private skipped = 0;
+  private current: MACDValue | null = null;
+
+  constructor(fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
+    this.fastDelay = Math.max(0, slowPeriod - fastPeriod); // see macdSeries
+    this.fast = new EMAIndicator(fastPeriod);
+    this.slow = new EMAIndicator(slowPeriod);
+    this.signal = new EMAIndicator(signalPeriod);
+  }
+
+  update(price: number): MACDValue | null {
+    const slow = this.slow.update(price);
+    if (this.skipped < this.fastDelay) {
+      this.skipped++;
+      return null;
+    }
+    const fast = this.fast.update(price);
+    if (fast === null || slow === null) return null;
+
+    const macd = fast - slow;
+    const signal = this.signal.update(macd);
+    if (signal === null) return null;
+
+    this.current = { macd, signal, histogram: macd - signal };
+    return this.current;
+  }
+
+  get value(): MACDValue | null {
+    return this.current;
+  }
+
+  reset(): void {
+    this.fast.reset();
+    this.slow.reset();
+    this.signal.reset();
+    this.skipped = 0;
+    this.current = null;
+  }
+}
+
+/**
+ * Sliding-window max (or min) over the last `period` values using a monotonic
+ * deque, so each update is amortized O(1).
+ */
+class RollingExtremum {
+  private values: number[] = [];
+  private indices: number[] = [];
+  private head = 0;
+  private count = 0;
+
+  constructor(private period: number, private isBetter: (a: number, b: number) => boolean) {}
+
+  update(value: number): number {
+    const index = this.count++;
+
+    while (this.values.length > this.head && !this.isBetter(this.values[this.values.length - 1], value)) {
+      this.values.pop();
+      this.indices.pop();
+    }
+    this.values.push(value);
+    this.indices.push(index);
+
+    if (this.indices[this.head] <= index - this.period) {
+      this.head++;
+    }
+
+    // Drop the consumed prefix now and then so the arrays stay bounded
+    if (this.head > this.period) {
+      this.values = this.values.slice(this.head);
+      this.indices = this.indices.slice(this.head);
+      this.head = 0;
+    }
+
+    return this.values[this.head];
+  }
+
+  get filled(): boolean {
+    return this.count >= this.period;
+  }
+
+  reset(): void {
+    this.values = [];
+    this.indices = [];
+    this.head = 0;
+    this.count = 0;
+  }
+}
+
+export class StochasticIndicator {
+  private highest: RollingExtremum;
+  private lowest: RollingExtremum;
+  private smoothK: SMAIndicator | null;
+  private d: SMAIndicator;
+  private current: StochasticValue | null = null;
+
+  constructor(kPeriod: number = 14, dPeriod: number = 3, smoothK: number = 1) {
+    this.highest = new RollingExtremum(kPeriod, (a, b) => a > b);
+    this.lowest = new RollingExtremum(kPeriod, (a, b) => a < b);
+    this.smoothK = smoothK > 1 ? new SMAIndicator(smoothK) : null;
+    this.d = new SMAIndicator(dPeriod);
+  }
+
+  update(high: number, low: number, close: number): StochasticValue | null {
+    const highest = this.highest.update(high);
+    const lowest = this.lowest.update(low);
+    if (!this.highest.filled) return null;
+
+    const rawK = highest === lowest ? 50 : ((close - lowest) / (highest - lowest)) * 100;
+    const k = this.smoothK ? this.smoothK.update(rawK) : rawK;
+    if (k === null) return null;
+
+    const d = this.d.update(k);
+    if (d === null) return null;
+
+    this.current = { k, d };
+    return this.current;
+  }
+
+  get value(): StochasticValue | null {
+    return this.current;
+  }
+
+  reset(): void {
+    this.highest.reset();
+    this.lowest.reset();
+    this.smoothK?.reset();
+    this.d.reset();
+    this.current = null;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,295 @@
+import {
+  DatasetDefinition,
+  LearningBotDefinition,
+  LearningEngineState,
+  LearningMineDefinition,
+  LearningSystemState,
+  ProductDefinition,
+  RecordPropertyDefinition
+} from '../types/learning';
+import { getFileAccess, joinPath } from './fileAccess';
+
+export type CyclePhase = 'First' | 'Second';
+
+export interface DatasetWriterOptions {
+  rootDir: string; // directory the `Project/...` file paths are created under
+  project: string;
+  mineType: string;
+  exchange: string;
+  baseAsset: string;
+  quotedAsset: string;
+  session: string;
+  timeFrame: string; // e.g. '01-hs' or '05-min'; picks the dataset whose validTimeFrames include it
+}
+
+export interface DatasetWriteSummary {
+  files: string[];
+  skippedProducts: string[]; // products with no dataset for the time frame
+}
+
+interface ProductBuffer {
+  product: ProductDefinition;
+  dataset: DatasetDefinition | undefined;
+  records: unknown[][];
+  objects: Map<string, unknown[]>; // saveAsObjects products, keyed by the open object's begin
+  dirtyDays: Set<string>;
+}
+
+const EMPTY_ARRAY = '->Empty Array->';
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Superalgos time frame label for a candle interval: '01-hs', '05-min'...
+ */
+export function timeFrameLabel(intervalMs: number): string {
+  const pad = (value: number) => String(Math.round(value)).padStart(2, '0');
+  return intervalMs >= HOUR_MS ? `${pad(intervalMs / HOUR_MS)}-hs` : `${pad(intervalMs / MINUTE_MS)}-min`;
+}
+
+/**
+ * Serializes Learning Engine runtime state into the record layouts of a
+ * Learning Mine bot's product definitions. Every record is an array of
+ * property values in definition order, written to Data.json files laid out
+ * by each dataset's `filePath` template: one file per time frame for Market
+ * Files and one per day for Daily Files.
+ */
+export class LearningDatasetWriter {
+  private buffers: ProductBuffer[];
+
+  constructor(
+    private mine: LearningMineDefinition,
+    private bot: LearningBotDefinition,
+    private options: DatasetWriterOptions
+  ) {
+    this.buffers = bot.products.map(product => ({
+      product,
+      dataset: product.datasets.find(dataset => dataset.validTimeFrames.includes(options.timeFrame)),
+      records: [],
+      objects: new Map(),
+      dirtyDays: new Set()
+    }));
+  }
+
+  /**
+   * Records one engine cycle. Products with a `saveAtCycle` are only
+   * recorded on that phase; the runtime runs a single Second phase per candle.
+   */
+  append(state: LearningEngineState, cycle: CyclePhase = 'Second', learningSystem?: LearningSystemState): void {
+    const roots: Record<string, unknown> = { learningEngine: state, learningSystem };
+
+    this.buffers.forEach(buffer => {
+      const { product } = buffer;
+      if (product.config.saveAtCycle && product.config.saveAtCycle !== cycle) return;
+
+      const target = resolvePath(product.nodePath, roots);
+      if (target === undefined || target === null) return;
+
+      const targets = product.nodePathType === 'array' && Array.isArray(target) ? target : [target];
+      targets.forEach(item => {
+        if (this.preventsSaving(product, item)) return;
+
+        const record = product.record.map(property =>
+          this.formatValue(property, this.readProperty(property, item, roots, cycle)));
+        // Nothing to place in time yet, e.g. the previous cycle on the first candle
+        if (this.recordBegin(product, record) <= 0) return;
+        this.store(buffer, item, record);
+      });
+    });
+  }
+
+  /**
+   * Handler for the runtime's `onCycle` option.
+   */
+  createCycleHandler(learningSystem?: () => LearningSystemState): (state: LearningEngineState) => void {
+    return state => this.append(state, 'Second', learningSystem?.());
+  }
+
+  getRecords(productCodeName: string): unknown[][] {
+    const buffer = this.buffers.find(candidate => candidate.product.codeName === productCodeName);
+    return buffer ? this.collectRecords(buffer) : [];
+  }
+
+  /**
+   * Writes every product touched since the last flush. Market files are
+   * rewritten whole; daily files only for the days that received records.
+   */
+  async flush(): Promise<DatasetWriteSummary> {
+    const summary: DatasetWriteSummary = { files: [], skippedProducts: [] };
+    const timeFrames = new Map<string, string>();
+
+    for (const buffer of this.buffers) {
+      if (!buffer.dataset) {
+        summary.skippedProducts.push(buffer.product.codeName);
+        continue;
+      }
+      if (buffer.dirtyDays.size === 0) continue;
+
+      const dataset = buffer.dataset;
+      const records = this.collectRecords(buffer);
+
+      if (dataset.type === 'Daily Files') {
+        for (const day of buffer.dirtyDays) {
+          const dayRecords = records.filter(record => this.dayKey(this.recordBegin(buffer.product, record)) === day);
+          const [year, month, date] = day.split('-');
+          const directory = this.expandPath(dataset.filePath, buffer.product, dataset, { year, month, day: date });
+          summary.files.push(await this.writeJson(joinPath(directory, dataset.fileName), dayRecords));
+        }
+
+        if (dataset.config.dataRange && records.length > 0) {
+          const range = dataset.config.dataRange;
+          const directory = this.expandPath(range.filePath, buffer.product, dataset);
+          let begin = Infinity;
+          let end = -Infinity;
+          records.forEach(record => {
+            begin = Math.min(begin, this.recordTime(buffer.product, record, 'begin'));
+            end = Math.max(end, this.recordTime(buffer.product, record, 'end'));
+          });
+          summary.files.push(await this.writeJson(joinPath(directory, range.fileName), { begin, end }));
+        }
+      } else {
+        const directory = this.expandPath(dataset.filePath, buffer.product, dataset);
+        summary.files.push(await this.writeJson(joinPath(directory, dataset.fileName), records));
+      }
+
+      if (dataset.config.timeFrames) {
+        const list = dataset.config.timeFrames;
+        timeFrames.set(joinPath(this.expandPath(list.filePath, buffer.product, dataset), list.fileName), list.fileName);
+      }
+      buffer.dirtyDays.clear();
+    }
+
+    for (const filePath of timeFrames.keys()) {
+      summary.files.push(await this.writeJson(filePath, [this.options.timeFrame]));
+    }
+
+    return summary;
+  }
+
+  private store(buffer: ProductBuffer, item: unknown, record: unknown[]): void {
+    const { product } = buffer;
+
+    if (product.config.saveAsObjects) {
+      // One record per object, updated until the object closes
+      const key = String(this.recordBegin(product, record));
+      buffer.objects.set(key, record);
+    } else {
+      buffer.records.push(record);
+    }
+
+    buffer.dirtyDays.add(this.dayKey(this.recordBegin(product, record)));
+
+    const closingValue = product.config.propertyValueThatClosesObject;
+    if (product.config.saveAsObjects && closingValue !== undefined) {
+      const status = (item as Record<string, unknown>)[product.config.propertyNameThatDefinesObject];
+      if (status === closingValue) {
+        const key = String(this.recordBegin(product, record));
+        buffer.records.push(buffer.objects.get(key)!);
+        buffer.objects.delete(key);
+      }
+    }
+  }
+
+  private collectRecords(buffer: ProductBuffer): unknown[][] {
+    return [...buffer.records, ...buffer.objects.values()];
+  }
+
+  private preventsSaving(product: ProductDefinition, item: unknown): boolean {
+    const blocked = product.config.propertyValueThatPreventsSavingObject;
+    if (blocked === undefined) return false;
+
+    const property = product.config.propertyNameThatDefinesStatus || product.config.propertyNameThatDefinesObject;
+    const value = property ? (item as Record<string, unknown>)?.[property] : undefined;
+
+    if (blocked === EMPTY_ARRAY) {
+      return !Array.isArray(value) || value.length === 0;
+    }
+    return value === blocked;
+  }
+
+  private readProperty(
+    property: RecordPropertyDefinition,
+    item: unknown,
+    roots: Record<string, unknown>,
+    cycle: CyclePhase
+  ): unknown {
+    // A bare `cycle` property records the phase being saved, not the episode's cycle timestamps
+    if (property.codeName === 'cycle' && !property.nodePath && !property.childProperty) return cycle;
+
+    const node = property.nodePath ? resolvePath(property.nodePath, roots) : item;
+    if (node === undefined || node === null) return undefined;
+
+    if (property.childProperty) {
+      const child = (node as Record<string, unknown>)[property.childProperty];
+      return property.index !== undefined && Array.isArray(child) ? child[property.index] : child;
+    }
+    return (node as Record<string, unknown>)[property.codeName];
+  }
+
+  private formatValue(property: RecordPropertyDefinition, value: unknown): unknown {
+    if (property.isString) {
+      if (value === undefined || value === null) return '';
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+    if (typeof value === 'number') {
+      return property.decimals !== undefined ? Number(value.toFixed(property.decimals)) : value;
+    }
+    if (Array.isArray(value)) return [...value];
+    if (typeof value === 'boolean') return value;
+    return value === undefined || value === null ? 0 : Number(value) || 0;
+  }
+
+  private recordBegin(product: ProductDefinition, record: unknown[]): number {
+    return this.recordTime(product, record, 'begin');
+  }
+
+  private recordTime(product: ProductDefinition, record: unknown[], codeName: 'begin' | 'end'): number {
+    const index = product.record.findIndex(property => property.codeName === codeName);
+    return index >= 0 ? Number(record[index]) || 0 : 0;
+  }
+
+  private dayKey(timestamp: number): string {
+    return new Date(Math.floor(timestamp / DAY_MS) * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  private expandPath(
+    template: string,
+    product: ProductDefinition,
+    dataset: DatasetDefinition,
+    day?: { year: string; month: string; day: string }
+  ): string {
+    const values: Record<string, string> = {
+      Project: this.options.project,
+      MineType: this.options.mineType,
+      Mine: this.mine.codeName,
+      Bot: this.bot.codeName,
+      Exchange: this.options.exchange,
+      BaseAsset: this.options.baseAsset,
+      QuotedAsset: this.options.quotedAsset,
+      Session: this.options.session,
+      Product: product.codeName,
+      Dataset: dataset.codeName,
+      TimeFrame: this.options.timeFrame,
+      Year: day?.year || '',
+      Month: day?.month || '',
+      Day: day?.day || ''
+    };
+
+    const expanded = template.replace(/@(\w+)/g, (match, name: string) => (name in values ? values[name] : match));
+    return joinPath(this.options.rootDir, ...expanded.split('/').filter(Boolean));
+  }
+
+  private async writeJson(filePath: string, content: unknown): Promise<string> {
+    await getFileAccess().writeText(filePath, JSON.stringify(content));
+    return filePath;
+  }
+}
+
+function resolvePath(nodePath: string, roots: Record<string, unknown>): unknown {
+  const [rootKey, ...keys] = nodePath.split('.');
+  return keys.reduce<unknown>(
+    (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    roots[rootKey]
+  );
+}
@@ -0,0 +1,611 @@
+import { getFileAccess, joinPath } from './fileAccess';
+import { checkFormula } from './formulaEvaluator';
+import {
+  DatasetDefinition,
+  DefinitionIssue,
+  DefinitionNode,
+  LearningBotDefinition,
+  LearningEngineDefinition,
+  LearningEpisodeDefinition,
+  LearningItemDefinition,
+  LearningItemKind,
+  LearningMineDefinition,
+  LearningSystemDefinition,
+  PlotterDefinition,
+  ProductDefinition,
+  RecordPropertyDefinition,
+  ValueDefinition
+} from '../types/learning';
+
+export interface LearningDefinitions {
+  engines: LearningEngineDefinition[];
+  mines: LearningMineDefinition[];
+  systems: LearningSystemDefinition[];
+  issues: DefinitionIssue[]; // file-level errors plus cross-file nodePath checks
+}
+
+interface ParseResult<T> {
+  definition: T | null;
+  issues: DefinitionIssue[];
+}
+
+// Keys on a raw node that are attributes rather than children
+const NODE_ATTRIBUTES = new Set(['type', 'name', 'config', 'project', 'id', 'code', 'savedPayload']);
+
+// Children a node of each type needs before the runtime can use it
+const REQUIRED_CHILDREN: Record<string, string[]> = {
+  'Learning Engine': ['learningCurrent', 'features', 'labels', 'predictions'],
+  'Learning Current': ['learningEpisode'],
+  'Learning Episode': [
+    'serialNumber', 'identifier', 'begin', 'end', 'beginRate', 'endRate', 'status', 'exitType',
+    'headOfTheMarket', 'processDate', 'learningEpisodeCounters', 'learningEpisodeStatistics',
+    'distanceToLearningEvent', 'candle', 'cycle'
+  ],
+  'Learning Episode Counters': ['periods', 'hits', 'fails'],
+  'Learning Episode Statistics': ['hitFail', 'days'],
+  'Candle': ['begin', 'end', 'open', 'close', 'min', 'max', 'index'],
+  'Cycle': ['begin', 'end', 'lastBegin', 'lastEnd'],
+  'Feature': ['begin', 'end', 'featureValue'],
+  'Label': ['begin', 'end', 'labelValue'],
+  'Prediction': ['begin', 'end', 'predictionValue'],
+  'Learning Bot': ['processes', 'productDefinitionFolders'],
+  'Product Definition': ['record'],
+  'Record Definition': ['properties']
+};
+
+// Node types whose `code` is evaluated as a formula
+const FORMULA_NODE_TYPES = new Set([
+  'Formula', 'Data Formula', 'Point Formula', 'Text Formula',
+  'Polygon Condition', 'Style Condition', 'Text Condition', 'Image Condition'
+]);
+
+const ITEM_VALUE_KEYS: Record<LearningItemKind, string> = {
+  Feature: 'featureValue',
+  Label: 'labelValue',
+  Prediction: 'predictionValue'
+};
+
+/**
+ * Reads the Learning Engine, Learning Mine and Learning System JSON
+ * definitions into typed objects. Embedded `config` strings are decoded,
+ * required children are checked, and the mine's `nodePath` references are
+ * resolved against the engine they describe.
+ */
+export class LearningDefinitionLoader {
+  private static instance: LearningDefinitionLoader;
+
+  static getInstance(): LearningDefinitionLoader {
+    if (!LearningDefinitionLoader.instance) {
+      LearningDefinitionLoader.instance = new LearningDefinitionLoader();
+    }
+    return LearningDefinitionLoader.instance;
+  }
+
+  parseLearningEngine(data: unknown): LearningEngineDefinition {
+    return this.unwrap('Learning Engine', this.tryParseEngine(data));
+  }
+
+  parseLearningMine(data: unknown): LearningMineDefinition {
+    return this.unwrap('Learning Mine', this.tryParseMine(data));
+  }
+
+  parseLearningSystem(data: unknown): LearningSystemDefinition {
+    return this.unwrap('Learning System', this.tryParseSystem(data));
+  }
+
+  async loadLearningEngine(filePath: string): Promise<LearningEngineDefinition> {
+    return this.parseLearningEngine(await this.readJson(filePath));
+  }
+
+  async loadLearningMine(filePath: string): Promise<LearningMineDefinition> {
+    return this.parseLearningMine(await this.readJson(filePath));
+  }
+
+  async loadLearningSystem(filePath: string): Promise<LearningSystemDefinition> {
+    return this.parseLearningSystem(await this.readJson(filePath));
+  }
+
+  /**
+   * Loads every definition under Learning-Engines/, Learning-Mines/ and
+   * Learning-Systems/. Files that fail validation are left out and reported
+   * in `issues` instead of aborting the whole load. Reads through the
+   * installed file access, so Node only (see configureNodeServices).
+   */
+  async loadAll(rootDir: string = '.'): Promise<LearningDefinitions> {
+    const definitions: LearningDefinitions = { engines: [], mines: [], systems: [], issues: [] };
+
+    const loadFolder = async <T>(folder: string, parse: (data: unknown) => ParseResult<T>, target: T[]) => {
+      const directory = joinPath(rootDir, folder);
+
+      for (const file of await this.listJsonFiles(directory)) {
+        try {
+          const result = parse(await this.readJson(joinPath(directory, file)));
+          definitions.issues.push(...result.issues.map(issue => ({ ...issue, path: `${folder}/${file}:${issue.path}` })));
+          if (result.definition) target.push(result.definition);
+        } catch (error) {
+          definitions.issues.push({
+            severity: 'error',
+            path: `${folder}/${file}`,
+            message: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    };
+
+    await loadFolder('Learning-Engines', data => this.tryParseEngine(data), definitions.engines);
+    await loadFolder('Learning-Mines', data => this.tryParseMine(data), definitions.mines);
+    await loadFolder('Learning-Systems', data => this.tryParseSystem(data), definitions.systems);
+
+    definitions.mines.forEach(mine => {
+      definitions.issues.push(...this.validateMine(mine, definitions.engines, definitions.systems[0]));
+    });
+
+    return definitions;
+  }
+
+  /**
+   * Resolves the mine's product and record `nodePath`s against the engine
+   * whose code name matches each bot, and checks that plotter panels only
+   * read record properties their product defines.
+   */
+  validateMine(
+    mine: LearningMineDefinition,
+    engines: LearningEngineDefinition[],
+    system?: LearningSystemDefinition
+  ): DefinitionIssue[] {
+    const issues: DefinitionIssue[] = [];
+
+    mine.bots.forEach(bot => {
+      const engine = engines.find(candidate => candidate.codeName === bot.codeName);
+      if (!engine) {
+        issues.push({ severity: 'warning', path: `${mine.name}/${bot.name}`, message: `No Learning Engine with code name ${bot.codeName}` });
+        return;
+      }
+
+      const roots = { learningEngine: engine.root, learningSystem: system?.root };
+
+      bot.products.forEach(product => {
+        const productPath = `${mine.name}/${bot.name}/${product.folder}/${product.name}`;
+        const rootKey = product.nodePath.split('.')[0];
+
+        if (rootKey === 'learningSystem') {
+          // Learning System products record runtime status arrays, not nodes
+          if (system && !this.resolveNodePath(product.nodePath, roots)) {
+            issues.push({ severity: 'error', path: productPath, message: `nodePath ${product.nodePath} does not resolve` });
+          }
+          return;
+        }
+
+        const target = this.resolveNodePath(product.nodePath, roots);
+        if (!target) {
+          issues.push({ severity: 'error', path: productPath, message: `nodePath ${product.nodePath} does not resolve` });
+          return;
+        }
+        if (product.nodePathType === 'array' && !Array.isArray(target)) {
+          issues.push({ severity: 'error', path: productPath, message: `nodePath ${product.nodePath} is not an array` });
+          return;
+        }
+
+        product.record.forEach(property => {
+          const message = this.checkRecordProperty(property, target, roots);
+          if (message) {
+            issues.push({ severity: 'warning', path: `${productPath}/${property.name}`, message });
+          }
+        });
+      });
+    });
+
+    const products = mine.bots.flatMap(bot => bot.products);
+    mine.plotters.forEach(plotter => plotter.modules.forEach(module => {
+      const product = products.find(candidate => candidate.plotterModuleId === module.id)
+        || products.find(candidate => candidate.codeName === module.codeName);
+      if (!product) return;
+
+      const fields = new Set(product.record.map(property => property.codeName));
+      module.panels.forEach(panel => panel.data.forEach(data => {
+        const match = data.formula?.trim().match(/^record\.(\w+)$/);
+        if (match && !fields.has(match[1])) {
+          issues.push({
+            severity: 'warning',
+            path: `${mine.name}/${plotter.name}/${module.name}/${panel.name}/${data.name}`,
+            message: `record.${match[1]} is not a property of product ${product.name}`
+          });
+        }
+      }));
+    }));
+
+    return issues;
+  }
+
+  /**
+   * Walks a dotted path such as `learningEngine.learningCurrent.learningEpisode`
+   * from the named root. Only the last segment may name a list.
+   */
+  resolveNodePath(
+    nodePath: string,
+    roots: Record<string, DefinitionNode | undefined>
+  ): DefinitionNode | DefinitionNode[] | undefined {
+    const [rootKey, ...keys] = nodePath.split('.');
+    let current: DefinitionNode | DefinitionNode[] | undefined = roots[rootKey];
+
+    for (const key of keys) {
+      if (!current || Array.isArray(current)) return undefined;
+      current = current.children[key] || current.lists[key];
+    }
+
+    return current;
+  }
+
+  private checkRecordProperty(
+    property: RecordPropertyDefinition,
+    productTarget: DefinitionNode | DefinitionNode[],
+    roots: Record<string, DefinitionNode | undefined>
+  ): string | null {
+    let target = productTarget;
+
+    if (property.nodePath) {
+      const resolved = this.resolveNodePath(property.nodePath, roots);
+      if (!resolved) return `nodePath ${property.nodePath} does not resolve`;
+      target = resolved;
+    }
+
+    const key = property.childProperty || (property.nodePath ? null : property.codeName);
+    if (!key) return null;
+
+    // Array products describe one record per element
+    const nodes = Array.isArray(target) ? target : [target];
+    for (const node of nodes) {
+      const list = node.lists[key];
+      if (property.index !== undefined) {
+        if (!list || list.length <= property.index) {
+          return `${node.name} has no ${key}[${property.index}]`;
+        }
+      } else if (!node.children[key] && !list) {
+        return `${node.name} has no child ${key}`;
+      }
+    }
+
+    return null;
+  }
+
+  private tryParseEngine(data: unknown): ParseResult<LearningEngineDefinition> {
+    const { node: root, issues } = this.parseTree(data, 'Learning Engine');
+    if (!root || issues.some(issue => issue.severity === 'error')) {
+      return { definition: null, issues };
+    }
+
+    const episode = root.children.learningCurrent.children.learningEpisode;
+    const items = (kind: LearningItemKind, folder: string) =>
+      (root.children[folder].lists[folder] || []).map((node, index) => this.toItem(node, kind, index));
+
+    return {
+      definition: {
+        id: root.id,
+        name: root.name,
+        codeName: root.config.codeName || root.name,
+        learningEpisode: this.toEpisode(episode),
+        features: items('Feature', 'features'),
+        labels: items('Label', 'labels'),
+        predictions: items('Prediction', 'predictions'),
+        root,
+        warnings: issues
+      },
+      issues
+    };
+  }
+
+  private tryParseMine(data: unknown): ParseResult<LearningMineDefinition> {
+    const { node: root, issues } = this.parseTree(data, 'Learning Mine');
+    if (!root || issues.some(issue => issue.severity === 'error')) {
+      return { definition: null, issues };
+    }
+
+    const bots: LearningBotDefinition[] = (root.lists.learningBots || []).map(bot => ({
+      id: bot.id,
+      name: bot.name,
+      codeName: bot.config.codeName || bot.name,
+      processes: (bot.lists.processes || []).map(process => ({
+        id: process.id,
+        name: process.name,
+        codeName: process.config.codeName || process.name,
+        config: process.config
+      })),
+      products: this.collectProducts(bot.lists.productDefinitionFolders || [], [])
+    }));
+
+    const plotters: PlotterDefinition[] = (root.lists.plotters || []).map(plotter => ({
+      id: plotter.id,
+      name: plotter.name,
+      codeName: plotter.config.codeName || '',
+      modules: (plotter.lists.modules || []).map(module => ({
+        id: module.id,
+        name: module.name,
+        codeName: module.config.codeName || '',
+        panels: (module.lists.panels || []).map(panel => ({
+          id: panel.id,
+          name: panel.name,
+          codeName: panel.config.codeName || '',
+          data: (panel.lists.panelData || []).map(data => ({
+            id: data.id,
+            name: data.name,
+            formula: data.children.dataFormula?.code,
+            valueDecimals: data.config.valueDecimals
+          }))
+        })),
+        node: module
+      }))
+    }));
+
+    return {
+      definition: {
+        id: root.id,
+        name: root.name,
+        codeName: root.config.codeName || root.name,
+        bots,
+        plotters,
+        root,
+        warnings: issues
+      },
+      issues
+    };
+  }
+
+  private tryParseSystem(data: unknown): ParseResult<LearningSystemDefinition> {
+    const { node: root, issues } = this.parseTree(data, 'Learning System');
+    if (!root || issues.some(issue => issue.severity === 'error')) {
+      return { definition: null, issues };
+    }
+
+    return {
+      definition: {
+        id: root.id,
+        name: root.name,
+        trainingData: (root.lists.trainingData || []).map(node => ({
+          id: node.id,
+          name: node.name,
+          references: (node.code || '').split('\n').map(line => line.trim()).filter(Boolean)
+        })),
+        root,
+        warnings: issues
+      },
+      issues
+    };
+  }
+
+  private parseTree(data: unknown, expectedType: string): { node: DefinitionNode | null; issues: DefinitionIssue[] } {
+    const issues: DefinitionIssue[] = [];
+    const node = this.parseNode(data, '', issues);
+
+    if (node && node.type !== expectedType) {
+      issues.push({ severity: 'error', path: node.name, message: `Expected a ${expectedType}, found ${node.type}` });
+    }
+    if (node) this.checkFormulas(node, node.name, issues);
+
+    return { node, issues };
+  }
+
+  private parseNode(raw: unknown, parentPath: string, issues: DefinitionIssue[]): DefinitionNode | null {
+    if (!raw || typeof raw !== 'object' || typeof (raw as any).type !== 'string') {
+      issues.push({ severity: 'error', path: parentPath, message: 'Node has no type' });
+      return null;
+    }
+
+    const source = raw as Record<string, any>;
+    const nodePath = parentPath ? parentPath : source.name || source.type;
+    const node: DefinitionNode = {
+      type: source.type,
+      name: source.name || '',
+      id: source.id || '',
+      project: source.project,
+      config: this.decodeConfig(source.config, nodePath, issues),
+      code: typeof source.code === 'string' ? source.code : undefined,
+      referenceParent: source.savedPayload?.referenceParent?.id,
+      children: {},
+      lists: {}
+    };
+
+    Object.entries(source).forEach(([key, value]) => {
+      if (NODE_ATTRIBUTES.has(key)) return;
+
+      if (Array.isArray(value)) {
+        node.lists[key] = value
+          .map((item, index) => this.parseNode(item, `${nodePath}/${key}[${index}]`, issues))
+          .filter((child): child is DefinitionNode => child !== null);
+      } else if (value && typeof value === 'object' && typeof value.type === 'string') {
+        const child = this.parseNode(value, `${nodePath}/${key}`, issues);
+        if (child) node.children[key] = child;
+      }
+    });
+
+    (REQUIRED_CHILDREN[node.type] || []).forEach(key => {
+      if (!node.children[key] && !node.lists[key]) {
+        issues.push({ severity: 'error', path: nodePath, message: `${node.type} is missing required child ${key}` });
+      }
+    });
+
+    return node;
+  }
+
+  /**
+   * Formula syntax errors are warnings: the node fails when evaluated but the
+   * rest of the definition stays usable.
+   */
+  private checkFormulas(node: DefinitionNode, nodePath: string, issues: DefinitionIssue[]): void {
+    if (FORMULA_NODE_TYPES.has(node.type) && node.code && node.code.trim()) {
+      const issue = checkFormula(node.code, node.id);
+      if (issue) {
+        issues.push({
+          severity: 'warning',
+          path: nodePath,
+          message: `Formula ${node.id}: ${issue.message} (line ${issue.line}, column ${issue.column})`
+        });
+      }
+    }
+
+    Object.entries(node.children).forEach(([key, child]) => this.checkFormulas(child, `${nodePath}/${key}`, issues));
+    Object.entries(node.lists).forEach(([key, list]) =>
+      list.forEach((child, index) => this.checkFormulas(child, `${nodePath}/${key}[${index}]`, issues)));
+  }
+
+  private decodeConfig(config: unknown, nodePath: string, issues: DefinitionIssue[]): Record<string, any> {
+    if (config === undefined || config === null || config === '') return {};
+    if (typeof config === 'object') return config as Record<string, any>;
+
+    try {
+      const decoded = JSON.parse(String(config));
+      if (decoded && typeof decoded === 'object' && !Array.isArray(decoded)) return decoded;
+      issues.push({ severity: 'error', path: nodePath, message: 'config is not a JSON object' });
+    } catch (error) {
+      issues.push({ severity: 'error', path: nodePath, message: `config is not valid JSON: ${(error as Error).message}` });
+    }
+    return {};
+  }
+
+  private collectProducts(folders: DefinitionNode[], parents: string[]): ProductDefinition[] {
+    return folders.flatMap(folder => {
+      const trail = [...parents, folder.name];
+      return [
+        ...(folder.lists.products || []).map(product => this.toProduct(product, trail.join('/'))),
+        ...this.collectProducts(folder.lists.productDefinitionFolders || [], trail)
+      ];
+    });
+  }
+
+  private toProduct(node: DefinitionNode, folder: string): ProductDefinition {
+    const record = node.children.record;
+
+    return {
+      id: node.id,
+      name: node.name,
+      codeName: node.config.codeName || node.name,
+      folder,
+      singularVariableName: node.config.singularVariableName || '',
+      pluralVariableName: node.config.pluralVariableName || '',
+      nodePath: node.config.nodePath || '',
+      nodePathType: node.config.nodePathType === 'array' ? 'array' : undefined,
+      plotterModuleId: node.referenceParent,
+      datasets: (node.lists.datasets || []).map(dataset => this.toDataset(dataset)),
+      record: (record?.lists.properties || []).map(property => ({
+        id: property.id,
+        name: property.name,
+        codeName: property.config.codeName || property.name,
+        isString: property.config.isString === true,
+        isCalculated: property.config.isCalculated === true,
+        nodePath: property.config.nodePath,
+        childProperty: property.config.childProperty,
+        index: property.config.index,
+        decimals: property.config.decimals,
+        formula: property.children.formula?.code
+      })),
+      config: node.config
+    };
+  }
+
+  private toDataset(node: DefinitionNode): DatasetDefinition {
+    return {
+      id: node.id,
+      name: node.name,
+      codeName: node.config.codeName || node.name,
+      type: node.config.type || '',
+      validTimeFrames: node.config.validTimeFrames || [],
+      filePath: node.config.filePath || '',
+      fileName: node.config.fileName || '',
+      config: node.config
+    };
+  }
+
+  private toEpisode(node: DefinitionNode): LearningEpisodeDefinition {
+    const value = (key: string, parent: DefinitionNode = node) => this.toValue(parent.children[key]);
+    const counters = node.children.learningEpisodeCounters;
+    const statistics = node.children.learningEpisodeStatistics;
+    const candle = node.children.candle;
+    const cycle = node.children.cycle;
+
+    return {
+      id: node.id,
+      values: {
+        serialNumber: value('serialNumber'),
+        identifier: value('identifier'),
+        begin: value('begin'),
+        end: value('end'),
+        beginRate: value('beginRate'),
+        endRate: value('endRate'),
+        status: value('status'),
+        exitType: value('exitType'),
+        headOfTheMarket: value('headOfTheMarket'),
+        processDate: value('processDate')
+      },
+      counters: {
+        periods: value('periods', counters),
+        hits: value('hits', counters),
+        fails: value('fails', counters),
+        userDefined: (counters.lists.userDefinedCounters || []).map(child => this.toValue(child))
+      },
+      statistics: {
+        hitFail: value('hitFail', statistics),
+        days: value('days', statistics),
+        userDefined: (statistics.lists.userDefinedStatistics || []).map(child => this.toValue(child))
+      },
+      candle: {
+        begin: value('begin', candle),
+        end: value('end', candle),
+        open: value('open', candle),
+        close: value('close', candle),
+        min: value('min', candle),
+        max: value('max', candle),
+        index: value('index', candle)
+      },
+      cycle: {
+        begin: value('begin', cycle),
+        end: value('end', cycle),
+        lastBegin: value('lastBegin', cycle),
+        lastEnd: value('lastEnd', cycle)
+      },
+      distanceToLearningEvent: node.children.distanceToLearningEvent
+    };
+  }
+
+  private toItem(node: DefinitionNode, kind: LearningItemKind, index: number): LearningItemDefinition {
+    const value = this.toValue(node.children[ITEM_VALUE_KEYS[kind]]);
+
+    return {
+      id: node.id,
+      name: node.name,
+      kind,
+      index,
+      initialValue: node.config.initialValue ?? 0,
+      begin: this.toValue(node.children.begin),
+      end: this.toValue(node.children.end),
+      value,
+      formula: node.children.formula?.code || value.formula
+    };
+  }
+
+  private toValue(node: DefinitionNode): ValueDefinition {
+    return {
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      initialValue: node.config.initialValue ?? 0,
+      formula: node.children.formula?.code
+    };
+  }
+
+  private unwrap<T>(label: string, result: ParseResult<T>): T {
+    if (!result.definition) {
+      const errors = result.issues.filter(issue => issue.severity === 'error');
+      throw new Error(`Invalid ${label} definition:\n${errors.map(issue => `${issue.path}: ${issue.message}`).join('\n')}`);
+    }
+    return result.definition;
+  }
+
+  private async readJson(filePath: string): Promise<unknown> {
+    return JSON.parse(await getFileAccess().readText(filePath));
+  }
+
+  // File names, sorted; empty when the directory is missing
+  private async listJsonFiles(directory: string): Promise<string[]> {
+    const files = await getFileAccess().listFiles(directory);
+    return files.filter(file => file.endsWith('.json')).sort();
+  }
+}
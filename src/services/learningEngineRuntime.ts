@@ -0,0 +1,538 @@
+import { Candle } from '../types/trading';
+import {
+  CandleState,
+  InitialValue,
+  LearningEngineDefinition,
+  LearningEngineState,
+  LearningEpisodeState,
+  LearningItemDefinition
+} from '../types/learning';
+import { FEATURE_NAMES, FeaturePipeline } from './featurePipeline';
+import { expressionEvaluator } from './formulaEvaluator';
+import { inferCandleInterval, MarketDataService } from './marketData';
+import { SentimentAnalyzer } from './sentimentAnalyzer';
+
+/**
+ * Evaluates one formula node's code against named values and returns its
+ * result. `nodeId` identifies the node in error messages.
+ */
+export type FormulaEvaluator = (code: string, scope: Record<string, unknown>, nodeId: string) => unknown;
+
+export interface LearningRunOptions {
+  symbol: string;
+  episodeLength: number; // candles per learning episode; 0 keeps one episode for the whole run
+  labelHorizons?: number[]; // candles ahead each label looks, defaults to label index + 1
+  lookback: number; // candles handed to the feature pipeline for features without a formula
+  learningRate: number;
+  evaluator: FormulaEvaluator;
+  onCycle?: (state: LearningEngineState, index: number) => void | Promise<void>;
+  shouldStop?: () => boolean; // checked before every cycle; a stopped run returns the cycles it completed
+}
+
+export interface LearningRuntimeError {
+  nodeId: string;
+  index: number; // candle of the first failure
+  count: number;
+  message: string;
+}
+
+export interface LearningRunResult {
+  engine: string;
+  symbol: string;
+  cycles: number;
+  state: LearningEngineState;
+  episodes: LearningEpisodeState[]; // closed episodes, oldest first
+  errors: LearningRuntimeError[];
+}
+
+// The Learning Episode Statistics product records three user defined slots
+export const USER_DEFINED_STATISTIC_SLOTS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isBlankFormula(code: string | undefined): boolean {
+  return !code || code.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '').trim() === '';
+}
+
+/**
+ * Linear regression trained one sample at a time on running-standardized
+ * inputs. Targets are scaled by their running mean magnitude so small
+ * returns and unit-scale labels learn at the same pace.
+ */
+class OnlineRegressor {
+  private count = 0;
+  private mean: number[];
+  private m2: number[];
+  private weights: number[];
+  private bias = 0;
+  private targetScale = 0;
+
+  constructor(width: number, private learningRate: number) {
+    this.mean = new Array(width).fill(0);
+    this.m2 = new Array(width).fill(0);
+    this.weights = new Array(width).fill(0);
+  }
+
+  predict(features: number[]): number {
+    if (this.count < 2 || this.targetScale === 0) return 0;
+    return this.predictScaled(this.standardize(features)) * this.targetScale;
+  }
+
+  update(features: number[], target: number): void {
+    this.count++;
+    features.forEach((value, j) => {
+      const delta = value - this.mean[j];
+      this.mean[j] += delta / this.count;
+      this.m2[j] += delta * (value - this.mean[j]);
+    });
+    this.targetScale += (Math.abs(target) - this.targetScale) / this.count;
+    if (this.count < 2 || this.targetScale === 0) return;
+
+    const inputs = this.standardize(features);
+    const error = this.predictScaled(inputs) - target / this.targetScale;
+    inputs.forEach((value, j) => {
+      this.weights[j] -= this.learningRate * error * value;
+    });
+    this.bias -= this.learningRate * error;
+  }
+
+  private predictScaled(inputs: number[]): number {
+    return inputs.reduce((sum, value, j) => sum + value * this.weights[j], this.bias);
+  }
+
+  private standardize(features: number[]): number[] {
+    return features.map((value, j) => {
+      const std = Math.sqrt(this.m2[j] / Math.max(this.count - 1, 1));
+      return std > 0 ? (value - this.mean[j]) / std : 0;
+    });
+  }
+}
+
+interface RunContext {
+  definition: LearningEngineDefinition;
+  options: LearningRunOptions;
+  candles: Candle[];
+  interval: number;
+  state: LearningEngineState;
+  horizons: number[];
+  featureHistory: number[][];
+  predictionHistory: number[][]; // [label][candle]
+  models: OnlineRegressor[];
+  errors: Map<string, LearningRuntimeError>;
+}
+
+/**
+ * Executes a Learning Engine definition over historical candles. Each candle
+ * is one cycle: the episode's candle and cycle nodes advance, features are
+ * evaluated, labels that have become known train one online model per label
+ * and score the prediction made when that label's candle was current, and
+ * fresh predictions are made for the labels still ahead.
+ */
+export class LearningEngineRuntime {
+  private static instance: LearningEngineRuntime;
+  private featurePipeline: FeaturePipeline;
+  private marketData: MarketDataService;
+
+  constructor() {
+    this.featurePipeline = FeaturePipeline.getInstance();
+    this.marketData = MarketDataService.getInstance();
+  }
+
+  static getInstance(): LearningEngineRuntime {
+    if (!LearningEngineRuntime.instance) {
+      LearningEngineRuntime.instance = new LearningEngineRuntime();
+    }
+    return LearningEngineRuntime.instance;
+  }
+
+  getDefaultOptions(symbol: string): LearningRunOptions {
+    return {
+      symbol,
+      episodeLength: 0,
+      lookback: 200,
+      learningRate: 0.01,
+      evaluator: expressionEvaluator
+    };
+  }
+
+  /**
+   * Builds the state a definition starts from, with every value at its
+   * configured initial value.
+   */
+  createInitialState(definition: LearningEngineDefinition): LearningEngineState {
+    const episode = definition.learningEpisode;
+    const item = <K extends string>(items: LearningItemDefinition[], key: K) =>
+      items.map(entry => ({
+        begin: toNumber(entry.begin.initialValue),
+        end: toNumber(entry.end.initialValue),
+        [key]: toNumber(entry.value.initialValue)
+      }) as { begin: number; end: number } & Record<K, number>);
+
+    return {
+      learningCurrent: {
+        learningEpisode: {
+          serialNumber: toNumber(episode.values.serialNumber.initialValue),
+          identifier: String(episode.values.identifier.initialValue),
+          begin: toNumber(episode.values.begin.initialValue),
+          end: toNumber(episode.values.end.initialValue),
+          beginRate: toNumber(episode.values.beginRate.initialValue),
+          endRate: toNumber(episode.values.endRate.initialValue),
+          status: String(episode.values.status.initialValue),
+          exitType: String(episode.values.exitType.initialValue),
+          headOfTheMarket: episode.values.headOfTheMarket.initialValue === true,
+          processDate: toNumber(episode.values.processDate.initialValue),
+          learningEpisodeCounters: this.createCounters(definition),
+          learningEpisodeStatistics: this.createStatistics(definition),
+          distanceToLearningEvent: {},
+          candle: {
+            begin: toNumber(episode.candle.begin.initialValue),
+            end: toNumber(episode.candle.end.initialValue),
+            open: toNumber(episode.candle.open.initialValue),
+            close: toNumber(episode.candle.close.initialValue),
+            min: toNumber(episode.candle.min.initialValue),
+            max: toNumber(episode.candle.max.initialValue),
+            index: toNumber(episode.candle.index.initialValue)
+          },
+          cycle: {
+            begin: toNumber(episode.cycle.begin.initialValue),
+            end: toNumber(episode.cycle.end.initialValue),
+            lastBegin: toNumber(episode.cycle.lastBegin.initialValue),
+            lastEnd: toNumber(episode.cycle.lastEnd.initialValue)
+          }
+        }
+      },
+      features: { features: item(definition.features, 'featureValue') },
+      labels: { labels: item(definition.labels, 'labelValue') },
+      predictions: { predictions: item(definition.predictions, 'predictionValue') }
+    };
+  }
+
+  async run(
+    definition: LearningEngineDefinition,
+    candles: Candle[],
+    options: Partial<LearningRunOptions> & { symbol: string }
+  ): Promise<LearningRunResult> {
+    const config = { ...this.getDefaultOptions(options.symbol), ...options };
+    const sorted = [...candles].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const horizons = definition.labels.map((_, i) => Math.max(1, config.labelHorizons?.[i] ?? i + 1));
+
+    const context: RunContext = {
+      definition,
+      options: config,
+      candles: sorted,
+      interval: inferCandleInterval(sorted),
+      state: this.createInitialState(definition),
+      horizons,
+      featureHistory: [],
+      predictionHistory: definition.labels.map(() => []),
+      models: definition.labels.map(() => new OnlineRegressor(definition.features.length, config.learningRate)),
+      errors: new Map()
+    };
+    const episodes: LearningEpisodeState[] = [];
+    let cycles = 0;
+
+    for (let index = 0; index < sorted.length; index++) {
+      if (config.shouldStop?.()) break;
+
+      const episode = context.state.learningCurrent.learningEpisode;
+      if (episode.status !== 'Open') {
+        this.openEpisode(context, index);
+      }
+
+      this.advanceCycle(context, index);
+      this.evaluateFeatures(context, index);
+      this.learnFromLabels(context, index);
+      this.makePredictions(context, index);
+      this.updateStatistics(context, index);
+
+      const isLast = index === sorted.length - 1;
+      const current = context.state.learningCurrent.learningEpisode;
+      current.headOfTheMarket = isLast;
+
+      if (config.episodeLength > 0 && current.learningEpisodeCounters.periods >= config.episodeLength) {
+        this.closeEpisode(context, index, 'Episode Length');
+        episodes.push(clone(current));
+      }
+
+      cycles++;
+      if (config.onCycle) {
+        await config.onCycle(context.state, index);
+      }
+    }
+
+    return {
+      engine: definition.codeName,
+      symbol: config.symbol,
+      cycles,
+      state: context.state,
+      episodes,
+      errors: Array.from(context.errors.values())
+    };
+  }
+
+  private createCounters(definition: LearningEngineDefinition): LearningEpisodeState['learningEpisodeCounters'] {
+    const counters = definition.learningEpisode.counters;
+    return {
+      periods: toNumber(counters.periods.initialValue),
+      hits: toNumber(counters.hits.initialValue),
+      fails: toNumber(counters.fails.initialValue),
+      userDefinedCounters: counters.userDefined.map(counter => toNumber(counter.initialValue))
+    };
+  }
+
+  private createStatistics(definition: LearningEngineDefinition): LearningEpisodeState['learningEpisodeStatistics'] {
+    const statistics = definition.learningEpisode.statistics;
+    const slots = Math.max(USER_DEFINED_STATISTIC_SLOTS, statistics.userDefined.length);
+
+    return {
+      hitFail: String(statistics.hitFail.initialValue),
+      days: toNumber(statistics.days.initialValue),
+      userDefinedStatistics: Array.from({ length: slots }, (_, i) =>
+        statistics.userDefined[i] ? toNumber(statistics.userDefined[i].initialValue) : 0
+      )
+    };
+  }
+
+  private openEpisode(context: RunContext, index: number): void {
+    const episode = context.state.learningCurrent.learningEpisode;
+    const candle = context.candles[index];
+    const serialNumber = episode.serialNumber + 1;
+
+    context.state.learningCurrent.learningEpisode = {
+      ...episode,
+      serialNumber,
+      identifier: `${context.definition.codeName}-${context.options.symbol}-${serialNumber}`,
+      begin: candle.timestamp.getTime(),
+      end: 0,
+      beginRate: candle.open,
+      endRate: 0,
+      status: 'Open',
+      exitType: String(context.definition.learningEpisode.values.exitType.initialValue),
+      learningEpisodeCounters: this.createCounters(context.definition),
+      learningEpisodeStatistics: this.createStatistics(context.definition)
+    };
+  }
+
+  private closeEpisode(context: RunContext, index: number, exitType: string): void {
+    const episode = context.state.learningCurrent.learningEpisode;
+    episode.status = 'Closed';
+    episode.exitType = exitType;
+    episode.end = this.candleEnd(context, index);
+    episode.endRate = context.candles[index].close;
+  }
+
+  private advanceCycle(context: RunContext, index: number): void {
+    const episode = context.state.learningCurrent.learningEpisode;
+    const candle = context.candles[index];
+    const begin = candle.timestamp.getTime();
+    const end = this.candleEnd(context, index);
+
+    episode.cycle = {
+      lastBegin: episode.cycle.begin,
+      lastEnd: episode.cycle.end,
+      begin,
+      end
+    };
+    episode.candle = {
+      begin,
+      end,
+      open: candle.open,
+      close: candle.close,
+      min: candle.low,
+      max: candle.high,
+      index
+    };
+    episode.processDate = begin;
+    // An open episode spans up to the candle being processed
+    episode.end = end;
+  }
+
+  private evaluateFeatures(context: RunContext, index: number): void {
+    const { definition, state } = context;
+    const episode = state.learningCurrent.learningEpisode;
+    const needsPipeline = definition.features.some(feature => isBlankFormula(feature.formula));
+    const pipelineValues = needsPipeline ? this.pipelineFeatures(context, index) : [];
+    const history = context.candles.slice(0, index + 1);
+    const values: number[] = [];
+
+    definition.features.forEach((feature, i) => {
+      const previous = state.features.features[i].featureValue;
+      const value = isBlankFormula(feature.formula)
+        ? pipelineValues[i] ?? 0
+        : this.evaluate(context, feature.formula!, feature.id, index, {
+          candle: episode.candle,
+          candles: history,
+          index,
+          episode,
+          features: values
+        }) ?? previous;
+
+      values.push(value);
+      state.features.features[i] = { begin: episode.candle.begin, end: episode.candle.end, featureValue: value };
+    });
+
+    context.featureHistory[index] = values;
+  }
+
+  /**
+   * Labels whose horizon has just elapsed become known: each one scores the
+   * prediction made for it and is then learned from. A zero prediction takes
+   * no side (untrained models predict 0), so it is neither a hit nor a fail.
+   */
+  private learnFromLabels(context: RunContext, index: number): void {
+    const { definition, state, candles } = context;
+    const episode = state.learningCurrent.learningEpisode;
+
+    definition.labels.forEach((label, i) => {
+      const horizon = context.horizons[i];
+      const sample = index - horizon;
+      if (sample < 0) return;
+
+      const value = isBlankFormula(label.formula)
+        ? candles[index].close / candles[sample].close - 1
+        : this.evaluate(context, label.formula!, label.id, index, {
+          candle: this.toCandleState(context, sample),
+          candles: candles.slice(0, index + 1),
+          index: sample,
+          horizon,
+          future: candles[index]
+        });
+      // An unknown label neither scores nor trains anything
+      if (value === null) return;
+
+      // Stamped with the current cycle's candle, like features and predictions
+      state.labels.labels[i] = { begin: episode.candle.begin, end: episode.candle.end, labelValue: value };
+
+      const predicted = context.predictionHistory[i][sample];
+      if (predicted !== undefined && predicted !== 0) {
+        const hit = Math.sign(predicted) === Math.sign(value);
+        if (hit) episode.learningEpisodeCounters.hits++;
+        else episode.learningEpisodeCounters.fails++;
+        episode.learningEpisodeStatistics.hitFail = hit ? 'Hit' : 'Fail';
+      }
+
+      context.models[i].update(context.featureHistory[sample], value);
+    });
+  }
+
+  private makePredictions(context: RunContext, index: number): void {
+    const { definition, state } = context;
+    const episode = state.learningCurrent.learningEpisode;
+    const features = context.featureHistory[index];
+
+    definition.predictions.forEach((prediction, i) => {
+      const previous = state.predictions.predictions[i].predictionValue;
+      const model = context.models[i];
+      const value = !isBlankFormula(prediction.formula)
+        ? this.evaluate(context, prediction.formula!, prediction.id, index, {
+          candle: episode.candle,
+          index,
+          episode,
+          features,
+          modelPrediction: model ? model.predict(features) : 0
+        }) ?? previous
+        : model ? model.predict(features) : 0;
+
+      state.predictions.predictions[i] = { begin: episode.candle.begin, end: episode.candle.end, predictionValue: value };
+      if (context.predictionHistory[i]) {
+        context.predictionHistory[i][index] = value;
+      }
+    });
+  }
+
+  private updateStatistics(context: RunContext, index: number): void {
+    const { definition } = context;
+    const episode = context.state.learningCurrent.learningEpisode;
+    const counters = episode.learningEpisodeCounters;
+    const statistics = episode.learningEpisodeStatistics;
+
+    counters.periods++;
+    statistics.days = (episode.candle.end - episode.begin) / DAY_MS;
+
+    const scope = {
+      episode,
+      counters,
+      statistics,
+      candle: episode.candle,
+      index
+    };
+
+    definition.learningEpisode.counters.userDefined.forEach((counter, i) => {
+      if (isBlankFormula(counter.formula)) return;
+      counters.userDefinedCounters[i] = this.evaluate(context, counter.formula!, counter.id, index, scope) ?? counters.userDefinedCounters[i];
+    });
+    definition.learningEpisode.statistics.userDefined.forEach((statistic, i) => {
+      if (isBlankFormula(statistic.formula)) return;
+      statistics.userDefinedStatistics[i] = this.evaluate(context, statistic.formula!, statistic.id, index, scope) ?? statistics.userDefinedStatistics[i];
+    });
+  }
+
+  /**
+   * Numeric result of a formula, or null when it fails. Failures are
+   * reported once per node with a count.
+   */
+  private evaluate(
+    context: RunContext,
+    code: string,
+    nodeId: string,
+    index: number,
+    scope: Record<string, unknown>
+  ): number | null {
+    let message: string;
+
+    try {
+      const value = Number(context.options.evaluator(code, scope, nodeId));
+      if (Number.isFinite(value)) return value;
+      message = 'Formula did not return a finite number';
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+    }
+
+    const existing = context.errors.get(nodeId);
+    if (existing) {
+      existing.count++;
+    } else {
+      context.errors.set(nodeId, { nodeId, index, count: 1, message });
+    }
+    return null;
+  }
+
+  private pipelineFeatures(context: RunContext, index: number): number[] {
+    const window = context.candles.slice(Math.max(0, index - context.options.lookback + 1), index + 1);
+    const marketConditions = this.marketData.deriveMarketConditions(
+      this.marketData.buildMarketData(context.options.symbol, window, { bids: [], asks: [] })
+    );
+    const sentiment = SentimentAnalyzer.getInstance().getDefaultSentiment(context.options.symbol);
+    const values = this.featurePipeline.extractFeatures(window, sentiment, marketConditions);
+
+    // Feature #n without a formula takes the pipeline's nth feature
+    return context.definition.features.map((_, i) => (i < FEATURE_NAMES.length ? values[i] : 0));
+  }
+
+  private toCandleState(context: RunContext, index: number): CandleState {
+    const candle = context.candles[index];
+    return {
+      begin: candle.timestamp.getTime(),
+      end: this.candleEnd(context, index),
+      open: candle.open,
+      close: candle.close,
+      min: candle.low,
+      max: candle.high,
+      index
+    };
+  }
+
+  // Superalgos candles end one millisecond before the next one begins
+  private candleEnd(context: RunContext, index: number): number {
+    return context.candles[index].timestamp.getTime() + context.interval - 1;
+  }
+}
+
+function toNumber(value: InitialValue): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : 0;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,418 @@
+import {
+  LearningBotDefinition,
+  LearningEngineDefinition,
+  LearningEngineState,
+  LearningMineDefinition,
+  LearningSystemDefinition,
+  LearningSystemMessage,
+  LearningSystemState,
+  ProcessDefinition
+} from '../types/learning';
+import { expressionEvaluator } from './formulaEvaluator';
+import { LearningDatasetWriter, timeFrameLabel } from './learningDatasetWriter';
+import { FormulaEvaluator, LearningEngineRuntime, LearningRunOptions, LearningRunResult } from './learningEngineRuntime';
+import { inferCandleInterval, MarketDataService } from './marketData';
+
+export type LearningSessionType = 'Backtesting' | 'Live';
+
+export type LearningSessionState = 'Idle' | 'Running' | 'Waiting' | 'Retrying' | 'Finished' | 'Stopped' | 'Failed';
+
+export interface LearningMarket {
+  exchange: string;
+  baseAsset: string; // symbol candles are requested for
+  quotedAsset: string;
+}
+
+export interface LearningSessionConfig {
+  name: string;
+  type: LearningSessionType; // Backtesting runs once; Live reruns every sessionRunWaitTime
+  system: LearningSystemDefinition;
+  engine: LearningEngineDefinition;
+  mine: LearningMineDefinition;
+  botCodeName?: string; // defaults to the bot sharing the engine's code name
+  processCodeName?: string; // defaults to the bot's first process
+  market: LearningMarket;
+  candleLimit?: number;
+  maxRetries: number;
+  outputDir?: string; // datasets are flushed here after every run when set
+  project?: string;
+  runOptions?: Partial<Omit<LearningRunOptions, 'symbol' | 'onCycle' | 'shouldStop'>>;
+}
+
+export interface LearningSessionResult {
+  cycles: number;
+  episodes: number;
+  hits: number; // scored label predictions, summed over every label
+  fails: number;
+  hitRatio: number;
+  formulaErrors: number; // formula nodes that failed at least once
+}
+
+export interface LearningSessionStatus {
+  id: string;
+  name: string;
+  type: LearningSessionType;
+  system: string;
+  engine: string;
+  bot: string;
+  process: string;
+  market: LearningMarket;
+  state: LearningSessionState;
+  runs: number;
+  retries: number; // consecutive failed runs
+  progress: number; // 0..1 through the current run's candles
+  startedAt?: Date;
+  lastRunAt?: Date;
+  nextRunAt?: Date;
+  lastError?: string;
+  errors: LearningSystemMessage[]; // latest run, newest last
+  highlights: string[]; // nodes evaluated on the latest cycle
+  result?: LearningSessionResult;
+}
+
+export type LearningSessionListener = (status: LearningSessionStatus) => void;
+
+interface Session {
+  config: LearningSessionConfig;
+  bot: LearningBotDefinition;
+  process: ProcessDefinition;
+  status: LearningSessionStatus;
+  stopRequested: boolean;
+  wake: (() => void) | null; // ends the current wait early
+}
+
+// Superalgos defaults when a process does not configure its timing
+const DEFAULT_SESSION_RUN_WAIT_TIME = 60 * 1000;
+const DEFAULT_RETRY_WAIT_TIME = 10 * 1000;
+const MAX_STATUS_ERRORS = 50;
+// Cycles between yields to the event loop, which is also how often listeners hear about progress
+const CYCLES_PER_YIELD = 50;
+
+export function createLearningSystemState(): LearningSystemState {
+  return {
+    highlights: [],
+    errors: [],
+    warnings: [],
+    infos: [],
+    values: [],
+    status: [],
+    progress: [],
+    running: [],
+    announcements: []
+  };
+}
+
+/**
+ * Runs Learning Engines against markets the way a Learning System does:
+ * each session pairs an engine with a Learning Mine bot process and a
+ * market, replays candles through the engine, records the Learning System
+ * errors, highlights and values for every cycle and writes the bot's
+ * datasets. Failed runs are retried after the process's `retryWaitTime`;
+ * Live sessions rerun after its `sessionRunWaitTime`.
+ */
+export class LearningSystemOrchestrator {
+  private static instance: LearningSystemOrchestrator;
+  private sessions: Map<string, Session> = new Map();
+  private listeners: Set<LearningSessionListener> = new Set();
+  private sequence = 0;
+
+  constructor(
+    private runtime: LearningEngineRuntime = LearningEngineRuntime.getInstance(),
+    private marketData: MarketDataService = MarketDataService.getInstance()
+  ) {}
+
+  static getInstance(): LearningSystemOrchestrator {
+    if (!LearningSystemOrchestrator.instance) {
+      LearningSystemOrchestrator.instance = new LearningSystemOrchestrator();
+    }
+    return LearningSystemOrchestrator.instance;
+  }
+
+  createSession(config: LearningSessionConfig): LearningSessionStatus {
+    const { engine, mine } = config;
+    const bot = mine.bots.find(candidate => candidate.codeName === (config.botCodeName || engine.codeName))
+      || (config.botCodeName ? undefined : mine.bots[0]);
+    if (!bot) {
+      throw new Error(`Learning Mine ${mine.name} has no bot ${config.botCodeName}`);
+    }
+
+    const process = config.processCodeName
+      ? bot.processes.find(candidate => candidate.codeName === config.processCodeName)
+      : bot.processes[0];
+    if (!process) {
+      throw new Error(`Learning Bot ${bot.name} has no process ${config.processCodeName || ''}`.trim());
+    }
+
+    const id = `learning_session_${Date.now()}_${this.sequence++}`;
+    const session: Session = {
+      config,
+      bot,
+      process,
+      stopRequested: false,
+      wake: null,
+      status: {
+        id,
+        name: config.name,
+        type: config.type,
+        system: config.system.name,
+        engine: engine.name,
+        bot: bot.name,
+        process: process.name,
+        market: { ...config.market },
+        state: 'Idle',
+        runs: 0,
+        retries: 0,
+        progress: 0,
+        errors: [],
+        highlights: []
+      }
+    };
+
+    this.sessions.set(id, session);
+    return this.snapshot(session);
+  }
+
+  removeSession(id: string): void {
+    this.stop(id);
+    this.sessions.delete(id);
+  }
+
+  /**
+   * Runs the session until it finishes, fails or is stopped. Resolves with
+   * the final status.
+   */
+  async start(id: string): Promise<LearningSessionStatus> {
+    const session = this.getSession(id);
+    if (this.isActive(session.status.state)) return this.snapshot(session);
+
+    session.stopRequested = false;
+    this.update(session, { state: 'Running', retries: 0, startedAt: new Date(), lastError: undefined });
+
+    while (!session.stopRequested) {
+      try {
+        await this.runOnce(session);
+        if (session.stopRequested) break;
+
+        if (session.config.type === 'Backtesting') {
+          this.update(session, { state: 'Finished', nextRunAt: undefined });
+          return this.snapshot(session);
+        }
+        await this.wait(session, 'Waiting', this.processTime(session, 'sessionRunWaitTime', DEFAULT_SESSION_RUN_WAIT_TIME));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Error running learning session ${session.status.name}:`, error);
+
+        const retries = session.status.retries + 1;
+        if (retries > session.config.maxRetries) {
+          this.update(session, { state: 'Failed', retries, lastError: message, nextRunAt: undefined });
+          return this.snapshot(session);
+        }
+        this.update(session, { retries, lastError: message });
+        await this.wait(session, 'Retrying', this.processTime(session, 'retryWaitTime', DEFAULT_RETRY_WAIT_TIME));
+      }
+    }
+
+    this.update(session, { state: 'Stopped', nextRunAt: undefined });
+    return this.snapshot(session);
+  }
+
+  /**
+   * Starts every idle or ended session side by side.
+   */
+  startAll(): Promise<LearningSessionStatus[]> {
+    return Promise.all(Array.from(this.sessions.keys()).map(id => this.start(id)));
+  }
+
+  /**
+   * Asks the session to stop once the run in progress completes; a pending
+   * wait ends immediately.
+   */
+  stop(id: string): void {
+    const session = this.sessions.get(id);
+    if (!session || !this.isActive(session.status.state)) return;
+
+    session.stopRequested = true;
+    session.wake?.();
+  }
+
+  stopAll(): void {
+    this.sessions.forEach((_, id) => this.stop(id));
+  }
+
+  getStatus(id: string): LearningSessionStatus | undefined {
+    const session = this.sessions.get(id);
+    return session ? this.snapshot(session) : undefined;
+  }
+
+  getSessions(): LearningSessionStatus[] {
+    return Array.from(this.sessions.values()).map(session => this.snapshot(session));
+  }
+
+  onStatusChange(listener: LearningSessionListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async runOnce(session: Session): Promise<void> {
+    const { config, bot, process } = session;
+    const candles = await this.marketData.getProvider().getCandles(config.market.baseAsset, config.candleLimit);
+    if (candles.length === 0) {
+      throw new Error(`No candles for ${config.market.baseAsset}`);
+    }
+
+    this.update(session, { state: 'Running', progress: 0, lastRunAt: new Date(), nextRunAt: undefined, errors: [] });
+
+    const writer = new LearningDatasetWriter(config.mine, bot, {
+      rootDir: config.outputDir || '',
+      project: config.project || config.system.root.project || 'Foundations',
+      mineType: 'Learning-Mine',
+      exchange: config.market.exchange,
+      baseAsset: config.market.baseAsset,
+      quotedAsset: config.market.quotedAsset,
+      session: config.name,
+      timeFrame: timeFrameLabel(inferCandleInterval(candles))
+    });
+
+    let learningSystem = createLearningSystemState();
+    const evaluator = this.trackingEvaluator(config.runOptions?.evaluator || expressionEvaluator, () => learningSystem);
+    const errors: LearningSystemMessage[] = [];
+    let lastSerialNumber = 0;
+
+    const result: LearningRunResult = await this.runtime.run(config.engine, candles, {
+      ...config.runOptions,
+      symbol: config.market.baseAsset,
+      evaluator,
+      shouldStop: () => session.stopRequested,
+      onCycle: async (state: LearningEngineState, index: number) => {
+        const episode = state.learningCurrent.learningEpisode;
+        const rate = episode.candle.close;
+        const percent = Math.round(((index + 1) / candles.length) * 100);
+
+        // Messages are raised mid-cycle, before the rate is known
+        [learningSystem.errors, learningSystem.warnings, learningSystem.infos].forEach(messages =>
+          messages.forEach(message => { message[3] = rate; }));
+        learningSystem.status.push([process.id, session.stopRequested ? 'Stopping' : 'Running']);
+        learningSystem.progress.push([process.id, percent]);
+        learningSystem.running.push(process.id);
+        if (episode.serialNumber !== lastSerialNumber) {
+          if (lastSerialNumber > 0) {
+            learningSystem.announcements.push([config.engine.learningEpisode.id, `Learning Episode ${lastSerialNumber} closed`]);
+          }
+          lastSerialNumber = episode.serialNumber;
+        }
+
+        writer.append(state, 'Second', learningSystem);
+        errors.push(...learningSystem.errors);
+        if (errors.length > MAX_STATUS_ERRORS) errors.splice(0, errors.length - MAX_STATUS_ERRORS);
+        const highlights = learningSystem.highlights;
+        learningSystem = createLearningSystemState();
+
+        // A long replay would otherwise hold the event loop, so stop() could never run
+        if ((index + 1) % CYCLES_PER_YIELD === 0 || index === candles.length - 1) {
+          this.update(session, { progress: percent / 100, highlights, errors: [...errors] });
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+      }
+    });
+
+    if (config.outputDir) {
+      await writer.flush();
+    }
+
+    const current = result.state.learningCurrent.learningEpisode;
+    const episodes = current.status === 'Open' ? [...result.episodes, current] : result.episodes;
+    const hits = episodes.reduce((sum, episode) => sum + episode.learningEpisodeCounters.hits, 0);
+    const fails = episodes.reduce((sum, episode) => sum + episode.learningEpisodeCounters.fails, 0);
+
+    this.update(session, {
+      runs: session.status.runs + 1,
+      retries: 0,
+      progress: result.cycles / candles.length,
+      result: {
+        cycles: result.cycles,
+        episodes: episodes.length,
+        hits,
+        fails,
+        hitRatio: hits + fails > 0 ? hits / (hits + fails) : 0,
+        formulaErrors: result.errors.length
+      }
+    });
+  }
+
+  /**
+   * Wraps an evaluator so every evaluated node is highlighted, numeric
+   * results become values and failures become errors on the Learning System
+   * state. Errors are rethrown for the runtime to count.
+   */
+  private trackingEvaluator(evaluator: FormulaEvaluator, state: () => LearningSystemState): FormulaEvaluator {
+    return (code, scope, nodeId) => {
+      const learningSystem = state();
+      try {
+        const value = evaluator(code, scope, nodeId);
+        learningSystem.highlights.push(nodeId);
+        if (typeof value === 'number' && isFinite(value)) {
+          learningSystem.values.push([nodeId, value]);
+        }
+        return value;
+      } catch (error) {
+        learningSystem.errors.push([nodeId, error instanceof Error ? error.message : String(error), '', 0]);
+        throw error;
+      }
+    };
+  }
+
+  private wait(session: Session, state: LearningSessionState, ms: number): Promise<void> {
+    this.update(session, { state, nextRunAt: new Date(Date.now() + ms) });
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        session.wake = null;
+        resolve();
+      }, ms);
+      session.wake = () => {
+        clearTimeout(timer);
+        session.wake = null;
+        resolve();
+      };
+    });
+  }
+
+  private processTime(session: Session, key: 'sessionRunWaitTime' | 'retryWaitTime', fallback: number): number {
+    const value = Number(session.process.config[key]);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  }
+
+  private isActive(state: LearningSessionState): boolean {
+    return state === 'Running' || state === 'Waiting' || state === 'Retrying';
+  }
+
+  private getSession(id: string): Session {
+    const session = this.sessions.get(id);
+    if (!session) {
+      throw new Error(`Unknown learning session ${id}`);
+    }
+    return session;
+  }
+
+  private update(session: Session, changes: Partial<LearningSessionStatus>): void {
+    session.status = { ...session.status, ...changes };
+    const snapshot = this.snapshot(session);
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error('Error in learning session listener:', error);
+      }
+    });
+  }
+
+  private snapshot(session: Session): LearningSessionStatus {
+    return {
+      ...session.status,
+      market: { ...session.status.market },
+      errors: [...session.status.errors],
+      highlights: [...session.status.highlights],
+      result: session.status.result ? { ...session.status.result } : undefined
+    };
+  }
+}
@@ -0,0 +1,244 @@
+import { ACRONYMS, BOOSTERS, CRYPTO_LEXICON, EMOJI_LEXICON, NEGATIONS, SentimentLexicon } from './sentimentLexicon';
+
+export type SentimentTokenKind = 'word' | 'hashtag' | 'cashtag' | 'emoji' | 'punctuation';
+
+export interface SentimentToken {
+  text: string; // normalized: lowercase, apostrophes and leading #/$ removed
+  raw: string;
+  kind: SentimentTokenKind;
+}
+
+export interface SentimentTermMatch {
+  term: string;
+  valence: number; // after boosters, emphasis and negation
+  negated: boolean;
+}
+
+export interface SentimentScore {
+  score: number; // -1 (bearish) .. 1 (bullish)
+  confidence: number; // 0 .. 1
+  matches: SentimentTermMatch[];
+  symbols: string[]; // cashtags, uppercased without the $
+  tokens: number;
+}
+
+const TOKEN_PATTERN = /(\$[a-z][a-z0-9]{0,9}(?![\p{L}\p{N}]))|(#[\p{L}\p{N}_]+)|([\p{L}\p{N}]+(?:['’\-][\p{L}\p{N}]+)*)|(\p{Extended_Pictographic})|([.!?;:,]+)/giu;
+const NEGATION_SCOPE = 3; // words after a negation that it still flips
+const BOOSTER_REACH = 2; // words a booster may sit before the term it boosts
+const NEGATION_SCALAR = -0.74;
+const CAPS_INCREMENT = 0.733;
+const EXCLAMATION_INCREMENT = 0.292;
+const MAX_EXCLAMATIONS = 4;
+const BUT_BEFORE_SCALAR = 0.5;
+const BUT_AFTER_SCALAR = 1.5;
+const NORMALIZATION_ALPHA = 15;
+
+export function tokenizeSentimentText(text: string): SentimentToken[] {
+  const tokens: SentimentToken[] = [];
+  for (const match of text.replace(/\uFE0F/g, '').matchAll(TOKEN_PATTERN)) {
+    const raw = match[0];
+    if (match[1]) tokens.push({ text: raw.slice(1).toLowerCase(), raw, kind: 'cashtag' });
+    else if (match[2]) tokens.push({ text: raw.slice(1).toLowerCase(), raw, kind: 'hashtag' });
+    else if (match[3]) tokens.push({ text: raw.toLowerCase().replace(/['’]/g, ''), raw, kind: 'word' });
+    else if (match[4]) tokens.push({ text: raw, raw, kind: 'emoji' });
+    else tokens.push({ text: raw, raw, kind: 'punctuation' });
+  }
+  return tokens;
+}
+
+/**
+ * VADER-style scorer over a crypto lexicon. Negations flip and dampen the
+ * terms in their scope, boosters scale the magnitude of the next term, and
+ * the summed valence is squashed into -1..1 so a one-word headline does not
+ * saturate the way a per-word ratio does.
+ */
+export class LexiconSentimentScorer {
+  private static instance: LexiconSentimentScorer;
+  private lexicon = new Map<string, number>();
+  private emoji = new Map<string, number>();
+  private maxPhraseLength = 1;
+
+  constructor(lexicon: SentimentLexicon = CRYPTO_LEXICON, emoji: SentimentLexicon = EMOJI_LEXICON) {
+    this.addTerms(lexicon);
+    Object.entries(emoji).forEach(([symbol, valence]) => this.emoji.set(symbol.replace(/\uFE0F/g, ''), valence));
+  }
+
+  static getInstance(): LexiconSentimentScorer {
+    if (!LexiconSentimentScorer.instance) {
+      LexiconSentimentScorer.instance = new LexiconSentimentScorer();
+    }
+    return LexiconSentimentScorer.instance;
+  }
+
+  /** Adds or overrides terms; multi-word keys are matched as phrases. */
+  addTerms(terms: SentimentLexicon): void {
+    Object.entries(terms).forEach(([term, valence]) => {
+      const key = this.normalizeTerm(term);
+      this.lexicon.set(key, valence);
+      this.maxPhraseLength = Math.max(this.maxPhraseLength, key.split(' ').length);
+    });
+  }
+
+  removeTerms(terms: string[]): void {
+    terms.forEach(term => this.lexicon.delete(this.normalizeTerm(term)));
+  }
+
+  getValence(term: string): number | undefined {
+    return this.lexicon.get(this.normalizeTerm(term));
+  }
+
+  score(text: string): SentimentScore {
+    const source = text || '';
+    const tokens = tokenizeSentimentText(source);
+    const matches: SentimentTermMatch[] = [];
+    const symbols = new Set<string>();
+    const letters = source.replace(/[^\p{L}]/gu, '');
+    const shouting = letters.length > 0 && letters === letters.toUpperCase();
+    let negationLeft = 0;
+    let boost = 0;
+    let boostLeft = 0;
+    let exclamations = 0;
+    let butIndex = -1;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.kind === 'punctuation') {
+        exclamations += (token.raw.match(/!/g) || []).length;
+        negationLeft = 0;
+        boostLeft = 0;
+        continue;
+      }
+      if (token.kind === 'cashtag') {
+        symbols.add(token.text.toUpperCase());
+        continue;
+      }
+      if (token.kind === 'emoji') {
+        const valence = this.emoji.get(token.text);
+        if (valence !== undefined) matches.push({ term: token.text, valence, negated: false });
+        continue;
+      }
+
+      const phrase = this.matchPhrase(tokens, i);
+      if (phrase) {
+        let valence = phrase.valence;
+        const magnitude = (boostLeft > 0 ? boost : 0) + (!shouting && !ACRONYMS.has(phrase.term) && this.isCaps(tokens, i, phrase.length) ? CAPS_INCREMENT : 0);
+        valence += Math.sign(valence) * magnitude;
+        const negated = negationLeft > 0;
+        if (negated) valence *= NEGATION_SCALAR;
+        matches.push({ term: phrase.term, valence, negated });
+
+        negationLeft = Math.max(0, negationLeft - phrase.length);
+        boostLeft = 0;
+        i += phrase.length - 1;
+        continue;
+      }
+
+      const booster = this.matchBooster(tokens, i);
+      if (booster) {
+        boost = boostLeft > 0 ? boost + booster.value : booster.value;
+        boostLeft = BOOSTER_REACH + 1;
+        i += booster.length - 1;
+        continue;
+      }
+
+      if (token.kind === 'word' && (NEGATIONS.has(token.text) || /n['’]t$/i.test(token.raw))) {
+        negationLeft = NEGATION_SCOPE;
+        continue;
+      }
+
+      if (token.text === 'but' || token.text === 'however') {
+        butIndex = matches.length;
+        negationLeft = 0;
+        continue;
+      }
+
+      negationLeft = Math.max(0, negationLeft - 1);
+      boostLeft = Math.max(0, boostLeft - 1);
+    }
+
+    if (butIndex >= 0) {
+      matches.forEach((match, index) => {
+        match.valence *= index < butIndex ? BUT_BEFORE_SCALAR : BUT_AFTER_SCALAR;
+      });
+    }
+
+    let sum = matches.reduce((total, match) => total + match.valence, 0);
+    if (sum !== 0) {
+      sum += Math.sign(sum) * Math.min(exclamations, MAX_EXCLAMATIONS) * EXCLAMATION_INCREMENT;
+    }
+
+    return {
+      score: sum === 0 ? 0 : sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA),
+      confidence: this.confidence(matches),
+      matches,
+      symbols: Array.from(symbols),
+      tokens: tokens.filter(token => token.kind !== 'punctuation').length
+    };
+  }
+
+  /**
+   * Confidence-weighted mean of several texts, e.g. all headlines for a
+   * symbol. Texts without any sentiment terms carry no weight.
+   */
+  aggregate(scores: Pick<SentimentScore, 'score' | 'confidence'>[]): { score: number; confidence: number } {
+    const weight = scores.reduce((sum, entry) => sum + entry.confidence, 0);
+    if (weight === 0) return { score: 0, confidence: 0 };
+
+    return {
+      score: scores.reduce((sum, entry) => sum + entry.score * entry.confidence, 0) / weight,
+      confidence: weight / scores.length
+    };
+  }
+
+  /*
+   * Grows with the number of matched terms and shrinks when they disagree,
+   * so "bullish but risky" is less certain than "bullish breakout".
+   */
+  private confidence(matches: SentimentTermMatch[]): number {
+    if (matches.length === 0) return 0;
+
+    const positive = matches.reduce((sum, match) => sum + Math.max(0, match.valence), 0);
+    const negative = matches.reduce((sum, match) => sum + Math.max(0, -match.valence), 0);
+    const agreement = Math.abs(positive - negative) / (positive + negative || 1);
+    const coverage = 1 - Math.exp(-matches.length / 2);
+    return agreement * coverage;
+  }
+
+  private matchPhrase(tokens: SentimentToken[], start: number): { term: string; valence: number; length: number } | null {
+    for (let length = Math.min(this.maxPhraseLength, tokens.length - start); length >= 1; length--) {
+      const words = this.wordsAt(tokens, start, length);
+      if (!words) continue;
+      const term = words.join(' ');
+      const valence = this.lexicon.get(term);
+      if (valence !== undefined) return { term, valence, length };
+    }
+    return null;
+  }
+
+  private matchBooster(tokens: SentimentToken[], start: number): { value: number; length: number } | null {
+    for (let length = 2; length >= 1; length--) {
+      const words = this.wordsAt(tokens, start, length);
+      const value = words ? BOOSTERS[words.join(' ')] : undefined;
+      if (value !== undefined) return { value, length };
+    }
+    return null;
+  }
+
+  private wordsAt(tokens: SentimentToken[], start: number, length: number): string[] | null {
+    const slice = tokens.slice(start, start + length);
+    if (slice.length < length) return null;
+    if (slice.some(token => token.kind !== 'word' && token.kind !== 'hashtag')) return null;
+    return slice.map(token => token.text);
+  }
+
+  private isCaps(tokens: SentimentToken[], start: number, length: number): boolean {
+    return tokens.slice(start, start + length).every(token =>
+      /\p{L}{2,}/u.test(token.raw) && token.raw === token.raw.toUpperCase()
+    );
+  }
+
+  private normalizeTerm(term: string): string {
+    return term.toLowerCase().replace(/['’]/g, '').trim().split(/\s+/).join(' ');
+  }
+}
@@ -0,0 +1,405 @@
+import { Candle, MarketData, OrderBook } from '../types/trading';
+import { getFileAccess, joinPath } from './fileAccess';
+import type { MarketConditions } from './predictionEngine';
+
+export interface MarketDataProvider {
+  getCandles(symbol: string, limit?: number): Promise<Candle[]>;
+  getOrderBook(symbol: string): Promise<OrderBook>;
+  getMarketCap(symbol: string): Promise<number>;
+}
+
+export interface FileMarketDataOptions {
+  directory: string;
+  format?: 'csv' | 'json';
+  marketCaps?: Record<string, number>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export function parseCandlesCSV(content: string): Candle[] {
+  const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length === 0) return [];
+
+  const header = lines[0].toLowerCase().split(',').map(column => column.trim());
+  const column = (name: string, fallback: number) => {
+    const index = header.indexOf(name);
+    return index >= 0 ? index : fallback;
+  };
+  const hasHeader = header.includes('close');
+  const columns = {
+    timestamp: column('timestamp', 0),
+    open: column('open', 1),
+    high: column('high', 2),
+    low: column('low', 3),
+    close: column('close', 4),
+    volume: column('volume', 5)
+  };
+
+  return lines.slice(hasHeader ? 1 : 0).map(line => {
+    const values = line.split(',').map(value => value.trim());
+    return {
+      timestamp: parseTimestamp(values[columns.timestamp]),
+      open: Number(values[columns.open]),
+      high: Number(values[columns.high]),
+      low: Number(values[columns.low]),
+      close: Number(values[columns.close]),
+      volume: Number(values[columns.volume] || 0)
+    };
+  });
+}
+
+export function parseCandlesJSON(content: string): Candle[] {
+  const raw = JSON.parse(content);
+  const rows: any[] = Array.isArray(raw) ? raw : raw.candles || [];
+
+  return rows.map(row => {
+    // Accept both [timestamp, open, high, low, close, volume] tuples and objects
+    if (Array.isArray(row)) {
+      return {
+        timestamp: parseTimestamp(row[0]),
+        open: Number(row[1]),
+        high: Number(row[2]),
+        low: Number(row[3]),
+        close: Number(row[4]),
+        volume: Number(row[5] || 0)
+      };
+    }
+    return {
+      timestamp: parseTimestamp(row.timestamp ?? row.time ?? row.date),
+      open: Number(row.open),
+      high: Number(row.high),
+      low: Number(row.low),
+      close: Number(row.close),
+      volume: Number(row.volume || 0)
+    };
+  });
+}
+
+/**
+ * Aggregates candles into `interval` ms buckets aligned to the epoch (so 4h
+ * bars start at 00:00, 04:00, ... UTC). The last bucket may still be forming.
+ */
+export function resampleCandles(candles: Candle[], interval: number): Candle[] {
+  const resampled: Candle[] = [];
+  let bucketStart = NaN;
+
+  for (const candle of candles) {
+    const start = Math.floor(candle.timestamp.getTime() / interval) * interval;
+    const current = resampled[resampled.length - 1];
+
+    if (start !== bucketStart) {
+      bucketStart = start;
+      resampled.push({ ...candle, timestamp: new Date(start) });
+    } else {
+      current.high = Math.max(current.high, candle.high);
+      current.low = Math.min(current.low, candle.low);
+      current.close = candle.close;
+      current.volume += candle.volume;
+    }
+  }
+
+  return resampled;
+}
+
+/**
+ * Typical spacing between candles (median gap), defaulting to one hour.
+ */
+export function inferCandleInterval(candles: Candle[]): number {
+  const gaps = candles
+    .slice(1)
+    .map((candle, i) => candle.timestamp.getTime() - candles[i].timestamp.getTime())
+    .filter(gap => gap > 0)
+    .sort((a, b) => a - b);
+
+  return gaps.length ? gaps[Math.floor(gaps.length / 2)] : HOUR_MS;
+}
+
+function parseTimestamp(value: string | number | undefined): Date {
+  if (value === undefined) return new Date(NaN);
+  const numeric = Number(value);
+  return isNaN(numeric) ? new Date(value) : new Date(numeric);
+}
+
+function isValidCandle(candle: Candle): boolean {
+  return !isNaN(candle.timestamp.getTime()) &&
+    [candle.open, candle.high, candle.low, candle.close].every(value => isFinite(value));
+}
+
+/**
+ * Reads OHLCV candles from `<directory>/<SYMBOL>.csv` or `<SYMBOL>.json` and an
+ * optional order book snapshot from `<directory>/<SYMBOL>.orderbook.json`.
+ * Needs file access, so Node only (see configureNodeServices).
+ */
+export class FileMarketDataProvider implements MarketDataProvider {
+  private candleCache = new Map<string, Candle[]>();
+
+  constructor(private options: FileMarketDataOptions) {}
+
+  async getCandles(symbol: string, limit?: number): Promise<Candle[]> {
+    let candles = this.candleCache.get(symbol);
+
+    if (!candles) {
+      candles = await this.loadCandles(symbol);
+      this.candleCache.set(symbol, candles);
+    }
+
+    return limit ? candles.slice(-limit) : [...candles];
+  }
+
+  async getOrderBook(symbol: string): Promise<OrderBook> {
+    const file = joinPath(this.options.directory, `${symbol}.orderbook.json`);
+
+    try {
+      const content = await getFileAccess().readText(file);
+      const book = JSON.parse(content);
+      return {
+        bids: (book.bids || []).map(([price, amount]: [number, number]) => [Number(price), Number(amount)]),
+        asks: (book.asks || []).map(([price, amount]: [number, number]) => [Number(price), Number(amount)])
+      };
+    } catch (error) {
+      // No snapshot on disk means no depth information, not an error
+      return { bids: [], asks: [] };
+    }
+  }
+
+  async getMarketCap(symbol: string): Promise<number> {
+    return this.options.marketCaps?.[symbol] || 0;
+  }
+
+  clearCache(): void {
+    this.candleCache.clear();
+  }
+
+  private async loadCandles(symbol: string): Promise<Candle[]> {
+    const formats = this.options.format ? [this.options.format] : ['csv', 'json'] as const;
+
+    for (const format of formats) {
+      const file = joinPath(this.options.directory, `${symbol}.${format}`);
+      let content: string;
+
+      try {
+        content = await getFileAccess().readText(file);
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') continue;
+        throw error;
+      }
+
+      const candles = format === 'csv' ? parseCandlesCSV(content) : parseCandlesJSON(content);
+      return candles
+        .filter(isValidCandle)
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+
+    throw new Error(`No market data file found for ${symbol} in ${this.options.directory}`);
+  }
+}
+
+/**
+ * Serves pre-loaded candles one bar at a time. The cursor only exposes candles
+ * up to the current replay position, so consumers never see future data.
+ */
+export class ReplayMarketDataProvider implements MarketDataProvider {
+  private series = new Map<string, Candle[]>();
+  private orderBooks = new Map<string, OrderBook>();
+  private marketCaps: Record<string, number>;
+  private cursor = new Map<string, number>();
+
+  constructor(
+    series: Record<string, Candle[]> = {},
+    orderBooks: Record<string, OrderBook> = {},
+    marketCaps: Record<string, number> = {}
+  ) {
+    Object.entries(series).forEach(([symbol, candles]) => this.load(symbol, candles));
+    Object.entries(orderBooks).forEach(([symbol, book]) => this.orderBooks.set(symbol, book));
+    this.marketCaps = marketCaps;
+  }
+
+  load(symbol: string, candles: Candle[], startIndex: number = candles.length - 1): void {
+    const sorted = [...candles].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    this.series.set(symbol, sorted);
+    this.cursor.set(symbol, Math.min(startIndex, sorted.length - 1));
+  }
+
+  setOrderBook(symbol: string, orderBook: OrderBook): void {
+    this.orderBooks.set(symbol, orderBook);
+  }
+
+  /**
+   * Moves the replay forward by `steps` candles. Returns false once the series is exhausted.
+   */
+  advance(symbol: string, steps: number = 1): boolean {
+    const candles = this.series.get(symbol);
+    const position = this.cursor.get(symbol);
+    if (!candles || position === undefined) return false;
+
+    const next = position + steps;
+    if (next >= candles.length) return false;
+
+    this.cursor.set(symbol, next);
+    return true;
+  }
+
+  seek(symbol: string, timestamp: Date): void {
+    const candles = this.series.get(symbol) || [];
+    let index = -1;
+
+    for (let i = 0; i < candles.length; i++) {
+      if (candles[i].timestamp.getTime() > timestamp.getTime()) break;
+      index = i;
+    }
+
+    this.cursor.set(symbol, index);
+  }
+
+  getCurrentTime(symbol: string): Date | null {
+    const candles = this.series.get(symbol);
+    const position = this.cursor.get(symbol);
+    if (!candles || position === undefined || position < 0) return null;
+    return candles[position].timestamp;
+  }
+
+  async getCandles(symbol: string, limit?: number): Promise<Candle[]> {
+    const candles = this.series.get(symbol);
+    const position = this.cursor.get(symbol);
+
+    if (!candles || position === undefined) {
+      throw new Error(`No replay data loaded for ${symbol}`);
+    }
+
+    const visible = candles.slice(0, position + 1);
+    return limit ? visible.slice(-limit) : visible;
+  }
+
+  async getOrderBook(symbol: string): Promise<OrderBook> {
+    return this.orderBooks.get(symbol) || { bids: [], asks: [] };
+  }
+
+  async getMarketCap(symbol: string): Promise<number> {
+    return this.marketCaps[symbol] || 0;
+  }
+}
+
+export class MarketDataService {
+  private static instance: MarketDataService;
+  private provider: MarketDataProvider | null = null;
+  private readonly HISTORY_LENGTH = 200;
+  private readonly TREND_THRESHOLD = 0.01; // 1% SMA spread before calling a trend
+
+  static getInstance(): MarketDataService {
+    if (!MarketDataService.instance) {
+      MarketDataService.instance = new MarketDataService();
+    }
+    return MarketDataService.instance;
+  }
+
+  setProvider(provider: MarketDataProvider): void {
+    this.provider = provider;
+  }
+
+  hasProvider(): boolean {
+    return this.provider !== null;
+  }
+
+  /**
+   * There is no built-in data source: callers must install a provider (file,
+   * replay or exchange backed) with setProvider before requesting data.
+   */
+  getProvider(): MarketDataProvider {
+    if (!this.provider) {
+      throw new Error('No market data provider configured; call MarketDataService.setProvider() first');
+    }
+    return this.provider;
+  }
+
+  async getMarketData(symbol: string): Promise<MarketData> {
+    const provider = this.getProvider();
+    const [candles, orderBook, marketCap] = await Promise.all([
+      provider.getCandles(symbol, this.HISTORY_LENGTH),
+      provider.getOrderBook(symbol),
+      provider.getMarketCap(symbol)
+    ]);
+
+    if (candles.length === 0) {
+      throw new Error(`No candles available for ${symbol}`);
+    }
+
+    return this.buildMarketData(symbol, candles, orderBook, marketCap);
+  }
+
+  buildMarketData(symbol: string, candles: Candle[], orderBook: OrderBook, marketCap: number = 0): MarketData {
+    const last = candles[candles.length - 1];
+    const dayAgo = this.findCandleAtOrBefore(candles, last.timestamp.getTime() - DAY_MS) || candles[0];
+
+    return {
+      symbol,
+      price: last.close,
+      volume24h: this.calculateVolume24h(candles),
+      marketCap,
+      priceChange24h: dayAgo.close ? ((last.close - dayAgo.close) / dayAgo.close) * 100 : 0,
+      priceHistory: candles.map(candle => ({
+        timestamp: candle.timestamp,
+        price: candle.close,
+        volume: candle.volume
+      })),
+      candles,
+      orderBook
+    };
+  }
+
+  deriveMarketConditions(marketData: MarketData): MarketConditions {
+    const closes = marketData.candles.map(candle => candle.close);
+
+    return {
+      trend: this.determineTrend(closes),
+      volatility: this.calculateVolatility(closes),
+      volume: marketData.volume24h,
+      marketCap: marketData.marketCap
+    };
+  }
+
+  private determineTrend(closes: number[]): MarketConditions['trend'] {
+    if (closes.length < 50) return 'SIDEWAYS';
+
+    const sma20 = closes.slice(-20).reduce((sum, price) => sum + price, 0) / 20;
+    const sma50 = closes.slice(-50).reduce((sum, price) => sum + price, 0) / 50;
+    const spread = (sma20 - sma50) / sma50;
+
+    if (spread > this.TREND_THRESHOLD) return 'BULLISH';
+    if (spread < -this.TREND_THRESHOLD) return 'BEARISH';
+    return 'SIDEWAYS';
+  }
+
+  /**
+   * Realized volatility of close-to-close returns over the last 24 candles,
+   * scaled to the window and clamped to the 0-1 range the engine expects.
+   */
+  private calculateVolatility(closes: number[], window: number = 24): number {
+    const recent = closes.slice(-(window + 1));
+    if (recent.length < 2) return 0;
+
+    const returns: number[] = [];
+    for (let i = 1; i < recent.length; i++) {
+      returns.push(recent[i] / recent[i - 1] - 1);
+    }
+
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / returns.length;
+
+    return Math.max(0, Math.min(1, Math.sqrt(variance) * Math.sqrt(returns.length)));
+  }
+
+  private calculateVolume24h(candles: Candle[]): number {
+    const cutoff = candles[candles.length - 1].timestamp.getTime() - DAY_MS;
+    return candles
+      .filter(candle => candle.timestamp.getTime() > cutoff)
+      .reduce((sum, candle) => sum + candle.volume, 0);
+  }
+
+  private findCandleAtOrBefore(candles: Candle[], time: number): Candle | undefined {
+    for (let i = candles.length - 1; i >= 0; i--) {
+      if (candles[i].timestamp.getTime() <= time) return candles[i];
+    }
+    return undefined;
+  }
+}
\ No newline at end of file
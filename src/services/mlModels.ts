@@ -0,0 +1,415 @@
+export type ModelType = 'LOGISTIC_REGRESSION' | 'GRADIENT_BOOSTING' | 'MLP';
+
+/**
+ * Binary classifier over standardized feature vectors. predictProbability
+ * returns P(label = 1), i.e. the probability of an up move.
+ */
+export interface Classifier {
+  readonly type: ModelType;
+  fit(features: number[][], labels: number[]): void;
+  predictProbability(row: number[]): number;
+  toJSON(): SerializedModel;
+}
+
+export interface LogisticRegressionOptions {
+  learningRate: number;
+  epochs: number;
+  l2: number;
+}
+
+export interface GradientBoostingOptions {
+  trees: number;
+  maxDepth: number;
+  learningRate: number;
+  minSamplesLeaf: number;
+  subsample: number;
+  maxThresholds: number; // candidate split points per feature, taken at quantiles
+  seed: number;
+}
+
+export interface MLPOptions {
+  hiddenUnits: number;
+  learningRate: number;
+  epochs: number;
+  batchSize: number;
+  l2: number;
+  seed: number;
+}
+
+export type SerializedModel =
+  | { type: 'LOGISTIC_REGRESSION'; options: LogisticRegressionOptions; weights: number[]; bias: number }
+  | { type: 'GRADIENT_BOOSTING'; options: GradientBoostingOptions; baseScore: number; trees: TreeNode[] }
+  | { type: 'MLP'; options: MLPOptions; hiddenWeights: number[][]; hiddenBias: number[]; outputWeights: number[]; outputBias: number };
+
+export type TreeNode =
+  | { leaf: true; value: number }
+  | { leaf: false; feature: number; threshold: number; left: TreeNode; right: TreeNode };
+
+function sigmoid(value: number): number {
+  if (value >= 0) return 1 / (1 + Math.exp(-value));
+  const exp = Math.exp(value);
+  return exp / (1 + exp);
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so training runs are reproducible.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export class LogisticRegression implements Classifier {
+  readonly type = 'LOGISTIC_REGRESSION';
+  private options: LogisticRegressionOptions;
+  private weights: number[] = [];
+  private bias = 0;
+
+  constructor(options: Partial<LogisticRegressionOptions> = {}) {
+    this.options = { learningRate: 0.1, epochs: 300, l2: 0.001, ...options };
+  }
+
+  /**
+   * Full-batch gradient descent on the L2-regularized log loss.
+   */
+  fit(features: number[][], labels: number[]): void {
+    const width = features[0]?.length || 0;
+    const n = features.length;
+    this.weights = new Array<number>(width).fill(0);
+    this.bias = 0;
+    if (n === 0) return;
+
+    for (let epoch = 0; epoch < this.options.epochs; epoch++) {
+      const gradient = new Array<number>(width).fill(0);
+      let biasGradient = 0;
+
+      for (let i = 0; i < n; i++) {
+        const error = this.predictProbability(features[i]) - labels[i];
+        for (let j = 0; j < width; j++) gradient[j] += error * features[i][j];
+        biasGradient += error;
+      }
+
+      for (let j = 0; j < width; j++) {
+        this.weights[j] -= this.options.learningRate * (gradient[j] / n + this.options.l2 * this.weights[j]);
+      }
+      this.bias -= this.options.learningRate * (biasGradient / n);
+    }
+  }
+
+  predictProbability(row: number[]): number {
+    let score = this.bias;
+    for (let j = 0; j < this.weights.length; j++) score += this.weights[j] * row[j];
+    return sigmoid(score);
+  }
+
+  getWeights(): number[] {
+    return [...this.weights];
+  }
+
+  toJSON(): SerializedModel {
+    return { type: this.type, options: this.options, weights: this.weights, bias: this.bias };
+  }
+
+  static fromJSON(data: Extract<SerializedModel, { type: 'LOGISTIC_REGRESSION' }>): LogisticRegression {
+    const model = new LogisticRegression(data.options);
+    model.weights = [...data.weights];
+    model.bias = data.bias;
+    return model;
+  }
+}
+
+/**
+ * Gradient-boosted regression trees on the log loss. Each tree fits the
+ * negative gradient (label - probability) and its leaves take a Newton step,
+ * scaled by the learning rate.
+ */
+export class GradientBoostedTrees implements Classifier {
+  readonly type = 'GRADIENT_BOOSTING';
+  private options: GradientBoostingOptions;
+  private baseScore = 0;
+  private trees: TreeNode[] = [];
+
+  constructor(options: Partial<GradientBoostingOptions> = {}) {
+    this.options = {
+      trees: 60,
+      maxDepth: 3,
+      learningRate: 0.1,
+      minSamplesLeaf: 20,
+      subsample: 0.8,
+      maxThresholds: 16,
+      seed: 42,
+      ...options
+    };
+  }
+
+  fit(features: number[][], labels: number[]): void {
+    const n = features.length;
+    this.trees = [];
+    if (n === 0) return;
+
+    const positives = labels.reduce((sum, label) => sum + label, 0);
+    const prior = Math.min(Math.max(positives / n, 1e-6), 1 - 1e-6);
+    this.baseScore = Math.log(prior / (1 - prior));
+
+    const random = createRandom(this.options.seed);
+    const thresholds = this.candidateThresholds(features);
+    const scores = new Array<number>(n).fill(this.baseScore);
+
+    for (let t = 0; t < this.options.trees; t++) {
+      const probabilities = scores.map(sigmoid);
+      const gradients = labels.map((label, i) => label - probabilities[i]);
+      const hessians = probabilities.map(p => Math.max(p * (1 - p), 1e-6));
+      const sample = shuffle(features.map((_, i) => i), random)
+        .slice(0, Math.max(1, Math.round(n * this.options.subsample)));
+
+      const tree = this.buildTree(features, gradients, hessians, sample, thresholds, 0);
+      this.trees.push(tree);
+
+      for (let i = 0; i < n; i++) {
+        scores[i] += this.evaluate(tree, features[i]);
+      }
+    }
+  }
+
+  predictProbability(row: number[]): number {
+    return sigmoid(this.trees.reduce((score, tree) => score + this.evaluate(tree, row), this.baseScore));
+  }
+
+  toJSON(): SerializedModel {
+    return { type: this.type, options: this.options, baseScore: this.baseScore, trees: this.trees };
+  }
+
+  static fromJSON(data: Extract<SerializedModel, { type: 'GRADIENT_BOOSTING' }>): GradientBoostedTrees {
+    const model = new GradientBoostedTrees(data.options);
+    model.baseScore = data.baseScore;
+    model.trees = data.trees;
+    return model;
+  }
+
+  private candidateThresholds(features: number[][]): number[][] {
+    const width = features[0]?.length || 0;
+    const thresholds: number[][] = [];
+
+    for (let j = 0; j < width; j++) {
+      const values = features.map(row => row[j]).sort((a, b) => a - b);
+      const candidates = new Set<number>();
+      for (let q = 1; q < this.options.maxThresholds; q++) {
+        candidates.add(values[Math.floor((q / this.options.maxThresholds) * (values.length - 1))]);
+      }
+      thresholds.push(Array.from(candidates));
+    }
+
+    return thresholds;
+  }
+
+  private buildTree(
+    features: number[][],
+    gradients: number[],
+    hessians: number[],
+    indices: number[],
+    thresholds: number[][],
+    depth: number
+  ): TreeNode {
+    const gradientSum = indices.reduce((sum, i) => sum + gradients[i], 0);
+    const hessianSum = indices.reduce((sum, i) => sum + hessians[i], 0);
+    const leaf: TreeNode = { leaf: true, value: this.options.learningRate * (gradientSum / hessianSum) };
+
+    if (depth >= this.options.maxDepth || indices.length < this.options.minSamplesLeaf * 2) {
+      return leaf;
+    }
+
+    // Split gain in the XGBoost form (G_L^2/H_L + G_R^2/H_R - G^2/H), without regularization
+    const parentScore = (gradientSum * gradientSum) / hessianSum;
+    let best: { feature: number; threshold: number; gain: number } | null = null;
+
+    for (let feature = 0; feature < thresholds.length; feature++) {
+      for (const threshold of thresholds[feature]) {
+        let leftGradient = 0;
+        let leftHessian = 0;
+        let leftCount = 0;
+
+        for (const i of indices) {
+          if (features[i][feature] <= threshold) {
+            leftGradient += gradients[i];
+            leftHessian += hessians[i];
+            leftCount++;
+          }
+        }
+
+        const rightCount = indices.length - leftCount;
+        if (leftCount < this.options.minSamplesLeaf || rightCount < this.options.minSamplesLeaf) continue;
+
+        const rightGradient = gradientSum - leftGradient;
+        const rightHessian = hessianSum - leftHessian;
+        const gain = (leftGradient * leftGradient) / leftHessian +
+          (rightGradient * rightGradient) / rightHessian - parentScore;
+
+        if (!best || gain > best.gain) best = { feature, threshold, gain };
+      }
+    }
+
+    if (!best || best.gain <= 1e-12) return leaf;
+
+    const { feature, threshold } = best;
+    const left = indices.filter(i => features[i][feature] <= threshold);
+    const right = indices.filter(i => features[i][feature] > threshold);
+
+    return {
+      leaf: false,
+      feature,
+      threshold,
+      left: this.buildTree(features, gradients, hessians, left, thresholds, depth + 1),
+      right: this.buildTree(features, gradients, hessians, right, thresholds, depth + 1)
+    };
+  }
+
+  private evaluate(node: TreeNode, row: number[]): number {
+    while (!node.leaf) {
+      node = row[node.feature] <= node.threshold ? node.left : node.right;
+    }
+    return node.value;
+  }
+}
+
+/**
+ * One hidden tanh layer and a sigmoid output, trained with mini-batch SGD on
+ * the log loss.
+ */
+export class MLPClassifier implements Classifier {
+  readonly type = 'MLP';
+  private options: MLPOptions;
+  private hiddenWeights: number[][] = [];
+  private hiddenBias: number[] = [];
+  private outputWeights: number[] = [];
+  private outputBias = 0;
+
+  constructor(options: Partial<MLPOptions> = {}) {
+    this.options = { hiddenUnits: 16, learningRate: 0.05, epochs: 100, batchSize: 32, l2: 0.0001, seed: 42, ...options };
+  }
+
+  fit(features: number[][], labels: number[]): void {
+    const width = features[0]?.length || 0;
+    const hidden = this.options.hiddenUnits;
+    const random = createRandom(this.options.seed);
+    const scale = Math.sqrt(1 / Math.max(width, 1)); // Xavier-style initialization
+
+    this.hiddenWeights = Array.from({ length: hidden }, () =>
+      Array.from({ length: width }, () => (random() * 2 - 1) * scale)
+    );
+    this.hiddenBias = new Array<number>(hidden).fill(0);
+    this.outputWeights = Array.from({ length: hidden }, () => (random() * 2 - 1) * Math.sqrt(1 / hidden));
+    this.outputBias = 0;
+
+    const order = features.map((_, i) => i);
+    for (let epoch = 0; epoch < this.options.epochs; epoch++) {
+      const shuffled = shuffle(order, random);
+      for (let start = 0; start < shuffled.length; start += this.options.batchSize) {
+        this.trainBatch(features, labels, shuffled.slice(start, start + this.options.batchSize));
+      }
+    }
+  }
+
+  predictProbability(row: number[]): number {
+    return this.forward(row).output;
+  }
+
+  toJSON(): SerializedModel {
+    return {
+      type: this.type,
+      options: this.options,
+      hiddenWeights: this.hiddenWeights,
+      hiddenBias: this.hiddenBias,
+      outputWeights: this.outputWeights,
+      outputBias: this.outputBias
+    };
+  }
+
+  static fromJSON(data: Extract<SerializedModel, { type: 'MLP' }>): MLPClassifier {
+    const model = new MLPClassifier(data.options);
+    model.hiddenWeights = data.hiddenWeights.map(row => [...row]);
+    model.hiddenBias = [...data.hiddenBias];
+    model.outputWeights = [...data.outputWeights];
+    model.outputBias = data.outputBias;
+    return model;
+  }
+
+  private forward(row: number[]): { activations: number[]; output: number } {
+    const activations = this.hiddenWeights.map((weights, h) => {
+      let sum = this.hiddenBias[h];
+      for (let j = 0; j < weights.length; j++) sum += weights[j] * row[j];
+      return Math.tanh(sum);
+    });
+
+    let output = this.outputBias;
+    for (let h = 0; h < activations.length; h++) output += this.outputWeights[h] * activations[h];
+
+    return { activations, output: sigmoid(output) };
+  }
+
+  private trainBatch(features: number[][], labels: number[], batch: number[]): void {
+    const hidden = this.options.hiddenUnits;
+    const width = features[0].length;
+    const hiddenGradient = Array.from({ length: hidden }, () => new Array<number>(width).fill(0));
+    const hiddenBiasGradient = new Array<number>(hidden).fill(0);
+    const outputGradient = new Array<number>(hidden).fill(0);
+    let outputBiasGradient = 0;
+
+    for (const i of batch) {
+      const { activations, output } = this.forward(features[i]);
+      const outputError = output - labels[i];
+
+      outputBiasGradient += outputError;
+      for (let h = 0; h < hidden; h++) {
+        outputGradient[h] += outputError * activations[h];
+        const hiddenError = outputError * this.outputWeights[h] * (1 - activations[h] * activations[h]);
+        hiddenBiasGradient[h] += hiddenError;
+        for (let j = 0; j < width; j++) hiddenGradient[h][j] += hiddenError * features[i][j];
+      }
+    }
+
+    const rate = this.options.learningRate / batch.length;
+    const decay = this.options.learningRate * this.options.l2;
+
+    for (let h = 0; h < hidden; h++) {
+      this.outputWeights[h] -= rate * outputGradient[h] + decay * this.outputWeights[h];
+      this.hiddenBias[h] -= rate * hiddenBiasGradient[h];
+      for (let j = 0; j < width; j++) {
+        this.hiddenWeights[h][j] -= rate * hiddenGradient[h][j] + decay * this.hiddenWeights[h][j];
+      }
+    }
+    this.outputBias -= rate * outputBiasGradient;
+  }
+}
+
+export function createClassifier(type: ModelType, options: Record<string, number> = {}): Classifier {
+  switch (type) {
+    case 'LOGISTIC_REGRESSION': return new LogisticRegression(options);
+    case 'GRADIENT_BOOSTING': return new GradientBoostedTrees(options);
+    case 'MLP': return new MLPClassifier(options);
+    default: throw new Error(`Unknown model type: ${type}`);
+  }
+}
+
+export function deserializeClassifier(data: SerializedModel): Classifier {
+  switch (data.type) {
+    case 'LOGISTIC_REGRESSION': return LogisticRegression.fromJSON(data);
+    case 'GRADIENT_BOOSTING': return GradientBoostedTrees.fromJSON(data);
+    case 'MLP': return MLPClassifier.fromJSON(data);
+    default: throw new Error(`Unknown model type: ${(data as SerializedModel).type}`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,216 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { OrderBook } from '../types/trading';
+import { ExchangeCredentials, PublicTrade } from './exchangeConnector';
+import { OrderEvent, PaperExchange } from './paperExchange';
+import { signRequest } from './restExchangeConnector';
+
+export interface MockExchangeServerOptions {
+  port?: number; // 0 picks a free port
+  credentials: ExchangeCredentials;
+  exchange?: PaperExchange;
+  maxClockSkew?: number;
+}
+
+interface ClientState {
+  authenticated: boolean;
+  tradeSymbols: Set<string>;
+  orders: boolean;
+}
+
+/**
+ * Offline stand-in for a live venue. Speaks the same REST + WebSocket protocol
+ * as RestExchangeConnector and matches orders with a PaperExchange, so the
+ * live code path can be exercised without network access. Order books are
+ * seeded through `PUT /orderbook/:symbol` or setOrderBook().
+ */
+export class MockExchangeServer {
+  private exchange: PaperExchange;
+  private server: http.Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private clients = new Map<WebSocket, ClientState>();
+  private unsubscribe: (() => void) | null = null;
+  private tradeSequence = 0;
+
+  constructor(private options: MockExchangeServerOptions) {
+    this.exchange = options.exchange || new PaperExchange();
+  }
+
+  async start(): Promise<{ restUrl: string; wsUrl: string }> {
+    this.server = http.createServer((req, res) => this.handleRequest(req, res));
+    this.wss = new WebSocketServer({ server: this.server });
+    this.wss.on('connection', socket => this.handleConnection(socket));
+    this.unsubscribe = this.exchange.onOrderUpdate(event => this.broadcastOrderEvent(event));
+
+    await new Promise<void>(resolve => this.server!.listen(this.options.port ?? 0, resolve));
+    const { port } = this.server.address() as AddressInfo;
+
+    return { restUrl: `http://127.0.0.1:${port}`, wsUrl: `ws://127.0.0.1:${port}` };
+  }
+
+  async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.clients.forEach((_, socket) => socket.close());
+    this.clients.clear();
+
+    await new Promise<void>(resolve => (this.wss ? this.wss.close(() => resolve()) : resolve()));
+    await new Promise<void>(resolve => (this.server ? this.server.close(() => resolve()) : resolve()));
+    this.wss = null;
+    this.server = null;
+  }
+
+  setOrderBook(symbol: string, orderBook: OrderBook): void {
+    this.exchange.updateOrderBook(symbol, orderBook);
+  }
+
+  getExchange(): PaperExchange {
+    return this.exchange;
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    try {
+      const body = await this.readBody(req);
+      const method = (req.method || 'GET').toUpperCase();
+      const path = req.url || '/';
+
+      if (!this.verifySignature(req, method, path, body)) {
+        return this.respond(res, 401, { error: 'Invalid signature' });
+      }
+
+      const url = new URL(path, 'http://localhost');
+      const segments = url.pathname.split('/').filter(Boolean);
+      const payload = body ? JSON.parse(body) : {};
+
+      if (method === 'POST' && url.pathname === '/orders') {
+        return this.respond(res, 200, this.exchange.placeOrder(payload));
+      }
+      if (method === 'GET' && url.pathname === '/orders') {
+        return this.respond(res, 200, this.exchange.getOpenOrders(url.searchParams.get('symbol') || undefined));
+      }
+      if (method === 'DELETE' && segments[0] === 'orders' && segments[1]) {
+        return this.respond(res, 200, { cancelled: this.exchange.cancelOrder(decodeURIComponent(segments[1])) });
+      }
+      if (method === 'GET' && url.pathname === '/balances') {
+        return this.respond(res, 200, this.exchange.getBalances());
+      }
+      if (method === 'PUT' && segments[0] === 'orderbook' && segments[1]) {
+        this.setOrderBook(decodeURIComponent(segments[1]), payload);
+        return this.respond(res, 200, this.exchange.getOrderBook(decodeURIComponent(segments[1])));
+      }
+
+      this.respond(res, 404, { error: `No route for ${method} ${url.pathname}` });
+    } catch (error) {
+      this.respond(res, 500, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private verifySignature(req: http.IncomingMessage, method: string, path: string, body: string): boolean {
+    const apiKey = req.headers['x-api-key'];
+    const timestamp = req.headers['x-api-timestamp'];
+    const signature = req.headers['x-api-signature'];
+
+    if (typeof apiKey !== 'string' || typeof timestamp !== 'string' || typeof signature !== 'string') {
+      return false;
+    }
+
+    return apiKey === this.options.credentials.apiKey &&
+      this.isFresh(timestamp) &&
+      signature === signRequest(this.options.credentials.apiSecret, timestamp, method, path, body);
+  }
+
+  private isFresh(timestamp: string): boolean {
+    const skew = Math.abs(Date.now() - Number(timestamp));
+    return skew <= (this.options.maxClockSkew ?? 30000);
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const state: ClientState = { authenticated: false, tradeSymbols: new Set(), orders: false };
+    this.clients.set(socket, state);
+
+    socket.on('message', data => {
+      let message: any;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (error) {
+        return this.sendTo(socket, { channel: 'error', message: 'Malformed message' });
+      }
+
+      if (message.op === 'auth') {
+        state.authenticated = message.apiKey === this.options.credentials.apiKey &&
+          this.isFresh(message.timestamp) &&
+          message.signature === signRequest(this.options.credentials.apiSecret, message.timestamp, 'GET', '/ws');
+        if (!state.authenticated) this.sendTo(socket, { channel: 'error', message: 'Authentication failed' });
+        return;
+      }
+
+      if (message.op === 'subscribe' || message.op === 'unsubscribe') {
+        const subscribe = message.op === 'subscribe';
+
+        if (message.channel === 'orders') {
+          if (subscribe && !state.authenticated) {
+            return this.sendTo(socket, { channel: 'error', message: 'Order updates require authentication' });
+          }
+          state.orders = subscribe;
+        } else if (message.channel === 'trades' && message.symbol) {
+          if (subscribe) state.tradeSymbols.add(message.symbol);
+          else state.tradeSymbols.delete(message.symbol);
+        }
+      }
+    });
+
+    socket.on('close', () => this.clients.delete(socket));
+  }
+
+  private broadcastOrderEvent(event: OrderEvent): void {
+    this.clients.forEach((state, socket) => {
+      if (state.orders) {
+        this.sendTo(socket, {
+          channel: 'orders',
+          event: event.type,
+          data: event.order,
+          fill: event.fill,
+          timestamp: event.timestamp
+        });
+      }
+    });
+
+    if (!event.fill) return;
+
+    const trade: PublicTrade = {
+      id: `mock_trade_${++this.tradeSequence}`,
+      symbol: event.order.symbol,
+      side: event.order.side,
+      price: event.fill.price,
+      amount: event.fill.amount,
+      timestamp: event.fill.timestamp
+    };
+
+    this.clients.forEach((state, socket) => {
+      if (state.tradeSymbols.has(trade.symbol)) {
+        this.sendTo(socket, { channel: 'trades', data: trade });
+      }
+    });
+  }
+
+  private sendTo(socket: WebSocket, message: Record<string, unknown>): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  private respond(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
\ No newline at end of file
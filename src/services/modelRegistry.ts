@@ -0,0 +1,249 @@
+import { Candle } from '../types/trading';
+import { DatasetOptions, FeaturePipeline, Standardization } from './featurePipeline';
+import { getFileAccess, joinPath } from './fileAccess';
+import { Classifier, createClassifier, deserializeClassifier, ModelType, SerializedModel } from './mlModels';
+import type { SentimentData } from './sentimentAnalyzer';
+
+export interface TrainingOptions extends Omit<DatasetOptions, 'sentimentHistory'> {
+  sentimentHistory?: Record<string, SentimentData[]>; // per symbol; all or none of the series need one
+  modelType: ModelType;
+  modelOptions?: Record<string, number>;
+  validationSplit: number; // trailing fraction held out, in time order
+  decisionMargin: number; // distance from 0.5 a probability needs before it is a BUY/SELL
+}
+
+export interface ModelMetrics {
+  trainSamples: number;
+  validationSamples: number;
+  trainAccuracy: number;
+  validationAccuracy: number;
+  validationLogLoss: number;
+  positiveRate: number; // share of up labels, the accuracy of always predicting up
+}
+
+export interface TrainedModelInfo {
+  name: string;
+  type: ModelType;
+  symbols: string[];
+  featureNames: string[];
+  usesSentiment: boolean; // trained on sentiment history, so predictions take live sentiment
+  horizon: number;
+  threshold: number;
+  lookback: number;
+  decisionMargin: number;
+  metrics: ModelMetrics;
+  trainedAt: Date;
+}
+
+export interface StoredModel extends TrainedModelInfo {
+  standardization: Standardization;
+  model: SerializedModel;
+}
+
+export class TrainedModel {
+  constructor(
+    readonly info: TrainedModelInfo,
+    private standardization: Standardization,
+    private classifier: Classifier
+  ) {}
+
+  /**
+   * Probability that the forward return over the model's horizon beats its
+   * labeling threshold, given raw (unstandardized) features.
+   */
+  predictProbability(features: number[]): number {
+    const pipeline = FeaturePipeline.getInstance();
+    return this.classifier.predictProbability(pipeline.standardize(features, this.standardization));
+  }
+
+  toJSON(): StoredModel {
+    return { ...this.info, standardization: this.standardization, model: this.classifier.toJSON() };
+  }
+
+  static fromJSON(data: StoredModel): TrainedModel {
+    const { standardization, model, ...info } = data;
+    return new TrainedModel(
+      { ...info, usesSentiment: Boolean(info.usesSentiment), trainedAt: new Date(info.trainedAt) },
+      standardization,
+      deserializeClassifier(model)
+    );
+  }
+}
+
+/**
+ * Trains classifiers on labeled feature datasets and keeps them by name, in
+ * memory and as JSON files under the model directory.
+ */
+export class ModelRegistry {
+  private static instance: ModelRegistry;
+  private models = new Map<string, TrainedModel>();
+  private pipeline: FeaturePipeline;
+
+  constructor(private directory: string = '.trading-models') {
+    this.pipeline = FeaturePipeline.getInstance();
+  }
+
+  static getInstance(): ModelRegistry {
+    if (!ModelRegistry.instance) {
+      ModelRegistry.instance = new ModelRegistry();
+    }
+    return ModelRegistry.instance;
+  }
+
+  getDefaultTrainingOptions(modelType: ModelType = 'LOGISTIC_REGRESSION'): TrainingOptions {
+    return {
+      modelType,
+      horizon: 24, // a day ahead on hourly candles
+      threshold: 0,
+      lookback: 200,
+      warmup: 50,
+      validationSplit: 0.2,
+      decisionMargin: 0.05
+    };
+  }
+
+  /**
+   * Builds the dataset from each symbol's candles, fits feature
+   * standardization and the classifier on the earlier part of every series
+   * and reports metrics on the held-out tail. The model is registered under
+   * `name`, replacing any previous one. Sentiment features are only used
+   * when `sentimentHistory` covers every symbol; a constant neutral column
+   * would teach the model nothing.
+   */
+  train(name: string, series: Record<string, Candle[]>, options: Partial<TrainingOptions> = {}): TrainedModel {
+    const config = { ...this.getDefaultTrainingOptions(options.modelType), ...options };
+    const train = { features: [] as number[][], labels: [] as number[] };
+    const validation = { features: [] as number[][], labels: [] as number[] };
+    const histories = config.sentimentHistory || {};
+    const usesSentiment = Object.keys(series).some(symbol => histories[symbol]?.length);
+    const missing = Object.keys(series).filter(symbol => !histories[symbol]?.length);
+    if (usesSentiment && missing.length > 0) {
+      throw new Error(`Sentiment history is missing for ${missing.join(', ')}`);
+    }
+
+    Object.entries(series).forEach(([symbol, candles]) => {
+      const dataset = this.pipeline.buildDataset(symbol, candles, { ...config, sentimentHistory: histories[symbol] });
+      // Labels look `horizon` bars ahead, so drop that many samples at the
+      // boundary to keep validation labels out of the training window
+      const split = Math.floor(dataset.features.length * (1 - config.validationSplit));
+      const trainEnd = Math.max(0, split - config.horizon);
+
+      // concat rather than push(...rows): long series overflow the argument limit
+      train.features = train.features.concat(dataset.features.slice(0, trainEnd));
+      train.labels = train.labels.concat(dataset.labels.slice(0, trainEnd));
+      validation.features = validation.features.concat(dataset.features.slice(split));
+      validation.labels = validation.labels.concat(dataset.labels.slice(split));
+    });
+
+    if (train.features.length === 0) {
+      throw new Error(`Not enough candles to train model ${name}`);
+    }
+
+    const standardization = this.pipeline.fitStandardization(train.features);
+    const standardize = (rows: number[][]) => rows.map(row => this.pipeline.standardize(row, standardization));
+    const classifier = createClassifier(config.modelType, config.modelOptions);
+    classifier.fit(standardize(train.features), train.labels);
+
+    const trainScores = this.evaluate(classifier, standardize(train.features), train.labels);
+    const validationScores = this.evaluate(classifier, standardize(validation.features), validation.labels);
+
+    const model = new TrainedModel({
+      name,
+      type: config.modelType,
+      symbols: Object.keys(series),
+      featureNames: this.pipeline.getFeatureNames(usesSentiment),
+      usesSentiment,
+      horizon: config.horizon,
+      threshold: config.threshold,
+      lookback: config.lookback,
+      decisionMargin: config.decisionMargin,
+      metrics: {
+        trainSamples: train.features.length,
+        validationSamples: validation.features.length,
+        trainAccuracy: trainScores.accuracy,
+        validationAccuracy: validationScores.accuracy,
+        validationLogLoss: validationScores.logLoss,
+        positiveRate: validation.labels.length
+          ? validation.labels.reduce((sum, label) => sum + label, 0) / validation.labels.length
+          : 0
+      },
+      trainedAt: new Date()
+    }, standardization, classifier);
+
+    this.models.set(name, model);
+    return model;
+  }
+
+  register(model: TrainedModel): void {
+    this.models.set(model.info.name, model);
+  }
+
+  get(name: string): TrainedModel | undefined {
+    return this.models.get(name);
+  }
+
+  list(): TrainedModelInfo[] {
+    return Array.from(this.models.values()).map(model => model.info);
+  }
+
+  setDirectory(directory: string): void {
+    this.directory = directory;
+  }
+
+  async save(name: string): Promise<string> {
+    const model = this.models.get(name);
+    if (!model) {
+      throw new Error(`Unknown model: ${name}`);
+    }
+
+    const filePath = this.getModelPath(name);
+    await getFileAccess().writeText(filePath, JSON.stringify(model.toJSON()));
+    return filePath;
+  }
+
+  async load(name: string): Promise<TrainedModel> {
+    const content = await getFileAccess().readText(this.getModelPath(name));
+    const model = TrainedModel.fromJSON(JSON.parse(content));
+
+    if (model.info.featureNames.join() !== this.pipeline.getFeatureNames(model.info.usesSentiment).join()) {
+      throw new Error(`Model ${name} was trained on a different feature set; retrain it`);
+    }
+
+    this.models.set(name, model);
+    return model;
+  }
+
+  /**
+   * Returns the registered model, loading it from disk on first use.
+   */
+  async resolve(name: string): Promise<TrainedModel> {
+    return this.models.get(name) || this.load(name);
+  }
+
+  async listSaved(): Promise<string[]> {
+    const files = await getFileAccess().listFiles(this.directory);
+    return files.filter(file => file.endsWith('.json')).map(file => file.slice(0, -'.json'.length));
+  }
+
+  private getModelPath(name: string): string {
+    if (!/^[\w.-]+$/.test(name)) {
+      throw new Error(`Invalid model name: ${name}`);
+    }
+    return joinPath(this.directory, `${name}.json`);
+  }
+
+  private evaluate(classifier: Classifier, features: number[][], labels: number[]): { accuracy: number; logLoss: number } {
+    if (features.length === 0) return { accuracy: 0, logLoss: 0 };
+
+    let correct = 0;
+    let logLoss = 0;
+
+    features.forEach((row, i) => {
+      const probability = Math.min(Math.max(classifier.predictProbability(row), 1e-12), 1 - 1e-12);
+      if ((probability >= 0.5 ? 1 : 0) === labels[i]) correct++;
+      logLoss -= labels[i] * Math.log(probability) + (1 - labels[i]) * Math.log(1 - probability);
+    });
+
+    return { accuracy: correct / features.length, logLoss: logLoss / features.length };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,227 @@
+import { FetchedNewsArticle, NewsArticle, NewsFeed, NewsSource, NewsSourceResult } from '../types/news';
+import { createNewsSources } from './newsSources';
+
+export interface NewsRateLimit {
+  minInterval: number; // ms between requests to one source
+  maxWait: number; // longest a fetch waits for its slot before reporting rate-limited
+  baseBackoff: number; // after the first failure, doubled per consecutive failure
+  maxBackoff: number;
+}
+
+export interface NewsPipelineOptions {
+  rateLimit: NewsRateLimit;
+  duplicateThreshold: number; // word overlap (Jaccard) at which two headlines are the same story
+  defaultReputation: number;
+}
+
+/** Publisher weights, keyed by normalized name (see publisherKey). */
+export const DEFAULT_PUBLISHER_REPUTATION: Record<string, number> = {
+  reuters: 0.95,
+  bloomberg: 0.95,
+  wsj: 0.9,
+  ft: 0.9,
+  coindesk: 0.85,
+  theblock: 0.85,
+  cnbc: 0.8,
+  cointelegraph: 0.75,
+  decrypt: 0.75,
+  blockworks: 0.75,
+  forbes: 0.7,
+  bitcoinmagazine: 0.7,
+  yahoofinance: 0.65,
+  cryptoslate: 0.65,
+  cryptonews: 0.55,
+  beincrypto: 0.55,
+  coingape: 0.45,
+  newsbtc: 0.45,
+  ambcrypto: 0.45,
+  utoday: 0.45,
+  bitcoinist: 0.45
+};
+
+interface SourceState {
+  nextRequestAt: number;
+  failures: number;
+}
+
+const HEADLINE_STOPWORDS = new Set(['a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'as', 'at', 'is', 'its', 'by', 'with']);
+
+/** Lowercase name without `www.`, TLD or punctuation, e.g. "The Block" -> theblock. */
+export function publisherKey(publisher: string): string {
+  return publisher
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/\.(com|org|net|io|co|news)(\/.*)?$/, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Fetches articles for a symbol from every configured source, then drops
+ * near-identical headlines and weights what is left by publisher reputation.
+ * Each source gets a minimum request interval and exponential backoff after
+ * failures; every source's outcome is reported in the feed's results.
+ */
+export class NewsPipeline {
+  private static instance: NewsPipeline;
+  private options: NewsPipelineOptions;
+  private reputation: Record<string, number> = { ...DEFAULT_PUBLISHER_REPUTATION };
+  private states = new Map<string, SourceState>();
+
+  constructor(
+    private sources: NewsSource[] = createNewsSources(),
+    options: Partial<NewsPipelineOptions> = {},
+    private now: () => number = () => Date.now()
+  ) {
+    this.options = {
+      duplicateThreshold: 0.7,
+      defaultReputation: 0.5,
+      ...options,
+      rateLimit: { minInterval: 1000, maxWait: 5000, baseBackoff: 30 * 1000, maxBackoff: 30 * 60 * 1000, ...options.rateLimit }
+    };
+  }
+
+  static getInstance(): NewsPipeline {
+    if (!NewsPipeline.instance) {
+      NewsPipeline.instance = new NewsPipeline();
+    }
+    return NewsPipeline.instance;
+  }
+
+  getSources(): NewsSource[] {
+    return [...this.sources];
+  }
+
+  setSources(sources: NewsSource[]): void {
+    this.sources = [...sources];
+  }
+
+  addSource(source: NewsSource): void {
+    this.sources.push(source);
+  }
+
+  setReputation(reputation: Record<string, number>): void {
+    Object.entries(reputation).forEach(([publisher, weight]) => {
+      this.reputation[publisherKey(publisher)] = Math.max(0, Math.min(1, weight));
+    });
+  }
+
+  getReputation(publisher: string): number {
+    return this.reputation[publisherKey(publisher)] ?? this.options.defaultReputation;
+  }
+
+  async fetch(symbol: string): Promise<NewsFeed> {
+    const outcomes = await Promise.all(this.sources.map(source => this.fetchSource(source, symbol)));
+    const fetched = outcomes.flatMap(outcome => outcome.articles);
+
+    return {
+      symbol,
+      articles: this.deduplicate(fetched.map(article => ({
+        ...article,
+        reputation: this.getReputation(article.publisher),
+        coverage: []
+      }))),
+      results: outcomes.map(outcome => outcome.result),
+      mock: false,
+      fetchedAt: new Date(this.now())
+    };
+  }
+
+  /**
+   * Keeps one article per story: the one from the most reputable publisher,
+   * earliest first on ties. The others are listed in its `coverage`.
+   */
+  deduplicate(articles: NewsArticle[]): NewsArticle[] {
+    const ranked = [...articles].sort((a, b) =>
+      b.reputation - a.reputation || a.publishedAt.getTime() - b.publishedAt.getTime()
+    );
+    const kept: { article: NewsArticle; words: Set<string> }[] = [];
+
+    ranked.forEach(article => {
+      const words = headlineWords(article.title, article.publisher);
+      const story = kept.find(entry =>
+        (article.url && entry.article.url === article.url) ||
+        similarity(entry.words, words) >= this.options.duplicateThreshold
+      );
+
+      if (!story) {
+        kept.push({ article: { ...article, coverage: [...article.coverage] }, words });
+      } else if (article.publisher !== story.article.publisher && !story.article.coverage.includes(article.publisher)) {
+        story.article.coverage.push(article.publisher);
+      }
+    });
+
+    return kept
+      .map(entry => entry.article)
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+  }
+
+  private async fetchSource(source: NewsSource, symbol: string): Promise<{ result: NewsSourceResult; articles: FetchedNewsArticle[] }> {
+    const state = this.states.get(source.name) || { nextRequestAt: 0, failures: 0 };
+    this.states.set(source.name, state);
+
+    // Reserve the slot before waiting so concurrent fetches queue up behind it
+    const slot = Math.max(this.now(), state.nextRequestAt);
+    if (slot - this.now() > this.options.rateLimit.maxWait) {
+      return { result: { source: source.name, status: 'rate-limited', retryAt: new Date(slot) }, articles: [] };
+    }
+    state.nextRequestAt = slot + (source.minInterval ?? this.options.rateLimit.minInterval);
+    if (slot > this.now()) {
+      await new Promise(resolve => setTimeout(resolve, slot - this.now()));
+    }
+
+    try {
+      const articles = await source.fetchArticles(symbol);
+      state.failures = 0;
+      return { result: { source: source.name, status: 'ok', articles: articles.length }, articles };
+    } catch (error) {
+      state.failures++;
+      const retryAt = this.now() + this.retryDelay(error, state.failures);
+      state.nextRequestAt = Math.max(state.nextRequestAt, retryAt);
+      console.error(`Error fetching news from ${source.name}:`, error);
+      return {
+        result: { source: source.name, status: 'error', error: errorMessage(error), retryAt: new Date(retryAt) },
+        articles: []
+      };
+    }
+  }
+
+  // Honors Retry-After on HTTP 429, otherwise backs off exponentially
+  private retryDelay(error: any, failures: number): number {
+    const { baseBackoff, maxBackoff } = this.options.rateLimit;
+    const retryAfter = Number(error?.response?.headers?.['retry-after']);
+    if (error?.response?.status === 429 && Number.isFinite(retryAfter) && retryAfter > 0) {
+      return Math.min(maxBackoff, retryAfter * 1000);
+    }
+    return Math.min(maxBackoff, baseBackoff * 2 ** (failures - 1));
+  }
+}
+
+function headlineWords(title: string, publisher: string): Set<string> {
+  // Aggregators append " - Publisher" or " | Publisher" to the headline
+  const suffix = new RegExp(`\\s[-|–—]\\s*${publisher.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`, 'i');
+  return new Set(
+    title
+      .replace(suffix, '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}$%.\s]/gu, ' ')
+      .split(/\s+/)
+      .map(word => word.replace(/\.$/, ''))
+      .filter(word => word && !HEADLINE_STOPWORDS.has(word))
+  );
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function errorMessage(error: any): string {
+  const status = error?.response?.status;
+  const message = error?.response?.data?.message || error?.message || String(error);
+  return status ? `HTTP ${status}: ${message}` : message;
+}
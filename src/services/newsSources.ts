@@ -0,0 +1,148 @@
+import axios from 'axios';
+import { FetchedNewsArticle, NewsSource } from '../types/news';
+import { getFileAccess } from './fileAccess';
+import { axiosHttpClient, mentionsSymbol, parseFeedEntries, SocialHttpClient, SYMBOL_NAMES } from './socialSources';
+
+export interface NewsApiSourceOptions {
+  apiKey: string;
+  baseUrl: string;
+  pageSize: number;
+  minInterval: number;
+}
+
+export interface RssNewsSourceOptions {
+  url: string;
+  publisher?: string; // defaults to the feed's host name
+  name?: string;
+}
+
+export interface JsonDumpNewsSourceOptions {
+  filePath: string;
+  name?: string;
+}
+
+/**
+ * Normalizes NewsAPI-style article objects, as returned by `/v2/everything`
+ * or saved to a JSON dump. `source` may be `{ name }` or a plain string.
+ */
+export function parseNewsApiArticles(articles: any[], provider: string): FetchedNewsArticle[] {
+  return (articles || [])
+    .map(article => ({
+      id: article?.url || `${provider}-${article?.title}`,
+      title: String(article?.title || '').trim(),
+      description: String(article?.description || '').trim(),
+      url: article?.url || '',
+      publishedAt: new Date(article?.publishedAt),
+      publisher: (typeof article?.source === 'string' ? article.source : article?.source?.name) || provider,
+      provider
+    }))
+    .filter(article => article.title && article.title !== '[Removed]' && !Number.isNaN(article.publishedAt.getTime()));
+}
+
+export class NewsApiSource implements NewsSource {
+  readonly name = 'newsapi';
+  readonly minInterval: number;
+  private options: NewsApiSourceOptions;
+
+  constructor(options: Partial<NewsApiSourceOptions> & { apiKey: string }, private http: SocialHttpClient = newsApiClient(options.apiKey)) {
+    this.options = { baseUrl: 'https://newsapi.org/v2', pageSize: 20, minInterval: 60 * 1000, ...options };
+    this.minInterval = this.options.minInterval;
+  }
+
+  async fetchArticles(symbol: string): Promise<FetchedNewsArticle[]> {
+    const names = SYMBOL_NAMES[symbol.toUpperCase()] || [];
+    const response = await this.http(`${this.options.baseUrl}/everything`, {
+      q: `(${[symbol, ...names].join(' OR ')}) AND (crypto OR cryptocurrency)`,
+      sortBy: 'publishedAt',
+      language: 'en',
+      pageSize: this.options.pageSize
+    });
+
+    if (response?.status !== 'ok') {
+      throw new Error(`NewsAPI ${response?.code || 'error'}: ${response?.message || 'unexpected response'}`);
+    }
+    return parseNewsApiArticles(response.articles, this.name);
+  }
+}
+
+export class RssNewsSource implements NewsSource {
+  readonly name: string;
+
+  constructor(private options: RssNewsSourceOptions, private http: SocialHttpClient = axiosHttpClient) {
+    this.name = options.name || `rss:${hostName(options.url)}`;
+  }
+
+  async fetchArticles(symbol: string): Promise<FetchedNewsArticle[]> {
+    const publisher = this.options.publisher || hostName(this.options.url);
+    return parseFeedEntries(String(await this.http(this.options.url)))
+      .map(entry => ({
+        id: entry.link || entry.id || `${this.name}-${entry.title}`,
+        title: entry.title,
+        description: entry.body,
+        url: entry.link,
+        publishedAt: entry.date,
+        publisher,
+        provider: this.name
+      }))
+      .filter(article =>
+        article.title &&
+        !Number.isNaN(article.publishedAt.getTime()) &&
+        mentionsSymbol(`${article.title} ${article.description}`, symbol)
+      );
+  }
+}
+
+/**
+ * Articles saved to disk as a NewsAPI-style array or `{ articles: [...] }`,
+ * e.g. a recorded response or a dump from another collector.
+ */
+export class JsonDumpNewsSource implements NewsSource {
+  readonly name: string;
+  readonly minInterval = 0;
+
+  constructor(
+    private options: JsonDumpNewsSourceOptions,
+    private readFile: (filePath: string) => Promise<string> = filePath => getFileAccess().readText(filePath)
+  ) {
+    this.name = options.name || `json:${options.filePath}`;
+  }
+
+  async fetchArticles(symbol: string): Promise<FetchedNewsArticle[]> {
+    const data = JSON.parse(await this.readFile(this.options.filePath));
+    return parseNewsApiArticles(Array.isArray(data) ? data : data?.articles, this.name)
+      .filter(article => mentionsSymbol(`${article.title} ${article.description}`, symbol));
+  }
+}
+
+/**
+ * Sources from configuration: NEWSAPI_KEY enables NewsAPI, NEWS_RSS_FEEDS is
+ * a comma-separated list of feed urls and NEWS_JSON_DUMPS one of file paths.
+ * Under Node, configureNodeServices passes `process.env`.
+ */
+export function createNewsSources(config: Record<string, string | undefined> = {}): NewsSource[] {
+  const list = (value?: string) => (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  const sources: NewsSource[] = [];
+
+  if (config.NEWSAPI_KEY) {
+    sources.push(new NewsApiSource({ apiKey: config.NEWSAPI_KEY }));
+  }
+  list(config.NEWS_RSS_FEEDS).forEach(url => sources.push(new RssNewsSource({ url })));
+  list(config.NEWS_JSON_DUMPS).forEach(filePath => sources.push(new JsonDumpNewsSource({ filePath })));
+  return sources;
+}
+
+// The key goes in a header rather than the query string so it stays out of logged urls
+function newsApiClient(apiKey: string): SocialHttpClient {
+  return async (url, params) => {
+    const response = await axios.get(url, { params, headers: { 'X-Api-Key': apiKey }, timeout: 10000 });
+    return response.data;
+  };
+}
+
+function hostName(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch (error) {
+    return url;
+  }
+}
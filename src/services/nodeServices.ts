@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { setLiveConnectorFactory } from './exchangeConnector';
+import { FileAccess, setFileAccess } from './fileAccess';
+import { FileMarketDataProvider, FileMarketDataOptions, MarketDataService } from './marketData';
+import { NewsPipeline } from './newsPipeline';
+import { createNewsSources } from './newsSources';
+import { RestExchangeConnector } from './restExchangeConnector';
+import { DEFAULT_STATE_FILE, FileStorageBackend, StateStore } from './stateStore';
+
+export interface NodeServicesOptions {
+  stateFile: string; // trading state database, relative to the working directory
+  marketData?: FileMarketDataOptions; // installs a FileMarketDataProvider when set
+  env: Record<string, string | undefined>; // news source configuration, see createNewsSources
+}
+
+/**
+ * File access over Node's fs. Writes go to a temp file that is renamed into
+ * place, so readers never see a partial document.
+ */
+export const nodeFileAccess: FileAccess = {
+  async readText(filePath: string): Promise<string> {
+    return fs.readFile(filePath, 'utf8');
+  },
+
+  async writeText(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}.tmp`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, content, 'utf8');
+    await fs.rename(tempPath, filePath);
+  },
+
+  async listFiles(directory: string): Promise<string[]> {
+    try {
+      return await fs.readdir(directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+};
+
+/**
+ * Wires the Node-only pieces into the shared services: file access for state,
+ * models and datasets, the file-backed state store, the signed REST exchange
+ * adapter for live mode and news sources from the environment. Browser
+ * bundles never import this module, which keeps fs, path and crypto out of
+ * them.
+ */
+export async function configureNodeServices(options: Partial<NodeServicesOptions> = {}): Promise<void> {
+  const config: NodeServicesOptions = { stateFile: DEFAULT_STATE_FILE, env: process.env, ...options };
+
+  setFileAccess(nodeFileAccess);
+  setLiveConnectorFactory(exchangeConfig => new RestExchangeConnector(exchangeConfig));
+  NewsPipeline.getInstance().setSources(createNewsSources(config.env));
+
+  if (config.marketData) {
+    MarketDataService.getInstance().setProvider(new FileMarketDataProvider(config.marketData));
+  }
+
+  await StateStore.getInstance().useBackend(new FileStorageBackend(config.stateFile));
+}
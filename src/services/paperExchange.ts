@@ -0,0 +1,496 @@
+import { OrderBook, TradeExecution } from '../types/trading';
+
+export interface OrderRequest {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: TradeExecution['type'];
+  amount: number;
+  price?: number; // limit price, required for LIMIT orders
+  stopPrice?: number; // trigger price, required for STOP_LOSS orders
+}
+
+export interface OrderFill {
+  orderId: string;
+  price: number;
+  amount: number;
+  fee: number;
+  liquidity: 'MAKER' | 'TAKER';
+  timestamp: Date;
+}
+
+export interface PaperOrder extends TradeExecution {
+  stopPrice?: number;
+  triggered: boolean;
+  filledAmount: number;
+  averagePrice: number;
+  fills: OrderFill[];
+  reason?: string;
+}
+
+export type OrderEventType = 'NEW' | 'TRIGGERED' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'REJECTED';
+
+export interface OrderEvent {
+  type: OrderEventType;
+  order: PaperOrder;
+  fill?: OrderFill;
+  timestamp: Date;
+}
+
+export type OrderEventListener = (event: OrderEvent) => void;
+
+export interface Balance {
+  free: number;
+  locked: number;
+}
+
+/**
+ * What a restart needs to resume: balances, resting orders and the funds
+ * each of them still holds locked.
+ */
+export interface PaperExchangeState {
+  balances: Record<string, Balance>;
+  openOrders: PaperOrder[];
+  reservations: Record<string, number>;
+}
+
+export interface PaperExchangeConfig {
+  quoteCurrency: string;
+  initialBalances: Record<string, number>;
+  makerFeeRate: number;
+  takerFeeRate: number;
+  slippage: number; // fraction of the last price moved against market fills when the book is empty
+}
+
+const EPSILON = 1e-12;
+
+/**
+ * Local spot exchange simulator. Orders are matched against the latest order
+ * book snapshot for their symbol; liquidity taken by a fill is removed from
+ * that snapshot until the next update. Without a book, market and stop orders
+ * fill in full at the last traded price plus slippage, and limit orders fill
+ * once the last price reaches their limit. Every order state change is
+ * published to the registered listeners.
+ */
+export class PaperExchange {
+  private static instance: PaperExchange;
+  private config: PaperExchangeConfig;
+  private orderBooks = new Map<string, OrderBook>();
+  private lastPrices = new Map<string, number>();
+  private orders = new Map<string, PaperOrder>();
+  private balances = new Map<string, Balance>();
+  private reservations = new Map<string, number>(); // funds still locked per open order
+  private listeners = new Set<OrderEventListener>();
+  private sequence = 0;
+
+  constructor(config: Partial<PaperExchangeConfig> = {}) {
+    this.config = { ...this.getDefaultConfig(), ...config };
+    this.resetBalances();
+  }
+
+  static getInstance(): PaperExchange {
+    if (!PaperExchange.instance) {
+      PaperExchange.instance = new PaperExchange();
+    }
+    return PaperExchange.instance;
+  }
+
+  onOrderUpdate(listener: OrderEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  updateOrderBook(symbol: string, orderBook: OrderBook): void {
+    this.orderBooks.set(symbol, {
+      bids: orderBook.bids.map(([price, amount]) => [price, amount] as [number, number]).sort((a, b) => b[0] - a[0]),
+      asks: orderBook.asks.map(([price, amount]) => [price, amount] as [number, number]).sort((a, b) => a[0] - b[0])
+    });
+
+    this.triggerStops(symbol);
+    this.matchRestingOrders(symbol);
+  }
+
+  /**
+   * Last traded price, e.g. the latest candle close. While the symbol's book
+   * is empty, market orders fill around it and limit orders it crosses fill.
+   */
+  updateLastPrice(symbol: string, price: number): void {
+    if (!(price > 0)) return;
+
+    this.lastPrices.set(symbol, price);
+    this.triggerStops(symbol);
+    this.matchRestingOrders(symbol);
+  }
+
+  getOrderBook(symbol: string): OrderBook {
+    const book = this.orderBooks.get(symbol);
+    return book ? { bids: [...book.bids], asks: [...book.asks] } : { bids: [], asks: [] };
+  }
+
+  placeOrder(request: OrderRequest): PaperOrder {
+    const order: PaperOrder = {
+      id: this.generateOrderId(),
+      type: request.type,
+      symbol: request.symbol,
+      side: request.side,
+      amount: request.amount,
+      price: request.price,
+      stopPrice: request.stopPrice,
+      status: 'PENDING',
+      timestamp: new Date(),
+      fees: 0,
+      triggered: request.type !== 'STOP_LOSS',
+      filledAmount: 0,
+      averagePrice: 0,
+      fills: []
+    };
+
+    const rejection = this.validateOrder(order);
+    if (rejection) {
+      order.status = 'FAILED';
+      order.reason = rejection;
+      this.orders.set(order.id, order);
+      this.emit('REJECTED', order);
+      return this.snapshot(order);
+    }
+
+    this.orders.set(order.id, order);
+    this.reserve(order);
+    this.emit('NEW', order);
+
+    if (order.type === 'STOP_LOSS') {
+      this.triggerStops(order.symbol);
+    } else {
+      this.execute(order, 'TAKER');
+    }
+
+    return this.snapshot(order);
+  }
+
+  cancelOrder(orderId: string): boolean {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== 'PENDING') return false;
+
+    this.close(order, 'CANCELLED', 'Cancelled by user');
+    return true;
+  }
+
+  getOrder(orderId: string): PaperOrder | undefined {
+    const order = this.orders.get(orderId);
+    return order ? this.snapshot(order) : undefined;
+  }
+
+  getOpenOrders(symbol?: string): PaperOrder[] {
+    return Array.from(this.orders.values())
+      .filter(order => order.status === 'PENDING' && (!symbol || order.symbol === symbol))
+      .map(order => this.snapshot(order));
+  }
+
+  getBalances(): Record<string, Balance> {
+    const result: Record<string, Balance> = {};
+    this.balances.forEach((balance, asset) => {
+      result[asset] = { ...balance };
+    });
+    return result;
+  }
+
+  resetBalances(balances: Record<string, number> = this.config.initialBalances): void {
+    this.balances.clear();
+    Object.entries(balances).forEach(([asset, amount]) => {
+      this.balances.set(asset, { free: amount, locked: 0 });
+    });
+  }
+
+  exportState(): PaperExchangeState {
+    const openOrders = this.getOpenOrders();
+    const reservations: Record<string, number> = {};
+    openOrders.forEach(order => {
+      reservations[order.id] = this.reservations.get(order.id) || 0;
+    });
+
+    return { balances: this.getBalances(), openOrders, reservations };
+  }
+
+  /**
+   * Replaces balances and open orders with a saved state. Closed orders are
+   * not kept across restarts.
+   */
+  importState(state: PaperExchangeState): void {
+    this.balances = new Map(Object.entries(state.balances).map(([asset, balance]) => [asset, { ...balance }]));
+    this.orders = new Map(state.openOrders.map(order => [order.id, this.snapshot(order)]));
+    this.reservations = new Map(state.openOrders.map(order => [order.id, state.reservations[order.id] || 0]));
+  }
+
+  private getDefaultConfig(): PaperExchangeConfig {
+    return {
+      quoteCurrency: 'USD',
+      initialBalances: { USD: 100000 },
+      makerFeeRate: 0.001, // 0.1%
+      takerFeeRate: 0.002, // 0.2%
+      slippage: 0.0005 // 5 bps
+    };
+  }
+
+  private validateOrder(order: PaperOrder): string | null {
+    if (!(order.amount > 0)) return 'Order amount must be positive';
+    if (order.type === 'LIMIT' && !(order.price! > 0)) return 'Limit orders require a positive price';
+    if (order.type === 'STOP_LOSS' && !(order.stopPrice! > 0)) return 'Stop orders require a positive stop price';
+
+    if (order.side === 'BUY') {
+      const estimatedPrice = this.estimateBuyPrice(order);
+      if (estimatedPrice === null) return `No ask liquidity for ${order.symbol}`;
+
+      const required = order.amount * estimatedPrice * (1 + this.config.takerFeeRate);
+      if (this.getBalance(this.config.quoteCurrency).free + EPSILON < required) {
+        return `Insufficient ${this.config.quoteCurrency} balance`;
+      }
+    } else if (this.getBalance(order.symbol).free + EPSILON < order.amount) {
+      return `Insufficient ${order.symbol} balance`;
+    }
+
+    return null;
+  }
+
+  private estimateBuyPrice(order: PaperOrder): number | null {
+    if (order.type === 'LIMIT') return order.price!;
+
+    // Market and stop buys are priced conservatively at the worst level they could reach
+    const asks = this.orderBooks.get(order.symbol)?.asks || [];
+    const reference = order.type === 'STOP_LOSS' ? order.stopPrice! : 0;
+    let remaining = order.amount;
+    let worst = asks.length === 0 ? Math.max(reference, this.fallbackPrice(order) || 0) : reference;
+
+    for (const [price, amount] of asks) {
+      worst = Math.max(worst, price);
+      remaining -= amount;
+      if (remaining <= EPSILON) break;
+    }
+
+    return worst > 0 ? worst : null;
+  }
+
+  private reserve(order: PaperOrder): void {
+    if (order.side === 'BUY') {
+      const price = this.estimateBuyPrice(order)!;
+      const amount = order.amount * price * (1 + this.config.takerFeeRate);
+      this.lock(this.config.quoteCurrency, amount);
+      this.reservations.set(order.id, amount);
+    } else {
+      this.lock(order.symbol, order.amount);
+      this.reservations.set(order.id, order.amount);
+    }
+  }
+
+  private execute(order: PaperOrder, liquidity: OrderFill['liquidity']): void {
+    const book = this.orderBooks.get(order.symbol);
+    const levels = book ? (order.side === 'BUY' ? book.asks : book.bids) : [];
+    const limit = order.type === 'LIMIT' ? order.price! : null;
+    const fallback = levels.length === 0
+      ? (limit === null ? this.fallbackPrice(order) : this.limitFallbackPrice(order, limit, liquidity))
+      : null;
+
+    if (fallback !== null) {
+      const fill = this.applyFill(order, fallback, order.amount - order.filledAmount, liquidity);
+      this.close(order, 'FILLED', undefined, fill);
+      return;
+    }
+
+    while (levels.length > 0 && order.amount - order.filledAmount > EPSILON) {
+      const [price, available] = levels[0];
+
+      if (limit !== null && (order.side === 'BUY' ? price > limit : price < limit)) break;
+
+      const amount = Math.min(available, order.amount - order.filledAmount);
+      const fill = this.applyFill(order, price, amount, liquidity);
+
+      if (available - amount <= EPSILON) {
+        levels.shift();
+      } else {
+        levels[0] = [price, available - amount];
+      }
+
+      if (order.amount - order.filledAmount <= EPSILON) {
+        this.close(order, 'FILLED', undefined, fill);
+        return;
+      }
+      this.emit('PARTIALLY_FILLED', order, fill);
+    }
+
+    if (order.type !== 'LIMIT') {
+      // Market orders are immediate-or-cancel: whatever the book can't absorb is dropped
+      if (order.filledAmount > 0) {
+        this.close(order, 'CANCELLED', 'Insufficient liquidity for remaining amount');
+      } else {
+        this.close(order, 'FAILED', `No liquidity for ${order.symbol}`);
+      }
+    }
+  }
+
+  private fallbackPrice(order: PaperOrder): number | null {
+    const last = this.lastPrices.get(order.symbol);
+    if (!last) return null;
+    return order.side === 'BUY' ? last * (1 + this.config.slippage) : last * (1 - this.config.slippage);
+  }
+
+  /**
+   * A limit order the last price has reached: a resting order fills at its
+   * limit as the market trades through it, a new one at the better last price.
+   */
+  private limitFallbackPrice(order: PaperOrder, limit: number, liquidity: OrderFill['liquidity']): number | null {
+    const last = this.lastPrices.get(order.symbol);
+    if (!last || (order.side === 'BUY' ? last > limit : last < limit)) return null;
+    return liquidity === 'MAKER' ? limit : last;
+  }
+
+  private applyFill(order: PaperOrder, price: number, amount: number, liquidity: OrderFill['liquidity']): OrderFill {
+    const feeRate = liquidity === 'MAKER' ? this.config.makerFeeRate : this.config.takerFeeRate;
+    const fill: OrderFill = {
+      orderId: order.id,
+      price,
+      amount,
+      fee: price * amount * feeRate,
+      liquidity,
+      timestamp: new Date()
+    };
+
+    const previousNotional = order.averagePrice * order.filledAmount;
+    order.filledAmount += amount;
+    order.averagePrice = (previousNotional + price * amount) / order.filledAmount;
+    order.fees += fill.fee;
+    order.fills.push(fill);
+    if (order.type !== 'LIMIT') {
+      order.price = order.averagePrice;
+    }
+
+    this.settle(order, fill);
+    return fill;
+  }
+
+  private settle(order: PaperOrder, fill: OrderFill): void {
+    const quote = this.getBalance(this.config.quoteCurrency);
+    const base = this.getBalance(order.symbol);
+    const notional = fill.price * fill.amount;
+
+    if (order.side === 'BUY') {
+      const cost = notional + fill.fee;
+      const fromReservation = Math.min(cost, this.reservations.get(order.id) || 0);
+      this.reservations.set(order.id, (this.reservations.get(order.id) || 0) - fromReservation);
+      quote.locked -= fromReservation;
+      quote.free -= cost - fromReservation;
+      base.free += fill.amount;
+    } else {
+      this.reservations.set(order.id, (this.reservations.get(order.id) || 0) - fill.amount);
+      base.locked -= fill.amount;
+      quote.free += notional - fill.fee;
+    }
+  }
+
+  private close(
+    order: PaperOrder,
+    status: 'FILLED' | 'CANCELLED' | 'FAILED',
+    reason?: string,
+    fill?: OrderFill
+  ): void {
+    this.release(order);
+    order.status = status;
+    order.reason = reason;
+
+    if (status === 'FILLED') {
+      this.emit('FILLED', order, fill);
+    } else {
+      this.emit(status === 'FAILED' ? 'REJECTED' : 'CANCELLED', order);
+    }
+  }
+
+  private release(order: PaperOrder): void {
+    const remaining = this.reservations.get(order.id) || 0;
+    this.reservations.delete(order.id);
+    if (remaining <= EPSILON) return;
+
+    this.unlock(order.side === 'BUY' ? this.config.quoteCurrency : order.symbol, remaining);
+  }
+
+  private triggerStops(symbol: string): void {
+    const book = this.orderBooks.get(symbol);
+    const last = this.lastPrices.get(symbol);
+    if (!book && last === undefined) return;
+
+    const bestBid = book?.bids[0]?.[0] ?? last;
+    const bestAsk = book?.asks[0]?.[0] ?? last;
+
+    this.getPendingOrders(symbol)
+      .filter(order => order.type === 'STOP_LOSS' && !order.triggered)
+      .forEach(order => {
+        // Sell stops fire when the bid falls to the stop, buy stops when the ask rises to it
+        const triggered = order.side === 'SELL'
+          ? bestBid !== undefined && bestBid <= order.stopPrice!
+          : bestAsk !== undefined && bestAsk >= order.stopPrice!;
+
+        if (triggered) {
+          order.triggered = true;
+          this.emit('TRIGGERED', order);
+          this.execute(order, 'TAKER');
+        }
+      });
+  }
+
+  private matchRestingOrders(symbol: string): void {
+    const resting = this.getPendingOrders(symbol).filter(order => order.type === 'LIMIT');
+    // Price priority, then time priority, within each side of the book
+    const queue = (side: PaperOrder['side']) => resting
+      .filter(order => order.side === side)
+      .sort((a, b) => {
+        const priceOrder = side === 'BUY' ? b.price! - a.price! : a.price! - b.price!;
+        return priceOrder || a.timestamp.getTime() - b.timestamp.getTime();
+      });
+
+    [...queue('BUY'), ...queue('SELL')].forEach(order => this.execute(order, 'MAKER'));
+  }
+
+  private getPendingOrders(symbol: string): PaperOrder[] {
+    return Array.from(this.orders.values()).filter(order =>
+      order.symbol === symbol && order.status === 'PENDING'
+    );
+  }
+
+  private getBalance(asset: string): Balance {
+    let balance = this.balances.get(asset);
+    if (!balance) {
+      balance = { free: 0, locked: 0 };
+      this.balances.set(asset, balance);
+    }
+    return balance;
+  }
+
+  private lock(asset: string, amount: number): void {
+    const balance = this.getBalance(asset);
+    balance.free -= amount;
+    balance.locked += amount;
+  }
+
+  private unlock(asset: string, amount: number): void {
+    const balance = this.getBalance(asset);
+    const released = Math.min(amount, balance.locked);
+    balance.locked -= released;
+    balance.free += released;
+  }
+
+  private emit(type: OrderEventType, order: PaperOrder, fill?: OrderFill): void {
+    const event: OrderEvent = { type, order: this.snapshot(order), fill, timestamp: new Date() };
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in order event listener:', error);
+      }
+    });
+  }
+
+  private snapshot(order: PaperOrder): PaperOrder {
+    return { ...order, fills: [...order.fills] };
+  }
+
+  private generateOrderId(): string {
+    return `paper_${Date.now()}_${++this.sequence}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,471 @@
+import { Candle } from '../types/trading';
+import type { TechnicalSignal } from './technicalAnalysis';
+
+export interface PatternRecognitionConfig {
+  lookback: number; // candles scanned for chart patterns
+  pivotWindow: number; // bars on each side that a swing high/low must dominate
+  tolerance: number; // relative distance at which two price levels count as equal
+  trendPeriod: number; // bars used to judge the trend preceding a candlestick pattern
+  dojiBodyRatio: number;
+}
+
+export interface Pivot {
+  index: number;
+  price: number;
+  type: 'HIGH' | 'LOW';
+}
+
+type Trend = 'UP' | 'DOWN' | 'FLAT';
+
+/**
+ * Detects candlestick and chart patterns in OHLCV data and reports them as
+ * TechnicalSignals, so they are weighed alongside the indicator signals.
+ * Chart patterns are only reported once confirmed by the latest close.
+ */
+export class PatternRecognitionService {
+  private static instance: PatternRecognitionService;
+  private config: PatternRecognitionConfig;
+
+  constructor(config: Partial<PatternRecognitionConfig> = {}) {
+    this.config = { ...this.getDefaultConfig(), ...config };
+  }
+
+  static getInstance(): PatternRecognitionService {
+    if (!PatternRecognitionService.instance) {
+      PatternRecognitionService.instance = new PatternRecognitionService();
+    }
+    return PatternRecognitionService.instance;
+  }
+
+  detectPatterns(candles: Candle[]): TechnicalSignal[] {
+    return [...this.detectCandlestickPatterns(candles), ...this.detectChartPatterns(candles)];
+  }
+
+  detectCandlestickPatterns(candles: Candle[]): TechnicalSignal[] {
+    if (candles.length < 3) return [];
+
+    const signals: TechnicalSignal[] = [];
+    const trend = this.getTrend(candles.slice(0, -1));
+
+    const engulfing = this.detectEngulfing(candles, trend);
+    if (engulfing) signals.push(engulfing);
+
+    const star = this.detectStar(candles, this.getTrend(candles.slice(0, -3)));
+    if (star) signals.push(star);
+
+    const hammer = this.detectHammer(candles, trend);
+    if (hammer) {
+      signals.push(hammer);
+    } else {
+      const doji = this.detectDoji(candles, trend);
+      if (doji) signals.push(doji);
+    }
+
+    return signals;
+  }
+
+  detectChartPatterns(candles: Candle[]): TechnicalSignal[] {
+    const window = candles.slice(-this.config.lookback);
+    if (window.length < this.config.pivotWindow * 4) return [];
+
+    const pivots = this.findPivots(window);
+    const highs = pivots.filter(pivot => pivot.type === 'HIGH');
+    const lows = pivots.filter(pivot => pivot.type === 'LOW');
+
+    const detections = [
+      this.detectHeadAndShoulders(window, pivots) || this.detectDoubleTopBottom(window, pivots),
+      this.detectBreakout(window, highs, lows),
+      this.detectTriangle(window, highs, lows)
+    ];
+
+    return detections.filter((signal): signal is TechnicalSignal => signal !== null);
+  }
+
+  /**
+   * Swing highs and lows: bars whose high (low) is the extreme of the
+   * `pivotWindow` bars on either side. Returned in chronological order.
+   */
+  findPivots(candles: Candle[]): Pivot[] {
+    const pivots: Pivot[] = [];
+    const span = this.config.pivotWindow;
+
+    for (let i = span; i < candles.length - span; i++) {
+      const neighbours = candles.slice(i - span, i + span + 1);
+      const high = candles[i].high;
+      const low = candles[i].low;
+
+      // Ties go to the earlier bar, so a flat top yields a single pivot
+      if (neighbours.every((candle, j) => j === span || (j < span ? candle.high < high : candle.high <= high))) {
+        pivots.push({ index: i, price: high, type: 'HIGH' });
+      }
+      if (neighbours.every((candle, j) => j === span || (j < span ? candle.low > low : candle.low >= low))) {
+        pivots.push({ index: i, price: low, type: 'LOW' });
+      }
+    }
+
+    return pivots;
+  }
+
+  private detectEngulfing(candles: Candle[], trend: Trend): TechnicalSignal | null {
+    const [previous, current] = candles.slice(-2);
+    const engulfs = Math.max(current.open, current.close) >= Math.max(previous.open, previous.close) &&
+      Math.min(current.open, current.close) <= Math.min(previous.open, previous.close) &&
+      this.body(current) > this.body(previous);
+
+    if (!engulfs) return null;
+
+    if (this.isBearish(previous) && this.isBullish(current) && trend !== 'UP') {
+      return {
+        indicator: 'Bullish Engulfing',
+        signal: 'BUY',
+        strength: trend === 'DOWN' ? 0.7 : 0.5,
+        description: 'Bullish candle engulfs the previous bearish body'
+      };
+    }
+    if (this.isBullish(previous) && this.isBearish(current) && trend !== 'DOWN') {
+      return {
+        indicator: 'Bearish Engulfing',
+        signal: 'SELL',
+        strength: trend === 'UP' ? 0.7 : 0.5,
+        description: 'Bearish candle engulfs the previous bullish body'
+      };
+    }
+
+    return null;
+  }
+
+  private detectStar(candles: Candle[], trend: Trend): TechnicalSignal | null {
+    const [first, middle, last] = candles.slice(-3);
+    const firstMidpoint = (first.open + first.close) / 2;
+    const smallMiddle = this.body(middle) <= this.body(first) * 0.3;
+    const longFirst = this.body(first) >= this.range(first) * 0.5;
+
+    if (!smallMiddle || !longFirst) return null;
+
+    if (trend !== 'UP' && this.isBearish(first) && this.isBullish(last) && last.close > firstMidpoint &&
+        Math.max(middle.open, middle.close) <= first.close) {
+      return {
+        indicator: 'Morning Star',
+        signal: 'BUY',
+        strength: 0.75,
+        description: 'Three-candle bullish reversal (morning star)'
+      };
+    }
+    if (trend !== 'DOWN' && this.isBullish(first) && this.isBearish(last) && last.close < firstMidpoint &&
+        Math.min(middle.open, middle.close) >= first.close) {
+      return {
+        indicator: 'Evening Star',
+        signal: 'SELL',
+        strength: 0.75,
+        description: 'Three-candle bearish reversal (evening star)'
+      };
+    }
+
+    return null;
+  }
+
+  private detectHammer(candles: Candle[], trend: Trend): TechnicalSignal | null {
+    const candle = candles[candles.length - 1];
+    const body = this.body(candle);
+    const range = this.range(candle);
+    if (range === 0 || body < range * this.config.dojiBodyRatio) return null;
+
+    const lowerShadow = Math.min(candle.open, candle.close) - candle.low;
+    const upperShadow = candle.high - Math.max(candle.open, candle.close);
+    if (lowerShadow < body * 2 || upperShadow > body * 0.5) return null;
+
+    if (trend === 'DOWN') {
+      return {
+        indicator: 'Hammer',
+        signal: 'BUY',
+        strength: 0.6,
+        description: 'Hammer after a decline: buyers rejected lower prices'
+      };
+    }
+    if (trend === 'UP') {
+      return {
+        indicator: 'Hanging Man',
+        signal: 'SELL',
+        strength: 0.5,
+        description: 'Hanging man after an advance: selling pressure emerging'
+      };
+    }
+
+    return null;
+  }
+
+  private detectDoji(candles: Candle[], trend: Trend): TechnicalSignal | null {
+    const candle = candles[candles.length - 1];
+    const range = this.range(candle);
+    if (range === 0 || this.body(candle) > range * this.config.dojiBodyRatio) return null;
+
+    return {
+      indicator: 'Doji',
+      signal: trend === 'UP' ? 'SELL' : trend === 'DOWN' ? 'BUY' : 'NEUTRAL',
+      strength: trend === 'FLAT' ? 0.2 : 0.35,
+      description: trend === 'FLAT'
+        ? 'Doji shows indecision'
+        : `Doji after ${trend === 'UP' ? 'an advance' : 'a decline'} hints at exhaustion`
+    };
+  }
+
+  private detectDoubleTopBottom(candles: Candle[], pivots: Pivot[]): TechnicalSignal | null {
+    const close = candles[candles.length - 1].close;
+    const highs = pivots.filter(pivot => pivot.type === 'HIGH').slice(-2);
+    const lows = pivots.filter(pivot => pivot.type === 'LOW').slice(-2);
+    if (highs.length === 2 && this.isLevelEqual(highs[0].price, highs[1].price)) {
+      const neckline = this.extremeBetween(candles, highs[0].index, highs[1].index, 'LOW');
+      if (close < neckline) {
+        return {
+          indicator: 'Double Top',
+          signal: 'SELL',
+          strength: 0.7,
+          description: `Double top near ${highs[1].price.toFixed(2)} confirmed below neckline ${neckline.toFixed(2)}`
+        };
+      }
+    }
+
+    if (lows.length === 2 && this.isLevelEqual(lows[0].price, lows[1].price)) {
+      const neckline = this.extremeBetween(candles, lows[0].index, lows[1].index, 'HIGH');
+      if (close > neckline) {
+        return {
+          indicator: 'Double Bottom',
+          signal: 'BUY',
+          strength: 0.7,
+          description: `Double bottom near ${lows[1].price.toFixed(2)} confirmed above neckline ${neckline.toFixed(2)}`
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private detectHeadAndShoulders(candles: Candle[], pivots: Pivot[]): TechnicalSignal | null {
+    const close = candles[candles.length - 1].close;
+    const highs = pivots.filter(pivot => pivot.type === 'HIGH').slice(-3);
+    const lows = pivots.filter(pivot => pivot.type === 'LOW').slice(-3);
+
+    if (highs.length === 3) {
+      const [left, head, right] = highs;
+      const neckline = Math.min(
+        this.extremeBetween(candles, left.index, head.index, 'LOW'),
+        this.extremeBetween(candles, head.index, right.index, 'LOW')
+      );
+
+      if (this.isHead(left.price, head.price, right.price, 1) && close < neckline) {
+        return {
+          indicator: 'Head and Shoulders',
+          signal: 'SELL',
+          strength: 0.8,
+          description: `Head and shoulders top confirmed below neckline ${neckline.toFixed(2)}`
+        };
+      }
+    }
+
+    if (lows.length === 3) {
+      const [left, head, right] = lows;
+      const neckline = Math.max(
+        this.extremeBetween(candles, left.index, head.index, 'HIGH'),
+        this.extremeBetween(candles, head.index, right.index, 'HIGH')
+      );
+
+      if (this.isHead(left.price, head.price, right.price, -1) && close > neckline) {
+        return {
+          indicator: 'Inverse Head and Shoulders',
+          signal: 'BUY',
+          strength: 0.8,
+          description: `Inverse head and shoulders confirmed above neckline ${neckline.toFixed(2)}`
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Support/resistance are swing levels touched at least twice. A breakout is
+   * the latest close crossing such a level; above-average volume strengthens it.
+   */
+  private detectBreakout(candles: Candle[], highs: Pivot[], lows: Pivot[]): TechnicalSignal | null {
+    const [previous, current] = candles.slice(-2);
+    const volumeBoost = this.isVolumeAboveAverage(candles) ? 0.2 : 0;
+
+    const resistance = this.findLevel(highs, 'HIGH');
+    if (resistance !== null && previous.close <= resistance && current.close > resistance * (1 + this.config.tolerance / 3)) {
+      return {
+        indicator: 'Resistance Breakout',
+        signal: 'BUY',
+        strength: 0.6 + volumeBoost,
+        description: `Closed above resistance at ${resistance.toFixed(2)}${volumeBoost ? ' on strong volume' : ''}`
+      };
+    }
+
+    const support = this.findLevel(lows, 'LOW');
+    if (support !== null && previous.close >= support && current.close < support * (1 - this.config.tolerance / 3)) {
+      return {
+        indicator: 'Support Breakdown',
+        signal: 'SELL',
+        strength: 0.6 + volumeBoost,
+        description: `Closed below support at ${support.toFixed(2)}${volumeBoost ? ' on strong volume' : ''}`
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Fits lines through the last three swing highs and lows. Flat highs with
+   * rising lows is ascending, falling highs with flat lows is descending, and
+   * converging lines are symmetrical; a close beyond either line is a breakout.
+   */
+  private detectTriangle(candles: Candle[], highs: Pivot[], lows: Pivot[]): TechnicalSignal | null {
+    const recentHighs = highs.slice(-3);
+    const recentLows = lows.slice(-3);
+    if (recentHighs.length < 2 || recentLows.length < 2) return null;
+
+    const upper = this.fitLine(recentHighs);
+    const lower = this.fitLine(recentLows);
+    const last = candles.length - 1;
+    const close = candles[last].close;
+    const upperNow = upper.intercept + upper.slope * last;
+    const lowerNow = lower.intercept + lower.slope * last;
+    if (upperNow <= lowerNow) return null;
+
+    const span = last - Math.min(recentHighs[0].index, recentLows[0].index);
+    const relativeMove = (slope: number) => (slope * span) / close;
+    const flat = (slope: number) => Math.abs(relativeMove(slope)) < this.config.tolerance;
+    const rising = (slope: number) => relativeMove(slope) >= this.config.tolerance;
+    const falling = (slope: number) => relativeMove(slope) <= -this.config.tolerance;
+
+    let type: 'Ascending' | 'Descending' | 'Symmetrical' | null = null;
+    if (flat(upper.slope) && rising(lower.slope)) type = 'Ascending';
+    else if (falling(upper.slope) && flat(lower.slope)) type = 'Descending';
+    else if (falling(upper.slope) && rising(lower.slope)) type = 'Symmetrical';
+    if (!type) return null;
+
+    if (close > upperNow) {
+      return {
+        indicator: `${type} Triangle`,
+        signal: 'BUY',
+        strength: 0.7,
+        description: `Breakout above ${type.toLowerCase()} triangle resistance`
+      };
+    }
+    if (close < lowerNow) {
+      return {
+        indicator: `${type} Triangle`,
+        signal: 'SELL',
+        strength: 0.7,
+        description: `Breakdown below ${type.toLowerCase()} triangle support`
+      };
+    }
+    if (type === 'Symmetrical') {
+      return {
+        indicator: 'Symmetrical Triangle',
+        signal: 'NEUTRAL',
+        strength: 0.3,
+        description: 'Price coiling in a symmetrical triangle'
+      };
+    }
+
+    return {
+      indicator: `${type} Triangle`,
+      signal: type === 'Ascending' ? 'BUY' : 'SELL',
+      strength: 0.4,
+      description: `${type} triangle forming, breakout not yet confirmed`
+    };
+  }
+
+  private getDefaultConfig(): PatternRecognitionConfig {
+    return {
+      lookback: 60,
+      pivotWindow: 3,
+      tolerance: 0.015, // 1.5%
+      trendPeriod: 5,
+      dojiBodyRatio: 0.1
+    };
+  }
+
+  private getTrend(candles: Candle[]): Trend {
+    const recent = candles.slice(-this.config.trendPeriod);
+    if (recent.length < 2) return 'FLAT';
+
+    const change = (recent[recent.length - 1].close - recent[0].close) / recent[0].close;
+    if (change > this.config.tolerance) return 'UP';
+    if (change < -this.config.tolerance) return 'DOWN';
+    return 'FLAT';
+  }
+
+  private findLevel(pivots: Pivot[], type: 'HIGH' | 'LOW'): number | null {
+    const candidates = pivots.map(pivot => pivot.price);
+    let best: { level: number; touches: number } | null = null;
+
+    for (const price of candidates) {
+      const touches = candidates.filter(other => this.isLevelEqual(price, other)).length;
+      if (touches < 2) continue;
+
+      const better = !best || touches > best.touches ||
+        (touches === best.touches && (type === 'HIGH' ? price > best.level : price < best.level));
+      if (better) best = { level: price, touches };
+    }
+
+    return best ? best.level : null;
+  }
+
+  private fitLine(pivots: Pivot[]): { slope: number; intercept: number } {
+    const n = pivots.length;
+    const meanX = pivots.reduce((sum, pivot) => sum + pivot.index, 0) / n;
+    const meanY = pivots.reduce((sum, pivot) => sum + pivot.price, 0) / n;
+    const covariance = pivots.reduce((sum, pivot) => sum + (pivot.index - meanX) * (pivot.price - meanY), 0);
+    const variance = pivots.reduce((sum, pivot) => sum + Math.pow(pivot.index - meanX, 2), 0);
+    const slope = variance ? covariance / variance : 0;
+
+    return { slope, intercept: meanY - slope * meanX };
+  }
+
+  /**
+   * Shoulders roughly level with each other and the head beyond both by more
+   * than the tolerance; `direction` is 1 for tops and -1 for inverse patterns.
+   */
+  private isHead(left: number, head: number, right: number, direction: 1 | -1): boolean {
+    const beyond = (value: number) => (head - value) * direction > value * this.config.tolerance;
+    return beyond(left) && beyond(right) && this.isLevelEqual(left, right, this.config.tolerance * 2);
+  }
+
+  private extremeBetween(candles: Candle[], from: number, to: number, type: 'HIGH' | 'LOW'): number {
+    const slice = candles.slice(from + 1, to);
+    if (slice.length === 0) return type === 'HIGH' ? candles[from].high : candles[from].low;
+
+    return type === 'HIGH'
+      ? Math.max(...slice.map(candle => candle.high))
+      : Math.min(...slice.map(candle => candle.low));
+  }
+
+  private isVolumeAboveAverage(candles: Candle[]): boolean {
+    const recent = candles.slice(-21, -1);
+    if (recent.length === 0) return false;
+
+    const average = recent.reduce((sum, candle) => sum + candle.volume, 0) / recent.length;
+    return candles[candles.length - 1].volume > average * 1.5;
+  }
+
+  private isLevelEqual(a: number, b: number, tolerance: number = this.config.tolerance): boolean {
+    return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b)) * tolerance;
+  }
+
+  private body(candle: Candle): number {
+    return Math.abs(candle.close - candle.open);
+  }
+
+  private range(candle: Candle): number {
+    return candle.high - candle.low;
+  }
+
+  private isBullish(candle: Candle): boolean {
+    return candle.close > candle.open;
+  }
+
+  private isBearish(candle: Candle): boolean {
+    return candle.close < candle.open;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,423 @@
+import { expressionEvaluator } from './formulaEvaluator';
+import { FormulaEvaluator, isBlankFormula } from './learningEngineRuntime';
+import {
+  DefinitionNode,
+  PlotterModuleDefinition,
+  ProductDefinition
+} from '../types/learning';
+
+export type PlotterRecord = Record<string, unknown>;
+
+export interface PlotterRecordSet {
+  length: number;
+  get(index: number): PlotterRecord | undefined;
+}
+
+export interface ChartPoint {
+  x: number; // epoch milliseconds
+  y: number; // rate, or the module's own scale for oscillators
+}
+
+export interface PlotterShapeStyle {
+  color: string; // css rgb()
+  opacity: number;
+  lineWidth: number;
+  lineDash: number[];
+}
+
+export interface PlotterPolygon {
+  nodeId: string;
+  begin: number;
+  end: number;
+  points: ChartPoint[];
+  fill?: PlotterShapeStyle;
+  border?: PlotterShapeStyle;
+  hoverFill?: PlotterShapeStyle;
+  hoverBorder?: PlotterShapeStyle;
+}
+
+export interface PlotterText {
+  nodeId: string;
+  begin: number;
+  end: number;
+  at: ChartPoint;
+  offsetX: number; // pixels
+  offsetY: number;
+  text: string;
+  color: string;
+  opacity: number;
+  fontSize: number;
+}
+
+export interface PlotterImage {
+  nodeId: string;
+  begin: number;
+  end: number;
+  at: ChartPoint;
+  offsetX: number;
+  offsetY: number;
+  codeName: string;
+  size: number;
+}
+
+export interface PlotterFormulaError {
+  nodeId: string;
+  count: number;
+  message: string;
+}
+
+export interface PlotterShapes {
+  polygons: PlotterPolygon[];
+  texts: PlotterText[];
+  images: PlotterImage[];
+  errors: PlotterFormulaError[];
+}
+
+export interface PlotterPanelValue {
+  nodeId: string;
+  name: string;
+  value: string;
+  error?: string;
+}
+
+export interface PlotterPanelView {
+  nodeId: string;
+  name: string;
+  values: PlotterPanelValue[];
+}
+
+interface PointFormula {
+  x: string;
+  y: string;
+}
+
+// Superalgos UI_COLOR palette entries used by mine definitions
+const PALETTE: Record<string, string> = {
+  DARK: '48, 48, 54',
+  LIGHT: '234, 226, 222',
+  GREY: '150, 150, 150',
+  LIGHT_GREY: '247, 247, 247',
+  WHITE: '255, 255, 255',
+  BLACK: '0, 0, 0',
+  GOLDEN_ORANGE: '245, 165, 0',
+  RUSTED_RED: '204, 88, 53',
+  GREEN: '26, 173, 75',
+  RED: '223, 70, 60',
+  PATINATED_TURQUOISE: '27, 153, 139',
+  TITANIUM_YELLOW: '244, 228, 9',
+  MANGANESE_PURPLE: '91, 80, 122',
+  TURQUOISE: '74, 207, 217',
+  DARK_TURQUOISE: '2, 149, 170'
+};
+
+// The slice of the Superalgos UI object that data formulas call into
+const FORMULA_UI = {
+  projects: {
+    superalgos: {
+      utilities: {
+        dates: {
+          formatDate: (value: unknown) => {
+            const date = new Date(Number(value));
+            return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 16).replace('T', ' ');
+          }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Turns a Learning Mine Plotter Module into drawable shapes and panel
+ * readouts for a product's records: Chart Points become coordinates,
+ * Polygons, Texts and Images are kept where their condition holds, and Panel
+ * Data formulas are read at the record under the cursor.
+ */
+export class PlotterRenderer {
+  private static instance: PlotterRenderer;
+
+  constructor(private evaluator: FormulaEvaluator = expressionEvaluator) {}
+
+  static getInstance(): PlotterRenderer {
+    if (!PlotterRenderer.instance) {
+      PlotterRenderer.instance = new PlotterRenderer();
+    }
+    return PlotterRenderer.instance;
+  }
+
+  /**
+   * The product a module draws: the one whose definition references it,
+   * falling back to a matching code name.
+   */
+  findProduct(module: PlotterModuleDefinition, products: ProductDefinition[]): ProductDefinition | undefined {
+    return products.find(product => product.plotterModuleId === module.id)
+      || products.find(product => product.codeName === module.codeName);
+  }
+
+  /**
+   * Maps dataset rows (property values in definition order) to records
+   * keyed by property code name, sorted by begin. Records also get the
+   * `hitRatio` statistics panels read, from their own hits and fails or from
+   * the counters record with the same begin.
+   */
+  toRecords(product: ProductDefinition, rows: unknown[][], counters: PlotterRecord[] = []): PlotterRecord[] {
+    const countersAt = new Map(counters.map(record => [Number(record.begin), record]));
+
+    return rows
+      .map(row => {
+        const record: PlotterRecord = {};
+        product.record.forEach((property, index) => {
+          record[property.codeName] = row[index];
+        });
+
+        const source = 'hits' in record && 'fails' in record ? record : countersAt.get(Number(record.begin));
+        if (source && record.hitRatio === undefined) {
+          const hits = Number(source.hits) || 0;
+          const fails = Number(source.fails) || 0;
+          record.hitRatio = hits + fails > 0 ? hits / (hits + fails) : 0;
+        }
+        return record;
+      })
+      .sort((a, b) => Number(a.begin) - Number(b.begin));
+  }
+
+  /**
+   * The product recording Learning Episode Counters, whose hits and fails
+   * back the hit ratio of other products' records.
+   */
+  findCountersProduct(products: ProductDefinition[]): ProductDefinition | undefined {
+    return products.find(product =>
+      product.record.some(property => property.codeName === 'hits') &&
+      product.record.some(property => property.codeName === 'fails'));
+  }
+
+  renderShapes(module: PlotterModuleDefinition, records: PlotterRecord[]): PlotterShapes {
+    const errors = new Map<string, PlotterFormulaError>();
+    const shapes: PlotterShapes = { polygons: [], texts: [], images: [], errors: [] };
+    const node = module.node.children.shapes;
+    if (!node) return shapes;
+
+    const formulas = this.collectPoints(node, errors);
+    const polygons = nodeList(node, 'polygons');
+    const texts = nodeList(node, 'texts');
+    const images = nodeList(node, 'images');
+
+    records.forEach(record => {
+      const scope = { record, UI: FORMULA_UI };
+      const points = new Map<string, ChartPoint | null>();
+      const pointAt = (id: string | undefined) => {
+        if (!id || !formulas.has(id)) return null;
+        if (!points.has(id)) points.set(id, this.evaluatePoint(formulas.get(id)!, id, scope, errors));
+        return points.get(id)!;
+      };
+      const holds = (condition: DefinitionNode | undefined) =>
+        !condition || isBlankFormula(condition.code) || Boolean(this.evaluate(condition.code!, condition.id, scope, errors));
+      const begin = Number(record.begin) || 0;
+      const end = Number(record.end) || begin;
+
+      polygons.forEach(polygon => {
+        if (!holds(polygon.children.polygonCondition)) return;
+
+        const vertexes = nodeList(polygon, 'polygonVertexes').map(vertex => pointAt(vertex.referenceParent));
+        if (vertexes.length < 2 || vertexes.some(vertex => vertex === null)) return;
+
+        const body = polygon.children.polygonBody;
+        const border = polygon.children.polygonBorder;
+        shapes.polygons.push({
+          nodeId: polygon.id,
+          begin,
+          end,
+          points: vertexes as ChartPoint[],
+          fill: body ? this.resolveStyle(body, 'default', scope, errors) : undefined,
+          border: border ? this.resolveStyle(border, 'default', scope, errors) : undefined,
+          hoverFill: body ? this.resolveStyle(body, 'atMousePosition', scope, errors) : undefined,
+          hoverBorder: border ? this.resolveStyle(border, 'atMousePosition', scope, errors) : undefined
+        });
+      });
+
+      texts.forEach(text => {
+        const formula = text.children.textFormula;
+        const position = text.children.textPosition;
+        if (!formula || isBlankFormula(formula.code) || !holds(text.children.textCondition)) return;
+
+        const at = pointAt(position?.referenceParent);
+        const value = this.evaluate(formula.code!, formula.id, scope, errors);
+        if (!at || value === undefined || value === null) return;
+
+        const style = text.children.textStyle?.config || {};
+        shapes.texts.push({
+          nodeId: text.id,
+          begin,
+          end,
+          at,
+          offsetX: Number(position!.config.offsetX) || 0,
+          offsetY: Number(position!.config.offsetY) || 0,
+          text: String(value),
+          color: paletteColor(style.paletteColor),
+          opacity: style.opacity ?? 1,
+          fontSize: style.fontSize ?? 10
+        });
+      });
+
+      images.forEach(image => {
+        const position = image.children.imagePosition;
+        if (!holds(image.children.imageCondition)) return;
+
+        const at = pointAt(position?.referenceParent);
+        if (!at) return;
+
+        shapes.images.push({
+          nodeId: image.id,
+          begin,
+          end,
+          at,
+          offsetX: Number(position!.config.offsetX) || 0,
+          offsetY: Number(position!.config.offsetY) || 0,
+          codeName: image.config.codeName || '',
+          size: Number(image.config.size) || 20
+        });
+      });
+    });
+
+    shapes.errors = Array.from(errors.values());
+    return shapes;
+  }
+
+  /**
+   * Panel Data at the latest record that begins at or before `at` (the last
+   * record when omitted). Records sharing that begin form the `recordSet`,
+   * which is how array products such as Features expose every element.
+   */
+  renderPanels(module: PlotterModuleDefinition, records: PlotterRecord[], at?: number): PlotterPanelView[] {
+    const current = this.recordsAt(records, at);
+    const recordSet: PlotterRecordSet = { length: current.length, get: index => current[index] };
+    const scope = { record: current[0], recordSet, UI: FORMULA_UI };
+
+    return module.panels.map(panel => ({
+      nodeId: panel.id,
+      name: panel.name,
+      values: panel.data.map(data => {
+        const entry: PlotterPanelValue = { nodeId: data.id, name: data.name, value: '' };
+        if (!current.length || isBlankFormula(data.formula)) return entry;
+
+        try {
+          entry.value = formatPanelValue(this.evaluator(data.formula!, scope, data.id), data.valueDecimals);
+        } catch (error) {
+          entry.error = (error as Error).message;
+        }
+        return entry;
+      })
+    }));
+  }
+
+  private recordsAt(records: PlotterRecord[], at?: number): PlotterRecord[] {
+    let begin: number | undefined;
+    records.forEach(record => {
+      const value = Number(record.begin);
+      if (at === undefined || value <= at) begin = value;
+    });
+    return begin === undefined ? [] : records.filter(record => Number(record.begin) === begin);
+  }
+
+  private collectPoints(shapes: DefinitionNode, errors: Map<string, PlotterFormulaError>): Map<string, PointFormula> {
+    const formulas = new Map<string, PointFormula>();
+
+    nodeList(shapes, 'chartPoints').forEach(chartPoints => nodeList(chartPoints, 'points').forEach(point => {
+      const formula = point.children.pointFormula;
+      if (!formula || isBlankFormula(formula.code)) return;
+
+      const parsed = parsePointFormula(formula.code!);
+      if (parsed) {
+        formulas.set(point.id, parsed);
+      } else {
+        recordError(errors, formula.id, 'Point Formula must assign both x and y');
+      }
+    }));
+
+    return formulas;
+  }
+
+  private evaluatePoint(
+    formula: PointFormula,
+    nodeId: string,
+    scope: Record<string, unknown>,
+    errors: Map<string, PlotterFormulaError>
+  ): ChartPoint | null {
+    const x = Number(this.evaluate(formula.x, nodeId, scope, errors));
+    const y = Number(this.evaluate(formula.y, nodeId, scope, errors));
+    return isFinite(x) && isFinite(y) ? { x, y } : null;
+  }
+
+  /**
+   * Style of a polygon body or border for the given state. The first Style
+   * Condition that holds replaces the default style.
+   */
+  private resolveStyle(
+    node: DefinitionNode,
+    state: 'default' | 'atMousePosition',
+    scope: Record<string, unknown>,
+    errors: Map<string, PlotterFormulaError>
+  ): PlotterShapeStyle | undefined {
+    const matched = nodeList(node, 'styleConditions').find(condition =>
+      !isBlankFormula(condition.code) && Boolean(this.evaluate(condition.code!, condition.id, scope, errors)));
+    const config = (matched?.children.style || node.children.style)?.config;
+    const style = config?.[state] || config?.default;
+    if (!style) return undefined;
+
+    return {
+      color: paletteColor(style.paletteColor),
+      opacity: style.opacity ?? 1,
+      lineWidth: style.lineWidth ?? 1,
+      lineDash: Array.isArray(style.lineDash) ? style.lineDash : []
+    };
+  }
+
+  private evaluate(
+    code: string,
+    nodeId: string,
+    scope: Record<string, unknown>,
+    errors: Map<string, PlotterFormulaError>
+  ): unknown {
+    try {
+      return this.evaluator(code, scope, nodeId);
+    } catch (error) {
+      recordError(errors, nodeId, (error as Error).message);
+      return undefined;
+    }
+  }
+}
+
+function nodeList(node: DefinitionNode, key: string): DefinitionNode[] {
+  return node.lists[key] || (node.children[key] ? [node.children[key]] : []);
+}
+
+function parsePointFormula(code: string): PointFormula | null {
+  const assignments: Record<string, string> = {};
+  code.split(/[\n;]/).forEach(line => {
+    const match = line.match(/^\s*(x|y)\s*=\s*(.+?)\s*$/);
+    if (match) assignments[match[1]] = match[2];
+  });
+  return assignments.x && assignments.y ? { x: assignments.x, y: assignments.y } : null;
+}
+
+function paletteColor(reference: unknown): string {
+  const name = String(reference || '').replace(/^UI_COLOR\./, '');
+  return `rgb(${PALETTE[name] || PALETTE.GREY})`;
+}
+
+function formatPanelValue(value: unknown, decimals?: number): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') {
+    if (!isFinite(value)) return '';
+    return decimals !== undefined ? value.toFixed(decimals) : String(value);
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function recordError(errors: Map<string, PlotterFormulaError>, nodeId: string, message: string): void {
+  const existing = errors.get(nodeId);
+  if (existing) {
+    existing.count++;
+  } else {
+    errors.set(nodeId, { nodeId, count: 1, message });
+  }
+}
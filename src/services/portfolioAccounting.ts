@@ -0,0 +1,346 @@
+import { Portfolio, TradeExecution } from '../types/trading';
+
+export type CostBasisMethod = 'FIFO' | 'AVERAGE';
+
+export interface TaxLot {
+  amount: number;
+  price: number; // cost per unit, buy fees included
+  timestamp: Date;
+}
+
+export interface AssetLedger {
+  symbol: string;
+  lots: TaxLot[];
+  currentPrice: number;
+  realizedPnl: number;
+  fees: number;
+}
+
+export interface PerformanceSnapshot {
+  timestamp: Date;
+  totalValue: number;
+  cash: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+}
+
+export interface PortfolioAccountingState {
+  initialCash: number;
+  cash: number;
+  ledgers: AssetLedger[];
+  realizedPnl: number;
+  totalFees: number;
+  snapshots: PerformanceSnapshot[];
+}
+
+export interface PortfolioAccountingConfig {
+  initialCash: number;
+  costBasisMethod: CostBasisMethod;
+  snapshotInterval: number; // ms; one snapshot is kept per interval bucket
+  maxSnapshots: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPSILON = 1e-12;
+const DUST_TOLERANCE = 1e-9; // relative oversell accepted as floating point rounding
+
+/**
+ * Cash plus per-asset tax lots. Fills move cash and lots, price updates mark
+ * holdings to market, and time-bucketed snapshots of total value back the
+ * daily/weekly/monthly performance figures.
+ */
+export class PortfolioAccounting {
+  private static instance: PortfolioAccounting;
+  private config: PortfolioAccountingConfig;
+  private cash: number;
+  private ledgers = new Map<string, AssetLedger>();
+  private realizedPnl = 0;
+  private totalFees = 0;
+  private snapshots: PerformanceSnapshot[] = [];
+
+  constructor(config: Partial<PortfolioAccountingConfig> = {}) {
+    this.config = { ...this.getDefaultConfig(), ...config };
+    this.cash = this.config.initialCash;
+  }
+
+  static getInstance(): PortfolioAccounting {
+    if (!PortfolioAccounting.instance) {
+      PortfolioAccounting.instance = new PortfolioAccounting();
+    }
+    return PortfolioAccounting.instance;
+  }
+
+  /**
+   * Applies a single fill. `execution.amount`/`price`/`fees` must describe the
+   * fill itself, not the parent order's totals.
+   */
+  recordFill(execution: TradeExecution): void {
+    const price = execution.price || 0;
+    const ledger = this.getLedger(execution.symbol);
+
+    if (execution.side === 'BUY') {
+      const notional = execution.amount * price;
+      this.chargeFees(ledger, execution.fees);
+      this.cash -= notional + execution.fees;
+      this.addLot(ledger, {
+        amount: execution.amount,
+        price: (notional + execution.fees) / execution.amount,
+        timestamp: execution.timestamp
+      });
+    } else {
+      // Spot holdings only: selling more than is held would need short lots
+      const held = this.getHeldAmount(ledger);
+      if (execution.amount - held > Math.max(EPSILON, held * DUST_TOLERANCE)) {
+        throw new Error(`Sell of ${execution.amount} ${execution.symbol} exceeds holdings of ${held}`);
+      }
+
+      // Rounding dust past the holdings is dropped along with its share of the fee
+      const amount = Math.min(execution.amount, held);
+      const fees = execution.amount > 0 ? execution.fees * (amount / execution.amount) : 0;
+      const proceeds = amount * price - fees;
+      const costBasis = this.removeLots(ledger, amount);
+      const pnl = proceeds - costBasis;
+
+      this.chargeFees(ledger, fees);
+      this.cash += proceeds;
+      ledger.realizedPnl += pnl;
+      this.realizedPnl += pnl;
+    }
+
+    ledger.currentPrice = price;
+    this.takeSnapshot(execution.timestamp);
+  }
+
+  markToMarket(symbol: string, price: number, timestamp: Date = new Date()): void {
+    const ledger = this.ledgers.get(symbol);
+    if (!ledger || !(price > 0)) return;
+
+    ledger.currentPrice = price;
+    this.takeSnapshot(timestamp);
+  }
+
+  getCash(): number {
+    return this.cash;
+  }
+
+  getHoldings(symbol: string): number {
+    const ledger = this.ledgers.get(symbol);
+    return ledger ? this.getHeldAmount(ledger) : 0;
+  }
+
+  getTotalValue(): number {
+    let holdings = 0;
+    this.ledgers.forEach(ledger => {
+      holdings += this.getHeldAmount(ledger) * ledger.currentPrice;
+    });
+    return this.cash + holdings;
+  }
+
+  getUnrealizedPnl(): number {
+    let unrealized = 0;
+    this.ledgers.forEach(ledger => {
+      unrealized += this.getHeldAmount(ledger) * ledger.currentPrice - this.getCostBasis(ledger);
+    });
+    return unrealized;
+  }
+
+  getPositionValues(): number[] {
+    return Array.from(this.ledgers.values())
+      .map(ledger => this.getHeldAmount(ledger) * ledger.currentPrice)
+      .filter(value => value > 0);
+  }
+
+  getLedgers(): AssetLedger[] {
+    return Array.from(this.ledgers.values()).map(ledger => ({
+      ...ledger,
+      lots: ledger.lots.map(lot => ({ ...lot }))
+    }));
+  }
+
+  getSnapshots(): PerformanceSnapshot[] {
+    return [...this.snapshots];
+  }
+
+  /**
+   * Percentage change in total value over the trailing day, week and month
+   * (30 days), plus the change since inception.
+   */
+  getPerformance(now: Date = new Date()): Portfolio['performance'] {
+    const current = this.getTotalValue();
+
+    return {
+      daily: this.changeSince(current, now.getTime() - DAY_MS),
+      weekly: this.changeSince(current, now.getTime() - 7 * DAY_MS),
+      monthly: this.changeSince(current, now.getTime() - 30 * DAY_MS),
+      total: this.percentChange(this.config.initialCash, current)
+    };
+  }
+
+  getPortfolio(trades: TradeExecution[] = []): Portfolio {
+    const assets: Portfolio['assets'] = {};
+
+    this.ledgers.forEach(ledger => {
+      const amount = this.getHeldAmount(ledger);
+      if (amount <= EPSILON) return;
+
+      const costBasis = this.getCostBasis(ledger);
+      const pnl = amount * ledger.currentPrice - costBasis;
+
+      assets[ledger.symbol] = {
+        amount,
+        avgPrice: costBasis / amount,
+        currentPrice: ledger.currentPrice,
+        pnl,
+        pnlPercentage: costBasis ? (pnl / costBasis) * 100 : 0,
+        realizedPnl: ledger.realizedPnl
+      };
+    });
+
+    return {
+      totalValue: this.getTotalValue(),
+      cash: this.cash,
+      assets,
+      trades: [...trades],
+      realizedPnl: this.realizedPnl,
+      unrealizedPnl: this.getUnrealizedPnl(),
+      fees: this.totalFees,
+      performance: this.getPerformance()
+    };
+  }
+
+  exportState(): PortfolioAccountingState {
+    return {
+      initialCash: this.config.initialCash,
+      cash: this.cash,
+      ledgers: this.getLedgers(),
+      realizedPnl: this.realizedPnl,
+      totalFees: this.totalFees,
+      snapshots: this.getSnapshots()
+    };
+  }
+
+  importState(state: PortfolioAccountingState): void {
+    this.config.initialCash = state.initialCash;
+    this.cash = state.cash;
+    this.ledgers = new Map(state.ledgers.map(ledger => [ledger.symbol, ledger]));
+    this.realizedPnl = state.realizedPnl;
+    this.totalFees = state.totalFees;
+    this.snapshots = [...state.snapshots];
+  }
+
+  reset(initialCash: number = this.config.initialCash): void {
+    this.config.initialCash = initialCash;
+    this.cash = initialCash;
+    this.ledgers.clear();
+    this.realizedPnl = 0;
+    this.totalFees = 0;
+    this.snapshots = [];
+  }
+
+  private getDefaultConfig(): PortfolioAccountingConfig {
+    return {
+      initialCash: 100000, // $100k starting portfolio
+      costBasisMethod: 'FIFO',
+      snapshotInterval: 60 * 60 * 1000, // hourly
+      maxSnapshots: 24 * 400 // a little over a year of hourly buckets
+    };
+  }
+
+  private getLedger(symbol: string): AssetLedger {
+    let ledger = this.ledgers.get(symbol);
+    if (!ledger) {
+      ledger = { symbol, lots: [], currentPrice: 0, realizedPnl: 0, fees: 0 };
+      this.ledgers.set(symbol, ledger);
+    }
+    return ledger;
+  }
+
+  private chargeFees(ledger: AssetLedger, fees: number): void {
+    ledger.fees += fees;
+    this.totalFees += fees;
+  }
+
+  private addLot(ledger: AssetLedger, lot: TaxLot): void {
+    if (this.config.costBasisMethod === 'FIFO' || ledger.lots.length === 0) {
+      ledger.lots.push(lot);
+      return;
+    }
+
+    // Average cost keeps a single blended lot
+    const existing = ledger.lots[0];
+    const amount = existing.amount + lot.amount;
+    ledger.lots[0] = {
+      amount,
+      price: (existing.amount * existing.price + lot.amount * lot.price) / amount,
+      timestamp: existing.timestamp
+    };
+  }
+
+  /**
+   * Consumes `amount` units from the oldest lots first and returns their cost.
+   */
+  private removeLots(ledger: AssetLedger, amount: number): number {
+    let remaining = amount;
+    let cost = 0;
+
+    while (remaining > EPSILON && ledger.lots.length > 0) {
+      const lot = ledger.lots[0];
+      const used = Math.min(lot.amount, remaining);
+
+      cost += used * lot.price;
+      lot.amount -= used;
+      remaining -= used;
+
+      if (lot.amount <= EPSILON) {
+        ledger.lots.shift();
+      }
+    }
+
+    return cost;
+  }
+
+  private getHeldAmount(ledger: AssetLedger): number {
+    return ledger.lots.reduce((sum, lot) => sum + lot.amount, 0);
+  }
+
+  private getCostBasis(ledger: AssetLedger): number {
+    return ledger.lots.reduce((sum, lot) => sum + lot.amount * lot.price, 0);
+  }
+
+  private takeSnapshot(timestamp: Date): void {
+    const snapshot: PerformanceSnapshot = {
+      timestamp,
+      totalValue: this.getTotalValue(),
+      cash: this.cash,
+      realizedPnl: this.realizedPnl,
+      unrealizedPnl: this.getUnrealizedPnl()
+    };
+
+    const last = this.snapshots[this.snapshots.length - 1];
+    const bucket = Math.floor(timestamp.getTime() / this.config.snapshotInterval);
+
+    if (last && Math.floor(last.timestamp.getTime() / this.config.snapshotInterval) === bucket) {
+      this.snapshots[this.snapshots.length - 1] = snapshot;
+    } else {
+      this.snapshots.push(snapshot);
+      if (this.snapshots.length > this.config.maxSnapshots) {
+        this.snapshots.shift();
+      }
+    }
+  }
+
+  private changeSince(current: number, time: number): number {
+    let reference = this.config.initialCash;
+
+    for (const snapshot of this.snapshots) {
+      if (snapshot.timestamp.getTime() > time) break;
+      reference = snapshot.totalValue;
+    }
+
+    return this.percentChange(reference, current);
+  }
+
+  private percentChange(from: number, to: number): number {
+    return from ? ((to - from) / from) * 100 : 0;
+  }
+}
\ No newline at end of file
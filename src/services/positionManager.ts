@@ -0,0 +1,264 @@
+export type PositionSide = 'LONG' | 'SHORT';
+
+export type PositionExitReason = 'STOP_LOSS' | 'TAKE_PROFIT' | 'TRAILING_STOP' | 'EXPIRED' | 'SIGNAL' | 'MANUAL';
+
+export interface PositionExitRules {
+  stopLossPercentage: number;
+  takeProfitPercentage: number;
+  trailingStopPercentage?: number;
+  maxHoldingPeriodHours?: number;
+}
+
+export interface ManagedPosition {
+  symbol: string;
+  side: PositionSide;
+  amount: number;
+  entryPrice: number;
+  entryTime: Date;
+  entryFees: number;
+  entryOrderId: string;
+  stopLoss: number;
+  takeProfit: number;
+  trailingStopPercentage?: number;
+  trailingStop?: number;
+  highWaterMark: number;
+  lowWaterMark: number;
+  expiresAt?: Date;
+  lastPrice: number;
+  closing: boolean;
+}
+
+export interface PositionExitSignal {
+  symbol: string;
+  reason: PositionExitReason;
+  price: number;
+  position: ManagedPosition;
+}
+
+export interface ClosedPosition {
+  symbol: string;
+  side: PositionSide;
+  amount: number;
+  entryPrice: number;
+  exitPrice: number;
+  entryTime: Date;
+  exitTime: Date;
+  fees: number;
+  realizedPnl: number;
+  realizedPnlPercentage: number;
+  exitReason: PositionExitReason;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Tracks open positions and decides when they should be exited. The manager
+ * never places orders itself: updatePrice returns an exit signal, the caller
+ * sends the closing order, and closePosition books the realized PnL once the
+ * exit has actually filled.
+ */
+export class PositionManager {
+  private static instance: PositionManager;
+  private positions = new Map<string, ManagedPosition>();
+  private closedPositions: ClosedPosition[] = [];
+
+  static getInstance(): PositionManager {
+    if (!PositionManager.instance) {
+      PositionManager.instance = new PositionManager();
+    }
+    return PositionManager.instance;
+  }
+
+  /**
+   * Opens a position, or averages into the existing one when a partially
+   * filled entry order reports further fills.
+   */
+  openPosition(
+    symbol: string,
+    side: PositionSide,
+    amount: number,
+    price: number,
+    fees: number,
+    orderId: string,
+    rules: PositionExitRules,
+    timestamp: Date = new Date()
+  ): ManagedPosition {
+    const existing = this.positions.get(symbol);
+
+    if (existing && existing.entryOrderId === orderId) {
+      const totalAmount = existing.amount + amount;
+      existing.entryPrice = (existing.entryPrice * existing.amount + price * amount) / totalAmount;
+      existing.amount = totalAmount;
+      existing.entryFees += fees;
+      this.applyExitLevels(existing, rules);
+      return existing;
+    }
+
+    const position: ManagedPosition = {
+      symbol,
+      side,
+      amount,
+      entryPrice: price,
+      entryTime: timestamp,
+      entryFees: fees,
+      entryOrderId: orderId,
+      stopLoss: 0,
+      takeProfit: 0,
+      trailingStopPercentage: rules.trailingStopPercentage,
+      highWaterMark: price,
+      lowWaterMark: price,
+      expiresAt: rules.maxHoldingPeriodHours
+        ? new Date(timestamp.getTime() + rules.maxHoldingPeriodHours * HOUR_MS)
+        : undefined,
+      lastPrice: price,
+      closing: false
+    };
+
+    this.applyExitLevels(position, rules);
+    this.positions.set(symbol, position);
+    return position;
+  }
+
+  /**
+   * Feeds a new price for the symbol and returns an exit signal when one of the
+   * exit rules fires. Positions with an exit already in flight are skipped.
+   */
+  updatePrice(symbol: string, price: number, timestamp: Date = new Date()): PositionExitSignal | null {
+    const position = this.positions.get(symbol);
+    if (!position || position.closing) return null;
+
+    position.lastPrice = price;
+    position.highWaterMark = Math.max(position.highWaterMark, price);
+    position.lowWaterMark = Math.min(position.lowWaterMark, price);
+    this.updateTrailingStop(position);
+
+    const reason = this.checkExit(position, price, timestamp);
+    if (!reason) return null;
+
+    position.closing = true;
+    return { symbol, reason, price, position: { ...position } };
+  }
+
+  /**
+   * Re-arms a position whose exit order did not go through.
+   */
+  cancelExit(symbol: string): void {
+    const position = this.positions.get(symbol);
+    if (position) position.closing = false;
+  }
+
+  markClosing(symbol: string): ManagedPosition | undefined {
+    const position = this.positions.get(symbol);
+    if (position) position.closing = true;
+    return position;
+  }
+
+  /**
+   * Books the exit fill. Partial exits reduce the position and only the fully
+   * closed remainder is removed.
+   */
+  closePosition(
+    symbol: string,
+    amount: number,
+    price: number,
+    fees: number,
+    reason: PositionExitReason,
+    timestamp: Date = new Date()
+  ): ClosedPosition | null {
+    const position = this.positions.get(symbol);
+    if (!position) return null;
+
+    const closedAmount = Math.min(amount, position.amount);
+    const entryFeeShare = position.entryFees * (closedAmount / position.amount);
+    const direction = position.side === 'LONG' ? 1 : -1;
+    const grossPnl = (price - position.entryPrice) * closedAmount * direction;
+    const realizedPnl = grossPnl - entryFeeShare - fees;
+    const costBasis = position.entryPrice * closedAmount;
+
+    const closed: ClosedPosition = {
+      symbol,
+      side: position.side,
+      amount: closedAmount,
+      entryPrice: position.entryPrice,
+      exitPrice: price,
+      entryTime: position.entryTime,
+      exitTime: timestamp,
+      fees: entryFeeShare + fees,
+      realizedPnl,
+      realizedPnlPercentage: costBasis ? (realizedPnl / costBasis) * 100 : 0,
+      exitReason: reason
+    };
+
+    this.closedPositions.push(closed);
+
+    position.amount -= closedAmount;
+    position.entryFees -= entryFeeShare;
+    if (position.amount <= 1e-12) {
+      this.positions.delete(symbol);
+    }
+
+    return closed;
+  }
+
+  /**
+   * Reloads persisted state. Exits that were in flight when the state was
+   * saved are re-armed, since their orders may never have reached the venue.
+   */
+  restore(positions: ManagedPosition[], closedPositions: ClosedPosition[] = []): void {
+    this.positions = new Map(positions.map(position => [position.symbol, { ...position, closing: false }]));
+    this.closedPositions = [...closedPositions];
+  }
+
+  getPosition(symbol: string): ManagedPosition | undefined {
+    const position = this.positions.get(symbol);
+    return position ? { ...position } : undefined;
+  }
+
+  getOpenPositions(): ManagedPosition[] {
+    return Array.from(this.positions.values()).map(position => ({ ...position }));
+  }
+
+  getClosedPositions(): ClosedPosition[] {
+    return [...this.closedPositions];
+  }
+
+  getRealizedPnl(symbol?: string): number {
+    return this.closedPositions
+      .filter(position => !symbol || position.symbol === symbol)
+      .reduce((sum, position) => sum + position.realizedPnl, 0);
+  }
+
+  private applyExitLevels(position: ManagedPosition, rules: PositionExitRules): void {
+    const direction = position.side === 'LONG' ? 1 : -1;
+    position.stopLoss = position.entryPrice * (1 - direction * rules.stopLossPercentage / 100);
+    position.takeProfit = position.entryPrice * (1 + direction * rules.takeProfitPercentage / 100);
+    this.updateTrailingStop(position);
+  }
+
+  private updateTrailingStop(position: ManagedPosition): void {
+    if (!position.trailingStopPercentage) return;
+
+    const distance = position.trailingStopPercentage / 100;
+    position.trailingStop = position.side === 'LONG'
+      ? position.highWaterMark * (1 - distance)
+      : position.lowWaterMark * (1 + distance);
+  }
+
+  private checkExit(position: ManagedPosition, price: number, timestamp: Date): PositionExitReason | null {
+    if (position.side === 'LONG') {
+      if (price <= position.stopLoss) return 'STOP_LOSS';
+      if (position.trailingStop !== undefined && price <= position.trailingStop) return 'TRAILING_STOP';
+      if (price >= position.takeProfit) return 'TAKE_PROFIT';
+    } else {
+      if (price >= position.stopLoss) return 'STOP_LOSS';
+      if (position.trailingStop !== undefined && price >= position.trailingStop) return 'TRAILING_STOP';
+      if (price <= position.takeProfit) return 'TAKE_PROFIT';
+    }
+
+    if (position.expiresAt && timestamp.getTime() >= position.expiresAt.getTime()) {
+      return 'EXPIRED';
+    }
+
+    return null;
+  }
+}
\ No newline at end of file
@@ -1,5 +1,9 @@
 import { TechnicalAnalysisService, TechnicalIndicators } from './technicalAnalysis';
-import { SentimentAnalyzer, SentimentData } from './sentimentAnalyzer';
+import { combineSentimentSources, DEFAULT_SOURCE_WEIGHTS, SentimentAnalyzer, SentimentData, SentimentSourceWeights } from './sentimentAnalyzer';
+import { inferCandleInterval, resampleCandles } from './marketData';
+import { FeaturePipeline } from './featurePipeline';
+import { ModelRegistry, TrainedModel } from './modelRegistry';
+import { Candle, PredictionHorizon, PredictionModel } from '../types/trading';
 
 export interface PredictionResult {
   symbol: string;
@@ -7,11 +11,42 @@ export interface PredictionResult {
   confidence: number;
   targetPrice: number;
   timeframe: string;
+  horizon: PredictionHorizon; // how far ahead the prediction is scored
+  price: number; // price the prediction was made at
   reasoning: string[];
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
   expectedReturn: number;
   stopLoss: number;
   takeProfit: number;
+  model: PredictionModel;
+  timeframes: TimeframeAnalysis[];
+  indicators: TechnicalIndicators; // latest-candle snapshot the prediction was scored on
+  sentiment: PredictionSentiment;
+  fallback?: boolean; // set on the placeholder returned when the prediction could not be made
+}
+
+export interface PredictionSentiment {
+  overall: number; // -1..1, the sentiment score that went into the prediction
+  news: number;
+  social: number; // twitter, reddit and telegram combined
+}
+
+export interface TimeframeAnalysis {
+  horizon: PredictionHorizon;
+  interval: number; // ms per candle the indicators ran on
+  bars: number;
+  signal: 'BUY' | 'SELL' | 'NEUTRAL';
+  score: number; // -1..1, signed technical conviction
+  confidence: number;
+  forecast: number;
+  derived: boolean; // projected from a shorter timeframe for lack of history
+}
+
+export interface PredictionEngineConfig {
+  weights: { technical: number; sentiment: number; market: number };
+  buyThreshold: number; // weighted score above which the rule-based path says BUY
+  sellThreshold: number; // and below which it says SELL
+  sentimentWeights?: SentimentSourceWeights; // re-weights sentiment sources; defaults to the analyzer's overall score
 }
 
 export interface MarketConditions {
@@ -21,14 +56,31 @@ export interface MarketConditions {
   marketCap: number;
 }
 
+const HOUR_MS = 60 * 60 * 1000;
+
+export const HORIZON_MS: Record<PredictionHorizon, number> = {
+  '1h': HOUR_MS,
+  '4h': 4 * HOUR_MS,
+  '24h': 24 * HOUR_MS,
+  '7d': 7 * 24 * HOUR_MS
+};
+
+const HORIZONS = Object.keys(HORIZON_MS) as PredictionHorizon[];
+
+// Enough bars for MACD(12, 26, 9) to have a signal line
+const MIN_TIMEFRAME_BARS = 35;
+
 export class PredictionEngine {
   private static instance: PredictionEngine;
   private technicalAnalysis: TechnicalAnalysisService;
   private sentimentAnalyzer: SentimentAnalyzer;
+  private model: TrainedModel | null = null;
+  private config: PredictionEngineConfig;
 
-  constructor() {
+  constructor(config: Partial<PredictionEngineConfig> = {}) {
     this.technicalAnalysis = TechnicalAnalysisService.getInstance();
     this.sentimentAnalyzer = SentimentAnalyzer.getInstance();
+    this.config = { ...this.getDefaultConfig(), ...config };
   }
 
   static getInstance(): PredictionEngine {
@@ -38,21 +90,50 @@ export class PredictionEngine {
     return PredictionEngine.instance;
   }
 
+  getDefaultConfig(): PredictionEngineConfig {
+    return {
+      weights: { technical: 0.5, sentiment: 0.3, market: 0.2 },
+      buyThreshold: 0.3,
+      sellThreshold: -0.3
+    };
+  }
+
+  getConfig(): PredictionEngineConfig {
+    return { ...this.config, weights: { ...this.config.weights } };
+  }
+
+  updateConfig(config: Partial<PredictionEngineConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Switches predictions to a trained model from the ModelRegistry (loading
+   * it from disk if needed), or back to the weighted scoring with null.
+   */
+  async useModel(name: string | null): Promise<void> {
+    this.model = name ? await ModelRegistry.getInstance().resolve(name) : null;
+  }
+
+  getActiveModel(): string | null {
+    return this.model ? this.model.info.name : null;
+  }
+
   async generatePrediction(
     symbol: string,
     currentPrice: number,
-    priceHistory: number[],
-    marketConditions: MarketConditions
+    candles: Candle[],
+    marketConditions: MarketConditions,
+    sentimentOverride?: SentimentData
   ): Promise<PredictionResult> {
     try {
       // Get technical indicators
-      const indicators = this.calculateTechnicalIndicators(priceHistory);
+      const indicators = this.technicalAnalysis.calculateIndicators(candles);
       
-      // Get sentiment data
-      const sentimentData = await this.sentimentAnalyzer.analyzeSentiment(symbol);
+      // Get sentiment data (historical runs pass their own to avoid live lookups)
+      const sentimentData = sentimentOverride || await this.sentimentAnalyzer.analyzeSentiment(symbol);
       
       // Analyze technical signals
-      const technicalSignals = this.technicalAnalysis.analyzeIndicators(indicators);
+      const technicalSignals = this.technicalAnalysis.analyzeIndicators(indicators, candles);
       const technicalOverall = this.technicalAnalysis.getOverallSignal(technicalSignals);
       
       // Calculate prediction scores
@@ -61,16 +142,29 @@ export class PredictionEngine {
       const marketScore = this.getMarketScore(marketConditions);
       
       // Weighted prediction
-      const weights = { technical: 0.5, sentiment: 0.3, market: 0.2 };
+      const weights = this.config.weights;
       const overallScore = (
         technicalScore * weights.technical +
         sentimentScore * weights.sentiment +
         marketScore * weights.market
       );
       
-      // Generate prediction
-      const prediction = this.determinePrediction(overallScore);
-      const confidence = this.calculateConfidence(technicalOverall.confidence, sentimentData, marketConditions);
+      // Generate prediction, from the selected model when there is one
+      const modelProbability = this.model
+        ? this.model.predictProbability(FeaturePipeline.getInstance().extractFeatures(
+          candles, this.model.info.usesSentiment ? sentimentData : null, marketConditions, indicators
+        ))
+        : null;
+      const prediction = modelProbability !== null
+        ? this.determineModelPrediction(modelProbability, this.model!.info.decisionMargin)
+        : this.determinePrediction(overallScore);
+      const baseConfidence = modelProbability !== null
+        ? Math.max(modelProbability, 1 - modelProbability)
+        : this.calculateConfidence(technicalOverall.confidence, sentimentData, marketConditions);
+
+      const timeframes = this.analyzeTimeframes(candles, currentPrice);
+      const alignment = this.calculateTimeframeAlignment(timeframes, prediction);
+      const confidence = Math.max(0, Math.min(1, baseConfidence * (1 + 0.25 * alignment)));
       
       // Calculate price targets
       const { targetPrice, stopLoss, takeProfit } = this.calculatePriceTargets(
@@ -87,18 +181,39 @@ export class PredictionEngine {
         marketConditions,
         prediction
       );
+      reasoning.push(this.describeTimeframes(timeframes, alignment, prediction));
+      if (modelProbability !== null) {
+        reasoning.unshift(
+          `Model ${this.model!.info.name} gives ${(modelProbability * 100).toFixed(1)}% odds of a rise over ${this.model!.info.horizon} bars`
+        );
+      }
       
+      const selectedHorizon = this.selectTimeframe(timeframes, prediction);
+
       return {
         symbol,
         prediction,
         confidence,
         targetPrice,
-        timeframe: this.determineTimeframe(marketConditions.volatility),
+        timeframe: selectedHorizon || this.determineTimeframe(marketConditions.volatility),
+        horizon: selectedHorizon || this.determineHorizon(marketConditions.volatility),
+        price: currentPrice,
         reasoning,
         riskLevel: this.assessRiskLevel(confidence, marketConditions.volatility),
         expectedReturn: this.calculateExpectedReturn(currentPrice, targetPrice),
         stopLoss,
-        takeProfit
+        takeProfit,
+        model: this.buildPredictionModel(symbol, timeframes, confidence),
+        timeframes,
+        indicators,
+        sentiment: {
+          overall: sentimentScore,
+          news: sentimentData.sources.news,
+          social: combineSentimentSources(sentimentData.sources, {
+            ...(this.config.sentimentWeights || DEFAULT_SOURCE_WEIGHTS),
+            news: 0
+          })
+        }
       };
     } catch (error) {
       console.error('Error generating prediction:', error);
@@ -106,31 +221,119 @@ export class PredictionEngine {
     }
   }
 
-  private calculateTechnicalIndicators(priceHistory: number[]): TechnicalIndicators {
-    const rsi = this.technicalAnalysis.calculateRSI(priceHistory);
-    const macd = this.technicalAnalysis.calculateMACD(priceHistory);
-    const bollingerBands = this.technicalAnalysis.calculateBollingerBands(priceHistory);
-    
-    return {
-      rsi,
-      macd,
-      bollingerBands,
-      movingAverages: {
-        sma20: this.technicalAnalysis.calculateSMA(priceHistory, 20),
-        sma50: this.technicalAnalysis.calculateSMA(priceHistory, 50),
-        sma200: this.technicalAnalysis.calculateSMA(priceHistory, 200),
-        ema12: this.technicalAnalysis.calculateEMA(priceHistory, 12),
-        ema26: this.technicalAnalysis.calculateEMA(priceHistory, 26)
-      },
-      stochastic: this.technicalAnalysis.calculateStochastic(priceHistory, priceHistory, priceHistory),
-      volume: {
-        current: 1000000,
-        average: 800000,
-        ratio: 1.25
+  /**
+   * Runs the indicator set on candles resampled to each horizon and projects
+   * the horizon's price from the signed technical score times one ATR of that
+   * timeframe. Horizons without enough resampled history are projected from
+   * the longest analysed timeframe, with ATR and confidence scaled by the
+   * square root of the time ratio.
+   */
+  analyzeTimeframes(candles: Candle[], currentPrice: number): TimeframeAnalysis[] {
+    const baseInterval = inferCandleInterval(candles);
+    const analyses: TimeframeAnalysis[] = [];
+    let reference: { analysis: TimeframeAnalysis; atr: number } | null = null;
+
+    for (const horizon of HORIZONS) {
+      const horizonMs = HORIZON_MS[horizon];
+      const interval = Math.max(horizonMs, baseInterval);
+      const series = interval > baseInterval ? resampleCandles(candles, interval) : candles;
+
+      if (reference && series.length < MIN_TIMEFRAME_BARS) {
+        const timeRatio = horizonMs / reference.analysis.interval;
+        analyses.push({
+          ...reference.analysis,
+          horizon,
+          confidence: reference.analysis.confidence / Math.sqrt(timeRatio),
+          forecast: currentPrice + reference.analysis.score * reference.atr * Math.sqrt(timeRatio),
+          derived: true
+        });
+        continue;
       }
+
+      const indicators = this.technicalAnalysis.calculateIndicators(series);
+      const overall = this.technicalAnalysis.getOverallSignal(this.technicalAnalysis.analyzeIndicators(indicators, series));
+      const score = this.getTechnicalScore(overall);
+      const analysis: TimeframeAnalysis = {
+        horizon,
+        interval,
+        bars: series.length,
+        signal: overall.signal,
+        score,
+        confidence: overall.confidence,
+        forecast: currentPrice + score * indicators.atr * Math.sqrt(horizonMs / interval),
+        derived: false
+      };
+
+      analyses.push(analysis);
+      reference = { analysis, atr: indicators.atr };
+    }
+
+    return analyses;
+  }
+
+  /**
+   * Confidence-weighted agreement of the timeframes with the predicted
+   * direction: 1 when all point the same way, -1 when all oppose it.
+   */
+  private calculateTimeframeAlignment(timeframes: TimeframeAnalysis[], prediction: PredictionResult['prediction']): number {
+    if (prediction === 'HOLD') return 0;
+
+    const direction = prediction === 'BUY' ? 1 : -1;
+    const independent = timeframes.filter(timeframe => !timeframe.derived && timeframe.score !== 0);
+    const totalWeight = independent.reduce((sum, timeframe) => sum + timeframe.confidence, 0);
+    if (totalWeight === 0) return 0;
+
+    return independent.reduce((sum, timeframe) => {
+      return sum + Math.sign(timeframe.score) * direction * timeframe.confidence;
+    }, 0) / totalWeight;
+  }
+
+  private selectTimeframe(timeframes: TimeframeAnalysis[], prediction: PredictionResult['prediction']): PredictionHorizon | null {
+    const best = timeframes
+      .filter(timeframe => timeframe.signal === prediction)
+      .sort((a, b) => b.confidence - a.confidence)[0];
+
+    return best ? best.horizon : null;
+  }
+
+  private buildPredictionModel(symbol: string, timeframes: TimeframeAnalysis[], confidence: number): PredictionModel {
+    const predictions = {} as PredictionModel['predictions'];
+    const horizonConfidence = {} as PredictionModel['horizonConfidence'];
+
+    timeframes.forEach(timeframe => {
+      predictions[timeframe.horizon] = timeframe.forecast;
+      horizonConfidence[timeframe.horizon] = timeframe.confidence;
+    });
+
+    return {
+      symbol,
+      predictions,
+      horizonConfidence,
+      confidence,
+      factors: timeframes.map(timeframe =>
+        `${timeframe.horizon}: ${timeframe.signal} (${(timeframe.confidence * 100).toFixed(0)}%)` +
+        (timeframe.derived ? ' projected' : ` on ${timeframe.bars} bars`)
+      ),
+      lastUpdated: new Date()
     };
   }
 
+  private describeTimeframes(
+    timeframes: TimeframeAnalysis[],
+    alignment: number,
+    prediction: PredictionResult['prediction']
+  ): string {
+    const summary = timeframes
+      .filter(timeframe => !timeframe.derived)
+      .map(timeframe => `${timeframe.horizon} ${timeframe.signal}`)
+      .join(', ');
+
+    if (prediction === 'HOLD') return `Timeframe signals: ${summary}`;
+    if (alignment > 0.5) return `Timeframes confirm the signal (${summary})`;
+    if (alignment < -0.5) return `Timeframes conflict with the signal (${summary})`;
+    return `Timeframes are mixed (${summary})`;
+  }
+
   private getTechnicalScore(technicalOverall: { signal: string; confidence: number }): number {
     const baseScore = technicalOverall.signal === 'BUY' ? 1 : 
                      technicalOverall.signal === 'SELL' ? -1 : 0;
@@ -138,7 +341,9 @@ export class PredictionEngine {
   }
 
   private getSentimentScore(sentimentData: SentimentData): number {
-    return sentimentData.overall;
+    return this.config.sentimentWeights
+      ? combineSentimentSources(sentimentData.sources, this.config.sentimentWeights)
+      : sentimentData.overall;
   }
 
   private getMarketScore(marketConditions: MarketConditions): number {
@@ -157,8 +362,14 @@ export class PredictionEngine {
   }
 
   private determinePrediction(score: number): 'BUY' | 'SELL' | 'HOLD' {
-    if (score > 0.3) return 'BUY';
-    if (score < -0.3) return 'SELL';
+    if (score > this.config.buyThreshold) return 'BUY';
+    if (score < this.config.sellThreshold) return 'SELL';
+    return 'HOLD';
+  }
+
+  private determineModelPrediction(probability: number, margin: number): 'BUY' | 'SELL' | 'HOLD' {
+    if (probability > 0.5 + margin) return 'BUY';
+    if (probability < 0.5 - margin) return 'SELL';
     return 'HOLD';
   }
 
@@ -233,6 +444,10 @@ export class PredictionEngine {
     return '1-2 weeks';
   }
 
+  private determineHorizon(volatility: number): PredictionHorizon {
+    return volatility > 0.7 ? '24h' : '7d';
+  }
+
   private assessRiskLevel(confidence: number, volatility: number): 'LOW' | 'MEDIUM' | 'HIGH' {
     const riskScore = (1 - confidence) + volatility;
     
@@ -252,11 +467,25 @@ export class PredictionEngine {
       confidence: 0.5,
       targetPrice: currentPrice,
       timeframe: '1 week',
+      horizon: '7d',
+      price: currentPrice,
       reasoning: ['Insufficient data for accurate prediction'],
       riskLevel: 'MEDIUM',
       expectedReturn: 0,
       stopLoss: currentPrice * 0.95,
-      takeProfit: currentPrice * 1.05
+      takeProfit: currentPrice * 1.05,
+      model: {
+        symbol,
+        predictions: { '1h': currentPrice, '4h': currentPrice, '24h': currentPrice, '7d': currentPrice },
+        horizonConfidence: { '1h': 0, '4h': 0, '24h': 0, '7d': 0 },
+        confidence: 0.5,
+        factors: [],
+        lastUpdated: new Date()
+      },
+      timeframes: [],
+      indicators: this.technicalAnalysis.calculateIndicators([]),
+      sentiment: { overall: 0, news: 0, social: 0 },
+      fallback: true
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,391 @@
+import { HORIZON_MS, PredictionResult } from './predictionEngine';
+import { StateStore } from './stateStore';
+import { Candle, PredictionHorizon } from '../types/trading';
+
+export type PredictionStatus = 'PENDING' | 'HIT' | 'FAIL';
+
+export interface TrackedPrediction {
+  id: string;
+  symbol: string;
+  strategy: string;
+  horizon: PredictionHorizon;
+  prediction: PredictionResult['prediction'];
+  confidence: number;
+  price: number;
+  targetPrice: number;
+  createdAt: Date;
+  dueAt: Date;
+  status: PredictionStatus;
+  realizedPrice?: number;
+  realizedReturn?: number; // close at the horizon over the entry price, minus one
+  resolvedAt?: Date;
+}
+
+export interface PredictionFilter {
+  symbol?: string;
+  strategy?: string;
+  horizon?: PredictionHorizon;
+  since?: Date;
+}
+
+/**
+ * Mirrors the Learning Engine's episode counters and statistics: `periods`
+ * counts scored predictions, `hitFail` is the latest outcome and `days` the
+ * span from the first prediction to the last scoring.
+ */
+export interface OutcomeStatistics {
+  periods: number;
+  hits: number;
+  fails: number;
+  pending: number;
+  hitRatio: number;
+  hitFail: 'Hit' | 'Fail' | '';
+  days: number;
+  averageReturn: number; // realized return in the predicted direction, BUY/SELL only
+}
+
+export type OutcomeDimension = 'symbol' | 'strategy' | 'horizon';
+
+export interface CalibrationBucket {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  hitRatio: number;
+}
+
+export interface CalibrationReport {
+  samples: number;
+  buckets: CalibrationBucket[];
+  brierScore: number;
+  expectedCalibrationError: number; // count-weighted |hit ratio - confidence| over buckets
+}
+
+export interface PredictionTrackerConfig {
+  holdBand: number; // a HOLD is a hit when the price moves less than this fraction
+  minMove: number; // a BUY/SELL is a hit only when price moves at least this fraction its way
+  retentionMs: number; // scored predictions are dropped this long after they resolve
+  flushDelayMs: number; // changes within this window are written as one batch
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stores every prediction with its horizon and scores it once a price at or
+ * after the horizon is known. Changes are written to the state store in
+ * batches, and statistics cover the retention window.
+ */
+export class PredictionTracker {
+  private static instance: PredictionTracker;
+  private predictions: Map<string, TrackedPrediction> = new Map();
+  private config: PredictionTrackerConfig = { holdBand: 0.01, minMove: 0, retentionMs: 90 * DAY_MS, flushDelayMs: 1000 };
+  private ready: Promise<void>;
+  private sequence = 0;
+  private dirty = new Set<string>();
+  private removed = new Set<string>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private stateStore: StateStore = StateStore.getInstance()) {
+    this.ready = this.restore();
+    this.stateStore.onBackendChange(() => {
+      this.ready = this.restore();
+    });
+  }
+
+  static getInstance(): PredictionTracker {
+    if (!PredictionTracker.instance) {
+      PredictionTracker.instance = new PredictionTracker();
+    }
+    return PredictionTracker.instance;
+  }
+
+  async track(result: PredictionResult, strategy = 'default', createdAt: Date = new Date()): Promise<TrackedPrediction> {
+    await this.ready;
+
+    const tracked: TrackedPrediction = {
+      id: `prediction_${result.symbol}_${createdAt.getTime()}_${this.sequence++}`,
+      symbol: result.symbol,
+      strategy,
+      horizon: result.horizon,
+      prediction: result.prediction,
+      confidence: result.confidence,
+      price: result.price,
+      targetPrice: result.targetPrice,
+      createdAt,
+      dueAt: new Date(createdAt.getTime() + HORIZON_MS[result.horizon]),
+      status: 'PENDING'
+    };
+
+    this.predictions.set(tracked.id, tracked);
+    this.save(tracked);
+    return tracked;
+  }
+
+  /**
+   * Scores the symbol's pending predictions that are due by `at` against
+   * `price`. Returns the newly scored predictions.
+   */
+  async resolve(symbol: string, price: number, at: Date = new Date()): Promise<TrackedPrediction[]> {
+    await this.ready;
+
+    const resolved = this.getPending(symbol)
+      .filter(prediction => prediction.dueAt.getTime() <= at.getTime())
+      .map(prediction => this.score(prediction, price, at));
+    this.prune(at);
+    return resolved;
+  }
+
+  /**
+   * Scores pending predictions against the close of the first candle at or
+   * after each one's horizon, for replaying history.
+   */
+  async resolveFromCandles(symbol: string, candles: Candle[]): Promise<TrackedPrediction[]> {
+    await this.ready;
+
+    const sorted = [...candles].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const resolved: TrackedPrediction[] = [];
+
+    this.getPending(symbol).forEach(prediction => {
+      const candle = sorted.find(c => c.timestamp.getTime() >= prediction.dueAt.getTime());
+      if (candle) {
+        resolved.push(this.score(prediction, candle.close, candle.timestamp));
+      }
+    });
+
+    if (sorted.length > 0) this.prune(sorted[sorted.length - 1].timestamp);
+    return resolved;
+  }
+
+  async getPredictions(filter: PredictionFilter = {}): Promise<TrackedPrediction[]> {
+    await this.ready;
+    return this.filter(filter);
+  }
+
+  async getStatistics(filter: PredictionFilter = {}): Promise<OutcomeStatistics> {
+    await this.ready;
+    return this.calculateStatistics(this.filter(filter));
+  }
+
+  /**
+   * Statistics grouped by symbol, strategy or horizon.
+   */
+  async getBreakdown(dimension: OutcomeDimension, filter: PredictionFilter = {}): Promise<Record<string, OutcomeStatistics>> {
+    await this.ready;
+
+    const groups = new Map<string, TrackedPrediction[]>();
+    this.filter(filter).forEach(prediction => {
+      const key = prediction[dimension];
+      const group = groups.get(key);
+      if (group) group.push(prediction);
+      else groups.set(key, [prediction]);
+    });
+
+    const breakdown: Record<string, OutcomeStatistics> = {};
+    groups.forEach((predictions, key) => {
+      breakdown[key] = this.calculateStatistics(predictions);
+    });
+    return breakdown;
+  }
+
+  /**
+   * Buckets scored predictions by confidence and compares each bucket's
+   * average confidence with how often it was right. A well calibrated engine
+   * hits about 80% of its 0.8-confidence calls.
+   */
+  async getCalibration(filter: PredictionFilter = {}, bucketCount = 10): Promise<CalibrationReport> {
+    await this.ready;
+
+    const scored = this.filter(filter).filter(prediction => prediction.status !== 'PENDING');
+    const bucketOf = (confidence: number) => Math.min(bucketCount - 1, Math.max(0, Math.floor(confidence * bucketCount)));
+    const buckets: CalibrationBucket[] = [];
+    let brier = 0;
+    let calibrationError = 0;
+
+    for (let i = 0; i < bucketCount; i++) {
+      const lower = i / bucketCount;
+      const upper = (i + 1) / bucketCount;
+      const members = scored.filter(prediction => bucketOf(prediction.confidence) === i);
+      const hits = members.filter(prediction => prediction.status === 'HIT').length;
+      const meanConfidence = members.length
+        ? members.reduce((sum, prediction) => sum + prediction.confidence, 0) / members.length
+        : 0;
+      const hitRatio = members.length ? hits / members.length : 0;
+
+      buckets.push({ lower, upper, count: members.length, meanConfidence, hitRatio });
+      calibrationError += members.length * Math.abs(hitRatio - meanConfidence);
+    }
+
+    scored.forEach(prediction => {
+      brier += Math.pow(prediction.confidence - (prediction.status === 'HIT' ? 1 : 0), 2);
+    });
+
+    return {
+      samples: scored.length,
+      buckets,
+      brierScore: scored.length ? brier / scored.length : 0,
+      expectedCalibrationError: scored.length ? calibrationError / scored.length : 0
+    };
+  }
+
+  getConfig(): PredictionTrackerConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(config: Partial<PredictionTrackerConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Writes the predictions tracked or scored since the last flush and drops
+   * the pruned ones. Runs on its own `flushDelayMs` after a change; await it
+   * before reading the state store directly or shutting down.
+   */
+  async flush(): Promise<void> {
+    await this.ready;
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    return this.queueWrite();
+  }
+
+  private score(prediction: TrackedPrediction, price: number, at: Date): TrackedPrediction {
+    const realizedReturn = prediction.price ? price / prediction.price - 1 : 0;
+    const hit = prediction.prediction === 'BUY'
+      ? realizedReturn > this.config.minMove
+      : prediction.prediction === 'SELL'
+        ? realizedReturn < -this.config.minMove
+        : Math.abs(realizedReturn) < this.config.holdBand;
+
+    const scored: TrackedPrediction = {
+      ...prediction,
+      status: hit ? 'HIT' : 'FAIL',
+      realizedPrice: price,
+      realizedReturn,
+      resolvedAt: at
+    };
+
+    this.predictions.set(scored.id, scored);
+    this.save(scored);
+    return scored;
+  }
+
+  private calculateStatistics(predictions: TrackedPrediction[]): OutcomeStatistics {
+    const scored = predictions
+      .filter(prediction => prediction.status !== 'PENDING')
+      .sort((a, b) => a.resolvedAt!.getTime() - b.resolvedAt!.getTime());
+    const hits = scored.filter(prediction => prediction.status === 'HIT').length;
+    const directional = scored.filter(prediction => prediction.prediction !== 'HOLD');
+    const last = scored[scored.length - 1];
+    const first = predictions.reduce<TrackedPrediction | null>(
+      (earliest, prediction) => (!earliest || prediction.createdAt < earliest.createdAt ? prediction : earliest),
+      null
+    );
+
+    return {
+      periods: scored.length,
+      hits,
+      fails: scored.length - hits,
+      pending: predictions.length - scored.length,
+      hitRatio: scored.length ? hits / scored.length : 0,
+      hitFail: last ? (last.status === 'HIT' ? 'Hit' : 'Fail') : '',
+      days: first && last ? (last.resolvedAt!.getTime() - first.createdAt.getTime()) / DAY_MS : 0,
+      averageReturn: directional.length
+        ? directional.reduce((sum, prediction) =>
+          sum + (prediction.prediction === 'BUY' ? 1 : -1) * prediction.realizedReturn!, 0) / directional.length
+        : 0
+    };
+  }
+
+  private getPending(symbol: string): TrackedPrediction[] {
+    return Array.from(this.predictions.values())
+      .filter(prediction => prediction.symbol === symbol && prediction.status === 'PENDING');
+  }
+
+  private filter(filter: PredictionFilter): TrackedPrediction[] {
+    return Array.from(this.predictions.values())
+      .filter(prediction =>
+        (!filter.symbol || prediction.symbol === filter.symbol) &&
+        (!filter.strategy || prediction.strategy === filter.strategy) &&
+        (!filter.horizon || prediction.horizon === filter.horizon) &&
+        (!filter.since || prediction.createdAt.getTime() >= filter.since.getTime())
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Drops predictions scored more than the retention window before `now`.
+   */
+  private prune(now: Date): void {
+    const cutoff = now.getTime() - this.config.retentionMs;
+
+    this.predictions.forEach(prediction => {
+      if (prediction.resolvedAt && prediction.resolvedAt.getTime() < cutoff) {
+        this.predictions.delete(prediction.id);
+        this.dirty.delete(prediction.id);
+        this.removed.add(prediction.id);
+      }
+    });
+    if (this.removed.size > 0) this.scheduleFlush();
+  }
+
+  private save(prediction: TrackedPrediction): void {
+    this.dirty.add(prediction.id);
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.queueWrite().catch(error => {
+        console.error('Error persisting tracked predictions:', error);
+      });
+    }, this.config.flushDelayMs);
+    // A pending flush should not keep a Node process (CLI run, test) alive
+    this.flushTimer.unref?.();
+  }
+
+  // Batches are written one after another so a prune never races the save it follows
+  private queueWrite(): Promise<void> {
+    this.writing = this.writing.catch(() => undefined).then(() => this.writeChanges());
+    return this.writing;
+  }
+
+  private async writeChanges(): Promise<void> {
+    const changed = Array.from(this.dirty)
+      .map(id => this.predictions.get(id))
+      .filter((prediction): prediction is TrackedPrediction => prediction !== undefined);
+    const removed = Array.from(this.removed);
+    this.dirty.clear();
+    this.removed.clear();
+
+    try {
+      if (changed.length > 0) await this.stateStore.savePredictions(changed);
+      if (removed.length > 0) await this.stateStore.deletePredictions(removed);
+    } catch (error) {
+      // Retried with the next batch
+      changed.forEach(prediction => this.dirty.add(prediction.id));
+      removed.forEach(id => this.removed.add(id));
+      throw error;
+    }
+  }
+
+  /**
+   * Loads the store's predictions in place of the ones held, which belong to
+   * the previous backend when the store switches.
+   */
+  private async restore(): Promise<void> {
+    this.predictions.clear();
+    this.dirty.clear();
+    this.removed.clear();
+
+    try {
+      const predictions = await this.stateStore.getPredictions();
+      predictions.forEach(prediction => this.predictions.set(prediction.id, prediction));
+      this.prune(new Date());
+    } catch (error) {
+      console.error('Error restoring tracked predictions:', error);
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import axios, { AxiosInstance } from 'axios';
+import { createHmac } from 'crypto';
+import { WebSocket as NodeWebSocket } from 'ws';
+import {
+  ExchangeConnector,
+  ExchangeConnectorConfig,
+  ExchangeOrder,
+  ExchangeOrderPayload,
+  OrderFillPayload,
+  parseFill,
+  parseOrder,
+  PublicTrade,
+  PublicTradePayload,
+  TradeListener,
+  WebSocketFactory,
+  WebSocketLike
+} from './exchangeConnector';
+import { Balance, OrderEvent, OrderEventListener, OrderEventType, OrderRequest } from './paperExchange';
+
+const WS_OPEN = 1;
+
+/** Messages pushed on the exchange WebSocket, by channel. */
+type ExchangeMessage =
+  | { channel: 'trades'; data: PublicTradePayload }
+  | { channel: 'orders'; event: OrderEventType; data: ExchangeOrderPayload; fill?: OrderFillPayload; timestamp?: string }
+  | { channel: 'error'; message: string };
+
+/**
+ * HMAC-SHA256 over `timestamp + METHOD + path + body`, hex encoded. Shared by
+ * the REST adapter and the mock server so both sides agree on the scheme.
+ */
+export function signRequest(secret: string, timestamp: string, method: string, path: string, body: string = ''): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}${method.toUpperCase()}${path}${body}`)
+    .digest('hex');
+}
+
+// Node has no global WebSocket before v22, so the `ws` package is the default
+export function createWebSocket(url: string): WebSocketLike {
+  return new NodeWebSocket(url) as unknown as WebSocketLike;
+}
+
+/**
+ * Adapter for a generic REST + WebSocket exchange protocol:
+ *
+ *   POST   /orders            place an order (OrderRequest body)
+ *   DELETE /orders/:id        cancel an order
+ *   GET    /orders?symbol=    open orders
+ *   GET    /balances          balances by asset
+ *
+ * Authenticated requests carry X-API-KEY, X-API-TIMESTAMP and X-API-SIGNATURE
+ * headers (see signRequest). The WebSocket accepts `auth` and `subscribe` ops
+ * and pushes `trades` and `orders` channel messages.
+ */
+export class RestExchangeConnector implements ExchangeConnector {
+  readonly name = 'rest';
+  private http: AxiosInstance;
+  private socket: WebSocketLike | null = null;
+  private tradeListeners = new Map<string, Set<TradeListener>>();
+  private orderListeners = new Set<OrderEventListener>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closing = false;
+
+  constructor(
+    private config: ExchangeConnectorConfig,
+    private webSocketFactory: WebSocketFactory = createWebSocket
+  ) {
+    if (!config.restUrl || !config.wsUrl) {
+      throw new Error('Live exchange connector requires restUrl and wsUrl');
+    }
+    if (!config.credentials) {
+      throw new Error('Live exchange connector requires API credentials');
+    }
+
+    this.http = axios.create({ baseURL: config.restUrl, timeout: 10000 });
+  }
+
+  connect(): Promise<void> {
+    this.closing = false;
+
+    return new Promise((resolve, reject) => {
+      const socket = this.webSocketFactory(this.config.wsUrl!);
+      this.socket = socket;
+
+      socket.onopen = () => {
+        this.authenticateSocket();
+        this.send({ op: 'subscribe', channel: 'orders' });
+        this.tradeListeners.forEach((_, symbol) => this.send({ op: 'subscribe', channel: 'trades', symbol }));
+        resolve();
+      };
+      socket.onmessage = event => this.handleMessage(event.data);
+      socket.onerror = error => {
+        console.error('Exchange WebSocket error:', error);
+        if (socket.readyState !== WS_OPEN) reject(new Error('Failed to connect to exchange WebSocket'));
+      };
+      socket.onclose = () => {
+        this.socket = null;
+        if (!this.closing) this.scheduleReconnect();
+      };
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    this.closing = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  async placeOrder(request: OrderRequest): Promise<ExchangeOrder> {
+    const response = await this.request<ExchangeOrderPayload>('POST', '/orders', request);
+    return parseOrder(response);
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    try {
+      const response = await this.request<{ cancelled: boolean }>('DELETE', `/orders/${encodeURIComponent(orderId)}`);
+      return Boolean(response.cancelled);
+    } catch (error) {
+      console.error(`Error cancelling order ${orderId}:`, error);
+      return false;
+    }
+  }
+
+  async getBalances(): Promise<Record<string, Balance>> {
+    return this.request<Record<string, Balance>>('GET', '/balances');
+  }
+
+  async getOpenOrders(symbol?: string): Promise<ExchangeOrder[]> {
+    const path = symbol ? `/orders?symbol=${encodeURIComponent(symbol)}` : '/orders';
+    const response = await this.request<ExchangeOrderPayload[]>('GET', path);
+    return response.map(parseOrder);
+  }
+
+  subscribeTrades(symbol: string, listener: TradeListener): () => void {
+    if (!this.tradeListeners.has(symbol)) {
+      this.tradeListeners.set(symbol, new Set());
+      this.send({ op: 'subscribe', channel: 'trades', symbol });
+    }
+    this.tradeListeners.get(symbol)!.add(listener);
+
+    return () => {
+      const listeners = this.tradeListeners.get(symbol);
+      listeners?.delete(listener);
+      if (listeners && listeners.size === 0) {
+        this.tradeListeners.delete(symbol);
+        this.send({ op: 'unsubscribe', channel: 'trades', symbol });
+      }
+    };
+  }
+
+  onOrderUpdate(listener: OrderEventListener): () => void {
+    this.orderListeners.add(listener);
+    return () => this.orderListeners.delete(listener);
+  }
+
+  private async request<T>(method: 'GET' | 'POST' | 'DELETE', path: string, data?: unknown): Promise<T> {
+    const body = data === undefined ? '' : JSON.stringify(data);
+    const timestamp = Date.now().toString();
+    const { apiKey, apiSecret } = this.config.credentials!;
+
+    const response = await this.http.request<T>({
+      method,
+      url: path,
+      data: body || undefined,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-KEY': apiKey,
+        'X-API-TIMESTAMP': timestamp,
+        'X-API-SIGNATURE': signRequest(apiSecret, timestamp, method, path, body)
+      }
+    });
+
+    return response.data;
+  }
+
+  private authenticateSocket(): void {
+    const timestamp = Date.now().toString();
+    const { apiKey, apiSecret } = this.config.credentials!;
+
+    this.send({
+      op: 'auth',
+      apiKey,
+      timestamp,
+      signature: signRequest(apiSecret, timestamp, 'GET', '/ws')
+    });
+  }
+
+  // Browsers deliver strings; `ws` delivers Buffers
+  private handleMessage(data: unknown): void {
+    let message: ExchangeMessage;
+
+    try {
+      message = JSON.parse(typeof data === 'string' ? data : String(data));
+    } catch (error) {
+      console.error('Invalid exchange message:', error);
+      return;
+    }
+
+    if (message.channel === 'trades') {
+      const trade: PublicTrade = { ...message.data, timestamp: new Date(message.data.timestamp) };
+      this.tradeListeners.get(trade.symbol)?.forEach(listener => listener(trade));
+    } else if (message.channel === 'orders') {
+      const event: OrderEvent = {
+        type: message.event,
+        order: parseOrder(message.data),
+        fill: message.fill ? parseFill(message.fill) : undefined,
+        timestamp: new Date(message.timestamp || Date.now())
+      };
+      this.orderListeners.forEach(listener => {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error('Error in order event listener:', error);
+        }
+      });
+    } else if (message.channel === 'error') {
+      console.error('Exchange WebSocket error message:', message.message);
+    }
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.socket && this.socket.readyState === WS_OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(error => {
+        console.error('Exchange reconnect failed:', error);
+        this.scheduleReconnect();
+      });
+    }, this.config.reconnectDelay ?? 5000);
+  }
+}
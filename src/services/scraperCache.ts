@@ -0,0 +1,235 @@
+import { CacheEntry, StateStore } from './stateStore';
+
+export interface CacheFamilyPolicy {
+  ttl: number; // ms an entry is fresh
+  staleTtl: number; // further ms it is served while a refresh runs in the background
+  maxEntries: number; // least recently used entries are evicted past this
+  persist: boolean; // also keep entries in the disk tier
+}
+
+export interface CacheFamilyMetrics {
+  hits: number;
+  staleHits: number;
+  diskHits: number;
+  misses: number;
+  coalesced: number; // requests that joined a fetch already in flight
+  refreshes: number;
+  refreshErrors: number;
+  evictions: number;
+  size: number;
+}
+
+export type CacheDiskTier = Pick<StateStore, 'getCacheEntry' | 'setCacheEntry' | 'deleteCacheEntry'>;
+
+export interface CacheGetOptions<T> {
+  shouldCache?: (value: T) => boolean; // e.g. skip results where every source failed
+}
+
+const DEFAULT_POLICY: CacheFamilyPolicy = {
+  ttl: 5 * 60 * 1000,
+  staleTtl: 0,
+  maxEntries: 500,
+  persist: true
+};
+
+export const DEFAULT_FAMILY_POLICIES: Record<string, Partial<CacheFamilyPolicy>> = {
+  news: { ttl: 5 * 60 * 1000, staleTtl: 30 * 60 * 1000, maxEntries: 200 },
+  social: { ttl: 2 * 60 * 1000, staleTtl: 10 * 60 * 1000, maxEntries: 200 }
+};
+
+/**
+ * Two-tier cache for scraped data: an LRU map in memory per key family over
+ * an optional disk tier. The family is the key prefix before the first `_`,
+ * e.g. `news_BTC` belongs to `news`. Stale entries are returned at once while
+ * one background refresh replaces them, and identical concurrent misses share
+ * a single fetch.
+ */
+export class ScraperCache {
+  private policies: Record<string, Partial<CacheFamilyPolicy>>;
+  private families = new Map<string, Map<string, CacheEntry>>();
+  private inflight = new Map<string, Promise<unknown>>();
+  private metrics = new Map<string, CacheFamilyMetrics>();
+
+  constructor(
+    policies: Record<string, Partial<CacheFamilyPolicy>> = DEFAULT_FAMILY_POLICIES,
+    private disk: CacheDiskTier | null = StateStore.getInstance(),
+    private now: () => number = () => Date.now()
+  ) {
+    this.policies = { ...policies };
+  }
+
+  setPolicy(family: string, policy: Partial<CacheFamilyPolicy>): void {
+    this.policies[family] = { ...this.policies[family], ...policy };
+    this.evict(family);
+  }
+
+  getPolicy(family: string): CacheFamilyPolicy {
+    return { ...DEFAULT_POLICY, ...this.policies[family] };
+  }
+
+  async get<T>(key: string, fetch: () => Promise<T>, options: CacheGetOptions<T> = {}): Promise<T> {
+    const family = this.familyOf(key);
+    const policy = this.getPolicy(family);
+    const metrics = this.getFamilyMetrics(family);
+
+    let entry = this.readMemory(family, key);
+    if (!entry && policy.persist && this.disk) {
+      entry = await this.readDisk(key);
+      if (entry && this.age(entry) < policy.ttl + policy.staleTtl) {
+        metrics.diskHits++;
+        this.writeMemory(family, key, entry);
+      }
+    }
+
+    if (entry) {
+      const age = this.age(entry);
+      if (age < policy.ttl) {
+        metrics.hits++;
+        return entry.data as T;
+      }
+      if (age < policy.ttl + policy.staleTtl) {
+        metrics.staleHits++;
+        if (!this.inflight.has(key)) {
+          metrics.refreshes++;
+          this.load(key, fetch, options).catch(error => {
+            metrics.refreshErrors++;
+            console.error(`Error refreshing cache entry ${key}:`, error);
+          });
+        }
+        return entry.data as T;
+      }
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) {
+      metrics.coalesced++;
+      return pending as Promise<T>;
+    }
+
+    metrics.misses++;
+    return this.load(key, fetch, options);
+  }
+
+  set<T>(key: string, data: T): void {
+    const entry = { data, timestamp: this.now() };
+    const family = this.familyOf(key);
+    this.writeMemory(family, key, entry);
+
+    if (this.getPolicy(family).persist && this.disk) {
+      this.disk.setCacheEntry(key, entry).catch(error => {
+        console.error('Error persisting cache entry:', error);
+      });
+    }
+  }
+
+  /** Drops one key, or every key starting with `prefix` when it ends in `_`. */
+  invalidate(keyOrPrefix: string): void {
+    const keys = keyOrPrefix.endsWith('_')
+      ? Array.from(this.families.get(this.familyOf(keyOrPrefix))?.keys() || []).filter(key => key.startsWith(keyOrPrefix))
+      : [keyOrPrefix];
+    keys.forEach(key => this.remove(this.familyOf(key), key));
+  }
+
+  getMetrics(): Record<string, CacheFamilyMetrics> {
+    const result: Record<string, CacheFamilyMetrics> = {};
+    this.metrics.forEach((metrics, family) => {
+      result[family] = { ...metrics, size: this.families.get(family)?.size || 0 };
+    });
+    return result;
+  }
+
+  /** Share of lookups answered from cache, fresh or stale, per family. */
+  getHitRate(family: string): number {
+    const metrics = this.getFamilyMetrics(family);
+    const answered = metrics.hits + metrics.staleHits;
+    const total = answered + metrics.misses + metrics.coalesced;
+    return total ? answered / total : 0;
+  }
+
+  resetMetrics(): void {
+    this.metrics.clear();
+  }
+
+  private load<T>(key: string, fetch: () => Promise<T>, options: CacheGetOptions<T>): Promise<T> {
+    const request = fetch()
+      .then(value => {
+        if (!options.shouldCache || options.shouldCache(value)) {
+          this.set(key, value);
+        }
+        return value;
+      })
+      .finally(() => {
+        this.inflight.delete(key);
+      });
+
+    this.inflight.set(key, request);
+    return request;
+  }
+
+  private readMemory(family: string, key: string): CacheEntry | undefined {
+    const entries = this.families.get(family);
+    const entry = entries?.get(key);
+    if (entries && entry) {
+      // Re-insert so iteration order stays least recently used first
+      entries.delete(key);
+      entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private async readDisk(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return await this.disk!.getCacheEntry(key);
+    } catch (error) {
+      console.error('Error reading persisted cache:', error);
+      return undefined;
+    }
+  }
+
+  private writeMemory(family: string, key: string, entry: CacheEntry): void {
+    const entries = this.families.get(family) || new Map<string, CacheEntry>();
+    this.families.set(family, entries);
+    entries.delete(key);
+    entries.set(key, entry);
+    this.evict(family);
+  }
+
+  private evict(family: string): void {
+    const entries = this.families.get(family);
+    const { maxEntries } = this.getPolicy(family);
+    if (!entries) return;
+
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value as string;
+      this.remove(family, oldest);
+      this.getFamilyMetrics(family).evictions++;
+    }
+  }
+
+  private remove(family: string, key: string): void {
+    this.families.get(family)?.delete(key);
+    if (this.getPolicy(family).persist && this.disk) {
+      this.disk.deleteCacheEntry(key).catch(error => {
+        console.error('Error deleting persisted cache entry:', error);
+      });
+    }
+  }
+
+  private getFamilyMetrics(family: string): CacheFamilyMetrics {
+    let metrics = this.metrics.get(family);
+    if (!metrics) {
+      metrics = { hits: 0, staleHits: 0, diskHits: 0, misses: 0, coalesced: 0, refreshes: 0, refreshErrors: 0, evictions: 0, size: 0 };
+      this.metrics.set(family, metrics);
+    }
+    return metrics;
+  }
+
+  private familyOf(key: string): string {
+    const separator = key.indexOf('_');
+    return separator > 0 ? key.slice(0, separator) : key;
+  }
+
+  private age(entry: CacheEntry): number {
+    return this.now() - entry.timestamp;
+  }
+}
@@ -1,4 +1,8 @@
+import { NewsArticle } from '../types/news';
+import { SocialMediaData, SocialPlatform, SocialPost } from '../types/social';
 import { WebScraperService } from './webScraper';
+import { LexiconSentimentScorer } from './lexiconSentiment';
+import { TextClassifierModel } from './textClassifier';
 
 export interface SentimentData {
   symbol: string;
@@ -18,9 +22,40 @@ export interface SentimentData {
   timestamp: Date;
 }
 
+export type SentimentSourceWeights = Record<keyof SentimentData['sources'], number>;
+
+export const DEFAULT_SOURCE_WEIGHTS: SentimentSourceWeights = {
+  news: 0.4,
+  twitter: 0.3,
+  reddit: 0.2,
+  telegram: 0.1
+};
+
+/**
+ * Weighted average of per-source scores. Weights are normalized so callers
+ * can pass any non-negative mix.
+ */
+export function combineSentimentSources(
+  sources: SentimentData['sources'],
+  weights: SentimentSourceWeights = DEFAULT_SOURCE_WEIGHTS
+): number {
+  const total = weights.news + weights.twitter + weights.reddit + weights.telegram;
+  if (total <= 0) return 0;
+
+  return (
+    sources.news * weights.news +
+    sources.twitter * weights.twitter +
+    sources.reddit * weights.reddit +
+    sources.telegram * weights.telegram
+  ) / total;
+}
+
 export class SentimentAnalyzer {
   private static instance: SentimentAnalyzer;
   private webScraper: WebScraperService;
+  private scorer = LexiconSentimentScorer.getInstance();
+  private textModel: TextClassifierModel | null = null;
+  private sourceWeights: SentimentSourceWeights = { ...DEFAULT_SOURCE_WEIGHTS };
 
   constructor() {
     this.webScraper = WebScraperService.getInstance();
@@ -35,19 +70,21 @@ export class SentimentAnalyzer {
 
   async analyzeSentiment(symbol: string): Promise<SentimentData> {
     try {
-      const [newsData, socialData] = await Promise.all([
+      const [newsFeed, socialData] = await Promise.all([
         this.webScraper.scrapeNewsData(symbol),
         this.webScraper.scrapeSocialMedia(symbol)
       ]);
 
+      // Placeholder articles must not pass for real news sentiment
+      const newsData = newsFeed.mock ? [] : newsFeed.articles;
       const newsSentiment = this.calculateNewsSentiment(newsData);
       const socialSentiment = socialData ? {
-        twitter: socialData.twitter.sentiment,
-        reddit: socialData.reddit.sentiment,
-        telegram: socialData.telegram.sentiment
+        twitter: this.calculatePostSentiment(socialData.twitter.items),
+        reddit: this.calculatePostSentiment(socialData.reddit.items),
+        telegram: this.calculatePostSentiment(socialData.telegram.items)
       } : { twitter: 0, reddit: 0, telegram: 0 };
 
-      const overall = this.calculateOverallSentiment(newsSentiment, socialSentiment);
+      const overall = this.calculateOverallSentiment(newsSentiment, socialSentiment, newsData.length > 0, socialData);
       const keywords = this.extractKeywords(newsData);
 
       return {
@@ -74,30 +111,80 @@ export class SentimentAnalyzer {
     }
   }
 
-  private calculateNewsSentiment(newsData: any[]): number {
+  /**
+   * Articles are weighted by publisher reputation as well as by how sure the
+   * text scorer is about them.
+   */
+  private calculateNewsSentiment(newsData: NewsArticle[]): number {
     if (!newsData.length) return 0;
-    
-    const totalSentiment = newsData.reduce((sum, article) => sum + article.sentiment, 0);
-    return totalSentiment / newsData.length;
+
+    const scores = newsData.map(article => {
+      const { score, confidence } = this.scoreText(`${article.title}. ${article.description}`);
+      return { score, confidence: confidence * article.reputation };
+    });
+    return this.scorer.aggregate(scores).score;
   }
 
-  private calculateOverallSentiment(newsSentiment: number, socialSentiment: any): number {
-    const weights = {
-      news: 0.4,
-      twitter: 0.3,
-      reddit: 0.2,
-      telegram: 0.1
-    };
+  /**
+   * Posts with more upvotes or reactions count for more, on a log scale so a
+   * single viral post does not drown out the rest.
+   */
+  private calculatePostSentiment(posts: SocialPost[]): number {
+    if (!posts.length) return 0;
+
+    const scores = posts.map(post => {
+      const { score, confidence } = this.scoreText(post.text);
+      return { score, confidence: confidence * (1 + Math.log1p(Math.max(0, post.score))) };
+    });
+    return this.scorer.aggregate(scores).score;
+  }
 
-    return (
-      newsSentiment * weights.news +
-      socialSentiment.twitter * weights.twitter +
-      socialSentiment.reddit * weights.reddit +
-      socialSentiment.telegram * weights.telegram
-    );
+  /**
+   * Scores a headline or post with the trained text model when one is set,
+   * otherwise with the lexicon scorer.
+   */
+  scoreText(text: string): { score: number; confidence: number } {
+    return this.textModel ? this.textModel.predict(text) : this.scorer.score(text);
+  }
+
+  getTextModel(): TextClassifierModel | null {
+    return this.textModel;
+  }
+
+  setTextModel(model: TextClassifierModel | null): void {
+    this.textModel = model;
+  }
+
+  getSourceWeights(): SentimentSourceWeights {
+    return { ...this.sourceWeights };
+  }
+
+  setSourceWeights(weights: Partial<SentimentSourceWeights>): void {
+    this.sourceWeights = { ...this.sourceWeights, ...weights };
+  }
+
+  /**
+   * Sources with nothing to score (mock or no news, platforms without a
+   * configured source or without posts) get no weight, so their neutral 0
+   * does not pull the overall score toward neutral.
+   */
+  private calculateOverallSentiment(
+    newsSentiment: number,
+    socialSentiment: Omit<SentimentData['sources'], 'news'>,
+    hasNews: boolean,
+    socialData: SocialMediaData | null
+  ): number {
+    const hasPosts = (platform: SocialPlatform) => Boolean(socialData && socialData[platform].items.length > 0);
+    const weights: SentimentSourceWeights = {
+      news: hasNews ? this.sourceWeights.news : 0,
+      twitter: hasPosts('twitter') ? this.sourceWeights.twitter : 0,
+      reddit: hasPosts('reddit') ? this.sourceWeights.reddit : 0,
+      telegram: hasPosts('telegram') ? this.sourceWeights.telegram : 0
+    };
+    return combineSentimentSources({ news: newsSentiment, ...socialSentiment }, weights);
   }
 
-  private extractKeywords(newsData: any[]): string[] {
+  private extractKeywords(newsData: NewsArticle[]): string[] {
     const allText = newsData.map(article => 
       `${article.title} ${article.description}`
     ).join(' ').toLowerCase();
@@ -118,7 +205,7 @@ export class SentimentAnalyzer {
       .map(([word]) => word);
   }
 
-  private getDefaultSentiment(symbol: string): SentimentData {
+  getDefaultSentiment(symbol: string): SentimentData {
     return {
       symbol,
       overall: 0,
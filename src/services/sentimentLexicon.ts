@@ -0,0 +1,452 @@
+/*
+ * Valences run from -4 (strongly bearish) to +4 (strongly bullish), on the
+ * same scale as the VADER lexicon, so general-purpose entries can be mixed in.
+ * Keys are lowercase; multi-word keys are matched as phrases before single
+ * words, so "rug pull" wins over "pull".
+ */
+export type SentimentLexicon = Record<string, number>;
+
+export const CRYPTO_LEXICON: SentimentLexicon = {
+  // market direction
+  'bullish': 2.5,
+  'bull': 1.5,
+  'bulls': 1.5,
+  'bearish': -2.5,
+  'bear': -1.5,
+  'bears': -1.5,
+  'uptrend': 2,
+  'downtrend': -2,
+  'breakout': 2,
+  'breakdown': -2,
+  'rally': 2.5,
+  'rallies': 2.5,
+  'rallied': 2.5,
+  'surge': 2.5,
+  'surges': 2.5,
+  'surged': 2.5,
+  'soar': 3,
+  'soars': 3,
+  'soared': 3,
+  'skyrocket': 3,
+  'skyrockets': 3,
+  'skyrocketed': 3,
+  'spike': 1.5,
+  'spikes': 1.5,
+  'jump': 1.5,
+  'jumps': 1.5,
+  'jumped': 1.5,
+  'climb': 1.5,
+  'climbs': 1.5,
+  'climbed': 1.5,
+  'gain': 1.5,
+  'gains': 1.5,
+  'gained': 1.5,
+  'rise': 1.2,
+  'rises': 1.2,
+  'rising': 1.2,
+  'rose': 1.2,
+  'up': 0.5,
+  'higher': 1,
+  'recover': 1.5,
+  'recovers': 1.5,
+  'recovered': 1.5,
+  'recovery': 1.5,
+  'rebound': 1.8,
+  'rebounds': 1.8,
+  'rebounded': 1.8,
+  'bounce': 1.2,
+  'bounces': 1.2,
+  'outperform': 1.8,
+  'outperforms': 1.8,
+  'momentum': 1,
+  'support': 0.8,
+  'accumulation': 1.2,
+  'accumulate': 1.2,
+  'accumulating': 1.2,
+  'crash': -3,
+  'crashes': -3,
+  'crashed': -3,
+  'crashing': -3,
+  'dump': -2.5,
+  'dumps': -2.5,
+  'dumped': -2.5,
+  'dumping': -2.5,
+  'plunge': -3,
+  'plunges': -3,
+  'plunged': -3,
+  'plummet': -3,
+  'plummets': -3,
+  'plummeted': -3,
+  'tank': -2.5,
+  'tanks': -2.5,
+  'tanked': -2.5,
+  'tumble': -2.2,
+  'tumbles': -2.2,
+  'tumbled': -2.2,
+  'slump': -2.2,
+  'slumps': -2.2,
+  'slumped': -2.2,
+  'sink': -1.8,
+  'sinks': -1.8,
+  'sank': -1.8,
+  'drop': -1.5,
+  'drops': -1.5,
+  'dropped': -1.5,
+  'fall': -1.5,
+  'falls': -1.5,
+  'fell': -1.5,
+  'falling': -1.5,
+  'decline': -1.5,
+  'declines': -1.5,
+  'declined': -1.5,
+  'slide': -1.5,
+  'slides': -1.5,
+  'slid': -1.5,
+  'down': -0.5,
+  'lower': -1,
+  'loss': -1.8,
+  'losses': -1.8,
+  'lose': -1.5,
+  'losing': -1.5,
+  'lost': -1.5,
+  'selloff': -2.5,
+  'sell-off': -2.5,
+  'capitulation': -2.5,
+  'correction': -1.2,
+  'resistance': -0.5,
+  'rejection': -1.2,
+  'rejected': -1.2,
+  'underperform': -1.8,
+  'underperforms': -1.8,
+  'volatile': -0.8,
+  'volatility': -0.5,
+  'weak': -1.5,
+  'weakness': -1.5,
+  'strong': 1.5,
+  'strength': 1.5,
+
+  // trading slang
+  'moon': 3,
+  'mooning': 3,
+  'moonshot': 2.5,
+  'lambo': 2,
+  'pump': 2,
+  'pumps': 2,
+  'pumping': 2,
+  'pumped': 2,
+  'hodl': 1.5,
+  'hodling': 1.5,
+  'diamond hands': 2,
+  'paper hands': -1.2,
+  'wagmi': 2.5,
+  'ngmi': -2.5,
+  'lfg': 2.5,
+  'gm': 0.5,
+  'ath': 2.5,
+  'all time high': 2.5,
+  'all-time high': 2.5,
+  'new high': 2,
+  'buy the dip': 1.5,
+  'btfd': 1.5,
+  'short squeeze': 1.8,
+  'golden cross': 2.5,
+  'death cross': -2.5,
+  'to the moon': 3.2,
+  'rekt': -3,
+  'fud': -2,
+  'fomo': 0.8,
+  'bagholder': -1.8,
+  'bagholders': -1.8,
+  'bag holder': -1.8,
+  'rug': -3,
+  'rugged': -3.2,
+  'rug pull': -3.5,
+  'rugpull': -3.5,
+  'scam': -3.2,
+  'scams': -3.2,
+  'scammer': -3.2,
+  'ponzi': -3.2,
+  'exit scam': -3.5,
+  'honeypot': -3,
+  'shitcoin': -2,
+  'liquidated': -2.5,
+  'liquidation': -2,
+  'liquidations': -2,
+  'bloodbath': -3,
+  'red': -0.8,
+  'green': 0.8,
+  'pamp': 2,
+  'gem': 1.8,
+  'undervalued': 1.5,
+  'overvalued': -1.5,
+  'overbought': -1,
+  'oversold': 0.8,
+  'bubble': -1.8,
+  'dead cat bounce': -1.5,
+  'bear trap': 1,
+  'bull trap': -1.5,
+  'bull run': 2.8,
+  'bull market': 2.2,
+  'bear market': -2.2,
+  'crypto winter': -2.5,
+  'altseason': 2.2,
+  'flippening': 1.5,
+
+  // trade actions
+  'buy': 1.2,
+  'buying': 1.2,
+  'bought': 1,
+  'long': 1,
+  'longs': 0.8,
+  'sell': -1.2,
+  'selling': -1.2,
+  'sold': -1,
+  'short': -1,
+  'shorts': -0.8,
+  'shorting': -1.2,
+  'profit': 1.8,
+  'profits': 1.8,
+  'profitable': 1.8,
+
+  // fundamentals and news
+  'adoption': 2,
+  'adopt': 1.5,
+  'adopts': 1.5,
+  'approval': 2.2,
+  'approve': 2,
+  'approves': 2,
+  'approved': 2.2,
+  'etf approval': 2.8,
+  'partnership': 1.8,
+  'partnerships': 1.8,
+  'partners': 1.2,
+  'integration': 1.2,
+  'launch': 1.2,
+  'launches': 1.2,
+  'launched': 1.2,
+  'listing': 1.5,
+  'listed': 1.2,
+  'lists': 1,
+  'upgrade': 1.5,
+  'upgraded': 1.5,
+  'mainnet': 1.2,
+  'milestone': 1.8,
+  'record': 1.2,
+  'institutional': 1,
+  'inflows': 1.8,
+  'inflow': 1.8,
+  'halving': 1,
+  'burn': 1,
+  'burns': 1,
+  'staking': 0.5,
+  'airdrop': 1,
+  'innovation': 1.5,
+  'breakthrough': 2.2,
+  'optimism': 2,
+  'optimistic': 2,
+  'confidence': 1.5,
+  'confident': 1.5,
+  'growth': 1.8,
+  'growing': 1.2,
+  'boost': 1.8,
+  'boosts': 1.8,
+  'boosted': 1.8,
+  'win': 2,
+  'wins': 2,
+  'success': 2,
+  'successful': 2,
+  'opportunity': 1.5,
+  'potential': 1,
+  'promising': 1.8,
+  'positive': 1.8,
+  'good': 1.5,
+  'great': 2.5,
+  'excellent': 2.8,
+  'amazing': 2.8,
+  'huge': 1,
+  'safe': 1.2,
+  'secure': 1.2,
+  'hack': -3,
+  'hacks': -3,
+  'hacked': -3,
+  'exploit': -2.8,
+  'exploited': -2.8,
+  'breach': -2.5,
+  'stolen': -3,
+  'theft': -3,
+  'drained': -3,
+  'delist': -2.5,
+  'delisted': -2.5,
+  'delisting': -2.5,
+  'ban': -2.5,
+  'bans': -2.5,
+  'banned': -2.5,
+  'crackdown': -2.5,
+  'lawsuit': -2,
+  'sued': -2,
+  'sues': -2,
+  'sec charges': -2.8,
+  'charges': -1.5,
+  'charged': -1.5,
+  'fraud': -3.2,
+  'fraudulent': -3.2,
+  'investigation': -1.5,
+  'probe': -1.5,
+  'fined': -2,
+  'penalty': -1.8,
+  'regulation': -0.5,
+  'insolvent': -3,
+  'insolvency': -3,
+  'bankrupt': -3.2,
+  'bankruptcy': -3.2,
+  'collapse': -3,
+  'collapses': -3,
+  'collapsed': -3,
+  'contagion': -2.5,
+  'outflows': -1.8,
+  'outflow': -1.8,
+  'withdrawals halted': -3,
+  'halted': -1.8,
+  'halt': -1.5,
+  'outage': -2,
+  'downtime': -1.5,
+  'vulnerability': -2,
+  'bug': -1.2,
+  'depeg': -2.8,
+  'depegged': -2.8,
+  'inflation': -0.8,
+  'recession': -2,
+  'uncertainty': -1.5,
+  'fear': -2,
+  'fears': -2,
+  'panic': -2.5,
+  'worry': -1.5,
+  'worries': -1.5,
+  'concern': -1.2,
+  'concerns': -1.2,
+  'risk': -1,
+  'risky': -1.5,
+  'warning': -1.5,
+  'warns': -1.5,
+  'pessimism': -2,
+  'pessimistic': -2,
+  'negative': -1.8,
+  'bad': -1.8,
+  'terrible': -2.8,
+  'awful': -2.8,
+  'disaster': -3,
+  'fail': -2,
+  'fails': -2,
+  'failed': -2,
+  'failure': -2.2,
+  'struggle': -1.5,
+  'struggles': -1.5,
+  'trouble': -1.8,
+  'problem': -1.2,
+  'problems': -1.2,
+  'dead': -2.5,
+  'worthless': -3,
+  'manipulation': -2,
+  'manipulated': -2,
+  'whale dump': -2.5,
+  'greed': 0.5
+};
+
+export const EMOJI_LEXICON: SentimentLexicon = {
+  '🚀': 3,
+  '🌕': 2.5,
+  '🌙': 2,
+  '📈': 2,
+  '💎': 1.8,
+  '🙌': 1.5,
+  '💰': 1.8,
+  '🤑': 2,
+  '🔥': 1.5,
+  '🐂': 2,
+  '✅': 1.2,
+  '💪': 1.5,
+  '🎉': 2,
+  '🥳': 2,
+  '😀': 1.5,
+  '😃': 1.5,
+  '😄': 1.5,
+  '😁': 1.5,
+  '😊': 1.5,
+  '😍': 2,
+  '👍': 1.5,
+  '🟢': 1,
+  '📉': -2,
+  '🐻': -2,
+  '💩': -2.5,
+  '🩸': -2,
+  '💀': -2,
+  '☠️': -2.2,
+  '⚠️': -1.2,
+  '🚨': -1,
+  '❌': -1.2,
+  '🔴': -1,
+  '👎': -1.5,
+  '😱': -2,
+  '😨': -1.8,
+  '😰': -1.8,
+  '😭': -2,
+  '😢': -1.8,
+  '😞': -1.8,
+  '😡': -2.2,
+  '🤡': -1.8,
+  '🤬': -2.5
+};
+
+/** Terms usually written in capitals, so caps are not read as emphasis. */
+export const ACRONYMS = new Set(['ath', 'btfd', 'etf approval', 'fomo', 'fud', 'gm', 'hodl', 'lfg', 'ngmi', 'wagmi']);
+
+/** Words that flip the valence of the sentiment terms that follow them. */
+export const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nobody', 'nothing', 'neither', 'nor', 'without',
+  'cannot', 'cant', 'wont', 'dont', 'doesnt', 'didnt', 'isnt', 'arent', 'wasnt',
+  'werent', 'hasnt', 'havent', 'hadnt', 'shouldnt', 'wouldnt', 'couldnt', 'aint',
+  'hardly', 'rarely', 'unlikely'
+]);
+
+/**
+ * Scalar added to a following term's magnitude: intensifiers are positive,
+ * diminishers negative.
+ */
+export const BOOSTERS: Record<string, number> = {
+  'very': 0.3,
+  'really': 0.3,
+  'so': 0.2,
+  'too': 0.2,
+  'extremely': 0.5,
+  'incredibly': 0.5,
+  'insanely': 0.5,
+  'hugely': 0.4,
+  'massively': 0.5,
+  'massive': 0.4,
+  'highly': 0.3,
+  'super': 0.4,
+  'totally': 0.3,
+  'absolutely': 0.4,
+  'completely': 0.3,
+  'seriously': 0.3,
+  'mega': 0.4,
+  'ultra': 0.4,
+  'most': 0.3,
+  'more': 0.15,
+  'sharply': 0.4,
+  'significantly': 0.3,
+  'strongly': 0.3,
+  'slightly': -0.3,
+  'somewhat': -0.3,
+  'little': -0.3,
+  'marginally': -0.4,
+  'mildly': -0.3,
+  'modestly': -0.3,
+  'kinda': -0.3,
+  'kind of': -0.3,
+  'sort of': -0.3,
+  'a bit': -0.3,
+  'a little': -0.3,
+  'partly': -0.3,
+  'less': -0.2
+};
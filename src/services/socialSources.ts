@@ -0,0 +1,261 @@
+import axios from 'axios';
+import { SocialPlatform, SocialPost, SocialSource } from '../types/social';
+import { getFileAccess } from './fileAccess';
+
+/**
+ * Fetches a URL and returns the response body, parsed JSON or raw text.
+ * Adapters take one so they can be driven by recorded fixture responses.
+ */
+export type SocialHttpClient = (url: string, params?: Record<string, string | number>) => Promise<any>;
+
+export interface RedditSourceOptions {
+  subreddit: string;
+  limit: number;
+  sort: 'new' | 'hot' | 'top' | 'relevance';
+  baseUrl: string;
+}
+
+export interface FeedSourceOptions {
+  url: string;
+  platform: SocialPlatform;
+  name?: string;
+}
+
+export interface FeedEntry {
+  id: string;
+  title: string;
+  body: string; // description, content or summary, as plain text
+  link: string;
+  date: Date; // invalid when the entry has no usable date
+  author: string;
+}
+
+export interface TelegramExportOptions {
+  filePath: string;
+  maxAgeDays?: number; // only messages this recent, from the newest one in the export
+}
+
+const USER_AGENT = 'crypto-trading-bot/1.0';
+
+/** Names posts use for a ticker besides the ticker itself. */
+export const SYMBOL_NAMES: Record<string, string[]> = {
+  BTC: ['bitcoin'],
+  ETH: ['ethereum', 'ether'],
+  ADA: ['cardano'],
+  DOT: ['polkadot'],
+  LINK: ['chainlink'],
+  MATIC: ['polygon'],
+  AVAX: ['avalanche'],
+  SOL: ['solana']
+};
+
+export const axiosHttpClient: SocialHttpClient = async (url, params) => {
+  const response = await axios.get(url, { params, headers: { 'User-Agent': USER_AGENT }, timeout: 10000 });
+  return response.data;
+};
+
+/**
+ * True when the text names the symbol as a word or cashtag, e.g. "BTC",
+ * "$btc" or "Bitcoin" but not "BTCUSDT".
+ */
+export function mentionsSymbol(text: string, symbol: string, names: string[] = SYMBOL_NAMES[symbol.toUpperCase()] || []): boolean {
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const alternatives = [symbol, ...names].filter(Boolean).map(escape).join('|');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])\\$?(${alternatives})(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+/**
+ * Normalizes a Reddit listing (`/search.json`, `/new.json`, ...) of posts
+ * (t3) and comments (t1). Reddit HTML-escapes text unless `raw_json=1` is
+ * passed, so entities are decoded; removed and deleted bodies are dropped.
+ */
+export function parseRedditListing(listing: any, source: string): SocialPost[] {
+  const children: any[] = listing?.data?.children || [];
+  const content = (value: unknown) => {
+    const text = typeof value === 'string' ? decodeEntities(value).trim() : '';
+    return text === '[removed]' || text === '[deleted]' ? '' : text;
+  };
+
+  return children
+    .filter(child => child?.kind === 't3' || child?.kind === 't1')
+    .map(child => {
+      const data = child.data || {};
+      const text = child.kind === 't3'
+        ? [content(data.title), content(data.selftext)].filter(Boolean).join('\n\n')
+        : content(data.body);
+      const created = Number(data.created_utc);
+      return {
+        id: data.name || `${child.kind}_${data.id}`,
+        platform: 'reddit' as const,
+        source,
+        author: data.author || '[deleted]',
+        text,
+        score: Number(data.score) || 0,
+        timestamp: new Date(created > 0 ? created * 1000 : NaN),
+        url: data.permalink ? `https://www.reddit.com${data.permalink}` : data.url
+      };
+    })
+    .filter(post => post.text && !Number.isNaN(post.timestamp.getTime()));
+}
+
+/**
+ * Reads the entries of an RSS 2.0 or Atom document. Only the handful of
+ * elements a post or article needs are read, so a full XML parser is not
+ * required.
+ */
+export function parseFeedEntries(xml: string): FeedEntry[] {
+  return [...blocks(xml, 'item'), ...blocks(xml, 'entry')].map(entry => ({
+    id: element(entry, 'guid') || element(entry, 'id'),
+    title: element(entry, 'title'),
+    body: element(entry, 'description') || element(entry, 'content') || element(entry, 'summary'),
+    link: element(entry, 'link') || attribute(entry, 'link', 'href'),
+    date: new Date(element(entry, 'pubDate') || element(entry, 'published') || element(entry, 'updated') || element(entry, 'dc:date')),
+    author: element(entry, 'dc:creator') || element(entry, 'name') || element(entry, 'author')
+  }));
+}
+
+export function parseFeed(xml: string, platform: SocialPlatform, source: string): SocialPost[] {
+  return parseFeedEntries(xml)
+    .map((entry, index) => ({
+      id: entry.id || entry.link || `${source}-${index}`,
+      platform,
+      source,
+      author: entry.author || source,
+      text: entry.body && !entry.body.startsWith(entry.title)
+        ? [entry.title, entry.body].filter(Boolean).join('\n\n')
+        : entry.body || entry.title,
+      score: 0,
+      timestamp: entry.date,
+      url: entry.link || undefined
+    }))
+    .filter(post => post.text && !Number.isNaN(post.timestamp.getTime()));
+}
+
+/**
+ * Normalizes a Telegram Desktop JSON export, either a single chat
+ * (`result.json` with `messages`) or a full export (`chats.list`). The score
+ * is the total reaction count.
+ */
+export function parseTelegramExport(data: any, source: string): SocialPost[] {
+  const chats: any[] = data?.chats?.list || (data?.messages ? [data] : []);
+
+  return chats.flatMap(chat =>
+    (chat.messages || [])
+      .filter((message: any) => message?.type === 'message')
+      .map((message: any) => ({
+        id: `${chat.id ?? chat.name}-${message.id}`,
+        platform: 'telegram' as const,
+        source: `${source}:${chat.name || chat.id}`,
+        author: message.from || message.actor || chat.name || 'unknown',
+        text: telegramText(message.text),
+        score: (message.reactions || []).reduce((sum: number, reaction: any) => sum + (Number(reaction.count) || 0), 0),
+        timestamp: message.date_unixtime ? new Date(Number(message.date_unixtime) * 1000) : new Date(message.date)
+      }))
+      .filter((post: SocialPost) => post.text && !Number.isNaN(post.timestamp.getTime()))
+  );
+}
+
+export class RedditListingSource implements SocialSource {
+  readonly platform = 'reddit';
+  readonly name: string;
+  private options: RedditSourceOptions;
+
+  constructor(options: Partial<RedditSourceOptions> = {}, private http: SocialHttpClient = axiosHttpClient) {
+    this.options = { subreddit: 'CryptoCurrency', limit: 50, sort: 'new', baseUrl: 'https://www.reddit.com', ...options };
+    this.name = `reddit:r/${this.options.subreddit}`;
+  }
+
+  async fetchPosts(symbol: string): Promise<SocialPost[]> {
+    const { baseUrl, subreddit, limit, sort } = this.options;
+    const listing = await this.http(`${baseUrl}/r/${subreddit}/search.json`, {
+      q: [symbol, ...(SYMBOL_NAMES[symbol.toUpperCase()] || [])].join(' OR '),
+      restrict_sr: 1,
+      sort,
+      limit
+    });
+    return parseRedditListing(listing, this.name);
+  }
+}
+
+/**
+ * RSS or Atom feed read as posts of the given platform, e.g. an X/Twitter
+ * account through an RSS bridge. Only entries mentioning the symbol are kept.
+ */
+export class FeedSource implements SocialSource {
+  readonly platform: SocialPlatform;
+  readonly name: string;
+
+  constructor(private options: FeedSourceOptions, private http: SocialHttpClient = axiosHttpClient) {
+    this.platform = options.platform;
+    this.name = options.name || `feed:${options.url}`;
+  }
+
+  async fetchPosts(symbol: string): Promise<SocialPost[]> {
+    const xml = await this.http(this.options.url);
+    return parseFeed(String(xml), this.platform, this.name).filter(post => mentionsSymbol(post.text, symbol));
+  }
+}
+
+export class TelegramExportSource implements SocialSource {
+  readonly platform = 'telegram';
+  readonly name: string;
+
+  constructor(
+    private options: TelegramExportOptions,
+    private readFile: (filePath: string) => Promise<string> = filePath => getFileAccess().readText(filePath)
+  ) {
+    this.name = `telegram:${options.filePath}`;
+  }
+
+  async fetchPosts(symbol: string): Promise<SocialPost[]> {
+    const posts = parseTelegramExport(JSON.parse(await this.readFile(this.options.filePath)), 'telegram')
+      .filter(post => mentionsSymbol(post.text, symbol));
+    if (!this.options.maxAgeDays || posts.length === 0) return posts;
+
+    const newest = Math.max(...posts.map(post => post.timestamp.getTime()));
+    const cutoff = newest - this.options.maxAgeDays * 24 * 60 * 60 * 1000;
+    return posts.filter(post => post.timestamp.getTime() >= cutoff);
+  }
+}
+
+// Telegram stores formatted text as a list of plain strings and entity objects
+function telegramText(text: any): string {
+  if (typeof text === 'string') return text;
+  if (Array.isArray(text)) return text.map(part => (typeof part === 'string' ? part : part?.text || '')).join('');
+  return '';
+}
+
+function blocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'gi');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+function element(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+  return match ? decodeXmlText(match[1]) : '';
+}
+
+function attribute(xml: string, tag: string, name: string): string {
+  const match = xml.match(new RegExp(`<${tag}\\s[^>]*${name}="([^"]*)"`, 'i'));
+  return match ? decodeEntities(match[1]) : '';
+}
+
+/** Unwraps CDATA, drops markup and decodes entities, leaving plain text. */
+function decodeXmlText(value: string): string {
+  const unwrapped = value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+  const decoded = decodeEntities(unwrapped);
+  return decoded.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function decodeEntities(value: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // Posts are user-written: out-of-range points and lone surrogates stay as typed
+      const valid = point <= 0x10ffff && !(point >= 0xd800 && point <= 0xdfff);
+      return valid ? String.fromCodePoint(point) : entity;
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
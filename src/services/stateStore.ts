@@ -0,0 +1,655 @@
+import { TradeExecution, TradingSignal } from '../types/trading';
+import { getFileAccess } from './fileAccess';
+import type { PaperExchangeState } from './paperExchange';
+import type { PerformanceSnapshot, PortfolioAccountingState } from './portfolioAccounting';
+import type { ClosedPosition, ManagedPosition } from './positionManager';
+import type { TrackedPrediction } from './predictionTracker';
+
+export interface StorageBackend {
+  readonly name: string;
+  readonly retention?: Record<string, number>; // caps suited to the backend's capacity, DEFAULT_RETENTION otherwise
+  get<T>(collection: string, key: string): Promise<T | undefined>;
+  put<T>(collection: string, key: string, value: T): Promise<void>;
+  putMany<T>(collection: string, entries: [string, T][], trim?: TrimPolicy): Promise<void>; // one update and one write
+  delete(collection: string, key: string): Promise<void>;
+  deleteMany(collection: string, keys: string[]): Promise<void>;
+  list<T>(collection: string): Promise<T[]>;
+  keys(collection: string): Promise<string[]>;
+  trim(collection: string, maxEntries: number, retain?: (value: unknown) => boolean): Promise<number>; // see InMemoryStorageBackend.trim
+  clear(collection: string): Promise<void>;
+  getSchemaVersion(): Promise<number>;
+  setSchemaVersion(version: number): Promise<void>;
+}
+
+export interface TrimPolicy {
+  above: number; // trim once the collection holds more entries than this
+  to: number; // entries left after trimming
+  retain?: (value: unknown) => boolean; // see InMemoryStorageBackend.trim
+}
+
+export interface StorageDocument {
+  schemaVersion: number;
+  collections: Record<string, Record<string, unknown>>;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(backend: StorageBackend): Promise<void>;
+}
+
+export interface CacheEntry<T = unknown> {
+  data: T;
+  timestamp: number;
+}
+
+export const COLLECTIONS = {
+  trades: 'trades',
+  positions: 'positions',
+  closedPositions: 'closedPositions',
+  portfolio: 'portfolio',
+  portfolioSnapshots: 'portfolioSnapshots',
+  paperExchange: 'paperExchange',
+  signals: 'signals',
+  predictions: 'predictions',
+  scraperCache: 'scraperCache'
+} as const;
+
+/**
+ * Most entries kept per collection. Collections written on every cycle are
+ * capped; trades and positions are never pruned.
+ */
+export const DEFAULT_RETENTION: Record<string, number> = {
+  [COLLECTIONS.signals]: 5000,
+  [COLLECTIONS.predictions]: 20000,
+  [COLLECTIONS.scraperCache]: 1000,
+  [COLLECTIONS.portfolioSnapshots]: 24 * 400 // PortfolioAccounting's hourly buckets
+};
+
+/**
+ * The whole localStorage document shares the browser's quota of a few MB, so
+ * it keeps roughly a day of signals and predictions and a month of hourly
+ * portfolio snapshots.
+ */
+export const LOCAL_STORAGE_RETENTION: Record<string, number> = {
+  [COLLECTIONS.signals]: 500,
+  [COLLECTIONS.predictions]: 3000,
+  [COLLECTIONS.scraperCache]: 100,
+  [COLLECTIONS.portfolioSnapshots]: 24 * 30
+};
+
+// Entries evicted only once nothing else in their collection is left to drop
+const RETAINED: Record<string, (value: unknown) => boolean> = {
+  [COLLECTIONS.predictions]: value => (value as TrackedPrediction).status === 'PENDING'
+};
+
+const DATE_TAG = '$date';
+
+/**
+ * JSON with Date round-tripping: dates are written as `{ "$date": iso }` and
+ * revived on read, so stored trades and signals come back with real Dates.
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key: string, current: unknown) {
+    const original = this[key];
+    return original instanceof Date ? { [DATE_TAG]: original.toISOString() } : current;
+  });
+}
+
+export function deserialize<T>(json: string): T {
+  return JSON.parse(json, (_key, value) => {
+    if (value && typeof value === 'object' && typeof value[DATE_TAG] === 'string' && Object.keys(value).length === 1) {
+      return new Date(value[DATE_TAG]);
+    }
+    return value;
+  });
+}
+
+function cloneValue<T>(value: T): T {
+  return deserialize<T>(serialize(value));
+}
+
+export class InMemoryStorageBackend implements StorageBackend {
+  readonly name: string = 'memory';
+  protected document: StorageDocument = { schemaVersion: 0, collections: {} };
+
+  async get<T>(collection: string, key: string): Promise<T | undefined> {
+    await this.ensureLoaded();
+    const entries = this.document.collections[collection];
+    const value = entries?.[key];
+    if (value === undefined) return undefined;
+
+    this.touch(entries, key, value);
+    return cloneValue(value as T);
+  }
+
+  async put<T>(collection: string, key: string, value: T): Promise<void> {
+    await this.ensureLoaded();
+    if (!this.document.collections[collection]) {
+      this.document.collections[collection] = {};
+    }
+    this.touch(this.document.collections[collection], key, cloneValue(value));
+    await this.persist();
+  }
+
+  async putMany<T>(collection: string, entries: [string, T][], trim?: TrimPolicy): Promise<void> {
+    await this.ensureLoaded();
+    if (!this.document.collections[collection]) {
+      this.document.collections[collection] = {};
+    }
+    const target = this.document.collections[collection];
+    entries.forEach(([key, value]) => this.touch(target, key, cloneValue(value)));
+    if (trim && Object.keys(target).length > trim.above) {
+      this.dropLeastRecent(target, trim.to, trim.retain);
+    }
+    await this.persist();
+  }
+
+  async delete(collection: string, key: string): Promise<void> {
+    await this.ensureLoaded();
+    if (this.document.collections[collection]) {
+      delete this.document.collections[collection][key];
+      await this.persist();
+    }
+  }
+
+  async deleteMany(collection: string, keys: string[]): Promise<void> {
+    await this.ensureLoaded();
+    const entries = this.document.collections[collection];
+    if (!entries || keys.length === 0) return;
+
+    keys.forEach(key => { delete entries[key]; });
+    await this.persist();
+  }
+
+  async list<T>(collection: string): Promise<T[]> {
+    await this.ensureLoaded();
+    return Object.values(this.document.collections[collection] || {}).map(value => cloneValue(value as T));
+  }
+
+  async keys(collection: string): Promise<string[]> {
+    await this.ensureLoaded();
+    return Object.keys(this.document.collections[collection] || {});
+  }
+
+  /**
+   * Drops the least recently used entries down to `maxEntries`; entries for
+   * which `retain` holds go only after all others. Returns how many went.
+   */
+  async trim(collection: string, maxEntries: number, retain?: (value: unknown) => boolean): Promise<number> {
+    await this.ensureLoaded();
+    const entries = this.document.collections[collection];
+    if (!entries) return 0;
+
+    const dropped = this.dropLeastRecent(entries, maxEntries, retain);
+    if (dropped > 0) await this.persist();
+    return dropped;
+  }
+
+  async clear(collection: string): Promise<void> {
+    await this.ensureLoaded();
+    delete this.document.collections[collection];
+    await this.persist();
+  }
+
+  async getSchemaVersion(): Promise<number> {
+    await this.ensureLoaded();
+    return this.document.schemaVersion;
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    await this.ensureLoaded();
+    this.document.schemaVersion = version;
+    await this.persist();
+  }
+
+  protected async ensureLoaded(): Promise<void> {}
+
+  private dropLeastRecent(entries: Record<string, unknown>, maxEntries: number, retain?: (value: unknown) => boolean): number {
+    const keys = Object.keys(entries);
+    if (keys.length <= maxEntries) return 0;
+
+    const retained = retain ? keys.filter(key => retain(entries[key])) : [];
+    const retainedKeys = new Set(retained);
+    const candidates = [...keys.filter(key => !retainedKeys.has(key)), ...retained];
+    const dropped = candidates.slice(0, keys.length - maxEntries);
+    dropped.forEach(key => { delete entries[key]; });
+    return dropped.length;
+  }
+
+  protected async persist(): Promise<void> {}
+
+  // Keys are never integer strings here, so re-adding one moves it last: key order is recency order
+  private touch(entries: Record<string, unknown>, key: string, value: unknown): void {
+    delete entries[key];
+    entries[key] = value;
+  }
+}
+
+/**
+ * Single-file local database: the whole store lives in one JSON document that
+ * is rewritten atomically (temp file + rename) after changes. Writes are
+ * serialized so concurrent puts cannot interleave, and changes made while a
+ * write is queued share it. Node only, through the installed file access.
+ */
+export class FileStorageBackend extends InMemoryStorageBackend {
+  readonly name = 'file';
+  private loaded: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private queuedWrite: Promise<void> | null = null;
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  protected ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load();
+    }
+    return this.loaded;
+  }
+
+  protected persist(): Promise<void> {
+    if (!this.queuedWrite) {
+      // The document is serialized when the write starts, picking up every change queued behind it
+      this.queuedWrite = this.writeQueue
+        .catch(() => undefined)
+        .then(() => {
+          this.queuedWrite = null;
+          return getFileAccess().writeText(this.filePath, serialize(this.document));
+        });
+      this.writeQueue = this.queuedWrite;
+    }
+    return this.queuedWrite;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const content = await getFileAccess().readText(this.filePath);
+      this.document = deserialize<StorageDocument>(content);
+    } catch (error) {
+      if ((error as { code?: string } | null)?.code !== 'ENOENT') {
+        console.error(`Error reading state file ${this.filePath}:`, error);
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Browser counterpart of FileStorageBackend, keeping the document in localStorage
+ * so state survives a page reload.
+ */
+export class LocalStorageBackend extends InMemoryStorageBackend {
+  readonly name = 'localStorage';
+  readonly retention = LOCAL_STORAGE_RETENTION;
+  private loaded = false;
+
+  constructor(private storageKey: string = 'ml-plugins-state') {
+    super();
+  }
+
+  protected async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const content = window.localStorage.getItem(this.storageKey);
+    if (content) {
+      this.document = deserialize<StorageDocument>(content);
+    }
+  }
+
+  protected async persist(): Promise<void> {
+    window.localStorage.setItem(this.storageKey, serialize(this.document));
+  }
+}
+
+/**
+ * True for the error localStorage throws once the document outgrows the
+ * browser's quota (Firefox names it differently).
+ */
+export function isQuotaExceeded(error: unknown): boolean {
+  const name = (error as { name?: string } | null)?.name;
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+}
+
+/**
+ * Ordered schema migrations. Each one runs once, when the stored schema
+ * version is below its own; append new entries, never edit shipped ones.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial collections',
+    up: async () => {
+      // Collections are created lazily; nothing to transform
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const DEFAULT_STATE_FILE = '.trading-state/state.json';
+
+/**
+ * localStorage in the browser, memory elsewhere until configureNodeServices
+ * switches the store to a FileStorageBackend.
+ */
+export function createDefaultBackend(): StorageBackend {
+  if (typeof window !== 'undefined' && window.localStorage) {
+    return new LocalStorageBackend();
+  }
+  return new InMemoryStorageBackend();
+}
+
+export class StateStore {
+  private static instance: StateStore;
+  private backend: StorageBackend;
+  private ready: Promise<void>;
+  private backendListeners = new Set<() => void>();
+  private retentionOverrides: Record<string, number | null>;
+  private writeError: Error | null = null;
+  private latestSnapshotKey: string | null = null;
+
+  constructor(
+    backend: StorageBackend = createDefaultBackend(),
+    private migrations: Migration[] = MIGRATIONS,
+    retention: Record<string, number> = {} // overrides the backend's caps
+  ) {
+    this.backend = backend;
+    this.retentionOverrides = { ...retention };
+    this.ready = this.migrate();
+    this.ready.catch(() => undefined); // surfaced to callers on their first access
+  }
+
+  static getInstance(): StateStore {
+    if (!StateStore.instance) {
+      StateStore.instance = new StateStore();
+    }
+    return StateStore.instance;
+  }
+
+  /**
+   * Swaps the backend (e.g. an InMemoryStorageBackend in tests) and runs any
+   * pending migrations against it. Backend change listeners are called right
+   * away; their reads wait for the migrations.
+   */
+  useBackend(backend: StorageBackend): Promise<void> {
+    this.backend = backend;
+    this.latestSnapshotKey = null;
+    this.ready = this.migrate();
+    this.backendListeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error in backend change listener:', error);
+      }
+    });
+    return this.ready;
+  }
+
+  /**
+   * Services that load their state once (TradingBot, PredictionTracker)
+   * reload it here, so switching backends after they were built does not
+   * leave them on the old one's data.
+   */
+  onBackendChange(listener: () => void): () => void {
+    this.backendListeners.add(listener);
+    return () => this.backendListeners.delete(listener);
+  }
+
+  getBackend(): StorageBackend {
+    return this.backend;
+  }
+
+  /**
+   * The backend's caps (DEFAULT_RETENTION unless it brings its own) with the
+   * overrides from the constructor and setRetention applied.
+   */
+  getRetention(): Record<string, number> {
+    const retention: Record<string, number> = { ...(this.backend.retention || DEFAULT_RETENTION) };
+    Object.entries(this.retentionOverrides).forEach(([collection, maxEntries]) => {
+      if (maxEntries === null) {
+        delete retention[collection];
+      } else {
+        retention[collection] = maxEntries;
+      }
+    });
+    return retention;
+  }
+
+  /**
+   * Caps a collection at `maxEntries`, or lifts the cap when null. Applied on
+   * the next put.
+   */
+  setRetention(collection: string, maxEntries: number | null): void {
+    this.retentionOverrides[collection] = maxEntries;
+  }
+
+  /**
+   * The last write that failed even after shedding capped collections, until
+   * a write succeeds again. Writes made from background tasks only log their
+   * errors, so the UI reads this to report a full store.
+   */
+  getWriteError(): Error | null {
+    return this.writeError;
+  }
+
+  async get<T>(collection: string, key: string): Promise<T | undefined> {
+    await this.ready;
+    return this.backend.get<T>(collection, key);
+  }
+
+  async put<T>(collection: string, key: string, value: T): Promise<void> {
+    return this.putMany(collection, [[key, value]]);
+  }
+
+  /**
+   * Writes the entries and trims the collection to its retention cap in a
+   * single backend update, so a batch costs one document write.
+   */
+  async putMany<T>(collection: string, entries: [string, T][]): Promise<void> {
+    await this.ready;
+    if (entries.length === 0) return;
+
+    const maxEntries = this.getRetention()[collection];
+    // Prune a tenth below the cap so a full collection is not trimmed on every put
+    const trim = maxEntries === undefined
+      ? undefined
+      : { above: maxEntries, to: Math.floor(maxEntries * 0.9), retain: RETAINED[collection] };
+
+    try {
+      await this.backend.putMany(collection, entries, trim);
+      this.writeError = null;
+    } catch (error) {
+      if (!isQuotaExceeded(error)) throw error;
+      await this.shed(error);
+    }
+  }
+
+  async delete(collection: string, key: string): Promise<void> {
+    await this.ready;
+    return this.backend.delete(collection, key);
+  }
+
+  async deleteMany(collection: string, keys: string[]): Promise<void> {
+    await this.ready;
+    return this.backend.deleteMany(collection, keys);
+  }
+
+  async list<T>(collection: string): Promise<T[]> {
+    await this.ready;
+    return this.backend.list<T>(collection);
+  }
+
+  async clear(collection: string): Promise<void> {
+    await this.ready;
+    return this.backend.clear(collection);
+  }
+
+  async getSchemaVersion(): Promise<number> {
+    await this.ready;
+    return this.backend.getSchemaVersion();
+  }
+
+  async saveTrade(execution: TradeExecution): Promise<void> {
+    return this.put(COLLECTIONS.trades, execution.id, execution);
+  }
+
+  async getTrades(): Promise<TradeExecution[]> {
+    const trades = await this.list<TradeExecution>(COLLECTIONS.trades);
+    return trades.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async savePosition(position: ManagedPosition): Promise<void> {
+    return this.put(COLLECTIONS.positions, position.symbol, position);
+  }
+
+  async deletePosition(symbol: string): Promise<void> {
+    return this.delete(COLLECTIONS.positions, symbol);
+  }
+
+  async getPositions(): Promise<ManagedPosition[]> {
+    return this.list<ManagedPosition>(COLLECTIONS.positions);
+  }
+
+  async saveClosedPosition(position: ClosedPosition): Promise<void> {
+    const key = `${position.symbol}_${position.exitTime.getTime()}`;
+    return this.put(COLLECTIONS.closedPositions, key, position);
+  }
+
+  async getClosedPositions(): Promise<ClosedPosition[]> {
+    const positions = await this.list<ClosedPosition>(COLLECTIONS.closedPositions);
+    return positions.sort((a, b) => a.exitTime.getTime() - b.exitTime.getTime());
+  }
+
+  /**
+   * Snapshots are kept one per entry in their own capped collection, so each
+   * save writes the latest one instead of the whole history.
+   */
+  async savePortfolioState(state: PortfolioAccountingState): Promise<void> {
+    const { snapshots, ...current } = state;
+    await this.put<PortfolioAccountingState>(COLLECTIONS.portfolio, 'current', { ...current, snapshots: [] });
+
+    const latest = snapshots[snapshots.length - 1];
+    if (!latest) return;
+
+    // The latest snapshot is replaced until its interval closes; the one it replaced goes
+    const key = latest.timestamp.toISOString();
+    const previous = snapshots[snapshots.length - 2];
+    const stale = this.latestSnapshotKey;
+    if (stale && stale !== key && stale !== previous?.timestamp.toISOString()) {
+      await this.delete(COLLECTIONS.portfolioSnapshots, stale);
+    }
+    await this.put(COLLECTIONS.portfolioSnapshots, key, latest);
+    this.latestSnapshotKey = key;
+  }
+
+  async getPortfolioState(): Promise<PortfolioAccountingState | undefined> {
+    const current = await this.get<PortfolioAccountingState>(COLLECTIONS.portfolio, 'current');
+    if (!current) return undefined;
+
+    const snapshots = (await this.list<PerformanceSnapshot>(COLLECTIONS.portfolioSnapshots))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const latest = snapshots[snapshots.length - 1];
+    this.latestSnapshotKey = latest ? latest.timestamp.toISOString() : null;
+    return { ...current, snapshots };
+  }
+
+  async savePaperExchangeState(state: PaperExchangeState): Promise<void> {
+    return this.put(COLLECTIONS.paperExchange, 'current', state);
+  }
+
+  async getPaperExchangeState(): Promise<PaperExchangeState | undefined> {
+    return this.get<PaperExchangeState>(COLLECTIONS.paperExchange, 'current');
+  }
+
+  async saveSignal(signal: TradingSignal): Promise<void> {
+    return this.put(COLLECTIONS.signals, signal.id, signal);
+  }
+
+  async getSignals(symbol?: string, limit?: number): Promise<TradingSignal[]> {
+    const signals = (await this.list<TradingSignal>(COLLECTIONS.signals))
+      .filter(signal => !symbol || signal.symbol === symbol)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    return limit ? signals.slice(-limit) : signals;
+  }
+
+  async savePrediction(prediction: TrackedPrediction): Promise<void> {
+    return this.put(COLLECTIONS.predictions, prediction.id, prediction);
+  }
+
+  async savePredictions(predictions: TrackedPrediction[]): Promise<void> {
+    return this.putMany(COLLECTIONS.predictions, predictions.map(prediction => [prediction.id, prediction]));
+  }
+
+  async deletePredictions(ids: string[]): Promise<void> {
+    return this.deleteMany(COLLECTIONS.predictions, ids);
+  }
+
+  async getPredictions(): Promise<TrackedPrediction[]> {
+    const predictions = await this.list<TrackedPrediction>(COLLECTIONS.predictions);
+    return predictions.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getCacheEntry<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    return this.get<CacheEntry<T>>(COLLECTIONS.scraperCache, key);
+  }
+
+  async setCacheEntry<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    return this.put(COLLECTIONS.scraperCache, key, entry);
+  }
+
+  async deleteCacheEntry(key: string): Promise<void> {
+    return this.delete(COLLECTIONS.scraperCache, key);
+  }
+
+  /**
+   * Halves every capped collection after the backend ran out of space. The
+   * lower caps stay in place so the store does not fill up again right away.
+   */
+  private async shed(cause: unknown): Promise<void> {
+    let saved = false;
+
+    for (const [collection, maxEntries] of Object.entries(this.getRetention())) {
+      const size = (await this.backend.keys(collection)).length;
+      const reduced = Math.floor(Math.min(maxEntries, size) / 2);
+      this.retentionOverrides[collection] = reduced;
+
+      try {
+        // A trim that drops entries rewrites the document, the change that did not fit included
+        if (await this.backend.trim(collection, reduced, RETAINED[collection]) > 0) saved = true;
+      } catch (error) {
+        if (!isQuotaExceeded(error)) throw error;
+        saved = false;
+      }
+    }
+
+    if (saved) {
+      this.writeError = null;
+      return;
+    }
+
+    this.writeError = new Error(`${this.backend.name} storage is full; state changes are no longer saved`);
+    console.error(this.writeError.message, cause);
+    throw this.writeError;
+  }
+
+  private async migrate(): Promise<void> {
+    const backend = this.backend;
+    const current = await backend.getSchemaVersion();
+    const pending = this.migrations
+      .filter(migration => migration.version > current)
+      .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+      try {
+        await migration.up(backend);
+        await backend.setSchemaVersion(migration.version);
+      } catch (error) {
+        console.error(`Migration ${migration.version} (${migration.description}) failed:`, error);
+        throw error;
+      }
+    }
+  }
+}
\ No newline at end of file
@@ -1,3 +1,23 @@
+import { Candle } from '../types/trading';
+import {
+  adxSeries,
+  atrSeries,
+  cciSeries,
+  emaSeries,
+  ichimokuSeries,
+  keltnerSeries,
+  lastValue,
+  macdSeries,
+  MACDSeries,
+  obvSeries,
+  rsiSeries,
+  smaSeries,
+  stochasticSeries,
+  StochasticSeries,
+  vwapSeries
+} from './indicators';
+import { PatternRecognitionService } from './patternRecognition';
+
 export interface TechnicalIndicators {
   rsi: number;
   macd: {
@@ -26,6 +46,26 @@ export interface TechnicalIndicators {
     average: number;
     ratio: number;
   };
+  atr: number;
+  adx: {
+    adx: number;
+    plusDI: number;
+    minusDI: number;
+  };
+  obv: number;
+  vwap: number;
+  ichimoku: {
+    tenkan: number;
+    kijun: number;
+    senkouA: number;
+    senkouB: number;
+  };
+  keltnerChannels: {
+    upper: number;
+    middle: number;
+    lower: number;
+  };
+  cci: number;
 }
 
 export interface TechnicalSignal {
@@ -45,37 +85,60 @@ export class TechnicalAnalysisService {
     return TechnicalAnalysisService.instance;
   }
 
-  calculateRSI(prices: number[], period: number = 14): number {
-    if (prices.length < period + 1) return 50;
+  /**
+   * Full indicator snapshot for the latest candle. Indicators that are still
+   * warming up fall back to neutral values.
+   */
+  calculateIndicators(candles: Candle[]): TechnicalIndicators {
+    const closes = candles.map(candle => candle.close);
+    const highs = candles.map(candle => candle.high);
+    const lows = candles.map(candle => candle.low);
 
-    let gains = 0;
-    let losses = 0;
+    return {
+      rsi: this.calculateRSI(closes),
+      macd: this.calculateMACD(closes),
+      bollingerBands: this.calculateBollingerBands(closes),
+      movingAverages: {
+        sma20: this.calculateSMA(closes, 20),
+        sma50: this.calculateSMA(closes, 50),
+        sma200: this.calculateSMA(closes, 200),
+        ema12: this.calculateEMA(closes, 12),
+        ema26: this.calculateEMA(closes, 26)
+      },
+      stochastic: this.calculateStochastic(highs, lows, closes),
+      volume: this.calculateVolume(candles),
+      atr: this.calculateATR(candles),
+      adx: this.calculateADX(candles),
+      obv: this.calculateOBV(candles),
+      vwap: this.calculateVWAP(candles),
+      ichimoku: this.calculateIchimoku(candles),
+      keltnerChannels: this.calculateKeltnerChannels(candles),
+      cci: this.calculateCCI(candles)
+    };
+  }
 
-    for (let i = 1; i <= period; i++) {
-      const change = prices[i] - prices[i - 1];
-      if (change > 0) gains += change;
-      else losses -= change;
-    }
+  calculateRSI(prices: number[], period: number = 14): number {
+    return lastValue(rsiSeries(prices, period), 50);
+  }
 
-    const avgGain = gains / period;
-    const avgLoss = losses / period;
+  calculateRSISeries(prices: number[], period: number = 14): number[] {
+    return rsiSeries(prices, period);
+  }
 
-    if (avgLoss === 0) return 100;
+  calculateMACD(prices: number[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9): {
+    macd: number;
+    signal: number;
+    histogram: number;
+  } {
+    const series = macdSeries(prices, fastPeriod, slowPeriod, signalPeriod);
+    const macd = lastValue(series.macd, 0);
+    const signal = lastValue(series.signal, macd);
 
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
+    return { macd, signal, histogram: macd - signal };
   }
 
-  calculateMACD(prices: number[]): { macd: number; signal: number; histogram: number } {
-    const ema12 = this.calculateEMA(prices, 12);
-    const ema26 = this.calculateEMA(prices, 26);
-    const macd = ema12 - ema26;
-    
-    // Simplified signal line calculation
-    const signal = macd * 0.9; // Mock signal line
-    const histogram = macd - signal;
-
-    return { macd, signal, histogram };
+  calculateMACDSeries(prices: number[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9): MACDSeries {
+    return macdSeries(prices, fastPeriod, slowPeriod, signalPeriod);
   }
 
   calculateBollingerBands(prices: number[], period: number = 20, stdDev: number = 2): {
@@ -104,43 +167,119 @@ export class TechnicalAnalysisService {
     return relevantPrices.reduce((sum, price) => sum + price, 0) / period;
   }
 
-  calculateEMA(prices: number[], period: number): number {
-    if (prices.length === 0) return 0;
-    if (prices.length === 1) return prices[0];
-
-    const multiplier = 2 / (period + 1);
-    let ema = prices[0];
+  calculateSMASeries(prices: number[], period: number): number[] {
+    return smaSeries(prices, period);
+  }
 
-    for (let i = 1; i < prices.length; i++) {
-      ema = (prices[i] * multiplier) + (ema * (1 - multiplier));
-    }
+  calculateEMA(prices: number[], period: number): number {
+    return lastValue(emaSeries(prices, period), prices[prices.length - 1] || 0);
+  }
 
-    return ema;
+  calculateEMASeries(prices: number[], period: number): number[] {
+    return emaSeries(prices, period);
   }
 
-  calculateStochastic(highs: number[], lows: number[], closes: number[], period: number = 14): {
+  calculateStochastic(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    period: number = 14,
+    dPeriod: number = 3,
+    smoothK: number = 1
+  ): {
     k: number;
     d: number;
   } {
-    if (closes.length < period) {
-      return { k: 50, d: 50 };
-    }
+    const series = stochasticSeries(highs, lows, closes, period, dPeriod, smoothK);
+    const k = lastValue(series.k, 50);
+
+    return { k, d: lastValue(series.d, k) };
+  }
+
+  calculateStochasticSeries(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    period: number = 14,
+    dPeriod: number = 3,
+    smoothK: number = 1
+  ): StochasticSeries {
+    return stochasticSeries(highs, lows, closes, period, dPeriod, smoothK);
+  }
+
+  calculateVolume(candles: Candle[], period: number = 20): { current: number; average: number; ratio: number } {
+    if (candles.length === 0) return { current: 0, average: 0, ratio: 1 };
+
+    const current = candles[candles.length - 1].volume;
+    const average = this.calculateSMA(candles.map(candle => candle.volume), period);
+
+    return { current, average, ratio: average > 0 ? current / average : 1 };
+  }
+
+  calculateATR(candles: Candle[], period: number = 14): number {
+    const latest = candles[candles.length - 1];
+    return lastValue(atrSeries(candles, period), latest ? latest.high - latest.low : 0);
+  }
+
+  calculateADX(candles: Candle[], period: number = 14): { adx: number; plusDI: number; minusDI: number } {
+    const series = adxSeries(candles, period);
 
-    const recentHighs = highs.slice(-period);
-    const recentLows = lows.slice(-period);
-    const currentClose = closes[closes.length - 1];
+    return {
+      adx: lastValue(series.adx, 0),
+      plusDI: lastValue(series.plusDI, 0),
+      minusDI: lastValue(series.minusDI, 0)
+    };
+  }
+
+  calculateOBV(candles: Candle[]): number {
+    return lastValue(obvSeries(candles), 0);
+  }
+
+  calculateVWAP(candles: Candle[], period?: number): number {
+    const latest = candles[candles.length - 1];
+    return lastValue(vwapSeries(candles, period), latest ? latest.close : 0);
+  }
+
+  calculateIchimoku(candles: Candle[]): { tenkan: number; kijun: number; senkouA: number; senkouB: number } {
+    const series = ichimokuSeries(candles);
+    const price = candles.length ? candles[candles.length - 1].close : 0;
+    const tenkan = lastValue(series.tenkan, price);
+    const kijun = lastValue(series.kijun, price);
+
+    return {
+      tenkan,
+      kijun,
+      senkouA: lastValue(series.senkouA, (tenkan + kijun) / 2),
+      senkouB: lastValue(series.senkouB, kijun)
+    };
+  }
 
-    const highestHigh = Math.max(...recentHighs);
-    const lowestLow = Math.min(...recentLows);
+  calculateKeltnerChannels(candles: Candle[], emaPeriod: number = 20, atrPeriod: number = 10, multiplier: number = 2): {
+    upper: number;
+    middle: number;
+    lower: number;
+  } {
+    const series = keltnerSeries(candles, emaPeriod, atrPeriod, multiplier);
+    const price = candles.length ? candles[candles.length - 1].close : 0;
+    const middle = lastValue(series.middle, price);
 
-    const k = ((currentClose - lowestLow) / (highestHigh - lowestLow)) * 100;
-    const d = k * 0.9; // Simplified %D calculation
+    return {
+      upper: lastValue(series.upper, middle),
+      middle,
+      lower: lastValue(series.lower, middle)
+    };
+  }
 
-    return { k, d };
+  calculateCCI(candles: Candle[], period: number = 20): number {
+    return lastValue(cciSeries(candles, period), 0);
   }
 
-  analyzeIndicators(indicators: TechnicalIndicators): TechnicalSignal[] {
-    const signals: TechnicalSignal[] = [];
+  /**
+   * Signals from the indicator snapshot. Passing the candles the snapshot was
+   * computed from adds candlestick and chart pattern signals.
+   */
+  analyzeIndicators(indicators: TechnicalIndicators, candles?: Candle[]): TechnicalSignal[] {
+    const signals: TechnicalSignal[] = candles ? PatternRecognitionService.getInstance().detectPatterns(candles) : [];
 
     // RSI Analysis
     if (indicators.rsi < 30) {
@@ -193,6 +332,52 @@ export class TechnicalAnalysisService {
       });
     }
 
+    // Trend strength: only act on DMI direction when ADX confirms a trend
+    if (indicators.adx.adx >= 25) {
+      const bullish = indicators.adx.plusDI > indicators.adx.minusDI;
+      signals.push({
+        indicator: 'ADX',
+        signal: bullish ? 'BUY' : 'SELL',
+        strength: Math.min(indicators.adx.adx / 50, 1),
+        description: `Strong ${bullish ? 'up' : 'down'}trend (ADX ${indicators.adx.adx.toFixed(1)})`
+      });
+    }
+
+    // CCI Analysis
+    if (indicators.cci < -100) {
+      signals.push({
+        indicator: 'CCI',
+        signal: 'BUY',
+        strength: Math.min((-100 - indicators.cci) / 100, 1),
+        description: 'CCI indicates oversold conditions'
+      });
+    } else if (indicators.cci > 100) {
+      signals.push({
+        indicator: 'CCI',
+        signal: 'SELL',
+        strength: Math.min((indicators.cci - 100) / 100, 1),
+        description: 'CCI indicates overbought conditions'
+      });
+    }
+
+    // Ichimoku: conversion line against base line, confirmed by the cloud
+    const { tenkan, kijun, senkouA, senkouB } = indicators.ichimoku;
+    if (tenkan > kijun && kijun > Math.max(senkouA, senkouB)) {
+      signals.push({
+        indicator: 'Ichimoku',
+        signal: 'BUY',
+        strength: 0.6,
+        description: 'Tenkan above Kijun, above the cloud'
+      });
+    } else if (tenkan < kijun && kijun < Math.min(senkouA, senkouB)) {
+      signals.push({
+        indicator: 'Ichimoku',
+        signal: 'SELL',
+        strength: 0.6,
+        description: 'Tenkan below Kijun, below the cloud'
+      });
+    }
+
     return signals;
   }
 
@@ -0,0 +1,467 @@
+import { getFileAccess, joinPath } from './fileAccess';
+import { tokenizeSentimentText } from './lexiconSentiment';
+import { createRandom, shuffle } from './mlModels';
+
+export type TextSentimentLabel = 'bearish' | 'neutral' | 'bullish';
+
+export type TextModelType = 'NAIVE_BAYES' | 'LOGISTIC_REGRESSION';
+
+export interface LabeledText {
+  text: string;
+  label: TextSentimentLabel;
+}
+
+export interface TextTrainingOptions {
+  modelType: TextModelType;
+  maxNgram: number; // 2 adds bigrams such as "not bullish"
+  minDocumentFrequency: number;
+  maxFeatures: number; // most frequent terms kept in the vocabulary
+  validationSplit: number; // fraction held out after a seeded shuffle
+  seed: number;
+  smoothing: number; // naive Bayes additive smoothing
+  learningRate: number; // logistic regression only
+  epochs: number;
+  l2: number;
+}
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface TextModelMetrics {
+  samples: number;
+  accuracy: number;
+  macroF1: number;
+  classes: Record<TextSentimentLabel, ClassMetrics>;
+  confusion: Record<TextSentimentLabel, Record<TextSentimentLabel, number>>; // actual -> predicted
+}
+
+export interface TextClassifierInfo {
+  name: string;
+  type: TextModelType;
+  options: TextTrainingOptions;
+  vocabularySize: number;
+  trainSamples: number;
+  validation: TextModelMetrics;
+  trainedAt: Date;
+}
+
+export interface TextVocabulary {
+  terms: string[];
+  idf: number[];
+}
+
+export interface StoredTextClassifier extends TextClassifierInfo {
+  vocabulary: TextVocabulary;
+  weights: number[][]; // per label, in TEXT_LABELS order
+  bias: number[];
+}
+
+export interface TextPrediction {
+  label: TextSentimentLabel;
+  probabilities: Record<TextSentimentLabel, number>;
+  score: number; // P(bullish) - P(bearish), -1..1
+  confidence: number; // 0 when the text has no known terms or the classes tie
+}
+
+interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+export const TEXT_LABELS: TextSentimentLabel[] = ['bearish', 'neutral', 'bullish'];
+
+const LABEL_ALIASES: Record<string, TextSentimentLabel> = {
+  'bearish': 'bearish',
+  'negative': 'bearish',
+  '-1': 'bearish',
+  'neutral': 'neutral',
+  '0': 'neutral',
+  'bullish': 'bullish',
+  'positive': 'bullish',
+  '1': 'bullish'
+};
+
+/**
+ * Splits text into unigrams and n-grams up to `maxNgram`. N-grams do not
+ * cross punctuation, and cashtags are dropped so ticker names do not pick up
+ * the sentiment of whatever period the corpus covers.
+ */
+export function extractTextTerms(text: string, maxNgram: number): string[] {
+  const terms: string[] = [];
+  let segment: string[] = [];
+
+  const flush = () => {
+    for (let n = 1; n <= maxNgram; n++) {
+      for (let i = 0; i + n <= segment.length; i++) {
+        terms.push(segment.slice(i, i + n).join(' '));
+      }
+    }
+    segment = [];
+  };
+
+  tokenizeSentimentText(text || '').forEach(token => {
+    if (token.kind === 'punctuation') flush();
+    else if (token.kind !== 'cashtag') segment.push(token.text);
+  });
+  flush();
+  return terms;
+}
+
+/*
+ * Both model types end up linear in the TF-IDF vector: naive Bayes stores log
+ * priors and log term likelihoods, logistic regression its softmax weights.
+ * Prediction is the same softmax either way.
+ */
+export class TextClassifierModel {
+  private termIndex: Map<string, number>;
+
+  constructor(
+    readonly info: TextClassifierInfo,
+    private vocabulary: TextVocabulary,
+    private weights: number[][],
+    private bias: number[]
+  ) {
+    this.termIndex = new Map(vocabulary.terms.map((term, index) => [term, index]));
+  }
+
+  predict(text: string): TextPrediction {
+    const vector = vectorize(text, this.termIndex, this.vocabulary.idf, this.info.options.maxNgram);
+    const probabilities = softmax(linearScores(vector, this.weights, this.bias));
+    const best = probabilities.indexOf(Math.max(...probabilities));
+    const uniform = 1 / TEXT_LABELS.length;
+
+    return {
+      label: TEXT_LABELS[best],
+      probabilities: toLabelRecord(probabilities),
+      score: probabilities[2] - probabilities[0],
+      confidence: vector.indices.length === 0 ? 0 : (probabilities[best] - uniform) / (1 - uniform)
+    };
+  }
+
+  /** Terms pulling hardest towards bullish (positive) or bearish (negative). */
+  topTerms(count = 20): { term: string; weight: number }[] {
+    return this.vocabulary.terms
+      .map((term, index) => ({ term, weight: this.weights[2][index] - this.weights[0][index] }))
+      .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+      .slice(0, count);
+  }
+
+  toJSON(): StoredTextClassifier {
+    return { ...this.info, vocabulary: this.vocabulary, weights: this.weights, bias: this.bias };
+  }
+
+  static fromJSON(data: StoredTextClassifier): TextClassifierModel {
+    const { vocabulary, weights, bias, ...info } = data;
+    return new TextClassifierModel({ ...info, trainedAt: new Date(info.trainedAt) }, vocabulary, weights, bias);
+  }
+}
+
+/**
+ * Trains sentiment classifiers on labeled headlines and posts and keeps them
+ * by name, in memory and as JSON files under the model directory.
+ */
+export class TextClassifierRegistry {
+  private static instance: TextClassifierRegistry;
+  private models = new Map<string, TextClassifierModel>();
+
+  constructor(private directory: string = '.sentiment-models') {}
+
+  static getInstance(): TextClassifierRegistry {
+    if (!TextClassifierRegistry.instance) {
+      TextClassifierRegistry.instance = new TextClassifierRegistry();
+    }
+    return TextClassifierRegistry.instance;
+  }
+
+  getDefaultTrainingOptions(modelType: TextModelType = 'NAIVE_BAYES'): TextTrainingOptions {
+    return {
+      modelType,
+      maxNgram: 2,
+      minDocumentFrequency: 2,
+      maxFeatures: 20000,
+      validationSplit: 0.2,
+      seed: 42,
+      smoothing: 0.1,
+      learningRate: 0.5,
+      epochs: 20,
+      l2: 0.0001
+    };
+  }
+
+  /**
+   * Reads a JSONL corpus with one `{"text": ..., "label": ...}` object per
+   * line. Labels may be bullish/neutral/bearish, positive/negative or 1/0/-1.
+   */
+  async loadCorpus(filePath: string): Promise<LabeledText[]> {
+    const content = await getFileAccess().readText(filePath);
+    const examples: LabeledText[] = [];
+
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+
+      let entry: any;
+      try {
+        entry = JSON.parse(line);
+      } catch (error) {
+        throw new Error(`Invalid JSON on line ${index + 1} of ${filePath}`);
+      }
+
+      const label = LABEL_ALIASES[String(entry?.label).toLowerCase()];
+      if (typeof entry?.text !== 'string' || !label) {
+        throw new Error(`Line ${index + 1} of ${filePath} needs a text and a bullish/neutral/bearish label`);
+      }
+      examples.push({ text: entry.text, label });
+    });
+
+    return examples;
+  }
+
+  /**
+   * Shuffles the examples with the configured seed, fits the vocabulary and
+   * the model on the training part and reports metrics on the held-out part.
+   * The model is registered under `name`, replacing any previous one.
+   */
+  train(name: string, examples: LabeledText[], options: Partial<TextTrainingOptions> = {}): TextClassifierModel {
+    const config = { ...this.getDefaultTrainingOptions(options.modelType), ...options };
+    const shuffled = shuffle(examples, createRandom(config.seed));
+    const split = Math.floor(shuffled.length * (1 - config.validationSplit));
+    const train = shuffled.slice(0, split);
+    const validation = shuffled.slice(split);
+
+    if (train.length === 0) {
+      throw new Error(`Not enough examples to train text classifier ${name}`);
+    }
+
+    const vocabulary = this.buildVocabulary(train, config);
+    if (vocabulary.terms.length === 0) {
+      throw new Error(`No terms reach the minimum document frequency for text classifier ${name}`);
+    }
+
+    const termIndex = new Map(vocabulary.terms.map((term, index) => [term, index]));
+    const vectors = train.map(example => vectorize(example.text, termIndex, vocabulary.idf, config.maxNgram));
+    const labels = train.map(example => TEXT_LABELS.indexOf(example.label));
+    const fitted = config.modelType === 'NAIVE_BAYES'
+      ? this.fitNaiveBayes(vectors, labels, vocabulary.terms.length, config)
+      : this.fitLogisticRegression(vectors, labels, vocabulary.terms.length, config);
+
+    const info: TextClassifierInfo = {
+      name,
+      type: config.modelType,
+      options: config,
+      vocabularySize: vocabulary.terms.length,
+      trainSamples: train.length,
+      validation: this.emptyMetrics(),
+      trainedAt: new Date()
+    };
+    const model = new TextClassifierModel(info, vocabulary, fitted.weights, fitted.bias);
+    info.validation = this.evaluate(validation, text => model.predict(text).label);
+
+    this.models.set(name, model);
+    return model;
+  }
+
+  /**
+   * Precision and recall of any classifier over labeled examples, so a
+   * trained model can be compared with the lexicon scorer on the same data.
+   */
+  evaluate(examples: LabeledText[], classify: (text: string) => TextSentimentLabel): TextModelMetrics {
+    const metrics = this.emptyMetrics();
+    examples.forEach(example => {
+      metrics.confusion[example.label][classify(example.text)]++;
+    });
+
+    let correct = 0;
+    TEXT_LABELS.forEach(label => {
+      const truePositives = metrics.confusion[label][label];
+      const predicted = TEXT_LABELS.reduce((sum, actual) => sum + metrics.confusion[actual][label], 0);
+      const support = TEXT_LABELS.reduce((sum, guess) => sum + metrics.confusion[label][guess], 0);
+      const precision = predicted ? truePositives / predicted : 0;
+      const recall = support ? truePositives / support : 0;
+
+      metrics.classes[label] = {
+        precision,
+        recall,
+        f1: precision + recall ? (2 * precision * recall) / (precision + recall) : 0,
+        support
+      };
+      correct += truePositives;
+    });
+
+    const present = TEXT_LABELS.filter(label => metrics.classes[label].support > 0);
+    metrics.samples = examples.length;
+    metrics.accuracy = examples.length ? correct / examples.length : 0;
+    metrics.macroF1 = present.length
+      ? present.reduce((sum, label) => sum + metrics.classes[label].f1, 0) / present.length
+      : 0;
+    return metrics;
+  }
+
+  register(model: TextClassifierModel): void {
+    this.models.set(model.info.name, model);
+  }
+
+  get(name: string): TextClassifierModel | undefined {
+    return this.models.get(name);
+  }
+
+  list(): TextClassifierInfo[] {
+    return Array.from(this.models.values()).map(model => model.info);
+  }
+
+  setDirectory(directory: string): void {
+    this.directory = directory;
+  }
+
+  async save(name: string): Promise<string> {
+    const model = this.models.get(name);
+    if (!model) {
+      throw new Error(`Unknown text classifier: ${name}`);
+    }
+
+    const filePath = this.getModelPath(name);
+    await getFileAccess().writeText(filePath, JSON.stringify(model.toJSON()));
+    return filePath;
+  }
+
+  async load(name: string): Promise<TextClassifierModel> {
+    const content = await getFileAccess().readText(this.getModelPath(name));
+    const model = TextClassifierModel.fromJSON(JSON.parse(content));
+    this.models.set(name, model);
+    return model;
+  }
+
+  /**
+   * Returns the registered model, loading it from disk on first use.
+   */
+  async resolve(name: string): Promise<TextClassifierModel> {
+    return this.models.get(name) || this.load(name);
+  }
+
+  private buildVocabulary(examples: LabeledText[], config: TextTrainingOptions): TextVocabulary {
+    const documentFrequency = new Map<string, number>();
+    examples.forEach(example => {
+      new Set(extractTextTerms(example.text, config.maxNgram)).forEach(term => {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      });
+    });
+
+    const terms = Array.from(documentFrequency.entries())
+      .filter(([, count]) => count >= config.minDocumentFrequency)
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+      .slice(0, config.maxFeatures)
+      .map(([term]) => term);
+
+    return {
+      terms,
+      idf: terms.map(term => Math.log((1 + examples.length) / (1 + documentFrequency.get(term)!)) + 1)
+    };
+  }
+
+  /**
+   * Multinomial naive Bayes over TF-IDF weights instead of raw counts, with
+   * additive smoothing and smoothed class priors.
+   */
+  private fitNaiveBayes(vectors: SparseVector[], labels: number[], width: number, config: TextTrainingOptions): { weights: number[][]; bias: number[] } {
+    const totals = TEXT_LABELS.map(() => new Array<number>(width).fill(0));
+    const counts = TEXT_LABELS.map(() => 0);
+
+    vectors.forEach((vector, i) => {
+      counts[labels[i]]++;
+      vector.indices.forEach((index, k) => {
+        totals[labels[i]][index] += vector.values[k];
+      });
+    });
+
+    const weights = totals.map(row => {
+      const denominator = row.reduce((sum, value) => sum + value, 0) + config.smoothing * width;
+      return row.map(value => Math.log((value + config.smoothing) / denominator));
+    });
+    const bias = counts.map(count => Math.log((count + 1) / (vectors.length + TEXT_LABELS.length)));
+    return { weights, bias };
+  }
+
+  /**
+   * Softmax regression trained with per-example gradient steps in a seeded
+   * order. L2 decays only the weights of the example's terms, on every step,
+   * so rare terms are shrunk less than frequent ones.
+   */
+  private fitLogisticRegression(vectors: SparseVector[], labels: number[], width: number, config: TextTrainingOptions): { weights: number[][]; bias: number[] } {
+    const weights = TEXT_LABELS.map(() => new Array<number>(width).fill(0));
+    const bias = TEXT_LABELS.map(() => 0);
+    const random = createRandom(config.seed);
+    const order = vectors.map((_, i) => i);
+
+    for (let epoch = 0; epoch < config.epochs; epoch++) {
+      const rate = config.learningRate / (1 + epoch * 0.1);
+
+      shuffle(order, random).forEach(i => {
+        const probabilities = softmax(linearScores(vectors[i], weights, bias));
+        probabilities.forEach((probability, c) => {
+          const error = probability - (labels[i] === c ? 1 : 0);
+          vectors[i].indices.forEach((index, k) => {
+            weights[c][index] -= rate * (error * vectors[i].values[k] + config.l2 * weights[c][index]);
+          });
+          bias[c] -= rate * error;
+        });
+      });
+    }
+
+    return { weights, bias };
+  }
+
+  private emptyMetrics(): TextModelMetrics {
+    const zeroClass = (): ClassMetrics => ({ precision: 0, recall: 0, f1: 0, support: 0 });
+    const zeroRow = () => toLabelRecord(TEXT_LABELS.map(() => 0));
+    return {
+      samples: 0,
+      accuracy: 0,
+      macroF1: 0,
+      classes: { bearish: zeroClass(), neutral: zeroClass(), bullish: zeroClass() },
+      confusion: { bearish: zeroRow(), neutral: zeroRow(), bullish: zeroRow() }
+    };
+  }
+
+  private getModelPath(name: string): string {
+    if (!/^[\w.-]+$/.test(name)) {
+      throw new Error(`Invalid text classifier name: ${name}`);
+    }
+    return joinPath(this.directory, `${name}.json`);
+  }
+}
+
+/**
+ * Sublinear term frequency times IDF, L2-normalized.
+ */
+function vectorize(text: string, termIndex: Map<string, number>, idf: number[], maxNgram: number): SparseVector {
+  const counts = new Map<number, number>();
+  extractTextTerms(text, maxNgram).forEach(term => {
+    const index = termIndex.get(term);
+    if (index !== undefined) counts.set(index, (counts.get(index) || 0) + 1);
+  });
+
+  const indices = Array.from(counts.keys());
+  const values = indices.map(index => (1 + Math.log(counts.get(index)!)) * idf[index]);
+  const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return { indices, values: values.map(value => value / norm) };
+}
+
+function linearScores(vector: SparseVector, weights: number[][], bias: number[]): number[] {
+  return weights.map((row, c) =>
+    vector.indices.reduce((sum, index, k) => sum + row[index] * vector.values[k], bias[c])
+  );
+}
+
+function softmax(scores: number[]): number[] {
+  const max = Math.max(...scores);
+  const exps = scores.map(score => Math.exp(score - max));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+  return exps.map(value => value / total);
+}
+
+function toLabelRecord(values: number[]): Record<TextSentimentLabel, number> {
+  return { bearish: values[0], neutral: values[1], bullish: values[2] };
+}
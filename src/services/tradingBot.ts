@@ -1,5 +1,13 @@
 import { PredictionEngine, PredictionResult } from './predictionEngine';
-import { TradingSignal, TradeExecution, Portfolio } from '../types/trading';
+import { MarketDataService } from './marketData';
+import { ExchangeConnector, ExchangeConnectorConfig, ExchangeConnectorFactory, createExchangeConnector } from './exchangeConnector';
+import { OrderEvent, OrderFill } from './paperExchange';
+import { PortfolioAccounting } from './portfolioAccounting';
+import { ClosedPosition, ManagedPosition, PositionExitReason, PositionExitSignal, PositionManager } from './positionManager';
+import { PredictionTracker } from './predictionTracker';
+import { StateStore } from './stateStore';
+import { calculatePortfolioRisk, calculatePositionSize, shouldExecuteTrade } from './tradingRules';
+import { TechnicalIndicators, TradingSignal, TradeExecution, Portfolio } from '../types/trading';
 
 export interface TradingStrategy {
   name: string;
@@ -7,6 +15,8 @@ export interface TradingStrategy {
   maxPositionSize: number;
   stopLossPercentage: number;
   takeProfitPercentage: number;
+  trailingStopPercentage?: number;
+  maxHoldingPeriodHours?: number;
   minConfidence: number;
 }
 
@@ -16,20 +26,43 @@ export interface AutoTradingConfig {
   maxDailyTrades: number;
   maxPortfolioRisk: number;
   symbols: string[];
+  exchange: ExchangeConnectorConfig;
 }
 
 export class TradingBot {
   private static instance: TradingBot;
   private predictionEngine: PredictionEngine;
-  private portfolio: Portfolio;
+  private predictionTracker: PredictionTracker;
+  private marketData: MarketDataService;
+  private exchange: ExchangeConnector;
+  private unsubscribeOrders: (() => void) | null = null;
+  private positionManager: PositionManager;
+  private pendingExits: Map<string, PositionExitReason> = new Map();
+  private accounting: PortfolioAccounting;
+  private stateStore: StateStore;
+  private stateLoaded: Promise<void>;
   private activePositions: Map<string, TradeExecution> = new Map();
   private tradeHistory: TradeExecution[] = [];
   private config: AutoTradingConfig;
 
-  constructor() {
+  constructor(
+    stateStore: StateStore = StateStore.getInstance(),
+    accounting: PortfolioAccounting = PortfolioAccounting.getInstance(),
+    positionManager: PositionManager = PositionManager.getInstance(),
+    private connectorFactory: ExchangeConnectorFactory = createExchangeConnector
+  ) {
     this.predictionEngine = PredictionEngine.getInstance();
-    this.portfolio = this.initializePortfolio();
+    this.predictionTracker = PredictionTracker.getInstance();
+    this.marketData = MarketDataService.getInstance();
+    this.positionManager = positionManager;
+    this.accounting = accounting;
+    this.stateStore = stateStore;
     this.config = this.getDefaultConfig();
+    this.exchange = this.attachExchange(this.config.exchange);
+    this.stateLoaded = this.restoreState();
+    this.stateStore.onBackendChange(() => {
+      this.stateLoaded = this.restoreState();
+    });
   }
 
   static getInstance(): TradingBot {
@@ -40,49 +73,59 @@ export class TradingBot {
   }
 
   async generateTradingSignals(symbols: string[]): Promise<TradingSignal[]> {
+    await this.stateLoaded;
+    this.marketData.getProvider(); // fails once for the batch rather than per symbol
     const signals: TradingSignal[] = [];
 
     for (const symbol of symbols) {
       try {
-        // Mock price data - in production, fetch from real API
-        const currentPrice = Math.random() * 50000 + 10000;
-        const priceHistory = this.generateMockPriceHistory(currentPrice);
-        
-        const marketConditions = {
-          trend: Math.random() > 0.5 ? 'BULLISH' as const : 'BEARISH' as const,
-          volatility: Math.random() * 0.8 + 0.1,
-          volume: Math.random() * 2000000 + 500000,
-          marketCap: Math.random() * 1000000000 + 100000000
-        };
+        const marketData = await this.marketData.getMarketData(symbol);
+        const currentPrice = marketData.price;
+        const marketConditions = this.marketData.deriveMarketConditions(marketData);
+        this.exchange.syncOrderBook?.(symbol, marketData.orderBook, currentPrice);
+        this.accounting.markToMarket(symbol, currentPrice);
+        await this.checkPositionExit(symbol, currentPrice);
+        await this.predictionTracker.resolve(symbol, currentPrice);
 
         const prediction = await this.predictionEngine.generatePrediction(
           symbol,
           currentPrice,
-          priceHistory,
+          marketData.candles,
           marketConditions
         );
+        // Every prediction is scored, not only traded ones, so calibration
+        // covers the low-confidence range too; fallbacks predict nothing
+        if (!prediction.fallback) {
+          await this.predictionTracker.track(prediction, this.config.strategy.name);
+        }
 
         if (prediction.confidence >= this.config.strategy.minConfidence) {
           const signal: TradingSignal = {
+            id: `signal_${symbol}_${Date.now()}`,
             symbol,
             action: prediction.prediction === 'HOLD' ? 'HOLD' : prediction.prediction,
             confidence: prediction.confidence,
             price: currentPrice,
-            timestamp: new Date(),
+            targetPrice: prediction.targetPrice,
+            stopLoss: prediction.stopLoss,
             reasoning: prediction.reasoning,
-            technicalIndicators: this.getMockTechnicalIndicators(),
-            sentimentScore: Math.random() * 2 - 1,
-            newsScore: Math.random() * 2 - 1,
-            socialScore: Math.random() * 2 - 1
+            timestamp: new Date(),
+            technicalIndicators: this.toSignalIndicators(prediction, currentPrice),
+            sentimentScore: prediction.sentiment.overall,
+            newsScore: prediction.sentiment.news,
+            socialScore: prediction.sentiment.social,
+            riskLevel: prediction.riskLevel
           };
 
           signals.push(signal);
+          this.persist(this.stateStore.saveSignal(signal), `signal for ${symbol}`);
         }
       } catch (error) {
         console.error(`Error generating signal for ${symbol}:`, error);
       }
     }
 
+    this.persistPortfolio();
     return signals.sort((a, b) => b.confidence - a.confidence);
   }
 
@@ -91,10 +134,19 @@ export class TradingBot {
       return [];
     }
 
+    await this.stateLoaded;
+    await this.monitorPositions();
+
     const signals = await this.generateTradingSignals(this.config.symbols);
     const executions: TradeExecution[] = [];
 
     for (const signal of signals) {
+      // Venues are spot only: a SELL signal exits a managed LONG and never opens a short
+      if (signal.action === 'SELL') {
+        await this.exitOnSellSignal(signal);
+        continue;
+      }
+
       if (this.shouldExecuteTrade(signal)) {
         const execution = await this.executeTrade(signal);
         if (execution) {
@@ -107,198 +159,342 @@ export class TradingBot {
   }
 
   private shouldExecuteTrade(signal: TradingSignal): boolean {
-    // Check daily trade limit
-    const todayTrades = this.tradeHistory.filter(trade => 
-      trade.timestamp.toDateString() === new Date().toDateString()
+    const today = new Date().toDateString();
+    const tradesToday = this.tradeHistory.filter(trade =>
+      trade.status !== 'FAILED' && trade.timestamp.toDateString() === today
     ).length;
 
-    if (todayTrades >= this.config.maxDailyTrades) {
-      return false;
-    }
-
-    // Check if we already have a position
-    if (this.activePositions.has(signal.symbol)) {
-      return false;
-    }
-
-    // Check confidence threshold
-    if (signal.confidence < this.config.strategy.minConfidence) {
-      return false;
-    }
+    return shouldExecuteTrade(signal, {
+      config: this.config,
+      tradesToday,
+      openSymbols: new Set(this.activePositions.keys()),
+      portfolioRisk: this.calculatePortfolioRisk()
+    });
+  }
 
-    // Check portfolio risk
-    const currentRisk = this.calculatePortfolioRisk();
-    if (currentRisk >= this.config.maxPortfolioRisk) {
-      return false;
-    }
+  private async exitOnSellSignal(signal: TradingSignal): Promise<void> {
+    const position = this.positionManager.getPosition(signal.symbol);
+    if (!position || position.side !== 'LONG' || position.closing) return;
 
-    return true;
+    this.positionManager.markClosing(signal.symbol);
+    await this.exitPosition({ symbol: signal.symbol, reason: 'SIGNAL', price: signal.price, position });
   }
 
   private async executeTrade(signal: TradingSignal): Promise<TradeExecution | null> {
     try {
+      if (signal.action !== 'BUY') {
+        return null;
+      }
+
       const positionSize = this.calculatePositionSize(signal);
-      
       if (positionSize <= 0) {
         return null;
       }
 
-      const execution: TradeExecution = {
-        id: this.generateTradeId(),
+      // Fills, cancels and rejections are applied through handleOrderEvent
+      const order = await this.exchange.placeOrder({
         symbol: signal.symbol,
-        action: signal.action as 'BUY' | 'SELL',
-        amount: positionSize,
-        price: signal.price,
-        timestamp: new Date(),
-        status: 'EXECUTED', // In production, this would be 'PENDING' initially
-        profit: 0
-      };
-
-      // Update portfolio
-      this.updatePortfolio(execution);
-      
-      // Add to active positions
-      this.activePositions.set(signal.symbol, execution);
-      
-      // Add to trade history
-      this.tradeHistory.push(execution);
+        side: signal.action,
+        type: 'MARKET',
+        amount: positionSize
+      });
 
-      console.log(`Executed ${execution.action} order for ${execution.symbol}:`, execution);
-      
-      return execution;
+      if (order.status === 'FAILED') {
+        console.error(`${order.side} order for ${order.symbol} rejected: ${order.reason}`);
+      }
+
+      return order;
     } catch (error) {
       console.error('Error executing trade:', error);
       return null;
     }
   }
 
-  private calculatePositionSize(signal: TradingSignal): number {
-    const maxPositionValue = this.portfolio.totalValue * this.config.strategy.maxPositionSize;
-    const positionSize = maxPositionValue / signal.price;
-    
-    // Adjust based on confidence and risk
-    const confidenceMultiplier = signal.confidence;
-    const riskMultiplier = this.getRiskMultiplier(signal);
-    
-    return positionSize * confidenceMultiplier * riskMultiplier;
-  }
-
-  private getRiskMultiplier(signal: TradingSignal): number {
-    switch (this.config.strategy.riskTolerance) {
-      case 'LOW': return 0.5;
-      case 'MEDIUM': return 0.75;
-      case 'HIGH': return 1.0;
-      default: return 0.75;
+  private attachExchange(exchangeConfig: ExchangeConnectorConfig): ExchangeConnector {
+    const exchange = this.connectorFactory(exchangeConfig);
+
+    this.unsubscribeOrders = exchange.onOrderUpdate(event => this.handleOrderEvent(event));
+    exchange.connect().catch(error => {
+      console.error(`Error connecting to ${exchange.name} exchange:`, error);
+    });
+
+    return exchange;
+  }
+
+  // The new connector is built first so a bad config leaves the current one attached
+  private async switchExchange(exchangeConfig: ExchangeConnectorConfig): Promise<void> {
+    const previous = this.exchange;
+    const unsubscribePrevious = this.unsubscribeOrders;
+
+    this.exchange = this.attachExchange(exchangeConfig);
+    unsubscribePrevious?.();
+    await previous.disconnect();
+  }
+
+  /**
+   * Checks every managed position against the latest price and sends closing
+   * orders for the ones whose stop-loss, take-profit, trailing stop or holding
+   * period has been hit.
+   */
+  async monitorPositions(): Promise<void> {
+    this.marketData.getProvider();
+    for (const position of this.positionManager.getOpenPositions()) {
+      try {
+        const marketData = await this.marketData.getMarketData(position.symbol);
+        this.exchange.syncOrderBook?.(position.symbol, marketData.orderBook, marketData.price);
+        this.accounting.markToMarket(position.symbol, marketData.price);
+        await this.checkPositionExit(position.symbol, marketData.price);
+      } catch (error) {
+        console.error(`Error monitoring position for ${position.symbol}:`, error);
+      }
     }
   }
 
-  private updatePortfolio(execution: TradeExecution): void {
-    const cost = execution.amount * execution.price;
-    
-    if (execution.action === 'BUY') {
-      this.portfolio.cash -= cost;
-      
-      if (this.portfolio.positions[execution.symbol]) {
-        const existing = this.portfolio.positions[execution.symbol];
-        const totalAmount = existing.amount + execution.amount;
-        const totalCost = (existing.amount * existing.averagePrice) + cost;
-        
-        this.portfolio.positions[execution.symbol] = {
-          amount: totalAmount,
-          averagePrice: totalCost / totalAmount,
-          currentValue: totalAmount * execution.price,
-          profit: 0
-        };
-      } else {
-        this.portfolio.positions[execution.symbol] = {
-          amount: execution.amount,
-          averagePrice: execution.price,
-          currentValue: cost,
-          profit: 0
-        };
+  private async checkPositionExit(symbol: string, price: number): Promise<void> {
+    const exit = this.positionManager.updatePrice(symbol, price);
+    if (exit) {
+      await this.exitPosition(exit);
+    } else {
+      this.persistPosition(symbol); // keep trailing stop high/low water marks
+    }
+  }
+
+  private async exitPosition(exit: PositionExitSignal): Promise<void> {
+    this.pendingExits.set(exit.symbol, exit.reason);
+
+    try {
+      const order = await this.exchange.placeOrder({
+        symbol: exit.symbol,
+        side: exit.position.side === 'LONG' ? 'SELL' : 'BUY',
+        type: 'MARKET',
+        amount: exit.position.amount
+      });
+
+      if (order.status === 'FAILED') {
+        console.error(`Exit order for ${exit.symbol} rejected: ${order.reason}`);
+        this.abortExit(exit.symbol);
       }
-    } else if (execution.action === 'SELL') {
-      this.portfolio.cash += cost;
-      
-      if (this.portfolio.positions[execution.symbol]) {
-        const existing = this.portfolio.positions[execution.symbol];
-        existing.amount -= execution.amount;
-        
-        if (existing.amount <= 0) {
-          delete this.portfolio.positions[execution.symbol];
+    } catch (error) {
+      console.error(`Error exiting position for ${exit.symbol}:`, error);
+      this.abortExit(exit.symbol);
+    }
+  }
+
+  private abortExit(symbol: string): void {
+    this.pendingExits.delete(symbol);
+    this.positionManager.cancelExit(symbol);
+  }
+
+  private isExitOrder(order: TradeExecution): boolean {
+    const position = this.positionManager.getPosition(order.symbol);
+    if (!position || !position.closing || !this.pendingExits.has(order.symbol)) return false;
+
+    return order.side === (position.side === 'LONG' ? 'SELL' : 'BUY');
+  }
+
+  private handleOrderEvent(event: OrderEvent): void {
+    const { order, fill } = event;
+    this.recordExecution(order);
+    this.persistExchange();
+
+    if (this.isExitOrder(order)) {
+      this.handleExitOrderEvent(event);
+      return;
+    }
+
+    switch (event.type) {
+      case 'NEW':
+        if (order.side === 'BUY') this.activePositions.set(order.symbol, order);
+        break;
+      case 'PARTIALLY_FILLED':
+      case 'FILLED':
+        if (fill && this.recordFill(order, fill)) {
+          if (order.side === 'BUY') {
+            this.positionManager.openPosition(
+              order.symbol,
+              'LONG',
+              fill.amount,
+              fill.price,
+              fill.fee,
+              order.id,
+              this.config.strategy,
+              fill.timestamp
+            );
+          } else {
+            // A spot sell outside an exit only reduces the coins held, it never opens a short
+            this.reduceLong(order.symbol, fill);
+          }
+          this.persistPosition(order.symbol);
+          this.persistPortfolio();
         }
-      }
+        if (order.side === 'BUY') {
+          this.activePositions.set(order.symbol, order);
+        } else if (!this.positionManager.getPosition(order.symbol)) {
+          this.activePositions.delete(order.symbol);
+        }
+        console.log(`${event.type === 'FILLED' ? 'Filled' : 'Partially filled'} ${order.side} order for ${order.symbol}:`, order);
+        break;
+      case 'CANCELLED':
+      case 'REJECTED':
+        if (order.filledAmount === 0 && this.activePositions.get(order.symbol)?.id === order.id) {
+          this.activePositions.delete(order.symbol);
+        }
+        break;
     }
-    
-    this.updatePortfolioValue();
   }
 
-  private updatePortfolioValue(): void {
-    let totalPositionValue = 0;
-    
-    Object.values(this.portfolio.positions).forEach(position => {
-      totalPositionValue += position.currentValue;
-    });
-    
-    this.portfolio.totalValue = this.portfolio.cash + totalPositionValue;
+  private reduceLong(symbol: string, fill: OrderFill): void {
+    if (this.positionManager.getPosition(symbol)?.side !== 'LONG') return;
+
+    const closed = this.positionManager.closePosition(symbol, fill.amount, fill.price, fill.fee, 'MANUAL', fill.timestamp);
+    if (closed) {
+      this.persist(this.stateStore.saveClosedPosition(closed), `closed position for ${symbol}`);
+    }
   }
 
-  private calculatePortfolioRisk(): number {
-    let totalRisk = 0;
-    
-    Object.values(this.portfolio.positions).forEach(position => {
-      const positionRisk = (position.currentValue / this.portfolio.totalValue) * 0.1; // 10% risk per position
-      totalRisk += positionRisk;
-    });
-    
-    return totalRisk;
+  private handleExitOrderEvent(event: OrderEvent): void {
+    const { order, fill } = event;
+    const reason = this.pendingExits.get(order.symbol)!;
+
+    switch (event.type) {
+      case 'PARTIALLY_FILLED':
+      case 'FILLED':
+        if (fill) {
+          this.recordFill(order, fill);
+          const closed = this.positionManager.closePosition(
+            order.symbol,
+            fill.amount,
+            fill.price,
+            fill.fee,
+            reason,
+            fill.timestamp
+          );
+          if (closed) {
+            console.log(`Closed ${closed.side} ${order.symbol} on ${reason}, realized PnL ${closed.realizedPnl.toFixed(2)}`);
+            this.persist(this.stateStore.saveClosedPosition(closed), `closed position for ${order.symbol}`);
+          }
+          this.persistPosition(order.symbol);
+          this.persistPortfolio();
+        }
+
+        if (!this.positionManager.getPosition(order.symbol)) {
+          this.pendingExits.delete(order.symbol);
+          this.activePositions.delete(order.symbol);
+        }
+        break;
+      case 'CANCELLED':
+      case 'REJECTED':
+        // Whatever did not fill stays open and is re-checked on the next price update
+        this.abortExit(order.symbol);
+        break;
+    }
   }
 
-  private generateMockPriceHistory(currentPrice: number): number[] {
-    const history: number[] = [];
-    let price = currentPrice;
-    
-    for (let i = 0; i < 100; i++) {
-      price += (Math.random() - 0.5) * price * 0.02; // 2% max change
-      history.unshift(price);
+  private recordFill(order: TradeExecution, fill: OrderFill): boolean {
+    try {
+      this.accounting.recordFill({ ...order, amount: fill.amount, price: fill.price, fees: fill.fee, timestamp: fill.timestamp });
+      return true;
+    } catch (error) {
+      console.error(`Error booking fill for order ${order.id}:`, error);
+      return false;
     }
-    
-    return history;
   }
 
-  private getMockTechnicalIndicators() {
-    return {
-      rsi: Math.random() * 100,
-      macd: Math.random() * 200 - 100,
-      bollingerBands: {
-        upper: Math.random() * 60000 + 40000,
-        middle: Math.random() * 50000 + 35000,
-        lower: Math.random() * 40000 + 30000
-      },
-      movingAverages: {
-        sma20: Math.random() * 50000 + 30000,
-        sma50: Math.random() * 50000 + 30000,
-        ema12: Math.random() * 50000 + 30000,
-        ema26: Math.random() * 50000 + 30000
+  private recordExecution(execution: TradeExecution): void {
+    const index = this.tradeHistory.findIndex(trade => trade.id === execution.id);
+
+    if (index >= 0) {
+      this.tradeHistory[index] = execution;
+    } else {
+      this.tradeHistory.push(execution);
+    }
+
+    this.persist(this.stateStore.saveTrade(execution), `trade ${execution.id}`);
+  }
+
+  /**
+   * Reloads trades, positions, accounting and the paper venue's balances and
+   * open orders from the state store so a restart resumes where the previous
+   * session stopped.
+   */
+  private async restoreState(): Promise<void> {
+    try {
+      const [trades, positions, closedPositions, portfolioState, exchangeState] = await Promise.all([
+        this.stateStore.getTrades(),
+        this.stateStore.getPositions(),
+        this.stateStore.getClosedPositions(),
+        this.stateStore.getPortfolioState(),
+        this.stateStore.getPaperExchangeState()
+      ]);
+
+      this.tradeHistory = trades;
+      this.positionManager.restore(positions, closedPositions);
+      if (portfolioState) {
+        this.accounting.importState(portfolioState);
       }
-    };
+      if (exchangeState) {
+        this.exchange.importState?.(exchangeState);
+      }
+
+      this.activePositions.clear();
+      positions.forEach(position => {
+        const entry = trades.find(trade => trade.id === position.entryOrderId);
+        if (entry) this.activePositions.set(position.symbol, entry);
+      });
+    } catch (error) {
+      console.error('Error restoring trading state:', error);
+    }
+  }
+
+  private persistPosition(symbol: string): void {
+    const position = this.positionManager.getPosition(symbol);
+    const task = position ? this.stateStore.savePosition(position) : this.stateStore.deletePosition(symbol);
+    this.persist(task, `position for ${symbol}`);
+  }
+
+  private persistPortfolio(): void {
+    this.persist(this.stateStore.savePortfolioState(this.accounting.exportState()), 'portfolio');
+  }
+
+  private persistExchange(): void {
+    const state = this.exchange.exportState?.();
+    if (state) {
+      this.persist(this.stateStore.savePaperExchangeState(state), 'paper exchange');
+    }
   }
 
-  private generateTradeId(): string {
-    return `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private persist(task: Promise<void>, description: string): void {
+    task.catch(error => {
+      console.error(`Error persisting ${description}:`, error);
+    });
+  }
+
+  private calculatePositionSize(signal: TradingSignal): number {
+    return calculatePositionSize(signal, this.config.strategy, this.accounting.getTotalValue());
   }
 
-  private initializePortfolio(): Portfolio {
+  private calculatePortfolioRisk(): number {
+    return calculatePortfolioRisk(this.accounting.getPositionValues(), this.accounting.getTotalValue());
+  }
+
+  /**
+   * The signal's flat indicator summary from the prediction's snapshot:
+   * the MACD line, the latest candle's volume and ATR as a fraction of price.
+   */
+  private toSignalIndicators(prediction: PredictionResult, price: number): TechnicalIndicators {
+    const { indicators } = prediction;
     return {
-      totalValue: 100000, // $100k starting portfolio
-      cash: 100000,
-      positions: {},
-      performance: {
-        daily: 0,
-        weekly: 0,
-        monthly: 0,
-        total: 0
-      }
+      rsi: indicators.rsi,
+      macd: indicators.macd.macd,
+      bollingerBands: { ...indicators.bollingerBands },
+      movingAverages: {
+        sma20: indicators.movingAverages.sma20,
+        sma50: indicators.movingAverages.sma50,
+        ema12: indicators.movingAverages.ema12,
+        ema26: indicators.movingAverages.ema26
+      },
+      volume: indicators.volume.current,
+      volatility: price > 0 ? indicators.atr / price : 0
     };
   }
 
@@ -311,17 +507,20 @@ export class TradingBot {
         maxPositionSize: 0.1, // 10% max per position
         stopLossPercentage: 5,
         takeProfitPercentage: 15,
+        trailingStopPercentage: 8,
+        maxHoldingPeriodHours: 24 * 14, // close after two weeks
         minConfidence: 0.7
       },
       maxDailyTrades: 5,
       maxPortfolioRisk: 0.3, // 30% max portfolio risk
-      symbols: ['BTC', 'ETH', 'ADA', 'DOT', 'LINK']
+      symbols: ['BTC', 'ETH', 'ADA', 'DOT', 'LINK'],
+      exchange: { mode: 'paper' } // live mode needs restUrl, wsUrl and credentials
     };
   }
 
   // Public methods for UI interaction
   getPortfolio(): Portfolio {
-    return { ...this.portfolio };
+    return this.accounting.getPortfolio(this.tradeHistory);
   }
 
   getActivePositions(): TradeExecution[] {
@@ -332,8 +531,57 @@ export class TradingBot {
     return [...this.tradeHistory];
   }
 
+  // Set while the state store cannot save, e.g. once localStorage is full
+  getStorageError(): string | null {
+    return this.stateStore.getWriteError()?.message || null;
+  }
+
+  getSignalHistory(symbol?: string, limit?: number): Promise<TradingSignal[]> {
+    return this.stateStore.getSignals(symbol, limit);
+  }
+
+  getOpenOrders(): Promise<TradeExecution[]> {
+    return this.exchange.getOpenOrders();
+  }
+
+  cancelOrder(orderId: string): Promise<boolean> {
+    return this.exchange.cancelOrder(orderId);
+  }
+
+  async closePosition(symbol: string): Promise<void> {
+    await this.stateLoaded;
+    const position = this.positionManager.getPosition(symbol);
+    if (!position || position.closing) return;
+
+    this.positionManager.markClosing(symbol);
+    await this.exitPosition({ symbol, reason: 'MANUAL', price: position.lastPrice, position });
+  }
+
+  getManagedPositions(): ManagedPosition[] {
+    return this.positionManager.getOpenPositions();
+  }
+
+  getClosedPositions(): ClosedPosition[] {
+    return this.positionManager.getClosedPositions();
+  }
+
   updateConfig(config: Partial<AutoTradingConfig>): void {
+    if (config.enabled && !this.marketData.hasProvider()) {
+      throw new Error('Cannot enable auto trading without a market data provider');
+    }
+
+    const previousExchange = this.config.exchange;
+    const exchangeChanged = config.exchange !== undefined && config.exchange !== previousExchange;
     this.config = { ...this.config, ...config };
+
+    if (exchangeChanged) {
+      this.switchExchange(this.config.exchange).catch(error => {
+        console.error('Error switching exchange:', error);
+        if (this.config.exchange === config.exchange) {
+          this.config = { ...this.config, exchange: previousExchange };
+        }
+      });
+    }
   }
 
   getConfig(): AutoTradingConfig {
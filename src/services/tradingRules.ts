@@ -0,0 +1,71 @@
+import { TradingSignal } from '../types/trading';
+import type { AutoTradingConfig, TradingStrategy } from './tradingBot';
+
+export type SignalCandidate = Pick<TradingSignal, 'symbol' | 'confidence' | 'price'>;
+
+export interface TradingRuleContext {
+  config: Pick<AutoTradingConfig, 'strategy' | 'maxDailyTrades' | 'maxPortfolioRisk'>;
+  tradesToday: number;
+  openSymbols: Set<string>;
+  portfolioRisk: number;
+}
+
+/**
+ * Pre-trade checks shared by the live bot and the backtester, so both apply
+ * exactly the same daily limit, position, confidence and risk gates.
+ */
+export function shouldExecuteTrade(signal: SignalCandidate, context: TradingRuleContext): boolean {
+  // Check daily trade limit
+  if (context.tradesToday >= context.config.maxDailyTrades) {
+    return false;
+  }
+
+  // Check if we already have a position
+  if (context.openSymbols.has(signal.symbol)) {
+    return false;
+  }
+
+  // Check confidence threshold
+  if (signal.confidence < context.config.strategy.minConfidence) {
+    return false;
+  }
+
+  // Check portfolio risk
+  if (context.portfolioRisk >= context.config.maxPortfolioRisk) {
+    return false;
+  }
+
+  return true;
+}
+
+export function calculatePositionSize(
+  signal: SignalCandidate,
+  strategy: TradingStrategy,
+  portfolioValue: number
+): number {
+  const maxPositionValue = portfolioValue * strategy.maxPositionSize;
+  const positionSize = maxPositionValue / signal.price;
+
+  // Adjust based on confidence and risk
+  const confidenceMultiplier = signal.confidence;
+  const riskMultiplier = getRiskMultiplier(strategy);
+
+  return positionSize * confidenceMultiplier * riskMultiplier;
+}
+
+export function getRiskMultiplier(strategy: TradingStrategy): number {
+  switch (strategy.riskTolerance) {
+    case 'LOW': return 0.5;
+    case 'MEDIUM': return 0.75;
+    case 'HIGH': return 1.0;
+    default: return 0.75;
+  }
+}
+
+export function calculatePortfolioRisk(positionValues: number[], portfolioValue: number): number {
+  if (portfolioValue <= 0) return 0;
+
+  return positionValues.reduce((totalRisk, value) => {
+    return totalRisk + (value / portfolioValue) * 0.1; // 10% risk per position
+  }, 0);
+}
\ No newline at end of file
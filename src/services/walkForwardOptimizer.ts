@@ -0,0 +1,386 @@
+import { Backtester, BacktestConfig, BacktestStats } from './backtester';
+import { createRandom } from './mlModels';
+import { PredictionEngine, PredictionEngineConfig } from './predictionEngine';
+import { SentimentAnalyzer } from './sentimentAnalyzer';
+import type { TradingStrategy } from './tradingBot';
+import { Candle } from '../types/trading';
+
+export interface PredictionParameters {
+  technicalWeight: number;
+  sentimentWeight: number;
+  marketWeight: number;
+  buyThreshold: number;
+  sellThreshold: number;
+  newsWeight: number;
+  twitterWeight: number;
+  redditWeight: number;
+  telegramWeight: number;
+}
+
+// Candidate values per parameter; parameters left out stay at the baseline
+export type ParameterSearchSpace = Partial<Record<keyof PredictionParameters, number[]>>;
+
+export type OptimizationObjective = 'SHARPE' | 'SORTINO' | 'TOTAL_RETURN' | 'HIT_RATIO' | 'PROFIT_FACTOR';
+
+export interface WalkForwardConfig {
+  trainSize: number; // candles per in-sample window
+  testSize: number; // candles per out-of-sample window
+  stepSize: number; // candles the windows advance by
+  anchored: boolean; // in-sample windows all start at the first candle
+  search: 'GRID' | 'RANDOM';
+  iterations: number; // candidates sampled per window by RANDOM search
+  seed: number;
+  objective: OptimizationObjective;
+  minTrades: number; // in-sample runs with fewer trades cannot be selected
+  searchSpace: ParameterSearchSpace;
+  backtest: BacktestConfig;
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  trainStart: Date;
+  trainEnd: Date;
+  testStart: Date;
+  testEnd: Date;
+  parameters: PredictionParameters;
+  candidatesEvaluated: number;
+  inSampleScore: number;
+  baselineInSampleScore: number;
+  outOfSampleScore: number;
+  baselineOutOfSampleScore: number;
+  inSampleStats: BacktestStats;
+  outOfSampleStats: BacktestStats;
+  insufficientTrades: boolean; // no candidate reached minTrades, so the baseline was kept
+}
+
+export interface WalkForwardReport {
+  symbol: string;
+  objective: OptimizationObjective;
+  windows: WalkForwardWindow[];
+  baseline: PredictionParameters;
+  meanInSampleScore: number;
+  meanOutOfSampleScore: number;
+  meanBaselineOutOfSampleScore: number;
+  efficiency: number; // out-of-sample over in-sample score; well below 1 suggests overfitting
+  outOfSampleReturn: number; // compounded across test windows
+  recommendedParameters: PredictionParameters;
+  overfit: boolean;
+  warnings: string[];
+}
+
+interface Segment {
+  start: number;
+  end: number; // exclusive
+}
+
+// Keeps a run with no losing trades from swamping the window averages
+const MAX_PROFIT_FACTOR = 10;
+
+/**
+ * Tunes the rule-based prediction weights and thresholds with walk-forward
+ * analysis: parameters are searched on each in-sample window, then scored
+ * untouched on the window that follows it.
+ */
+export class WalkForwardOptimizer {
+  private static instance: WalkForwardOptimizer;
+
+  static getInstance(): WalkForwardOptimizer {
+    if (!WalkForwardOptimizer.instance) {
+      WalkForwardOptimizer.instance = new WalkForwardOptimizer();
+    }
+    return WalkForwardOptimizer.instance;
+  }
+
+  getDefaultConfig(strategy: TradingStrategy): WalkForwardConfig {
+    return {
+      trainSize: 500,
+      testSize: 100,
+      stepSize: 100,
+      anchored: false,
+      search: 'RANDOM',
+      iterations: 30,
+      seed: 42,
+      objective: 'SHARPE',
+      minTrades: 3,
+      searchSpace: {
+        technicalWeight: [0.3, 0.5, 0.7],
+        sentimentWeight: [0.1, 0.3],
+        marketWeight: [0.1, 0.2, 0.3],
+        buyThreshold: [0.2, 0.3, 0.4],
+        sellThreshold: [-0.4, -0.3, -0.2]
+      },
+      backtest: Backtester.getInstance().getDefaultConfig(strategy)
+    };
+  }
+
+  /**
+   * The parameters the shared prediction engine currently runs with.
+   */
+  getBaselineParameters(): PredictionParameters {
+    const config = PredictionEngine.getInstance().getConfig();
+    const sources = config.sentimentWeights || SentimentAnalyzer.getInstance().getSourceWeights();
+
+    return {
+      technicalWeight: config.weights.technical,
+      sentimentWeight: config.weights.sentiment,
+      marketWeight: config.weights.market,
+      buyThreshold: config.buyThreshold,
+      sellThreshold: config.sellThreshold,
+      newsWeight: sources.news,
+      twitterWeight: sources.twitter,
+      redditWeight: sources.reddit,
+      telegramWeight: sources.telegram
+    };
+  }
+
+  toEngineConfig(parameters: PredictionParameters): PredictionEngineConfig {
+    return {
+      weights: {
+        technical: parameters.technicalWeight,
+        sentiment: parameters.sentimentWeight,
+        market: parameters.marketWeight
+      },
+      buyThreshold: parameters.buyThreshold,
+      sellThreshold: parameters.sellThreshold,
+      sentimentWeights: {
+        news: parameters.newsWeight,
+        twitter: parameters.twitterWeight,
+        reddit: parameters.redditWeight,
+        telegram: parameters.telegramWeight
+      }
+    };
+  }
+
+  async optimize(
+    symbol: string,
+    candles: Candle[],
+    strategy: TradingStrategy,
+    options: Partial<WalkForwardConfig> = {}
+  ): Promise<WalkForwardReport> {
+    const config = { ...this.getDefaultConfig(strategy), ...options };
+    const sorted = [...candles].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const baseline = this.getBaselineParameters();
+    const windows = this.createWindows(sorted.length, config);
+
+    if (windows.length === 0) {
+      throw new Error(
+        `Walk-forward for ${symbol} needs at least ${config.backtest.warmupPeriod + config.trainSize + config.testSize} candles`
+      );
+    }
+
+    const results: WalkForwardWindow[] = [];
+
+    for (let index = 0; index < windows.length; index++) {
+      const { train, test } = windows[index];
+      const candidates = this.generateCandidates(baseline, config, index);
+
+      let best: { parameters: PredictionParameters; score: number; stats: BacktestStats } | null = null;
+      let baselineTrain: BacktestStats | null = null;
+
+      for (const parameters of candidates) {
+        const stats = await this.runSegment(symbol, sorted, train, parameters, config);
+        if (parameters === baseline) baselineTrain = stats;
+        if (stats.totalTrades < config.minTrades) continue;
+
+        const score = this.score(stats, config.objective);
+        if (!best || score > best.score) {
+          best = { parameters, score, stats };
+        }
+      }
+
+      const selected = best || {
+        parameters: baseline,
+        score: this.score(baselineTrain!, config.objective),
+        stats: baselineTrain!
+      };
+      const testStats = await this.runSegment(symbol, sorted, test, selected.parameters, config);
+      const baselineTestStats = selected.parameters === baseline
+        ? testStats
+        : await this.runSegment(symbol, sorted, test, baseline, config);
+
+      results.push({
+        index,
+        trainStart: sorted[train.start].timestamp,
+        trainEnd: sorted[train.end - 1].timestamp,
+        testStart: sorted[test.start].timestamp,
+        testEnd: sorted[test.end - 1].timestamp,
+        parameters: selected.parameters,
+        candidatesEvaluated: candidates.length,
+        inSampleScore: selected.score,
+        baselineInSampleScore: this.score(baselineTrain!, config.objective),
+        outOfSampleScore: this.score(testStats, config.objective),
+        baselineOutOfSampleScore: this.score(baselineTestStats, config.objective),
+        inSampleStats: selected.stats,
+        outOfSampleStats: testStats,
+        insufficientTrades: !best
+      });
+    }
+
+    return this.buildReport(symbol, config, baseline, results);
+  }
+
+  private createWindows(length: number, config: WalkForwardConfig): { train: Segment; test: Segment }[] {
+    const windows: { train: Segment; test: Segment }[] = [];
+    const first = config.backtest.warmupPeriod;
+    const step = Math.max(1, config.stepSize);
+
+    for (let offset = 0; first + offset + config.trainSize + config.testSize <= length; offset += step) {
+      const trainEnd = first + offset + config.trainSize;
+      windows.push({
+        train: { start: config.anchored ? first : first + offset, end: trainEnd },
+        test: { start: trainEnd, end: trainEnd + config.testSize }
+      });
+    }
+
+    return windows;
+  }
+
+  /**
+   * The baseline is always the first candidate so every window can be
+   * compared against what production runs today.
+   */
+  private generateCandidates(
+    baseline: PredictionParameters,
+    config: WalkForwardConfig,
+    windowIndex: number
+  ): PredictionParameters[] {
+    const keys = (Object.keys(config.searchSpace) as (keyof PredictionParameters)[])
+      .filter(key => (config.searchSpace[key] || []).length > 0);
+    const seen = new Set([JSON.stringify(baseline)]);
+    const candidates: PredictionParameters[] = [baseline];
+    const add = (parameters: PredictionParameters) => {
+      const key = JSON.stringify(parameters);
+      if (!seen.has(key)) {
+        seen.add(key);
+        candidates.push(parameters);
+      }
+    };
+
+    if (config.search === 'GRID') {
+      let grid: PredictionParameters[] = [{ ...baseline }];
+      keys.forEach(key => {
+        grid = grid.flatMap(parameters =>
+          config.searchSpace[key]!.map(value => ({ ...parameters, [key]: value }))
+        );
+      });
+      grid.forEach(add);
+    } else {
+      // A different stream per window, still reproducible from the seed
+      const random = createRandom(config.seed + windowIndex);
+      for (let i = 0; i < config.iterations; i++) {
+        const parameters = { ...baseline };
+        keys.forEach(key => {
+          const values = config.searchSpace[key]!;
+          parameters[key] = values[Math.floor(random() * values.length)];
+        });
+        add(parameters);
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Backtests one segment, handing the engine up to `lookback` earlier
+   * candles as warm-up so indicators are primed when the segment opens.
+   */
+  private async runSegment(
+    symbol: string,
+    candles: Candle[],
+    segment: Segment,
+    parameters: PredictionParameters,
+    config: WalkForwardConfig
+  ): Promise<BacktestStats> {
+    const from = Math.max(0, segment.start - config.backtest.lookback);
+    const backtester = new Backtester(new PredictionEngine(this.toEngineConfig(parameters)));
+    const result = await backtester.run(symbol, candles.slice(from, segment.end), {
+      ...config.backtest,
+      warmupPeriod: segment.start - from
+    });
+
+    return result.stats;
+  }
+
+  private score(stats: BacktestStats, objective: OptimizationObjective): number {
+    switch (objective) {
+      case 'SHARPE':
+        return stats.sharpeRatio;
+      case 'SORTINO':
+        return stats.sortinoRatio;
+      case 'TOTAL_RETURN':
+        return stats.totalReturn;
+      case 'HIT_RATIO':
+        return stats.winRate;
+      case 'PROFIT_FACTOR':
+        return Math.min(stats.profitFactor, MAX_PROFIT_FACTOR);
+    }
+  }
+
+  private buildReport(
+    symbol: string,
+    config: WalkForwardConfig,
+    baseline: PredictionParameters,
+    windows: WalkForwardWindow[]
+  ): WalkForwardReport {
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+    const meanInSampleScore = mean(windows.map(window => window.inSampleScore));
+    const meanOutOfSampleScore = mean(windows.map(window => window.outOfSampleScore));
+    const meanBaselineOutOfSampleScore = mean(windows.map(window => window.baselineOutOfSampleScore));
+    const efficiency = meanInSampleScore > 0 ? meanOutOfSampleScore / meanInSampleScore : 0;
+    const outOfSampleReturn = windows.reduce((growth, window) => growth * (1 + window.outOfSampleStats.totalReturn), 1) - 1;
+
+    const warnings: string[] = [];
+    if (meanInSampleScore > 0 && efficiency < 0.5) {
+      warnings.push(`Out-of-sample score keeps only ${(efficiency * 100).toFixed(0)}% of the in-sample score`);
+    }
+    if (meanOutOfSampleScore <= meanBaselineOutOfSampleScore) {
+      warnings.push('Optimized parameters did not beat the baseline out of sample');
+    }
+    const skipped = windows.filter(window => window.insufficientTrades).length;
+    if (skipped > 0) {
+      warnings.push(`${skipped} of ${windows.length} windows had no candidate with ${config.minTrades}+ trades`);
+    }
+
+    return {
+      symbol,
+      objective: config.objective,
+      windows,
+      baseline,
+      meanInSampleScore,
+      meanOutOfSampleScore,
+      meanBaselineOutOfSampleScore,
+      efficiency,
+      outOfSampleReturn,
+      recommendedParameters: this.selectRecommended(windows, baseline),
+      overfit: meanInSampleScore > 0 && (efficiency < 0.5 || meanOutOfSampleScore <= meanBaselineOutOfSampleScore),
+      warnings
+    };
+  }
+
+  /**
+   * Parameters chosen most often across windows, preferring the most recent
+   * on ties. Only in-sample results decide, so the test windows stay an
+   * unbiased report of how the choice holds up. Falls back to the baseline
+   * when no window's choice beat it in sample.
+   */
+  private selectRecommended(windows: WalkForwardWindow[], baseline: PredictionParameters): PredictionParameters {
+    const counts = new Map<string, { parameters: PredictionParameters; count: number; last: number }>();
+
+    windows.forEach(window => {
+      if (window.insufficientTrades || window.inSampleScore <= window.baselineInSampleScore) return;
+      const key = JSON.stringify(window.parameters);
+      const entry = counts.get(key) || { parameters: window.parameters, count: 0, last: 0 };
+      counts.set(key, { ...entry, count: entry.count + 1, last: window.index });
+    });
+
+    let recommended: { parameters: PredictionParameters; count: number; last: number } | null = null;
+    for (const entry of counts.values()) {
+      if (!recommended || entry.count > recommended.count ||
+        (entry.count === recommended.count && entry.last > recommended.last)) {
+        recommended = entry;
+      }
+    }
+
+    return recommended ? recommended.parameters : baseline;
+  }
+}
@@ -1,9 +1,21 @@
-import axios from 'axios';
+import { NewsArticle, NewsFeed } from '../types/news';
+import { SocialMediaData, SocialPost, SocialSource } from '../types/social';
+import { NewsPipeline } from './newsPipeline';
+import { CacheFamilyMetrics, ScraperCache } from './scraperCache';
+import { RedditListingSource } from './socialSources';
+
+const INFLUENCER_SCORE = 100; // likes or upvotes for a post to count as influential
+const HOT_POST_SCORE = 100;
+const TRENDING_WINDOW = 6 * 60 * 60 * 1000;
+const TRENDING_MIN_POSTS = 5;
+const TRENDING_RATIO = 2; // recent posting rate over the earlier rate
 
 export class WebScraperService {
   private static instance: WebScraperService;
-  private cache = new Map<string, { data: any; timestamp: number }>();
-  private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+  private newsPipeline = NewsPipeline.getInstance();
+  private socialSources: SocialSource[] = [new RedditListingSource()];
+
+  constructor(private cache: ScraperCache = new ScraperCache()) {}
 
   static getInstance(): WebScraperService {
     if (!WebScraperService.instance) {
@@ -12,115 +24,175 @@ export class WebScraperService {
     return WebScraperService.instance;
   }
 
-  private isCacheValid(key: string): boolean {
-    const cached = this.cache.get(key);
-    return cached ? Date.now() - cached.timestamp < this.CACHE_DURATION : false;
+  getCache(): ScraperCache {
+    return this.cache;
   }
 
-  async scrapeNewsData(symbol: string): Promise<any[]> {
-    const cacheKey = `news_${symbol}`;
-    if (this.isCacheValid(cacheKey)) {
-      return this.cache.get(cacheKey)!.data;
-    }
+  getCacheMetrics(): Record<string, CacheFamilyMetrics> {
+    return this.cache.getMetrics();
+  }
 
-    try {
-      // Using NewsAPI for crypto news
-      const response = await axios.get(`https://newsapi.org/v2/everything`, {
-        params: {
-          q: `${symbol} cryptocurrency`,
-          sortBy: 'publishedAt',
-          pageSize: 20,
-          apiKey: 'demo' // In production, use environment variable
-        }
-      });
+  /**
+   * Articles from the news pipeline. When no source returns anything the
+   * feed carries placeholder articles flagged `mock`, which callers must not
+   * treat as real news.
+   */
+  async scrapeNewsData(symbol: string): Promise<NewsFeed> {
+    const cacheKey = `news_${symbol}_${this.newsPipeline.getSources().map(source => source.name).join('|')}`;
 
-      const newsData = response.data.articles.map((article: any) => ({
-        title: article.title,
-        description: article.description,
-        url: article.url,
-        publishedAt: article.publishedAt,
-        source: article.source.name,
-        sentiment: this.analyzeSentiment(article.title + ' ' + article.description)
-      }));
-
-      this.cache.set(cacheKey, { data: newsData, timestamp: Date.now() });
-      return newsData;
+    try {
+      // An empty answer is still an answer; only a feed nobody answered is replaced
+      const answered = (feed: NewsFeed) => feed.results.some(result => result.status === 'ok');
+      const feed = this.reviveNewsFeed(
+        await this.cache.get(cacheKey, () => this.newsPipeline.fetch(symbol), { shouldCache: answered })
+      );
+      return answered(feed) ? feed : { ...feed, articles: this.getMockNewsData(symbol), mock: true };
     } catch (error) {
       console.error('Error scraping news:', error);
-      // Return mock data for demo
-      return this.getMockNewsData(symbol);
+      return { symbol, articles: this.getMockNewsData(symbol), results: [], mock: true, fetchedAt: new Date() };
     }
   }
 
-  async scrapeSocialMedia(symbol: string): Promise<any> {
-    const cacheKey = `social_${symbol}`;
-    if (this.isCacheValid(cacheKey)) {
-      return this.cache.get(cacheKey)!.data;
-    }
+  getSocialSources(): SocialSource[] {
+    return [...this.socialSources];
+  }
+
+  setSocialSources(sources: SocialSource[]): void {
+    this.socialSources = [...sources];
+  }
+
+  addSocialSource(source: SocialSource): void {
+    this.socialSources.push(source);
+  }
+
+  /**
+   * Collects posts about the symbol from every configured source. Sources
+   * that fail are logged and skipped; if all of them fail there is no data.
+   */
+  async scrapeSocialMedia(symbol: string): Promise<SocialMediaData | null> {
+    // Keyed by source too, so changing the sources does not serve stale data
+    const cacheKey = `social_${symbol}_${this.socialSources.map(source => source.name).join('|')}`;
 
     try {
-      // Mock social media data (in production, integrate with Twitter API, Reddit API)
-      const socialData = {
-        twitter: {
-          mentions: Math.floor(Math.random() * 10000) + 1000,
-          sentiment: (Math.random() - 0.5) * 2,
-          trending: Math.random() > 0.7,
-          influencerMentions: Math.floor(Math.random() * 50)
-        },
-        reddit: {
-          posts: Math.floor(Math.random() * 500) + 100,
-          upvotes: Math.floor(Math.random() * 5000) + 500,
-          sentiment: (Math.random() - 0.5) * 2,
-          hotPosts: Math.floor(Math.random() * 10)
-        },
-        telegram: {
-          channels: Math.floor(Math.random() * 20) + 5,
-          messages: Math.floor(Math.random() * 1000) + 200,
-          sentiment: (Math.random() - 0.5) * 2
-        }
-      };
-
-      this.cache.set(cacheKey, { data: socialData, timestamp: Date.now() });
-      return socialData;
+      const socialData = await this.cache.get(cacheKey, () => this.fetchSocialMedia(symbol), {
+        shouldCache: data => data !== null
+      });
+      return socialData && this.reviveSocialData(socialData);
     } catch (error) {
       console.error('Error scraping social media:', error);
       return null;
     }
   }
 
-  private analyzeSentiment(text: string): number {
-    const positiveWords = ['bullish', 'moon', 'pump', 'buy', 'hodl', 'gains', 'profit', 'surge', 'rally'];
-    const negativeWords = ['bearish', 'dump', 'crash', 'sell', 'loss', 'drop', 'fall', 'decline'];
-    
-    const words = text.toLowerCase().split(' ');
-    let score = 0;
-    
-    words.forEach(word => {
-      if (positiveWords.includes(word)) score += 1;
-      if (negativeWords.includes(word)) score -= 1;
+  private async fetchSocialMedia(symbol: string): Promise<SocialMediaData | null> {
+    const sources = [...this.socialSources];
+    const results = await Promise.allSettled(sources.map(source => source.fetchPosts(symbol)));
+    const posts: SocialPost[] = [];
+    let failures = 0;
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        posts.push(...result.value);
+      } else {
+        failures++;
+        console.error(`Error fetching social source ${sources[index].name}:`, result.reason);
+      }
     });
-    
-    return Math.max(-1, Math.min(1, score / words.length * 10));
+
+    if (sources.length > 0 && failures === sources.length) {
+      return null;
+    }
+    return this.summarizeSocialPosts(posts);
   }
 
-  private getMockNewsData(symbol: string): any[] {
-    return [
-      {
-        title: `${symbol} Shows Strong Technical Indicators`,
-        description: `Technical analysis suggests ${symbol} is showing bullish patterns`,
-        url: '#',
-        publishedAt: new Date().toISOString(),
-        source: 'CryptoNews',
-        sentiment: 0.7
+  private summarizeSocialPosts(posts: SocialPost[]): SocialMediaData {
+    const unique = Array.from(new Map(posts.map(post => [`${post.platform}:${post.id}`, post])).values());
+    const byPlatform = (platform: SocialPost['platform']) => unique.filter(post => post.platform === platform);
+    const twitter = byPlatform('twitter');
+    const reddit = byPlatform('reddit');
+    const telegram = byPlatform('telegram');
+
+    return {
+      twitter: {
+        mentions: twitter.length,
+        trending: this.isTrending(twitter),
+        influencerMentions: twitter.filter(post => post.score >= INFLUENCER_SCORE).length,
+        items: twitter
+      },
+      reddit: {
+        posts: reddit.length,
+        upvotes: reddit.reduce((sum, post) => sum + post.score, 0),
+        hotPosts: reddit.filter(post => post.score >= HOT_POST_SCORE).length,
+        items: reddit
       },
-      {
-        title: `Market Analysis: ${symbol} Price Prediction`,
-        description: `Analysts predict potential growth for ${symbol} in the coming weeks`,
-        url: '#',
-        publishedAt: new Date(Date.now() - 3600000).toISOString(),
-        source: 'CoinDesk',
-        sentiment: 0.5
+      telegram: {
+        channels: new Set(telegram.map(post => post.source)).size,
+        messages: telegram.length,
+        items: telegram
       }
+    };
+  }
+
+  /**
+   * Trending when the last few hours saw clearly more posts than the same
+   * span did on average over the rest of the fetched history.
+   */
+  private isTrending(posts: SocialPost[]): boolean {
+    if (posts.length < TRENDING_MIN_POSTS) return false;
+
+    const now = Date.now();
+    const recent = posts.filter(post => now - post.timestamp.getTime() <= TRENDING_WINDOW).length;
+    const oldest = Math.min(...posts.map(post => post.timestamp.getTime()));
+    const earlierWindows = (now - TRENDING_WINDOW - oldest) / TRENDING_WINDOW;
+    if (earlierWindows < 1) return false;
+
+    return recent >= TRENDING_MIN_POSTS && recent > TRENDING_RATIO * ((posts.length - recent) / earlierWindows);
+  }
+
+  // Dates come back from the persisted cache as strings
+  private reviveNewsFeed(feed: NewsFeed): NewsFeed {
+    return {
+      ...feed,
+      articles: feed.articles.map(article => ({ ...article, publishedAt: new Date(article.publishedAt) })),
+      results: feed.results.map(result => (result.status === 'ok' ? result : { ...result, retryAt: new Date(result.retryAt) })),
+      fetchedAt: new Date(feed.fetchedAt)
+    };
+  }
+
+  // Timestamps come back from the persisted cache as strings
+  private reviveSocialData(data: SocialMediaData): SocialMediaData {
+    const revive = (items: SocialPost[]) => items.map(post => ({ ...post, timestamp: new Date(post.timestamp) }));
+    return {
+      twitter: { ...data.twitter, items: revive(data.twitter.items) },
+      reddit: { ...data.reddit, items: revive(data.reddit.items) },
+      telegram: { ...data.telegram, items: revive(data.telegram.items) }
+    };
+  }
+
+  private getMockNewsData(symbol: string): NewsArticle[] {
+    const article = (title: string, description: string, publishedAt: Date): NewsArticle => ({
+      id: `mock-${symbol}-${publishedAt.getTime()}`,
+      title,
+      description,
+      url: '#',
+      publishedAt,
+      publisher: 'Mock',
+      provider: 'mock',
+      reputation: 0,
+      coverage: []
+    });
+
+    return [
+      article(
+        `${symbol} Shows Strong Technical Indicators`,
+        `Technical analysis suggests ${symbol} is showing bullish patterns`,
+        new Date()
+      ),
+      article(
+        `Market Analysis: ${symbol} Price Prediction`,
+        `Analysts predict potential growth for ${symbol} in the coming weeks`,
+        new Date(Date.now() - 3600000)
+      )
     ];
   }
-}
\ No newline at end of file
+}
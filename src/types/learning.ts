@@ -0,0 +1,286 @@
+// Definitions follow the Superalgos node hierarchy shipped under
+// Learning-Engines/, Learning-Mines/ and Learning-Systems/.
+
+export type NodeConfig = Record<string, any>;
+
+export interface DefinitionNode {
+  type: string;
+  name: string;
+  id: string;
+  project?: string;
+  config: NodeConfig; // decoded from the node's `config` JSON string
+  code?: string;
+  referenceParent?: string; // id of the node this one points at, from savedPayload
+  children: Record<string, DefinitionNode>;
+  lists: Record<string, DefinitionNode[]>;
+}
+
+export interface DefinitionIssue {
+  severity: 'error' | 'warning';
+  path: string; // node keys from the root, e.g. Low-Frequency/learningCurrent/learningEpisode
+  message: string;
+}
+
+export type InitialValue = number | string | boolean;
+
+export interface ValueDefinition {
+  id: string;
+  name: string;
+  type: string;
+  initialValue: InitialValue;
+  formula?: string;
+}
+
+export interface LearningEpisodeDefinition {
+  id: string;
+  values: {
+    serialNumber: ValueDefinition;
+    identifier: ValueDefinition;
+    begin: ValueDefinition;
+    end: ValueDefinition;
+    beginRate: ValueDefinition;
+    endRate: ValueDefinition;
+    status: ValueDefinition;
+    exitType: ValueDefinition;
+    headOfTheMarket: ValueDefinition;
+    processDate: ValueDefinition;
+  };
+  counters: {
+    periods: ValueDefinition;
+    hits: ValueDefinition;
+    fails: ValueDefinition;
+    userDefined: ValueDefinition[];
+  };
+  statistics: {
+    hitFail: ValueDefinition;
+    days: ValueDefinition;
+    userDefined: ValueDefinition[];
+  };
+  candle: Record<'begin' | 'end' | 'open' | 'close' | 'min' | 'max' | 'index', ValueDefinition>;
+  cycle: Record<'begin' | 'end' | 'lastBegin' | 'lastEnd', ValueDefinition>;
+  distanceToLearningEvent: DefinitionNode;
+}
+
+export type LearningItemKind = 'Feature' | 'Label' | 'Prediction';
+
+export interface LearningItemDefinition {
+  id: string;
+  name: string;
+  kind: LearningItemKind;
+  index: number;
+  initialValue: InitialValue;
+  begin: ValueDefinition;
+  end: ValueDefinition;
+  value: ValueDefinition;
+  formula?: string; // on the item itself or on its value node
+}
+
+export interface LearningEngineDefinition {
+  id: string;
+  name: string;
+  codeName: string;
+  learningEpisode: LearningEpisodeDefinition;
+  features: LearningItemDefinition[];
+  labels: LearningItemDefinition[];
+  predictions: LearningItemDefinition[];
+  root: DefinitionNode;
+  warnings: DefinitionIssue[];
+}
+
+export interface DatasetDefinition {
+  id: string;
+  name: string;
+  codeName: string;
+  type: string; // 'Market Files' or 'Daily Files'
+  validTimeFrames: string[];
+  filePath: string;
+  fileName: string;
+  config: NodeConfig;
+}
+
+export interface RecordPropertyDefinition {
+  id: string;
+  name: string;
+  codeName: string;
+  isString: boolean;
+  isCalculated: boolean;
+  nodePath?: string;
+  childProperty?: string;
+  index?: number;
+  decimals?: number;
+  formula?: string;
+}
+
+export interface ProductDefinition {
+  id: string;
+  name: string;
+  codeName: string;
+  folder: string; // product definition folders from the bot down, joined with '/'
+  singularVariableName: string;
+  pluralVariableName: string;
+  nodePath: string;
+  nodePathType?: 'array';
+  plotterModuleId?: string; // the Plotter Module that draws this product
+  datasets: DatasetDefinition[];
+  record: RecordPropertyDefinition[];
+  config: NodeConfig;
+}
+
+export interface ProcessDefinition {
+  id: string;
+  name: string;
+  codeName: string;
+  config: NodeConfig;
+}
+
+export interface LearningBotDefinition {
+  id: string;
+  name: string;
+  codeName: string;
+  processes: ProcessDefinition[];
+  products: ProductDefinition[];
+}
+
+export interface PanelDataDefinition {
+  id: string;
+  name: string;
+  formula?: string;
+  valueDecimals?: number;
+}
+
+export interface PlotterPanelDefinition {
+  id: string;
+  name: string;
+  codeName: string;
+  data: PanelDataDefinition[];
+}
+
+export interface PlotterModuleDefinition {
+  id: string;
+  name: string;
+  codeName: string;
+  panels: PlotterPanelDefinition[];
+  node: DefinitionNode; // shapes, record values and node views stay in the raw tree
+}
+
+export interface PlotterDefinition {
+  id: string;
+  name: string;
+  codeName: string;
+  modules: PlotterModuleDefinition[];
+}
+
+export interface LearningMineDefinition {
+  id: string;
+  name: string;
+  codeName: string;
+  bots: LearningBotDefinition[];
+  plotters: PlotterDefinition[];
+  root: DefinitionNode;
+  warnings: DefinitionIssue[];
+}
+
+export interface TrainingDataDefinition {
+  id: string;
+  name: string;
+  references: string[]; // one indicator reference per line, e.g. chart.at01min.bollingerBand
+}
+
+export interface LearningSystemDefinition {
+  id: string;
+  name: string;
+  trainingData: TrainingDataDefinition[];
+  root: DefinitionNode;
+  warnings: DefinitionIssue[];
+}
+
+// Runtime state mirrors the definition's node keys so Learning Mine
+// `nodePath`s such as learningEngine.learningCurrent.learningEpisode.cycle
+// resolve against it directly. Times are epoch milliseconds.
+
+export interface CandleState {
+  begin: number;
+  end: number;
+  open: number;
+  close: number;
+  min: number;
+  max: number;
+  index: number;
+}
+
+export interface CycleState {
+  begin: number;
+  end: number;
+  lastBegin: number;
+  lastEnd: number;
+}
+
+export interface LearningEpisodeState {
+  serialNumber: number;
+  identifier: string;
+  begin: number;
+  end: number;
+  beginRate: number;
+  endRate: number;
+  status: string; // 'Not Open', 'Open' or 'Closed'
+  exitType: string;
+  headOfTheMarket: boolean;
+  processDate: number;
+  learningEpisodeCounters: {
+    periods: number;
+    // One per scored label prediction, so with several labels hits + fails exceeds periods
+    hits: number;
+    fails: number;
+    userDefinedCounters: number[];
+  };
+  learningEpisodeStatistics: {
+    hitFail: string;
+    days: number;
+    userDefinedStatistics: number[];
+  };
+  distanceToLearningEvent: Record<string, number>;
+  candle: CandleState;
+  cycle: CycleState;
+}
+
+export interface FeatureState {
+  begin: number;
+  end: number;
+  featureValue: number;
+}
+
+export interface LabelState {
+  begin: number;
+  end: number;
+  labelValue: number;
+}
+
+export interface PredictionState {
+  begin: number;
+  end: number;
+  predictionValue: number;
+}
+
+export interface LearningEngineState {
+  learningCurrent: { learningEpisode: LearningEpisodeState };
+  features: { features: FeatureState[] };
+  labels: { labels: LabelState[] };
+  predictions: { predictions: PredictionState[] };
+}
+
+// Learning System state is rebuilt every cycle and read by the mine's
+// `nodePath: "learningSystem"` products. Message entries follow the layout
+// the Superalgos plotters index into: [nodeId, message, docs, rate].
+export type LearningSystemMessage = [string, string, string, number];
+
+export interface LearningSystemState {
+  highlights: string[]; // nodes evaluated this cycle
+  errors: LearningSystemMessage[];
+  warnings: LearningSystemMessage[];
+  infos: LearningSystemMessage[];
+  values: [string, number][];
+  status: [string, string][];
+  progress: [string, number][]; // percent complete per process
+  running: string[];
+  announcements: [string, string][];
+}
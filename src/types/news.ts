@@ -0,0 +1,36 @@
+// News articles as the scraper hands them to sentiment analysis, plus the
+// per-source outcome of each fetch so failures are never mistaken for data.
+
+export interface FetchedNewsArticle {
+  id: string; // the article url when the source has one
+  title: string;
+  description: string;
+  url: string;
+  publishedAt: Date;
+  publisher: string; // outlet that ran it, e.g. CoinDesk
+  provider: string; // news source that fetched it, e.g. newsapi
+}
+
+export interface NewsArticle extends FetchedNewsArticle {
+  reputation: number; // 0..1 weight of the publisher
+  coverage: string[]; // other publishers that ran a near-identical headline
+}
+
+export interface NewsSource {
+  readonly name: string;
+  readonly minInterval?: number; // ms between requests, overrides the pipeline default
+  fetchArticles(symbol: string): Promise<FetchedNewsArticle[]>;
+}
+
+export type NewsSourceResult =
+  | { source: string; status: 'ok'; articles: number }
+  | { source: string; status: 'error'; error: string; retryAt: Date }
+  | { source: string; status: 'rate-limited'; retryAt: Date };
+
+export interface NewsFeed {
+  symbol: string;
+  articles: NewsArticle[];
+  results: NewsSourceResult[];
+  mock: boolean; // placeholder articles because no source returned any; not real news
+  fetchedAt: Date;
+}
@@ -0,0 +1,41 @@
+// Posts from social sources, normalized so sentiment and volume can be
+// computed the same way whatever API or export they came from.
+
+export type SocialPlatform = 'twitter' | 'reddit' | 'telegram';
+
+export interface SocialPost {
+  id: string;
+  platform: SocialPlatform;
+  source: string; // adapter name, e.g. reddit:r/CryptoCurrency
+  author: string;
+  text: string;
+  score: number; // upvotes, likes or reaction count; 0 when the source has none
+  timestamp: Date;
+  url?: string;
+}
+
+export interface SocialSource {
+  readonly name: string;
+  readonly platform: SocialPlatform;
+  fetchPosts(symbol: string): Promise<SocialPost[]>;
+}
+
+export interface SocialMediaData {
+  twitter: {
+    mentions: number;
+    trending: boolean;
+    influencerMentions: number;
+    items: SocialPost[];
+  };
+  reddit: {
+    posts: number;
+    upvotes: number;
+    hotPosts: number;
+    items: SocialPost[];
+  };
+  telegram: {
+    channels: number;
+    messages: number;
+    items: SocialPost[];
+  };
+}
@@ -10,6 +10,8 @@ export interface TradingSignal {
   timestamp: Date;
   technicalIndicators: TechnicalIndicators;
   sentimentScore: number;
+  newsScore: number;
+  socialScore: number;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
 }
 
@@ -51,9 +53,19 @@ export interface MarketData {
   marketCap: number;
   priceChange24h: number;
   priceHistory: PricePoint[];
+  candles: Candle[];
   orderBook: OrderBook;
 }
 
+export interface Candle {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
 export interface PricePoint {
   timestamp: Date;
   price: number;
@@ -65,6 +77,8 @@ export interface OrderBook {
   asks: [number, number][];
 }
 
+export type PredictionHorizon = keyof PredictionModel['predictions'];
+
 export interface PredictionModel {
   symbol: string;
   predictions: {
@@ -73,6 +87,12 @@ export interface PredictionModel {
     '24h': number;
     '7d': number;
   };
+  horizonConfidence: {
+    '1h': number;
+    '4h': number;
+    '24h': number;
+    '7d': number;
+  };
   confidence: number;
   factors: string[];
   lastUpdated: Date;
@@ -92,6 +112,7 @@ export interface TradeExecution {
 
 export interface Portfolio {
   totalValue: number;
+  cash: number;
   assets: {
     [symbol: string]: {
       amount: number;
@@ -99,9 +120,13 @@ export interface Portfolio {
       currentPrice: number;
       pnl: number;
       pnlPercentage: number;
+      realizedPnl: number;
     };
   };
   trades: TradeExecution[];
+  realizedPnl: number;
+  unrealizedPnl: number;
+  fees: number;
   performance: {
     daily: number;
     weekly: number;